@@ -0,0 +1,90 @@
+/* eslint-disable no-restricted-globals */
+/**
+ * Caches the app shell, the seed POIs and the globe textures so the map loads with no network.
+ * Registered from src/serviceWorkerRegistration.ts in production builds.
+ * Bump CACHE_VERSION when the list of precached files changes.
+ */
+const CACHE_VERSION = 'v1';
+const CACHE_NAME = `europa-map-${CACHE_VERSION}`;
+
+const PRECACHE_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/favicon.ico',
+  '/logo192.png',
+  '/resources/europa-pois.json',
+  '/textures/Dh_europa_texture.webp',
+  '/textures/europa-heightmap.jpg',
+  '/textures/2k_jupiter.jpg',
+  '/textures/2k_stars_milky_way.jpg'
+];
+
+// Build output (hashed scripts and styles) listed by react-scripts
+const buildAssets = async () => {
+  try {
+    const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+    const manifest = await response.json();
+    return Object.values(manifest.files || {}).filter(url => !url.endsWith('.map'));
+  } catch {
+    return [];
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll([...PRECACHE_URLS, ...(await buildAssets())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('europa-map-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Fetch and store a fresh copy, falling back to the cache when offline
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Serve from the cache, only going to the network for files not cached yet
+const cacheFirst = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls and live updates go straight to the network - the app queues its own writes
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Any route falls back to the cached shell
+    event.respondWith(networkFirst(request).catch(() => caches.match('/index.html')));
+  } else if (url.pathname.startsWith('/textures/') || url.pathname.startsWith('/static/')) {
+    // Textures are large and build assets are content-hashed, so neither changes under the same URL
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * Stand-in live updates server for development.
+ * Relays every event POSTed to /events to all clients streaming GET /events as server-sent events.
+ * Nothing is stored - clients resync from their own storage after reconnecting.
+ *
+ *   npm run live-server
+ *   REACT_APP_LIVE_URL=http://localhost:4001/events npm start
+ */
+const http = require('http');
+
+const PORT = Number(process.env.LIVE_PORT) || 4001;
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 15000;
+
+const clients = new Set();
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const broadcast = message => {
+  const frame = `data: ${JSON.stringify(message)}\n\n`;
+  clients.forEach(client => client.write(frame));
+};
+
+const stream = (req, res) => {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.write(': connected\n\n');
+  clients.add(res);
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+};
+
+const relay = (req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      res.writeHead(413, CORS_HEADERS).end();
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      res.writeHead(400, CORS_HEADERS).end('Invalid JSON');
+      return;
+    }
+    if (!message || typeof message.origin !== 'string' || !message.event || typeof message.event.type !== 'string') {
+      res.writeHead(400, CORS_HEADERS).end('Expected { origin, event }');
+      return;
+    }
+    broadcast(message);
+    res.writeHead(204, CORS_HEADERS).end();
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+  } else if (pathname !== '/events') {
+    res.writeHead(404, CORS_HEADERS).end();
+  } else if (req.method === 'GET') {
+    stream(req, res);
+  } else if (req.method === 'POST') {
+    relay(req, res);
+  } else {
+    res.writeHead(405, CORS_HEADERS).end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Live updates relay listening on http://localhost:${PORT}/events`);
+});
@@ -1,11 +1,28 @@
 import React, { Suspense, useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import { OrbitControls } from '@react-three/drei';
 import './App.css';
-import EuropaSphere from './components/EuropaSphere';
+import EuropaSphere, { ClusterView } from './components/EuropaSphere';
 import LoadingScreen from './components/LoadingScreen';
 import UIOverlay from './components/UIOverlay';
 import StableCanvas from './components/StableCanvas';
+import ReportPanel from './components/ReportPanel';
+import UndoToast from './components/UndoToast';
+import CameraFlyTo, { FlyToTarget } from './components/CameraFlyTo';
+import CameraSync from './components/CameraSync';
+import MeasurePanel from './components/MeasurePanel';
+import NearestPanel from './components/NearestPanel';
+import DrawPanel from './components/DrawPanel';
+import FeatureInspector from './components/FeatureInspector';
+import { AuthProvider } from './context/AuthContext';
+import { LiveProvider } from './context/LiveContext';
 import { POIProvider } from './context/POIContext';
+import { ReportProvider } from './context/ReportContext';
+import { AnnotationProvider } from './context/AnnotationContext';
+import { FeatureKind, POI } from './types';
+import { LatLng } from './geodesy';
+import { POIFilters, EMPTY_FILTERS } from './utils/search';
+import { DEFAULT_HEATMAP_SETTINGS, HeatmapSettings } from './utils/heatmap';
+import { CameraViewState, decodeMapState, replaceHashState } from './utils/urlState';
 
 // Memoized Canvas component to prevent unnecessary re-renders - now using our stable version
 const MemoizedCanvas = memo(({ children, ...props }: any) => (
@@ -14,7 +31,7 @@ const MemoizedCanvas = memo(({ children, ...props }: any) => (
 
 // Define type for the Europa sphere ref
 type EuropaSphereRef = { 
-  addMarker: (lat: number, long: number, title: string, description: string, category: string) => void 
+  addMarker: (lat: number, long: number, title: string, description: string, category: string, factionId?: string) => void 
 } | null;
 
 // Define type for SceneContent props
@@ -27,10 +44,38 @@ interface SceneContentProps {
     poles: boolean;
     poi: boolean;
     voronoi: boolean;
+    heatmap: boolean;
+    measurements: boolean;
+    features: boolean;
+    checkIns: boolean;
   };
   isMarkerMode: boolean;
   onMarkerPlaced: (lat: number, long: number) => void;
   voronoiOpacity: number;
+  heatmapSettings: HeatmapSettings;
+  selectedPOIId: string | null;
+  onPOISelect: (id: string) => void;
+  onClusterSelect: (view: ClusterView) => void;
+  timelineTime: number | null;
+  movingPOIId: string | null;
+  onPOIMoved: (id: string) => void;
+  poiFilters: POIFilters;
+  flyToTarget: FlyToTarget | null;
+  initialCameraView?: CameraViewState;
+  onCameraViewChange: (view: CameraViewState) => void;
+  isMeasureMode: boolean;
+  measurePoints: LatLng[];
+  measureClosed: boolean;
+  onMeasurePoint: (point: LatLng) => void;
+  isNearestMode: boolean;
+  nearestOrigin: LatLng | null;
+  routePath: LatLng[] | null;
+  onNearestPoint: (point: LatLng) => void;
+  drawKind: FeatureKind | null;
+  drawPoints: LatLng[];
+  onDrawPoint: (point: LatLng) => void;
+  selectedFeatureId: string | null;
+  onFeatureSelect: (id: string) => void;
 }
 
 // Memoized scene content
@@ -39,7 +84,31 @@ const SceneContent = memo(({
   layerVisibility, 
   isMarkerMode, 
   onMarkerPlaced,
-  voronoiOpacity
+  voronoiOpacity,
+  heatmapSettings,
+  selectedPOIId,
+  onPOISelect,
+  onClusterSelect,
+  timelineTime,
+  movingPOIId,
+  onPOIMoved,
+  poiFilters,
+  flyToTarget,
+  initialCameraView,
+  onCameraViewChange,
+  isMeasureMode,
+  measurePoints,
+  measureClosed,
+  onMeasurePoint,
+  isNearestMode,
+  nearestOrigin,
+  routePath,
+  onNearestPoint,
+  drawKind,
+  drawPoints,
+  onDrawPoint,
+  selectedFeatureId,
+  onFeatureSelect
 }: SceneContentProps) => (
   <>
     {/* Improved lighting setup */}
@@ -61,11 +130,33 @@ const SceneContent = memo(({
       isMarkerMode={isMarkerMode}
       onMarkerPlaced={onMarkerPlaced}
       voronoiOpacity={voronoiOpacity}
+      heatmapSettings={heatmapSettings}
+      selectedPOIId={selectedPOIId}
+      onPOISelect={onPOISelect}
+      onClusterSelect={onClusterSelect}
+      timelineTime={timelineTime}
+      movingPOIId={movingPOIId}
+      onPOIMoved={onPOIMoved}
+      filters={poiFilters}
+      isMeasureMode={isMeasureMode}
+      measurePoints={measurePoints}
+      measureClosed={measureClosed}
+      onMeasurePoint={onMeasurePoint}
+      isNearestMode={isNearestMode}
+      nearestOrigin={nearestOrigin}
+      routePath={routePath}
+      onNearestPoint={onNearestPoint}
+      drawKind={drawKind}
+      drawPoints={drawPoints}
+      onDrawPoint={onDrawPoint}
+      selectedFeatureId={selectedFeatureId}
+      onFeatureSelect={onFeatureSelect}
     />
     <OrbitControls 
+      makeDefault // Lets CameraFlyTo keep the controls in sync
       enableZoom={true} 
       enablePan={false} 
-      enableRotate={true}
+      enableRotate={!movingPOIId} // Dragging in move mode must not rotate the globe
       minDistance={2}
       maxDistance={10}
       enableDamping={true}
@@ -73,23 +164,56 @@ const SceneContent = memo(({
       rotateSpeed={0.5}
       zoomSpeed={0.5}
     />
+    <CameraFlyTo target={flyToTarget} />
+    <CameraSync initialView={initialCameraView} onViewChange={onCameraViewChange} />
   </>
 ));
 
+// Delay before writing the URL hash, so dragging the camera doesn't flood the history API
+const HASH_UPDATE_DELAY_MS = 300;
+
 function App() {
+  // View state shared through the URL hash, read once on load
+  const [initialViewState] = useState(() => decodeMapState(window.location.hash));
+  
   // State for controlling layer visibility
-  const [layerVisibility, setLayerVisibility] = useState({
-    gridLines: true,
-    equator: true,
-    poles: true,
-    poi: true,
-    orientationMarkers: true,
-    voronoi: false // Add Voronoi layer, disabled by default
+  const [layerVisibility, setLayerVisibility] = useState(() => {
+    const defaults = {
+      gridLines: true,
+      equator: true,
+      poles: true,
+      poi: true,
+      orientationMarkers: true,
+      voronoi: false, // Add Voronoi layer, disabled by default
+      heatmap: false, // Density of reports and incidents
+      measurements: true, // Saved measurement annotations
+      features: true, // Zones, lines and circles
+      checkIns: true // Live check-in counts at safe zones
+    };
+    // Only accept layers we know about
+    const restored = Object.fromEntries(
+      Object.entries(initialViewState.layers || {}).filter(([layer]) => layer in defaults)
+    );
+    return { ...defaults, ...restored };
   });
   
   // State for marker creation mode
   const [isMarkerMode, setIsMarkerMode] = useState(false);
   
+  // State for measure mode and the measurement in progress
+  const [isMeasureMode, setIsMeasureMode] = useState(false);
+  const [measurePoints, setMeasurePoints] = useState<LatLng[]>([]);
+  const [measureClosed, setMeasureClosed] = useState(false);
+  
+  // State for nearest mode: the clicked point and the route planned from it
+  const [isNearestMode, setIsNearestMode] = useState(false);
+  const [nearestOrigin, setNearestOrigin] = useState<LatLng | null>(null);
+  const [routePath, setRoutePath] = useState<LatLng[] | null>(null);
+  
+  // State for the kind of feature being drawn (null = not drawing) and its points so far
+  const [drawKind, setDrawKind] = useState<FeatureKind | null>(null);
+  const [drawPoints, setDrawPoints] = useState<LatLng[]>([]);
+  
   // Ref to access EuropaSphere methods
   const europaSphereRef = useRef<EuropaSphereRef>(null);
   
@@ -102,6 +226,63 @@ function App() {
   // State for Voronoi opacity
   const [voronoiOpacity] = useState(0.1);
   
+  // State for the heatmap's kernel radius and time decay
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
+  
+  // State for the POI whose reports are shown in the side panel
+  const [selectedPOIId, setSelectedPOIId] = useState<string | null>(initialViewState.selectedPOIId || null);
+  
+  // State for the selected zone, line or circle
+  const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null);
+  
+  // State for the timeline replay position (null = live)
+  const [timelineTime, setTimelineTime] = useState<number | null>(null);
+  
+  // State for the POI being dragged to a new position
+  const [movingPOIId, setMovingPOIId] = useState<string | null>(null);
+  
+  // State for the most recently deleted POI, offered for undo
+  const [lastDeletedPOI, setLastDeletedPOI] = useState<POI | null>(null);
+  
+  // State for the search box and category/faction filters
+  const [poiFilters, setPOIFilters] = useState<POIFilters>(initialViewState.filters || EMPTY_FILTERS);
+  
+  // State for the latest request to centre the camera on a location
+  const [flyToTarget, setFlyToTarget] = useState<FlyToTarget | null>(null);
+  
+  // Latest camera view - kept in a ref so camera movement doesn't re-render the scene
+  const cameraViewRef = useRef<CameraViewState | undefined>(initialViewState.camera);
+  const viewStateRef = useRef({ layerVisibility, selectedPOIId, poiFilters });
+  const hashTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Write the current view into the URL hash, debounced
+  const scheduleHashUpdate = useCallback(() => {
+    if (hashTimeoutRef.current) clearTimeout(hashTimeoutRef.current);
+    hashTimeoutRef.current = setTimeout(() => {
+      const { layerVisibility, selectedPOIId, poiFilters } = viewStateRef.current;
+      replaceHashState({
+        camera: cameraViewRef.current,
+        layers: layerVisibility,
+        selectedPOIId,
+        filters: poiFilters
+      });
+    }, HASH_UPDATE_DELAY_MS);
+  }, []);
+  
+  useEffect(() => {
+    viewStateRef.current = { layerVisibility, selectedPOIId, poiFilters };
+    scheduleHashUpdate();
+  }, [layerVisibility, selectedPOIId, poiFilters, scheduleHashUpdate]);
+  
+  useEffect(() => () => {
+    if (hashTimeoutRef.current) clearTimeout(hashTimeoutRef.current);
+  }, []);
+  
+  const handleCameraViewChange = useCallback((view: CameraViewState) => {
+    cameraViewRef.current = view;
+    scheduleHashUpdate();
+  }, [scheduleHashUpdate]);
+  
   // Effect to listen for marker-selected events - memoized with useCallback
   const handleMarkerSelected = useCallback((event: any) => {
     if (isMarkerMode) {
@@ -135,6 +316,86 @@ function App() {
       }
       return !prev;
     });
+    setIsMeasureMode(false);
+    setIsNearestMode(false);
+    setDrawKind(null);
+  }, []);
+  
+  // Toggle measure mode, leaving marker mode - memoized with useCallback
+  const toggleMeasureMode = useCallback(() => {
+    setIsMeasureMode(prev => !prev);
+    setIsMarkerMode(false);
+    setIsNearestMode(false);
+    setMarkerModalData(null);
+    setShowModal(false);
+    setDrawKind(null);
+  }, []);
+  
+  // Toggle nearest mode, leaving the other tools - memoized with useCallback
+  const toggleNearestMode = useCallback(() => {
+    setIsNearestMode(prev => !prev);
+    setIsMarkerMode(false);
+    setIsMeasureMode(false);
+    setMarkerModalData(null);
+    setShowModal(false);
+    setDrawKind(null);
+  }, []);
+  
+  // Start drawing a kind of feature (null stops), leaving the other tools - memoized with useCallback
+  const changeDrawKind = useCallback((kind: FeatureKind | null) => {
+    setDrawKind(kind);
+    setDrawPoints([]);
+    setIsMarkerMode(false);
+    setIsMeasureMode(false);
+    setIsNearestMode(false);
+    setMarkerModalData(null);
+    setShowModal(false);
+  }, []);
+  
+  // Add a point to the feature being drawn - a circle keeps its centre and replaces its edge point
+  const handleDrawPoint = useCallback((point: LatLng) => {
+    setDrawPoints(prev => (drawKind === 'circle' && prev.length >= 2 ? [prev[0], point] : [...prev, point]));
+  }, [drawKind]);
+  
+  const undoDrawPoint = useCallback(() => {
+    setDrawPoints(prev => prev.slice(0, -1));
+  }, []);
+  
+  // Select a newly drawn feature once it has been saved
+  const handleFeatureCreated = useCallback((id: string) => {
+    setDrawKind(null);
+    setDrawPoints([]);
+    setSelectedFeatureId(id);
+    setSelectedPOIId(null);
+    setMovingPOIId(null);
+  }, []);
+  
+  // Add a vertex to the measurement in progress - memoized with useCallback
+  const handleMeasurePoint = useCallback((point: LatLng) => {
+    setMeasurePoints(prev => [...prev, point]);
+  }, []);
+  
+  const undoMeasurePoint = useCallback(() => {
+    setMeasurePoints(prev => {
+      const next = prev.slice(0, -1);
+      if (next.length < 3) setMeasureClosed(false);
+      return next;
+    });
+  }, []);
+  
+  const clearMeasurement = useCallback(() => {
+    setMeasurePoints([]);
+    setMeasureClosed(false);
+  }, []);
+  
+  // Search from a new point in nearest mode - memoized with useCallback
+  const handleNearestPoint = useCallback((point: LatLng) => {
+    setNearestOrigin(point);
+  }, []);
+  
+  const clearNearest = useCallback(() => {
+    setNearestOrigin(null);
+    setRoutePath(null);
   }, []);
   
   // Handle when a marker position is selected on the globe - memoized with useCallback
@@ -143,16 +404,69 @@ function App() {
   }, []);
   
   // Create a new marker - memoized with useCallback
-  const createMarker = useCallback((title: string, description: string, category: string) => {
+  const createMarker = useCallback((title: string, description: string, category: string, factionId?: string) => {
     if (markerModalData && europaSphereRef.current) {
       const { lat, long } = markerModalData;
-      europaSphereRef.current.addMarker(lat, long, title, description, category);
+      europaSphereRef.current.addMarker(lat, long, title, description, category, factionId);
       setMarkerModalData(null);
       setIsMarkerMode(false);
       setShowModal(false);
     }
   }, [markerModalData]);
 
+  // Select a POI to show its reports - memoized with useCallback
+  const handlePOISelect = useCallback((id: string) => {
+    setSelectedPOIId(id);
+    setSelectedFeatureId(null);
+    setMovingPOIId(prev => (prev === id ? prev : null));
+  }, []);
+
+  // Select a zone, line or circle to edit it - memoized with useCallback
+  const handleFeatureSelect = useCallback((id: string) => {
+    setSelectedFeatureId(id);
+    setSelectedPOIId(null);
+    setMovingPOIId(null);
+  }, []);
+
+  // Select a search result and fly the camera to it - memoized with useCallback
+  const handleSearchResultSelect = useCallback((poi: POI) => {
+    handlePOISelect(poi.id);
+    setFlyToTarget({ lat: poi.lat, lng: poi.lng, requestedAt: Date.now() });
+  }, [handlePOISelect]);
+
+  // Fly in on a clicked marker cluster until its members fit the view - memoized with useCallback
+  const handleClusterSelect = useCallback((view: ClusterView) => {
+    setFlyToTarget({ ...view, requestedAt: Date.now() });
+  }, []);
+
+  // Leave move mode once the POI has been dropped - memoized with useCallback
+  const handlePOIMoved = useCallback(() => {
+    setMovingPOIId(null);
+  }, []);
+
+  // Close the panel and offer undo after a POI is deleted - memoized with useCallback
+  const handlePOIDeleted = useCallback((poi: POI) => {
+    setSelectedPOIId(null);
+    setMovingPOIId(null);
+    setLastDeletedPOI(poi);
+  }, []);
+
+  const dismissUndo = useCallback(() => {
+    setLastDeletedPOI(null);
+  }, []);
+
+  // Cancel move mode with Escape
+  useEffect(() => {
+    if (!movingPOIId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setMovingPOIId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [movingPOIId]);
+
   // Memoize canvas props
   const canvasProps = useMemo(() => ({
     style: { width: '100vw', height: '100vh' },
@@ -191,39 +505,150 @@ function App() {
           isMarkerMode={isMarkerMode}
           onMarkerPlaced={handleMarkerPlaced}
           voronoiOpacity={voronoiOpacity}
+          heatmapSettings={heatmapSettings}
+          selectedPOIId={selectedPOIId}
+          onPOISelect={handlePOISelect}
+          onClusterSelect={handleClusterSelect}
+          timelineTime={timelineTime}
+          movingPOIId={movingPOIId}
+          onPOIMoved={handlePOIMoved}
+          poiFilters={poiFilters}
+          flyToTarget={flyToTarget}
+          initialCameraView={initialViewState.camera}
+          onCameraViewChange={handleCameraViewChange}
+          isMeasureMode={isMeasureMode}
+          measurePoints={measurePoints}
+          measureClosed={measureClosed}
+          onMeasurePoint={handleMeasurePoint}
+          isNearestMode={isNearestMode}
+          nearestOrigin={nearestOrigin}
+          routePath={routePath}
+          onNearestPoint={handleNearestPoint}
+          drawKind={drawKind}
+          drawPoints={drawPoints}
+          onDrawPoint={handleDrawPoint}
+          selectedFeatureId={selectedFeatureId}
+          onFeatureSelect={handleFeatureSelect}
         />
       </MemoizedCanvas>
     </Suspense>
-  ), [layerVisibility, isMarkerMode, handleMarkerPlaced, canvasProps, voronoiOpacity]);
+  ), [layerVisibility, isMarkerMode, handleMarkerPlaced, canvasProps, voronoiOpacity, heatmapSettings, selectedPOIId, handlePOISelect, handleClusterSelect, timelineTime, movingPOIId, handlePOIMoved, poiFilters, flyToTarget, initialViewState, handleCameraViewChange, isMeasureMode, measurePoints, measureClosed, handleMeasurePoint, isNearestMode, nearestOrigin, routePath, handleNearestPoint, drawKind, drawPoints, handleDrawPoint, selectedFeatureId, handleFeatureSelect]);
 
   return (
-    <POIProvider>
-      <div className="App">
-        <div className="title">Europa Conflict Awareness Map</div>
-        {memoizedCanvas}
-        
-        <UIOverlay
-          layerVisibility={layerVisibility}
-          onLayerToggle={handleLayerToggle}
-          isMarkerMode={isMarkerMode}
-          onMarkerModeToggle={toggleMarkerMode}
-          onCreateMarker={createMarker}
-        />
-        
-        {/* Marker position information display */}
-        {markerModalData && isMarkerMode && !showModal && (
-          <div className="marker-info">
-            Selected position: {markerModalData.lat.toFixed(2)}°, {markerModalData.long.toFixed(2)}°
-            <button 
-              onClick={() => setShowModal(true)}
-              style={{ marginLeft: '10px', padding: '3px 8px' }}
-            >
-              Add Marker
-            </button>
-          </div>
-        )}
-      </div>
-    </POIProvider>
+    <AuthProvider>
+      <LiveProvider>
+        <POIProvider>
+          <ReportProvider>
+            <AnnotationProvider>
+              <div className="App">
+                <div className="title">Europa Conflict Awareness Map</div>
+                {memoizedCanvas}
+              
+                <UIOverlay
+                  layerVisibility={layerVisibility}
+                  onLayerToggle={handleLayerToggle}
+                  isMarkerMode={isMarkerMode}
+                  onMarkerModeToggle={toggleMarkerMode}
+                  isMeasureMode={isMeasureMode}
+                  onMeasureModeToggle={toggleMeasureMode}
+                  isNearestMode={isNearestMode}
+                  onNearestModeToggle={toggleNearestMode}
+                  drawKind={drawKind}
+                  onDrawKindChange={changeDrawKind}
+                  selectedFeatureId={selectedFeatureId}
+                  onFeatureSelect={handleFeatureSelect}
+                  onCreateMarker={createMarker}
+                  timelineTime={timelineTime}
+                  onTimelineChange={setTimelineTime}
+                  heatmapSettings={heatmapSettings}
+                  onHeatmapSettingsChange={setHeatmapSettings}
+                  poiFilters={poiFilters}
+                  onFiltersChange={setPOIFilters}
+                  onSearchResultSelect={handleSearchResultSelect}
+                />
+              
+                {/* Conflict reports for the selected POI */}
+                {selectedPOIId && (
+                  <ReportPanel
+                    poiId={selectedPOIId}
+                    onClose={() => {
+                      setSelectedPOIId(null);
+                      setMovingPOIId(null);
+                    }}
+                    isMoving={movingPOIId === selectedPOIId}
+                    onStartMove={() => setMovingPOIId(selectedPOIId)}
+                    onCancelMove={() => setMovingPOIId(null)}
+                    onDeleted={handlePOIDeleted}
+                  />
+                )}
+              
+                {/* Selected zone, line or circle */}
+                {selectedFeatureId && (
+                  <FeatureInspector featureId={selectedFeatureId} onClose={() => setSelectedFeatureId(null)} />
+                )}
+              
+                {/* Zone, line or circle being drawn */}
+                {drawKind && (
+                  <DrawPanel
+                    kind={drawKind}
+                    points={drawPoints}
+                    onUndoPoint={undoDrawPoint}
+                    onCancel={() => changeDrawKind(null)}
+                    onCreated={handleFeatureCreated}
+                  />
+                )}
+              
+                {/* Distances and areas for measure mode */}
+                {isMeasureMode && (
+                  <MeasurePanel
+                    points={measurePoints}
+                    closed={measureClosed}
+                    onClosedChange={setMeasureClosed}
+                    onUndoPoint={undoMeasurePoint}
+                    onClear={clearMeasurement}
+                  />
+                )}
+              
+                {/* Nearest markers and the route to safety for nearest mode */}
+                {isNearestMode && (
+                  <NearestPanel
+                    origin={nearestOrigin}
+                    onRouteChange={setRoutePath}
+                    onPOISelect={handleSearchResultSelect}
+                    onClear={clearNearest}
+                  />
+                )}
+              
+                {/* Move mode hint */}
+                {movingPOIId && (
+                  <div className="marker-info">
+                    Drag on the globe to move the marker · Esc to cancel
+                  </div>
+                )}
+              
+                {/* Undo for the last deletion */}
+                {lastDeletedPOI && !movingPOIId && (
+                  <UndoToast poi={lastDeletedPOI} onClose={dismissUndo} />
+                )}
+              
+                {/* Marker position information display */}
+                {markerModalData && isMarkerMode && !showModal && (
+                  <div className="marker-info">
+                    Selected position: {markerModalData.lat.toFixed(2)}°, {markerModalData.long.toFixed(2)}°
+                    <button 
+                      onClick={() => setShowModal(true)}
+                      style={{ marginLeft: '10px', padding: '3px 8px' }}
+                    >
+                      Add Marker
+                    </button>
+                  </div>
+                )}
+              </div>
+            </AnnotationProvider>
+          </ReportProvider>
+        </POIProvider>
+      </LiveProvider>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import { CheckIn, ConflictReport, MapFeature, POI } from '../types';
+import { API_COLLECTIONS, API_ROUTES, LIST_QUERY_PARAMS, toSearchParams } from './client';
+
+interface SpecParameter {
+  name: string;
+  in: string;
+  $ref?: string;
+}
+
+// The API description served by the reference server
+const spec = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../../server/openapi.json'), 'utf8'));
+
+const resolveParameter = (parameter: SpecParameter): SpecParameter =>
+  parameter.$ref ? spec.components.parameters[parameter.$ref.split('/').pop() as string] : parameter;
+
+const operation = (route: keyof typeof API_ROUTES, collection: string) => {
+  const { method, path: template } = API_ROUTES[route];
+  // The tombstones route keeps its collection as a path parameter
+  const specPath = route === 'tombstones' ? template : template.replace('{collection}', collection);
+  return spec.paths[specPath]?.[method];
+};
+
+// Every field of each record type - adding a field without updating the spec fails here
+const POI_FIELDS: Record<keyof POI, true> = {
+  id: true, title: true, description: true, location: true, lat: true, lng: true, type: true, category: true, icon: true,
+  createdAt: true, createdBy: true, updatedAt: true, updatedBy: true, occurredAt: true, factionId: true, safeZone: true,
+  moderationStatus: true, moderationLog: true
+};
+const FEATURE_FIELDS: Record<keyof MapFeature, true> = {
+  id: true, kind: true, title: true, description: true, points: true, radiusKm: true, contested: true, category: true, factionId: true, color: true,
+  createdAt: true, createdBy: true, updatedAt: true, updatedBy: true, occurredAt: true
+};
+const REPORT_FIELDS: Record<keyof ConflictReport, true> = {
+  id: true, headline: true, body: true, reportedAt: true, severity: true, casualties: true, units: true, sourceUrls: true,
+  author: true, poiId: true, lat: true, lng: true, createdAt: true, createdBy: true, updatedAt: true, updatedBy: true,
+  moderationStatus: true, moderationLog: true
+};
+const CHECK_IN_FIELDS: Record<keyof CheckIn, true> = {
+  id: true, poiId: true, author: true, status: true, note: true, checkedInAt: true
+};
+const FIELDS: Record<string, object> = {
+  POI: POI_FIELDS,
+  MapFeature: FEATURE_FIELDS,
+  ConflictReport: REPORT_FIELDS,
+  CheckIn: CHECK_IN_FIELDS
+};
+
+describe('API client', () => {
+  it('only calls routes the spec describes', () => {
+    API_COLLECTIONS.forEach(collection => {
+      (Object.keys(API_ROUTES) as Array<keyof typeof API_ROUTES>).forEach(route => {
+        expect([collection, route, operation(route, collection)?.operationId]).toEqual([collection, route, expect.any(String)]);
+      });
+    });
+    expect(spec.paths['/tombstones/{collection}'].get.parameters[0].schema.enum).toEqual(API_COLLECTIONS);
+  });
+
+  it('sends the list filters the spec accepts', () => {
+    const params = operation('list', 'pois').parameters.map((parameter: SpecParameter) => resolveParameter(parameter).name);
+    expect(params).toEqual(LIST_QUERY_PARAMS);
+  });
+
+  it('sends If-Match where the spec takes it', () => {
+    (['put', 'remove'] as const).forEach(route => {
+      const headers = operation(route, 'pois').parameters
+        .map(resolveParameter)
+        .filter((parameter: SpecParameter) => parameter.in === 'header')
+        .map((parameter: SpecParameter) => parameter.name);
+      expect(headers).toEqual(['If-Match']);
+    });
+  });
+
+  it('uses record types with the same fields as the spec schemas', () => {
+    Object.entries(FIELDS).forEach(([schema, fields]) => {
+      const properties = Object.keys(spec.components.schemas[schema].properties).sort();
+      expect([schema, properties]).toEqual([schema, Object.keys(fields).sort()]);
+    });
+  });
+
+  it('builds list query strings', () => {
+    expect(toSearchParams({ bbox: [170, -10, -170, 10], category: ['impact', 'terrain'], limit: 50 }).toString())
+      .toBe('bbox=170%2C-10%2C-170%2C10&category=impact&category=terrain&limit=50');
+  });
+});
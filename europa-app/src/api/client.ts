@@ -0,0 +1,125 @@
+import { ApiCollection, ApiRecordTypes, ImportResult, ListPage, ListQuery, Versioned } from './types';
+
+/**
+ * A request the API answered with an error status
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Stale If-Match - someone else changed the record since it was read
+export const isVersionConflict = (err: unknown) => err instanceof ApiError && err.status === 412;
+
+// Routes the client calls, checked against server/openapi.json by client.test.ts
+export const API_ROUTES = {
+  list: { method: 'get', path: '/{collection}' },
+  create: { method: 'post', path: '/{collection}' },
+  importRecords: { method: 'post', path: '/{collection}/import' },
+  get: { method: 'get', path: '/{collection}/{id}' },
+  put: { method: 'put', path: '/{collection}/{id}' },
+  remove: { method: 'delete', path: '/{collection}/{id}' },
+  tombstones: { method: 'get', path: '/tombstones/{collection}' }
+} as const;
+
+export const API_COLLECTIONS: ApiCollection[] = ['pois', 'features', 'reports', 'checkins'];
+
+export const LIST_QUERY_PARAMS: Array<keyof ListQuery> = ['bbox', 'from', 'to', 'category', 'limit', 'cursor'];
+
+/**
+ * Query string for a list request
+ */
+export const toSearchParams = (query: ListQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.bbox) params.set('bbox', query.bbox.join(','));
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  query.category?.forEach(category => params.append('category', category));
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+  return params;
+};
+
+const fillPath = (path: string, values: Record<string, string>) =>
+  path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(values[name]));
+
+/**
+ * Typed client for the reference API server
+ */
+export const createApiClient = (baseUrl: string) => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (
+    route: keyof typeof API_ROUTES,
+    values: Record<string, string>,
+    { body, ifMatch, search }: { body?: unknown; ifMatch?: string; search?: URLSearchParams } = {}
+  ) => {
+    const { method, path } = API_ROUTES[route];
+    const query = search?.toString();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (ifMatch) headers['If-Match'] = ifMatch;
+
+    const response = await fetch(`${root}${fillPath(path, values)}${query ? `?${query}` : ''}`, {
+      method: method.toUpperCase(),
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new ApiError(
+        response.status,
+        `API request failed: ${response.status} ${error?.error || response.statusText}`,
+        error?.details
+      );
+    }
+    return response;
+  };
+
+  const versioned = async <T,>(response: Response): Promise<Versioned<T>> => ({
+    record: (await response.json()) as T,
+    etag: response.headers.get('ETag') || ''
+  });
+
+  const list = async <C extends ApiCollection>(collection: C, query: ListQuery = {}): Promise<ListPage<ApiRecordTypes[C]>> =>
+    (await request('list', { collection }, { search: toSearchParams(query) })).json();
+
+  return {
+    list,
+
+    // Every page of a list
+    listAll: async <C extends ApiCollection>(collection: C, query: Omit<ListQuery, 'cursor'> = {}) => {
+      const items: Versioned<ApiRecordTypes[C]>[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list(collection, { limit: 500, ...query, cursor });
+        items.push(...page.items);
+        cursor = page.nextCursor || undefined;
+      } while (cursor);
+      return items;
+    },
+
+    get: async <C extends ApiCollection>(collection: C, id: string) =>
+      versioned<ApiRecordTypes[C]>(await request('get', { collection, id })),
+
+    create: async <C extends ApiCollection>(collection: C, record: ApiRecordTypes[C] | Omit<ApiRecordTypes[C], 'id'>) =>
+      versioned<ApiRecordTypes[C]>(await request('create', { collection }, { body: record })),
+
+    // Create or replace - pass the ETag last read to replace an existing record
+    put: async <C extends ApiCollection>(collection: C, record: ApiRecordTypes[C], ifMatch?: string) =>
+      versioned<ApiRecordTypes[C]>(await request('put', { collection, id: record.id }, { body: record, ifMatch })),
+
+    remove: async (collection: ApiCollection, id: string, ifMatch?: string) => {
+      await request('remove', { collection, id }, { ifMatch });
+    },
+
+    importRecords: async <C extends ApiCollection>(collection: C, items: ApiRecordTypes[C][]): Promise<ImportResult> =>
+      (await request('importRecords', { collection }, { body: { items } })).json(),
+
+    tombstones: async (collection: ApiCollection): Promise<string[]> =>
+      ((await (await request('tombstones', { collection })).json()) as { ids: string[] }).ids
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
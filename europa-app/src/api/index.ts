@@ -0,0 +1,3 @@
+export { API_COLLECTIONS, API_ROUTES, ApiError, LIST_QUERY_PARAMS, createApiClient, isVersionConflict, toSearchParams } from './client';
+export type { ApiClient } from './client';
+export type { ApiCollection, ApiRecordTypes, ImportResult, ListPage, ListQuery, Versioned } from './types';
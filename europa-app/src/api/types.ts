@@ -0,0 +1,36 @@
+import { CheckIn, ConflictReport, MapFeature, POI } from '../types';
+
+// Collections served by the API (see server/openapi.json)
+export type ApiCollection = 'pois' | 'features' | 'reports' | 'checkins';
+
+export interface ApiRecordTypes {
+  pois: POI;
+  features: MapFeature;
+  reports: ConflictReport;
+  checkins: CheckIn;
+}
+
+export interface ListQuery {
+  bbox?: [number, number, number, number]; // minLng, minLat, maxLng, maxLat - minLng > maxLng crosses the antimeridian
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, inclusive
+  category?: string[]; // Severity for reports, status for check-ins
+  limit?: number; // 1-500, default 100
+  cursor?: string; // nextCursor of the previous page
+}
+
+// A record with the ETag of its stored version
+export interface Versioned<T> {
+  record: T;
+  etag: string;
+}
+
+export interface ListPage<T> {
+  items: Versioned<T>[];
+  nextCursor: string | null; // null on the last page
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: Array<{ index: number; id?: string; messages: string[] }>;
+}
@@ -0,0 +1,23 @@
+import { AuditFields, stampCreated, stampUpdated } from './audit';
+import { User, UserRole } from '../types';
+
+const scout: User = { handle: 'scout', displayName: 'Scout', role: UserRole.REPORTER };
+const NOW = '2025-04-20T10:00:00.000Z';
+const fresh: AuditFields & { id: string } = { id: 'a' };
+
+describe('stampCreated', () => {
+  it('records the creator and time unless the record already has them', () => {
+    expect(stampCreated(fresh, scout, NOW)).toEqual({ id: 'a', createdAt: NOW, createdBy: 'scout' });
+    expect(stampCreated({ id: 'a', createdAt: '2020-01-01T00:00:00Z', createdBy: 'import' }, scout, NOW))
+      .toEqual({ id: 'a', createdAt: '2020-01-01T00:00:00Z', createdBy: 'import' });
+    expect(stampCreated(fresh, null, NOW)).toEqual({ id: 'a', createdAt: NOW });
+  });
+});
+
+describe('stampUpdated', () => {
+  it('replaces the previous editor', () => {
+    const edited = { id: 'a', createdBy: 'scout', updatedBy: 'mod', updatedAt: '2020-01-01T00:00:00Z' };
+    expect(stampUpdated(edited, scout, NOW)).toEqual({ id: 'a', createdBy: 'scout', updatedBy: 'scout', updatedAt: NOW });
+    expect(stampUpdated(edited, null, NOW)).toEqual({ id: 'a', createdBy: 'scout', updatedAt: NOW });
+  });
+});
@@ -0,0 +1,31 @@
+import { User } from '../types';
+
+// Who added and last edited a record, and when
+export interface AuditFields {
+  createdAt?: string;
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+/**
+ * Stamp a new record with its creator, keeping any creator it already carries (e.g. from an import)
+ */
+export const stampCreated = <T extends AuditFields>(record: T, user: User | null, now: string = new Date().toISOString()): T => {
+  const stamped = { ...record, createdAt: record.createdAt || now };
+  if (!stamped.createdBy && user) stamped.createdBy = user.handle;
+  return stamped;
+};
+
+/**
+ * Stamp an edited record with its editor - an anonymous edit clears the previous editor
+ */
+export const stampUpdated = <T extends AuditFields>(record: T, user: User | null, now: string = new Date().toISOString()): T => {
+  const stamped = { ...record, updatedAt: now };
+  if (user) {
+    stamped.updatedBy = user.handle;
+  } else {
+    delete stamped.updatedBy;
+  }
+  return stamped;
+};
@@ -0,0 +1,15 @@
+import { createLocalAuth } from './localAuth';
+import { AuthAdapter } from './types';
+
+export { createLocalAuth, DEFAULT_AUTH_STORAGE_KEY } from './localAuth';
+export { stampCreated, stampUpdated } from './audit';
+export { can, hasRole } from './permissions';
+export type { AuditFields } from './audit';
+export type { OwnedRecord, Permission } from './permissions';
+export type { AuthAdapter } from './types';
+
+/**
+ * Identity backend used when AuthProvider isn't given one.
+ * Only the local development sign-in exists so far; pass another AuthAdapter to AuthProvider to replace it.
+ */
+export const createDefaultAuth = (): AuthAdapter => createLocalAuth();
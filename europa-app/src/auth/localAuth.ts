@@ -0,0 +1,53 @@
+import { User } from '../types';
+import { validateUser } from '../schema';
+import { AuthAdapter } from './types';
+
+export const DEFAULT_AUTH_STORAGE_KEY = 'europa-map:user';
+
+/**
+ * Development sign-in with no external service: whoever is at the browser picks a handle
+ * and role, and the profile is kept in localStorage so it survives reloads.
+ * Falls back to memory when localStorage is unavailable.
+ */
+export const createLocalAuth = (storageKey: string = DEFAULT_AUTH_STORAGE_KEY): AuthAdapter => {
+  let memoryUser: User | null = null;
+
+  return {
+    name: 'local',
+
+    getCurrentUser: async () => {
+      if (memoryUser) return memoryUser;
+
+      try {
+        const raw = window.localStorage.getItem(storageKey);
+        memoryUser = raw ? validateUser(JSON.parse(raw)).user || null : null;
+      } catch (err) {
+        console.error('Error reading the signed-in user:', err);
+      }
+
+      return memoryUser;
+    },
+
+    signIn: async (profile: User) => {
+      const { user, errors } = validateUser(profile);
+      if (!user) throw new Error(errors.join('; '));
+
+      memoryUser = user;
+      try {
+        window.localStorage.setItem(storageKey, JSON.stringify(user));
+      } catch (err) {
+        console.error('Error saving the signed-in user:', err);
+      }
+      return user;
+    },
+
+    signOut: async () => {
+      memoryUser = null;
+      try {
+        window.localStorage.removeItem(storageKey);
+      } catch (err) {
+        console.error('Error clearing the signed-in user:', err);
+      }
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { can, hasRole } from './permissions';
+import { User, UserRole } from '../types';
+
+const user = (handle: string, role: UserRole): User => ({ handle, displayName: handle, role });
+
+const viewer = user('watcher', UserRole.VIEWER);
+const reporter = user('scout', UserRole.REPORTER);
+const moderator = user('mod', UserRole.MODERATOR);
+const admin = user('root', UserRole.ADMIN);
+
+describe('hasRole', () => {
+  it('includes every lower role', () => {
+    expect(hasRole(admin, UserRole.MODERATOR)).toBe(true);
+    expect(hasRole(moderator, UserRole.MODERATOR)).toBe(true);
+    expect(hasRole(reporter, UserRole.MODERATOR)).toBe(false);
+    expect(hasRole(null, UserRole.VIEWER)).toBe(false);
+  });
+});
+
+describe('can', () => {
+  it('lets signed-out visitors do nothing but look', () => {
+    (['create', 'edit', 'delete', 'moderate', 'import', 'checkIn'] as const).forEach(permission => {
+      expect(can(null, permission, { createdBy: 'scout' })).toBe(false);
+    });
+  });
+
+  it('lets viewers check in but not change the map', () => {
+    expect(can(viewer, 'checkIn')).toBe(true);
+    expect(can(viewer, 'create')).toBe(false);
+    expect(can(viewer, 'edit', { createdBy: 'watcher' })).toBe(false);
+  });
+
+  it('limits reporters to their own records', () => {
+    expect(can(reporter, 'create')).toBe(true);
+    expect(can(reporter, 'edit', { createdBy: 'scout' })).toBe(true);
+    expect(can(reporter, 'delete', { createdBy: 'scout' })).toBe(true);
+    expect(can(reporter, 'edit', { createdBy: 'someone-else' })).toBe(false);
+    expect(can(reporter, 'delete', {})).toBe(false);
+    expect(can(reporter, 'moderate')).toBe(false);
+    expect(can(reporter, 'import')).toBe(false);
+  });
+
+  it('lets moderators change and review anything and only admins import', () => {
+    expect(can(moderator, 'moderate')).toBe(true);
+    expect(can(moderator, 'edit', { createdBy: 'scout' })).toBe(true);
+    expect(can(moderator, 'delete', {})).toBe(true);
+    expect(can(moderator, 'import')).toBe(false);
+    expect(can(admin, 'import')).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { User, UserRole } from '../types';
+
+// Actions gated by role; edit and delete also depend on who created the record
+export type Permission = 'create' | 'edit' | 'delete' | 'moderate' | 'import' | 'checkIn';
+
+// Anything stamped with the handle of the user who created it
+export interface OwnedRecord {
+  createdBy?: string;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.VIEWER]: 0,
+  [UserRole.REPORTER]: 1,
+  [UserRole.MODERATOR]: 2,
+  [UserRole.ADMIN]: 3
+};
+
+/**
+ * Whether the user has at least the given role
+ */
+export const hasRole = (user: User | null, role: UserRole): boolean =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+/**
+ * Whether the user may perform an action, on `record` for edits and deletes.
+ * Signed-out visitors can only look. Viewers may check in at safe zones, reporters may also add
+ * markers, zones and reports and change their own, moderators may change anyone's and review
+ * submissions, and only admins may import data in bulk. Records without a creator (e.g. the seed data) are moderated.
+ */
+export const can = (user: User | null, permission: Permission, record?: OwnedRecord): boolean => {
+  if (!user) return false;
+
+  switch (permission) {
+    case 'checkIn':
+      return true;
+    case 'create':
+      return hasRole(user, UserRole.REPORTER);
+    case 'edit':
+    case 'delete':
+      if (hasRole(user, UserRole.MODERATOR)) return true;
+      return hasRole(user, UserRole.REPORTER) && !!record?.createdBy && record.createdBy === user.handle;
+    case 'moderate':
+      return hasRole(user, UserRole.MODERATOR);
+    case 'import':
+      return hasRole(user, UserRole.ADMIN);
+    default:
+      return false;
+  }
+};
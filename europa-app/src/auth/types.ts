@@ -0,0 +1,13 @@
+import { User } from '../types';
+
+/**
+ * Identity backend used by AuthProvider.
+ * Implementations decide how a user proves who they are; the app only sees the resulting profile.
+ */
+export interface AuthAdapter {
+  readonly name: string;
+  getCurrentUser: () => Promise<User | null>; // The signed-in user, restored from a previous session
+  // Providers that manage some fields themselves (e.g. a server assigning roles) may ignore those in `profile`
+  signIn: (profile: User) => Promise<User>;
+  signOut: () => Promise<void>;
+}
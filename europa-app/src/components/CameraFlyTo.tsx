@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { latLongToVector3 } from '../geodesy';
+
+export interface FlyToTarget {
+  lat: number;
+  lng: number;
+  distance?: number; // Camera distance from the centre to end at (default: keep the current zoom)
+  requestedAt: number; // Changes on every request so flying to the same POI twice still animates
+}
+
+interface CameraFlyToProps {
+  target: FlyToTarget | null;
+  duration?: number; // Seconds
+}
+
+// The subset of OrbitControls used here (registered with makeDefault)
+type OrbitControlsLike = { target: THREE.Vector3; update: () => void } | null;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/**
+ * Animates the camera around the globe until the target lat/lng is centred.
+ * Keeps the current zoom distance unless the target sets one, and swings along the great circle between views.
+ */
+const CameraFlyTo = ({ target, duration = 1.2 }: CameraFlyToProps) => {
+  const { camera, invalidate } = useThree();
+  const controls = useThree(state => state.controls) as unknown as OrbitControlsLike;
+  const flight = useRef<{
+    rotation: THREE.Quaternion;
+    from: THREE.Vector3;
+    fromDistance: number;
+    toDistance: number;
+    elapsed: number;
+  } | null>(null);
+
+  // Start a new flight whenever a new target is requested
+  useEffect(() => {
+    if (!target) return;
+
+    const from = camera.position.clone().normalize();
+    const to = latLongToVector3(target.lat, target.lng, 1).normalize();
+    flight.current = {
+      rotation: new THREE.Quaternion().setFromUnitVectors(from, to),
+      from,
+      fromDistance: camera.position.length(),
+      toDistance: target.distance ?? camera.position.length(),
+      elapsed: 0
+    };
+    invalidate();
+  }, [target, camera, invalidate]);
+
+  useFrame((_, delta) => {
+    const current = flight.current;
+    if (!current) return;
+
+    current.elapsed = Math.min(current.elapsed + delta, duration);
+    const t = easeInOutCubic(current.elapsed / duration);
+    const step = new THREE.Quaternion().slerp(current.rotation, t);
+
+    const distance = THREE.MathUtils.lerp(current.fromDistance, current.toDistance, t);
+    camera.position.copy(current.from).applyQuaternion(step).multiplyScalar(distance);
+    camera.lookAt(0, 0, 0);
+    controls?.update();
+
+    if (current.elapsed >= duration) {
+      flight.current = null;
+    } else {
+      // The canvas renders on demand, so keep frames coming until we arrive
+      invalidate();
+    }
+  });
+
+  return null;
+};
+
+export default CameraFlyTo;
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CameraViewState } from '../utils/urlState';
+
+interface CameraSyncProps {
+  initialView?: CameraViewState; // Applied once, when the controls are ready
+  onViewChange: (view: CameraViewState) => void;
+}
+
+// The subset of OrbitControls used here (registered with makeDefault)
+type OrbitControlsLike = (THREE.EventDispatcher<{ change: {} }> & {
+  target: THREE.Vector3;
+  update: () => void;
+}) | null;
+
+/**
+ * Restores a saved camera view and reports the view whenever the user moves the camera
+ */
+const CameraSync = ({ initialView, onViewChange }: CameraSyncProps) => {
+  const { camera, invalidate } = useThree();
+  const controls = useThree(state => state.controls) as unknown as OrbitControlsLike;
+  const restored = useRef(false);
+
+  // Apply the initial view once
+  useEffect(() => {
+    if (!controls || restored.current) return;
+    restored.current = true;
+    if (!initialView) return;
+
+    camera.position.set(...initialView.position);
+    controls.target.set(...initialView.target);
+    camera.zoom = initialView.zoom;
+    camera.updateProjectionMatrix();
+    controls.update();
+    invalidate();
+  }, [controls, camera, initialView, invalidate]);
+
+  // Report the view after every change made through the controls
+  useEffect(() => {
+    if (!controls) return;
+
+    const handleChange = () => {
+      onViewChange({
+        position: camera.position.toArray() as CameraViewState['position'],
+        target: controls.target.toArray() as CameraViewState['target'],
+        zoom: camera.zoom
+      });
+    };
+
+    controls.addEventListener('change', handleChange);
+    return () => controls.removeEventListener('change', handleChange);
+  }, [controls, camera, onViewChange]);
+
+  return null;
+};
+
+export default CameraSync;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { CheckInStatus, CheckInStatusLabels, POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+import { CHECK_IN_TTL_HOURS } from '../utils/checkIns';
+
+interface CheckInPanelProps {
+  poi: POI;
+}
+
+/**
+ * Check-ins at a safe zone POI
+ * Shows how many people are checked in and their latest statuses, and posts new check-ins
+ * under the signed-in user's handle
+ */
+const CheckInPanel: React.FC<CheckInPanelProps> = ({ poi }) => {
+  const { checkInSummaries, checkIn, removeCheckIn } = usePOIs();
+  const { user, can } = useAuth();
+  const [status, setStatus] = useState<CheckInStatus>(CheckInStatus.OK);
+  const [note, setNote] = useState('');
+
+  const summary = checkInSummaries.get(poi.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !can('checkIn')) return;
+
+    checkIn(poi.id, status, user.handle, note);
+    setNote('');
+  };
+
+  return (
+    <div className="check-in-panel">
+      <div className="report-panel-toolbar">
+        <h3>Check-ins ({summary?.count || 0})</h3>
+      </div>
+
+      {summary && (
+        <div className="check-in-counts">
+          {Object.values(CheckInStatus).map(value => (
+            <span key={value} className={`check-in-badge check-in-${value}`}>
+              {CheckInStatusLabels[value]}: {summary.statusCounts[value]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ul className="report-list">
+        {!summary && (
+          <li className="report-empty">Nobody has checked in here in the last {CHECK_IN_TTL_HOURS} hours.</li>
+        )}
+        {summary?.latest.map(entry => (
+          <li key={entry.id} className="report-item">
+            <div className="report-item-header">
+              <span className={`check-in-badge check-in-${entry.status}`}>
+                {CheckInStatusLabels[entry.status]}
+              </span>
+              <h4>@{entry.author}</h4>
+            </div>
+            <div className="report-meta">{new Date(entry.checkedInAt).toLocaleString()}</div>
+            {entry.note && <p>{entry.note}</p>}
+            {(entry.author === user?.handle || can('delete')) && (
+              <div className="report-actions">
+                <button onClick={() => removeCheckIn(entry.id)}>Withdraw</button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {can('checkIn') ? (
+        <form className="report-form" onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="checkInStatus">Status</label>
+            <select
+              id="checkInStatus"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as CheckInStatus)}
+            >
+              {Object.entries(CheckInStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="checkInNote">Note (optional)</label>
+            <input
+              type="text"
+              id="checkInNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="form-buttons">
+            <button type="submit">Check In as @{user?.handle}</button>
+          </div>
+        </form>
+      ) : (
+        <div className="hint-text">Sign in to check in here.</div>
+      )}
+    </div>
+  );
+};
+
+export default CheckInPanel;
@@ -0,0 +1,104 @@
+import React, { useState, useRef } from 'react';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+import {
+  ExchangeFormat,
+  ExchangeFormatLabels,
+  ImportResult,
+  downloadFile,
+  parseImport,
+  serializeCollection
+} from '../io';
+import ImportDialog from './ImportDialog';
+
+/**
+ * Import and export controls for the POI collection - importing is limited to admins
+ */
+const DataExchange: React.FC = () => {
+  const { pois, features, factions, version, lastUpdated, importPOIs } = usePOIs();
+  const { can } = useAuth();
+  const [format, setFormat] = useState<ExchangeFormat>('geojson');
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ImportResult } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const { content, extension, mimeType } = serializeCollection(
+      { pois, features, factions, version, lastUpdated: lastUpdated || new Date().toISOString() },
+      format
+    );
+    downloadFile(content, `europa-pois.${extension}`, mimeType);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow the same file to be picked again
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setPendingImport({ fileName: file.name, result: parseImport(file.name, text) });
+      setImportError(null);
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setImportError(err instanceof Error ? err.message : 'Unknown error reading file');
+    }
+  };
+
+  const handleConfirmImport = (imported: typeof pois, importedFeatures: typeof features) => {
+    importPOIs(imported, importedFeatures);
+    setPendingImport(null);
+  };
+
+  return (
+    <div className="data-exchange">
+      <div className="data-exchange-row">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExchangeFormat)}
+          aria-label="Export format"
+        >
+          {Object.entries(ExchangeFormatLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button className="marker-button" onClick={handleExport}>
+          Export
+        </button>
+        {can('import') && (
+          <>
+            <button className="marker-button" onClick={() => fileInputRef.current?.click()}>
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".geojson,.json,.kml,.csv"
+              onChange={handleFileChange}
+              style={{ display: 'none' }}
+            />
+          </>
+        )}
+      </div>
+      {importError && <div className="hint-text error-text">{importError}</div>}
+      {format === 'csv' && features.length > 0 && (
+        <div className="hint-text">CSV exports POIs only - use GeoJSON or KML to include zones and lines.</div>
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          existingPOIs={pois}
+          existingFeatures={features}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DataExchange;
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { usePOIs } from '../context/POIContext';
+
+/**
+ * Lists POI records that were skipped while loading because they failed validation
+ */
+const DataIssues: React.FC = () => {
+  const { validationErrors } = usePOIs();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (validationErrors.length === 0) return null;
+
+  return (
+    <div className="data-issues">
+      <button className="data-issues-toggle" onClick={() => setIsExpanded(prev => !prev)}>
+        ⚠ {validationErrors.length} invalid record{validationErrors.length === 1 ? '' : 's'} skipped
+      </button>
+      {isExpanded && (
+        <ul>
+          {validationErrors.map(error => (
+            <li key={`${error.source}-${error.recordType || 'poi'}-${error.index}`}>
+              <strong>{error.id ? `"${error.id}"` : `${error.recordType === 'feature' ? 'Feature' : 'Record'} ${error.index + 1}`}</strong>
+              {error.source && <span className="data-issues-source"> ({error.source})</span>}: {error.messages.join('; ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DataIssues;
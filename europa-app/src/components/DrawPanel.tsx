@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { FeatureKind, FeatureKindLabels } from '../types';
+import { LatLng } from '../geodesy';
+import { usePOIs } from '../context/POIContext';
+import { validateFeature } from '../schema';
+import { draftGeometry } from '../utils/featureGeometry';
+import FeatureForm, { FeatureFormValues, FeatureMeasurements } from './FeatureForm';
+
+interface DrawPanelProps {
+  kind: FeatureKind;
+  points: LatLng[];
+  onUndoPoint: () => void;
+  onCancel: () => void;
+  onCreated: (id: string) => void;
+}
+
+const DRAW_HINTS: Record<FeatureKind, string> = {
+  polygon: 'Click on the globe to add the corners of the zone',
+  polyline: 'Click on the globe to add points along the line',
+  circle: 'Click the centre, then click again to set the radius'
+};
+
+/**
+ * Panel for drawing a new zone, line or circle
+ * Shows the shape's measurements while points are added, then a form to save it
+ */
+const DrawPanel: React.FC<DrawPanelProps> = ({ kind, points, onUndoPoint, onCancel, onCreated }) => {
+  const { addFeature } = usePOIs();
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const geometry = draftGeometry(kind, points);
+
+  const handleSubmit = (values: FeatureFormValues) => {
+    if (!geometry) return;
+
+    // Run the new feature through the schema validator so it is normalised like loaded data
+    const { feature, errors: validationErrors } = validateFeature({
+      ...geometry,
+      ...values,
+      category: values.category || undefined,
+      factionId: values.factionId || undefined,
+      color: values.color || undefined,
+      contested: values.contested || undefined
+    }, { generateMissingId: true });
+
+    if (!feature) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const { id, ...featureData } = feature;
+    onCreated(addFeature(featureData));
+  };
+
+  return (
+    <div className="draw-panel">
+      <h3>Draw {FeatureKindLabels[kind]}</h3>
+      <div className="hint-text">{DRAW_HINTS[kind]}</div>
+      {geometry && <FeatureMeasurements feature={geometry} />}
+      <div className="report-actions">
+        <button onClick={onUndoPoint} disabled={points.length === 0}>Undo Point</button>
+        {!geometry && <button onClick={onCancel}>Cancel</button>}
+      </div>
+      {geometry && (
+        <FeatureForm
+          kind={kind}
+          submitLabel={`Save ${FeatureKindLabels[kind]}`}
+          errors={errors}
+          onSubmit={handleSubmit}
+          onCancel={onCancel}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DrawPanel;
@@ -1,25 +1,44 @@
 import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import { useThree } from '@react-three/fiber';
 import { RepeatWrapping } from 'three';
 import { Sphere } from '@react-three/drei';
 import * as THREE from 'three';
 import { ThreeEvent } from '@react-three/fiber';
-import { vectorToLatLong } from './utils';
+import { LatLng, latLongToVector3, vectorToLatLong } from '../../geodesy';
+import { DEFAULT_FEATURE_COLOR, FeatureKind, MapFeature } from '../../types';
 import { usePOIs } from '../../context/POIContext';
+import { useAnnotations } from '../../context/AnnotationContext';
+import { useReports } from '../../context/ReportContext';
+import { useAuth } from '../../context/AuthContext';
+import { useLive } from '../../context/LiveContext';
+import { filterPOIsAsOf } from '../../utils/timeline';
+import { isApproved, isListed, isPending } from '../../utils/moderation';
+import { POIFilters, EMPTY_FILTERS, matchesFacets, matchesFilters } from '../../utils/search';
+import { FeatureGeometry, FeatureHandle, draftGeometry, dragHandle, removeVertex } from '../../utils/featureGeometry';
+import { DEFAULT_HEATMAP_SETTINGS, HeatmapSettings, collectHeatSources, heatSourcesSignature } from '../../utils/heatmap';
 
 // Import the extracted components
 import GridLines from './components/GridLines';
-import POIMarker from './components/POIMarker';
 import PoleMarker from './components/PoleMarker';
 import Jupiter from './components/Jupiter';
 import Skybox from './components/Skybox';
 import VoronoiMaterial from './components/VoronoiMaterial';
-
-// Constants for marker scaling
-const MIN_MARKER_SIZE = 0.005;
-const MAX_MARKER_SIZE = 0.04;
-const MIN_CAMERA_DISTANCE = 1.5;
-const MAX_CAMERA_DISTANCE = 4;
+import HeatmapMaterial, { createHeatmapTexture } from './components/HeatmapMaterial';
+import MeasurementPath from './components/MeasurementPath';
+import FeatureShape from './components/FeatureShape';
+import FeatureHandles from './components/FeatureHandles';
+import ClusterLayer, { ClusterView } from './components/ClusterLayer';
+import POIInstances, { InstancedPOI } from './components/POIInstances';
+import CheckInMarker from './components/CheckInMarker';
+import LivePulse from './components/LivePulse';
+import PendingSyncMarker from './components/PendingSyncMarker';
+import { TEXTURE_REBUILD_MS, useKeyedValue, useThrottledValue } from './utils';
+
+// Colour of shapes being drawn
+const DRAFT_FEATURE_COLOR = '#ffcc00';
+
+// Colour of the route from a clicked point in nearest mode
+const ROUTE_COLOR = '#66ff99';
 
 // Constants for Jupiter-Europa proportions
 // Jupiter's diameter is ~46x that of Europa
@@ -36,16 +55,41 @@ interface EuropaSphereProps {
         poi: boolean;
         orientationMarkers: boolean;
         voronoi: boolean; // Add Voronoi diagram layer visibility
+        heatmap: boolean; // Density of reports and incidents
+        measurements: boolean; // Saved measurement annotations
+        features: boolean; // Zones, lines and circles
+        checkIns: boolean; // Live check-in counts at safe zones
     };
     isMarkerMode?: boolean;
     onMarkerPlaced?: (lat: number, long: number) => void;
     terrainHeight?: number; // Control the terrain elevation scale
     voronoiOpacity?: number; // Control the opacity of the Voronoi diagram
+    heatmapSettings?: HeatmapSettings; // Kernel radius and time decay of the heatmap
+    selectedPOIId?: string | null; // Currently selected POI
+    onPOISelect?: (id: string) => void; // Called when a POI marker is clicked
+    onClusterSelect?: (view: ClusterView) => void; // Called with a view fitting a clicked marker cluster
+    timelineTime?: number | null; // Render the map as of this time (null = live)
+    movingPOIId?: string | null; // POI being repositioned by dragging on the globe
+    onPOIMoved?: (id: string) => void; // Called after a dragged POI is dropped
+    filters?: POIFilters; // Search and category/faction filters narrowing the POI markers
+    isMeasureMode?: boolean;
+    measurePoints?: LatLng[]; // Vertices of the measurement in progress
+    measureClosed?: boolean; // Whether the measurement in progress is a closed polygon
+    onMeasurePoint?: (point: LatLng) => void; // Called when the globe is clicked in measure mode
+    drawKind?: FeatureKind | null; // Kind of feature being drawn (null = not drawing)
+    drawPoints?: LatLng[]; // Points clicked so far for the feature being drawn
+    onDrawPoint?: (point: LatLng) => void; // Called when the globe is clicked in draw mode
+    isNearestMode?: boolean;
+    onNearestPoint?: (point: LatLng) => void; // Called when the globe is clicked in nearest mode
+    nearestOrigin?: LatLng | null; // Point the nearest POIs are listed from
+    routePath?: LatLng[] | null; // Route from the origin, when one has been planned
+    selectedFeatureId?: string | null; // Currently selected map feature, shown with edit handles
+    onFeatureSelect?: (id: string) => void; // Called when a feature's area is clicked
 }
 
 // Main Europa Sphere Component
 const EuropaSphere = React.forwardRef<
-    { addMarker: (lat: number, long: number, title: string, description: string, category: string) => void },
+    { addMarker: (lat: number, long: number, title: string, description: string, category: string, factionId?: string) => void },
     EuropaSphereProps
 >(({
     layerVisibility = { 
@@ -54,12 +98,37 @@ const EuropaSphere = React.forwardRef<
         poles: true, 
         poi: true, 
         orientationMarkers: true,
-        voronoi: false 
+        voronoi: false,
+        heatmap: false,
+        measurements: true,
+        features: true,
+        checkIns: true
     },
     isMarkerMode = false,
     onMarkerPlaced,
     terrainHeight = 0.5,
-    voronoiOpacity = 0.3
+    voronoiOpacity = 0.3,
+    heatmapSettings = DEFAULT_HEATMAP_SETTINGS,
+    selectedPOIId = null,
+    onPOISelect,
+    onClusterSelect,
+    timelineTime = null,
+    movingPOIId = null,
+    onPOIMoved,
+    filters = EMPTY_FILTERS,
+    isMeasureMode = false,
+    measurePoints = [],
+    measureClosed = false,
+    onMeasurePoint,
+    drawKind = null,
+    drawPoints = [],
+    onDrawPoint,
+    isNearestMode = false,
+    onNearestPoint,
+    nearestOrigin = null,
+    routePath = null,
+    selectedFeatureId = null,
+    onFeatureSelect
 }, ref) => {
     // Reference to the mesh for animations and raycasting
     const meshRef = useRef<THREE.Mesh>(null);
@@ -67,12 +136,26 @@ const EuropaSphere = React.forwardRef<
     const radius = 1;
     
     // Access the POI context
-    const { pois, isLoading: poisLoading, addPOI, getDirectionVector } = usePOIs();
+    const {
+        pois,
+        features,
+        factions,
+        checkInSummaries,
+        pendingSyncIds,
+        isLoading: poisLoading,
+        addPOI,
+        updatePOI,
+        updateFeature,
+        getDirectionVector
+    } = usePOIs();
+    const { annotations } = useAnnotations();
+    const { reports } = useReports();
+    const { can } = useAuth();
+    const { activity } = useLive();
 
     const { camera, gl, invalidate } = useThree();
-    // State for marker scale (calculated once for all markers)
-    const [markerScale, setMarkerScale] = useState(MAX_MARKER_SIZE);
-
+    // OrbitControls registers itself as the default controls
+    const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null;
     // State for displacement scale (for terrain height adjustment)
     const [displacementScale, setDisplacementScale] = useState(terrainHeight);
 
@@ -81,6 +164,26 @@ const EuropaSphere = React.forwardRef<
 
     const canvasDomElement = useRef<HTMLCanvasElement | null>(null);
 
+    // Position of the POI being dragged in move mode (null when not dragging)
+    const [dragPosition, setDragPosition] = useState<{ lat: number, long: number } | null>(null);
+    const dragPositionRef = useRef<{ lat: number, long: number } | null>(null);
+    const isDraggingRef = useRef(false);
+
+    const updateDragPosition = useCallback((position: { lat: number, long: number } | null) => {
+        dragPositionRef.current = position;
+        setDragPosition(position);
+    }, []);
+
+    // Reshaped geometry of the selected feature while one of its handles is dragged
+    const [featureDraft, setFeatureDraft] = useState<FeatureGeometry | null>(null);
+    const featureDraftRef = useRef<FeatureGeometry | null>(null);
+    const featureHandleRef = useRef<FeatureHandle | null>(null);
+
+    const updateFeatureDraft = useCallback((geometry: FeatureGeometry | null) => {
+        featureDraftRef.current = geometry;
+        setFeatureDraft(geometry);
+    }, []);
+
     useEffect(() => {
         const canvas = gl.domElement;
         canvasDomElement.current = canvas;
@@ -115,16 +218,122 @@ const EuropaSphere = React.forwardRef<
         return { colorTex, heightmapTex };
     }, [invalidate]); // Only depend on invalidate function
 
+    // POIs that exist at the current timeline position, leaving out rejected submissions
+    const visiblePOIs = useMemo(() => filterPOIsAsOf(pois.filter(isListed), timelineTime), [pois, timelineTime]);
+
+    // Territory and heat only come from reviewed data
+    const approvedPOIs = useMemo(() => visiblePOIs.filter(isApproved), [visiblePOIs]);
+    const approvedReports = useMemo(() => reports.filter(isApproved), [reports]);
+
     // Filter POIs by type
     const filteredPOIs = useMemo(() => {
         if (poisLoading) return { poles: [], orientationMarkers: [], pois: [] };
         
         return {
-            poles: pois.filter(poi => poi.type === 'pole'),
-            orientationMarkers: pois.filter(poi => poi.type === 'orientation'),
-            pois: pois.filter(poi => poi.type === 'poi' || poi.type === 'custom')
+            poles: visiblePOIs.filter(poi => poi.type === 'pole'),
+            orientationMarkers: visiblePOIs.filter(poi => poi.type === 'orientation'),
+            pois: visiblePOIs.filter(poi =>
+                (poi.type === 'poi' || poi.type === 'custom') && matchesFilters(poi, filters)
+            )
         };
-    }, [pois, poisLoading]);
+    }, [visiblePOIs, poisLoading, filters]);
+
+    // Heat from reports and incidents up to the timeline position, aged relative to it.
+    // Only built while the layer is on, and rebuilt when the sources, time or settings change -
+    // at most once per interval while the timeline is playing
+    const heatSources = useMemo(() => collectHeatSources(approvedPOIs, approvedReports), [approvedPOIs, approvedReports]);
+    const heatSourcesKey = useMemo(() => heatSourcesSignature(heatSources), [heatSources]);
+    const stableHeatSources = useKeyedValue(heatSources, heatSourcesKey);
+    const heatInput = useThrottledValue(
+        useMemo(() => ({ sources: stableHeatSources, time: timelineTime }), [stableHeatSources, timelineTime]),
+        TEXTURE_REBUILD_MS
+    );
+    const heatmapTexture = useMemo(() => {
+        if (!layerVisibility.heatmap) return null;
+        return createHeatmapTexture(heatInput.sources, {
+            ...heatmapSettings,
+            now: heatInput.time ?? Date.now()
+        });
+    }, [layerVisibility.heatmap, heatInput, heatmapSettings]);
+
+    // Release the previous heatmap's GPU memory once it has been replaced
+    useEffect(() => {
+        return () => heatmapTexture?.dispose();
+    }, [heatmapTexture]);
+
+    // The selection and the POI being moved always keep their own markers, out of the clusters,
+    // and so do submissions awaiting review, which are drawn ghosted
+    const clusteredPOIs = useMemo(
+        () => filteredPOIs.pois.filter(poi => poi.id !== selectedPOIId && poi.id !== movingPOIId && !isPending(poi)),
+        [filteredPOIs, selectedPOIId, movingPOIId]
+    );
+
+    const pendingMarkers = useMemo<InstancedPOI[]>(
+        () => filteredPOIs.pois
+            .filter(poi => isPending(poi) && poi.id !== selectedPOIId && poi.id !== movingPOIId)
+            .map(poi => ({ poi, position: latLongToVector3(poi.lat, poi.lng, radius) })),
+        [filteredPOIs, selectedPOIId, movingPOIId]
+    );
+
+    // The POI being moved follows the pointer while dragged
+    const pinnedPOIs = useMemo(
+        () => filteredPOIs.pois
+            .filter(poi => poi.id === selectedPOIId || poi.id === movingPOIId)
+            .map(poi => (poi.id === movingPOIId && dragPosition
+                ? { ...poi, lat: dragPosition.lat, lng: dragPosition.long }
+                : poi)),
+        [filteredPOIs, selectedPOIId, movingPOIId, dragPosition]
+    );
+
+    // Safe zones among the visible markers with people currently checked in
+    const checkInMarkers = useMemo(
+        () => filteredPOIs.pois.flatMap(poi => {
+            const summary = poi.safeZone ? checkInSummaries.get(poi.id) : undefined;
+            return summary ? [{ poi, summary }] : [];
+        }),
+        [filteredPOIs, checkInSummaries]
+    );
+
+    // Visible markers with changes still queued for the server
+    const pendingSyncPOIs = useMemo(
+        () => pendingSyncIds.size === 0 ? [] : filteredPOIs.pois.filter(poi => pendingSyncIds.has(poi.id)),
+        [filteredPOIs, pendingSyncIds]
+    );
+
+    // Where to pulse for records that just arrived from other clients - reports pulse at their own
+    // position or their marker's
+    const livePulses = useMemo(
+        () => activity.flatMap(({ kind, id, at }) => {
+            const report = kind === 'report' ? reports.find(candidate => candidate.id === id) : undefined;
+            const poi = kind === 'poi'
+                ? pois.find(candidate => candidate.id === id)
+                : report?.poiId ? pois.find(candidate => candidate.id === report.poiId) : undefined;
+            const lat = report?.lat ?? poi?.lat;
+            const lng = report?.lng ?? poi?.lng;
+            return lat !== undefined && lng !== undefined ? [{ key: `${id}-${at}`, lat, lng, kind }] : [];
+        }),
+        [activity, pois, reports]
+    );
+
+    // Map features that exist at the current timeline position and match the category/faction filters
+    const visibleFeatures = useMemo(
+        () => filterPOIsAsOf(features, timelineTime).filter(feature => matchesFacets(feature, filters)),
+        [features, timelineTime, filters]
+    );
+
+    const selectedFeature = useMemo(
+        () => visibleFeatures.find(feature => feature.id === selectedFeatureId),
+        [visibleFeatures, selectedFeatureId]
+    );
+
+    const featureColor = useCallback((feature: MapFeature) =>
+        feature.color || factions.find(faction => faction.id === feature.factionId)?.color || DEFAULT_FEATURE_COLOR,
+    [factions]);
+
+    // Features can only be picked when no other tool is using clicks on the globe
+    const canSelectFeatures = !isMarkerMode && !isMeasureMode && !isNearestMode && !drawKind && !movingPOIId;
+    // Reshape handles only appear for users allowed to edit the selected feature
+    const canReshapeFeature = !!selectedFeature && can('edit', selectedFeature);
 
     // Calculate intersection point when needed
     const calculateIntersection = useCallback((mouseX: number, mouseY: number) => {
@@ -234,14 +443,37 @@ const EuropaSphere = React.forwardRef<
         const intersection = calculateIntersection(event.clientX, event.clientY);
         if (intersection) {
             setIntersectionPoint(intersection.position);
+
+            // Drag the POI being moved along the surface
+            if (isDraggingRef.current) {
+                updateDragPosition(vectorToLatLong(intersection.normalizedPosition, 1));
+            }
+
+            // Reshape the selected feature with the grabbed handle
+            if (featureHandleRef.current && featureDraftRef.current) {
+                const { lat, long } = vectorToLatLong(intersection.normalizedPosition, 1);
+                const { geometry, handle } = dragHandle(featureDraftRef.current, featureHandleRef.current, { lat, lng: long });
+                featureHandleRef.current = handle;
+                updateFeatureDraft(geometry);
+            }
             invalidate();
         } else {
             setIntersectionPoint(null);
         }
-    }, [calculateIntersection, invalidate]);
+    }, [calculateIntersection, invalidate, updateDragPosition, updateFeatureDraft]);
 
     // Handle click on the sphere to place a marker
     const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
+        // In move mode, pressing anywhere on the globe starts dragging the POI
+        if (movingPOIId && meshRef.current) {
+            const intersection = calculateIntersection(event.clientX, event.clientY);
+            if (!intersection) return;
+            event.stopPropagation();
+            isDraggingRef.current = true;
+            updateDragPosition(vectorToLatLong(intersection.normalizedPosition, 1));
+            return;
+        }
+
         if (!isMarkerMode || !meshRef.current) return;
         
         // Calculate intersection
@@ -259,37 +491,99 @@ const EuropaSphere = React.forwardRef<
             const markerSelectedEvent = new Event('marker-selected');
             window.dispatchEvent(markerSelectedEvent);
         }
-    }, [isMarkerMode, calculateIntersection, onMarkerPlaced]);
+    }, [isMarkerMode, movingPOIId, calculateIntersection, onMarkerPlaced, updateDragPosition]);
 
-    // Update displacement scale when terrainHeight prop changes
+    // Add a measurement, nearest-search or drawing point on click - unlike pointer down, this ignores drags that rotate the globe
+    const handleClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+        const onPoint = isMeasureMode ? onMeasurePoint : isNearestMode ? onNearestPoint : drawKind ? onDrawPoint : undefined;
+        if (!onPoint || event.delta > 2) return;
+
+        const intersection = calculateIntersection(event.clientX, event.clientY);
+        if (!intersection) return;
+
+        event.stopPropagation();
+        const { lat, long } = vectorToLatLong(intersection.normalizedPosition, 1);
+        onPoint({ lat, lng: long });
+    }, [isMeasureMode, onMeasurePoint, isNearestMode, onNearestPoint, drawKind, onDrawPoint, calculateIntersection]);
+
+    // Start dragging one of the selected feature's handles
+    const handleFeatureHandleDown = useCallback((handle: FeatureHandle) => {
+        if (!selectedFeature) return;
+        // Keep the globe still while the handle is dragged
+        if (controls) controls.enabled = false;
+        featureHandleRef.current = handle;
+        updateFeatureDraft({ kind: selectedFeature.kind, points: selectedFeature.points, radiusKm: selectedFeature.radiusKm });
+    }, [selectedFeature, controls, updateFeatureDraft]);
+
+    const handleRemoveVertex = useCallback((index: number) => {
+        if (!selectedFeature) return;
+        const geometry = removeVertex(selectedFeature, index);
+        if (geometry) updateFeature(selectedFeature.id, { points: geometry.points });
+    }, [selectedFeature, updateFeature]);
+
+    // Commit the reshaped feature when the handle is released anywhere on the page
     useEffect(() => {
-        setDisplacementScale(terrainHeight);
-    }, [terrainHeight]);
-    
-    // Calculate marker scale based on camera distance to center of sphere
-    useFrame(({ camera }) => {
-        if (!meshRef.current) return;
+        if (!selectedFeatureId) return;
+
+        const handlePointerUp = () => {
+            if (!featureHandleRef.current) return;
+            featureHandleRef.current = null;
+            if (controls) controls.enabled = true;
+
+            const geometry = featureDraftRef.current;
+            if (geometry) {
+                updateFeature(selectedFeatureId, geometry.kind === 'circle'
+                    ? { points: geometry.points, radiusKm: geometry.radiusKm }
+                    : { points: geometry.points });
+            }
+            updateFeatureDraft(null);
+        };
 
-        // Get the current world position of the sphere
-        const sphereWorldPosition = new THREE.Vector3();
-        meshRef.current.getWorldPosition(sphereWorldPosition);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointerup', handlePointerUp);
+            if (featureHandleRef.current && controls) controls.enabled = true;
+            featureHandleRef.current = null;
+            updateFeatureDraft(null);
+        };
+    }, [selectedFeatureId, controls, updateFeature, updateFeatureDraft]);
 
-        // Calculate distance between camera and sphere center
-        const distanceToCamera = camera.position.distanceTo(sphereWorldPosition);
+    // Shape being drawn, once enough points have been clicked
+    const drawGeometry = useMemo(
+        () => (drawKind ? draftGeometry(drawKind, drawPoints) : null),
+        [drawKind, drawPoints]
+    );
+
+    // Drop the dragged POI when the pointer is released anywhere on the page
+    useEffect(() => {
+        if (!movingPOIId) return;
 
-        // Calculate scale factor based on distance
-        // Clamp between min and max camera distances
-        const clampedDistance = Math.max(MIN_CAMERA_DISTANCE, Math.min(MAX_CAMERA_DISTANCE, distanceToCamera));
+        const handlePointerUp = () => {
+            if (!isDraggingRef.current) return;
+            isDraggingRef.current = false;
 
-        // Map distance to scale (closer = smaller, further = larger)
-        const normalizedDistance = (clampedDistance - MIN_CAMERA_DISTANCE) / (MAX_CAMERA_DISTANCE - MIN_CAMERA_DISTANCE);
-        const scale = MIN_MARKER_SIZE + normalizedDistance * (MAX_MARKER_SIZE - MIN_MARKER_SIZE);
+            const position = dragPositionRef.current;
+            if (position) {
+                updatePOI(movingPOIId, { lat: position.lat, lng: position.long });
+                onPOIMoved?.(movingPOIId);
+            }
+            updateDragPosition(null);
+        };
 
-        // Update the marker scale state
-        setMarkerScale(scale);
-    });
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointerup', handlePointerUp);
+            isDraggingRef.current = false;
+            updateDragPosition(null);
+        };
+    }, [movingPOIId, updatePOI, onPOIMoved, updateDragPosition]);
 
-    const addMarker = useCallback((lat: number, long: number, title: string, description: string, category: string = 'user') => {
+    // Update displacement scale when terrainHeight prop changes
+    useEffect(() => {
+        setDisplacementScale(terrainHeight);
+    }, [terrainHeight]);
+    
+    const addMarker = useCallback((lat: number, long: number, title: string, description: string, category: string = 'user', factionId?: string) => {
         console.log(`Adding marker at ${lat}°, ${long}° with title "${title}" and category "${category}"`);
         
         // Determine if this should be a special type or a regular POI based on category
@@ -308,7 +602,8 @@ const EuropaSphere = React.forwardRef<
             lat,
             lng: long,
             type: poiType,
-            category: category
+            category: category,
+            factionId: factionId || undefined
         });
     }, [addPOI]);
 
@@ -337,15 +632,20 @@ const EuropaSphere = React.forwardRef<
                     ref={meshRef}
                     onPointerMove={handlePointerMove}
                     onPointerDown={handlePointerDown}
+                    onClick={handleClick}
                 >
                     <Sphere args={[radius, 64, 32]}>
                         {layerVisibility.voronoi ? (
                             <VoronoiMaterial
-                                pois={pois}
+                                pois={approvedPOIs}
+                                factions={factions}
                                 baseTexture={textures.colorTex}
                                 opacity={voronoiOpacity}
                                 visible={layerVisibility.voronoi}
+                                heatmap={heatmapTexture}
                             />
+                        ) : heatmapTexture ? (
+                            <HeatmapMaterial baseTexture={textures.colorTex} heatmap={heatmapTexture} />
                         ) : (
                             <meshStandardMaterial
                                 ref={materialRef}
@@ -378,33 +678,111 @@ const EuropaSphere = React.forwardRef<
                                     location: poi.location
                                 }}
                                 sphereRef={meshRef as any}
-                                scale={markerScale}
                                 radius={radius}
                             />
                         ))
                     }
 
-                    {/* POI markers */}
-                    {layerVisibility.poi && !poisLoading && 
-                        filteredPOIs.pois.map(poi => (
-                            <POIMarker
-                                key={poi.id}
-                                directionVector={getDirectionVector(poi, radius)}
-                                label={{
-                                    title: poi.title,
-                                    description: poi.description,
-                                    location: poi.location
-                                }}
-                                category={poi.category}
-                                sphereRef={meshRef as any}
-                                scale={markerScale}
-                                radius={radius}
-                            />
-                        ))
-                    }
+                    {/* POI markers, clustered when they crowd together on screen */}
+                    {layerVisibility.poi && !poisLoading && (
+                        <ClusterLayer
+                            pois={clusteredPOIs}
+                            pinned={pinnedPOIs}
+                            radius={radius}
+                            selectedId={selectedPOIId}
+                            onPOISelect={onPOISelect}
+                            onClusterSelect={onClusterSelect}
+                        />
+                    )}
+
+                    {/* Submissions awaiting review */}
+                    {layerVisibility.poi && !poisLoading && pendingMarkers.length > 0 && (
+                        <POIInstances markers={pendingMarkers} onSelect={onPOISelect} ghosted />
+                    )}
+
+                    {/* Check-in counts beside safe zones */}
+                    {layerVisibility.checkIns && layerVisibility.poi && !poisLoading && checkInMarkers.map(({ poi, summary }) => (
+                        <CheckInMarker
+                            key={poi.id}
+                            poi={poi}
+                            summary={summary}
+                            radius={radius}
+                            onSelect={onPOISelect ? () => onPOISelect(poi.id) : undefined}
+                        />
+                    ))}
+
+                    {/* Markers whose changes haven't reached the server yet */}
+                    {layerVisibility.poi && !poisLoading && pendingSyncPOIs.map(poi => (
+                        <PendingSyncMarker key={poi.id} poi={poi} radius={radius} />
+                    ))}
+
+                    {/* New and changed records from other clients */}
+                    {layerVisibility.poi && livePulses.map(pulse => (
+                        <LivePulse
+                            key={pulse.key}
+                            lat={pulse.lat}
+                            lng={pulse.lng}
+                            radius={radius}
+                            color={pulse.kind === 'report' ? '#ffb74d' : '#4fc3f7'}
+                        />
+                    ))}
+
+                    {/* Saved measurements */}
+                    {layerVisibility.measurements && annotations.map(annotation => (
+                        <MeasurementPath
+                            key={annotation.id}
+                            points={annotation.points}
+                            closed={annotation.closed}
+                            radius={radius}
+                            color="#66ccff"
+                            showVertices={false}
+                        />
+                    ))}
+
+                    {/* Zones, lines and circles - the selected one follows its handles while being reshaped */}
+                    {layerVisibility.features && visibleFeatures.map(feature => (
+                        <FeatureShape
+                            key={feature.id}
+                            feature={feature.id === selectedFeatureId && featureDraft ? featureDraft : feature}
+                            radius={radius}
+                            color={featureColor(feature)}
+                            selected={feature.id === selectedFeatureId}
+                            onSelect={canSelectFeatures && onFeatureSelect ? () => onFeatureSelect(feature.id) : undefined}
+                        />
+                    ))}
+
+                    {/* Edit handles for the selected feature */}
+                    {layerVisibility.features && selectedFeature && canSelectFeatures && canReshapeFeature && (
+                        <FeatureHandles
+                            feature={featureDraft || selectedFeature}
+                            radius={radius}
+                            onHandleDown={handleFeatureHandleDown}
+                            onRemoveVertex={handleRemoveVertex}
+                        />
+                    )}
+
+                    {/* Feature being drawn */}
+                    {drawKind && drawPoints.length > 0 && (
+                        <>
+                            <MeasurementPath points={drawPoints} radius={radius} color={DRAFT_FEATURE_COLOR} />
+                            {drawGeometry && (
+                                <FeatureShape feature={drawGeometry} radius={radius} color={DRAFT_FEATURE_COLOR} />
+                            )}
+                        </>
+                    )}
+
+                    {/* Measurement in progress */}
+                    {isMeasureMode && measurePoints.length > 0 && (
+                        <MeasurementPath points={measurePoints} closed={measureClosed} radius={radius} />
+                    )}
+
+                    {/* Clicked point in nearest mode, and the route planned from it */}
+                    {isNearestMode && nearestOrigin && (
+                        <MeasurementPath points={routePath || [nearestOrigin]} radius={radius} color={ROUTE_COLOR} />
+                    )}
 
-                    {/* Intersection point indicator - only show when in marker placement mode */}
-                    {intersectionPoint && isMarkerMode && (
+                    {/* Intersection point indicator - only show when placing markers, measuring, searching or drawing */}
+                    {intersectionPoint && (isMarkerMode || isMeasureMode || isNearestMode || drawKind) && (
                         <mesh position={intersectionPoint} renderOrder={1000}>
                             <sphereGeometry args={[0.02, 16, 16]} />
                             <meshBasicMaterial 
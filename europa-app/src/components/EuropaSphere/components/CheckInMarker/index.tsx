@@ -0,0 +1,80 @@
+import React, { useMemo, useRef } from 'react';
+import { Html } from '@react-three/drei';
+import { useFrame } from '@react-three/fiber';
+import { latLongToVector3 } from '../../../../geodesy';
+import { CheckInStatus, CheckInStatusLabels, POI } from '../../../../types';
+import { CheckInSummary } from '../../../../utils/checkIns';
+import { CHECK_IN_STATUS_COLORS } from '../../utils';
+import '../../../../styles/CheckInMarker.css';
+
+export interface CheckInMarkerProps {
+  poi: POI;
+  summary: CheckInSummary;
+  radius?: number;
+  onSelect?: () => void; // Called when the badge is clicked
+}
+
+/**
+ * Badge beside a safe zone with the number of people checked in there
+ * The ring is split by status, and hovering lists the latest check-ins
+ */
+const CheckInMarker: React.FC<CheckInMarkerProps> = ({ poi, summary, radius = 1, onSelect }) => {
+  const position = useMemo(() => latLongToVector3(poi.lat, poi.lng, radius), [poi.lat, poi.lng, radius]);
+  const badgeRef = useRef<HTMLDivElement>(null);
+
+  // Ring segments sized by each status's share of the check-ins
+  const ring = useMemo(() => {
+    let start = 0;
+    const stops = Object.values(CheckInStatus)
+      .filter(status => summary.statusCounts[status] > 0)
+      .map(status => {
+        const end = start + (summary.statusCounts[status] / summary.count) * 360;
+        const stop = `${CHECK_IN_STATUS_COLORS[status]} ${start}deg ${end}deg`;
+        start = end;
+        return stop;
+      });
+    return `conic-gradient(${stops.join(', ')})`;
+  }, [summary]);
+
+  // Hidden over the horizon like the cluster badges, written straight to the DOM
+  useFrame(({ camera }) => {
+    if (!badgeRef.current) return;
+    const visible = camera.position.dot(position) > radius * radius;
+    badgeRef.current.style.visibility = visible ? 'visible' : 'hidden';
+  });
+
+  const needHelp = summary.statusCounts[CheckInStatus.NEED_HELP];
+
+  return (
+    <group position={position}>
+      <Html zIndexRange={[25, 0]}>
+        <div
+          ref={badgeRef}
+          className={`check-in-marker ${needHelp > 0 ? 'need-help' : ''}`}
+          onClick={onSelect}
+          role="button"
+          aria-label={`${summary.count} checked in at ${poi.title}${needHelp > 0 ? `, ${needHelp} need help` : ''}`}
+        >
+          <div className="check-in-marker-badge" style={{ background: ring }}>
+            <span>{summary.count}</span>
+          </div>
+          <ul className="check-in-marker-latest">
+            <li className="check-in-marker-title">{poi.title}</li>
+            {summary.latest.map(checkIn => (
+              <li key={checkIn.id}>
+                <span
+                  className="check-in-marker-swatch"
+                  style={{ backgroundColor: CHECK_IN_STATUS_COLORS[checkIn.status] }}
+                />
+                @{checkIn.author}
+                <span className="check-in-marker-status">{CheckInStatusLabels[checkIn.status]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+export default React.memo(CheckInMarker);
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { latLongToVector3 } from '../../../../geodesy';
+import { POI } from '../../../../types';
+import { Cluster, clusterPoints, fitDistance, screenAngle } from '../../../../utils/clustering';
+import ClusterMarker from '../ClusterMarker';
+import POIInstances, { InstancedPOI } from '../POIInstances';
+
+export interface ClusterView {
+  lat: number;
+  lng: number;
+  distance: number; // Camera distance from the centre of the globe
+}
+
+export interface ClusterLayerProps {
+  pois: POI[];
+  pinned?: POI[]; // POIs that are never folded into a cluster, e.g. the selection or a POI being dragged
+  radius?: number;
+  clusterPixels?: number; // Markers closer than this on screen are grouped
+  selectedId?: string | null;
+  onPOISelect?: (id: string) => void; // Called when a single marker is clicked
+  onClusterSelect?: (view: ClusterView) => void; // Called with a camera view that fits the clicked cluster
+}
+
+// Clustering angles are snapped to powers of this ratio, so zooming only re-clusters at discrete steps
+const LEVEL_RATIO = 1.25;
+// Closest camera distance allowed by the orbit controls - everything is shown individually near it
+const MIN_CAMERA_DISTANCE = 2;
+const UNCLUSTER_DISTANCE = 2.05;
+// Seconds for markers to slide between a cluster and their own positions
+const TRANSITION_SECONDS = 0.4;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// The clustering level for a camera view, or null when markers should all be shown
+const levelForView = (distance: number, fov: number, height: number, pixels: number) => {
+  if (distance <= UNCLUSTER_DISTANCE) return null;
+  const angle = screenAngle(pixels, distance, fov, height);
+  return angle > 0 ? Math.ceil(Math.log(angle) / Math.log(LEVEL_RATIO)) : null;
+};
+
+interface TransitionGroupProps {
+  from?: THREE.Vector3; // Where the item was last shown
+  to: THREE.Vector3; // Where its content is positioned
+  children: React.ReactNode;
+}
+
+/**
+ * Slides its content along the surface from `from` to `to`, without re-rendering per frame
+ */
+const TransitionGroup: React.FC<TransitionGroupProps> = ({ from, to, children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const elapsed = useRef(0);
+  const invalidate = useThree(state => state.invalidate);
+
+  // Restart whenever the item moves
+  useEffect(() => {
+    elapsed.current = from && from.distanceToSquared(to) > 1e-12 ? 0 : TRANSITION_SECONDS;
+    invalidate();
+  }, [from, to, invalidate]);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group || !from) return;
+    if (elapsed.current >= TRANSITION_SECONDS) {
+      group.position.set(0, 0, 0);
+      return;
+    }
+
+    elapsed.current = Math.min(TRANSITION_SECONDS, elapsed.current + delta);
+    const t = easeOutCubic(elapsed.current / TRANSITION_SECONDS);
+    const rotation = new THREE.Quaternion().setFromUnitVectors(from.clone().normalize(), to.clone().normalize());
+    const step = new THREE.Quaternion().slerp(rotation, t);
+    group.position.copy(from).applyQuaternion(step).sub(to);
+    // The canvas renders on demand, so keep frames coming until the slide ends
+    invalidate();
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+};
+
+
+/**
+ * POI markers grouped by how close they appear on screen
+ * Clusters are recomputed only when the zoom crosses a level, and markers slide out of their
+ * cluster as it splits (and back in as clusters merge). Clicking a cluster asks to fly to it.
+ */
+const ClusterLayer: React.FC<ClusterLayerProps> = ({
+  pois,
+  pinned = [],
+  radius = 1,
+  clusterPixels = 40,
+  selectedId = null,
+  onPOISelect,
+  onClusterSelect
+}) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const size = useThree(state => state.size);
+  const [level, setLevel] = useState<number | null>(() =>
+    levelForView(camera.position.length(), camera.fov, size.height, clusterPixels)
+  );
+
+  // Watch the zoom without re-rendering until it crosses a level
+  const levelRef = useRef(level);
+  useFrame(({ camera }) => {
+    const next = levelForView(camera.position.length(), (camera as THREE.PerspectiveCamera).fov, size.height, clusterPixels);
+    if (next !== levelRef.current) {
+      levelRef.current = next;
+      setLevel(next);
+    }
+  });
+
+  const clusters = useMemo(
+    () => clusterPoints(pois, level === null ? 0 : Math.pow(LEVEL_RATIO, level)),
+    [pois, level]
+  );
+
+  // Where each POI was shown in the last committed render
+  const shownAt = useRef(new Map<string, THREE.Vector3>());
+
+  // Groups slide in from where their seed was shown, and markers from the cluster they leave
+  const groups = useMemo(() => clusters
+    .filter(cluster => cluster.members.length > 1)
+    .map(cluster => ({
+      cluster,
+      position: latLongToVector3(cluster.lat, cluster.lng, radius),
+      from: shownAt.current.get(cluster.members[0].id)
+    })), [clusters, radius]);
+
+  const singles = useMemo<InstancedPOI[]>(() => clusters
+    .filter(cluster => cluster.members.length === 1)
+    .map(({ members: [poi] }) => ({
+      poi,
+      position: latLongToVector3(poi.lat, poi.lng, radius),
+      from: shownAt.current.get(poi.id)
+    })), [clusters, radius]);
+
+  // Pinned markers follow their POI directly, e.g. while being dragged
+  const markers = useMemo<InstancedPOI[]>(() => [
+    ...singles,
+    ...pinned.map(poi => ({ poi, position: latLongToVector3(poi.lat, poi.lng, radius) }))
+  ], [singles, pinned, radius]);
+
+  useEffect(() => {
+    const next = new Map<string, THREE.Vector3>();
+    groups.forEach(({ cluster, position }) => cluster.members.forEach(member => next.set(member.id, position)));
+    markers.forEach(({ poi, position }) => next.set(poi.id, position));
+    shownAt.current = next;
+  }, [groups, markers]);
+
+  const handleClusterClick = (cluster: Cluster<POI>) => {
+    if (!onClusterSelect) return;
+    const aspect = size.width / Math.max(1, size.height);
+    // Close enough to see every member, and for the members to come apart
+    const fit = fitDistance(cluster.spread, camera.fov, aspect);
+    const split = 1 + (cluster.spread / 2 / LEVEL_RATIO) / screenAngle(clusterPixels, 2, camera.fov, size.height);
+    onClusterSelect({
+      lat: cluster.lat,
+      lng: cluster.lng,
+      distance: Math.max(MIN_CAMERA_DISTANCE, Math.min(fit, split))
+    });
+  };
+
+  return (
+    <>
+      {groups.map(({ cluster, position, from }) => (
+        <TransitionGroup key={cluster.id} from={from} to={position}>
+          <ClusterMarker cluster={cluster} radius={radius} onSelect={() => handleClusterClick(cluster)} />
+        </TransitionGroup>
+      ))}
+      <POIInstances
+        markers={markers}
+        selectedId={selectedId}
+        onSelect={onPOISelect}
+        transitionSeconds={TRANSITION_SECONDS}
+      />
+    </>
+  );
+};
+
+export default React.memo(ClusterLayer);
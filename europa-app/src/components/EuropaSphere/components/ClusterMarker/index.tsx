@@ -0,0 +1,93 @@
+import React, { useMemo, useRef } from 'react';
+import { Html } from '@react-three/drei';
+import { useFrame } from '@react-three/fiber';
+import { latLongToVector3 } from '../../../../geodesy';
+import { MarkerCategoryLabels, POI } from '../../../../types';
+import { Cluster, UNCATEGORIZED } from '../../../../utils/clustering';
+import { getCategoryColor } from '../../utils';
+import '../../../../styles/ClusterMarker.css';
+
+export interface ClusterMarkerProps {
+  cluster: Cluster<POI>;
+  radius?: number;
+  onSelect?: () => void; // Called when the badge is clicked
+}
+
+// Badge diameter in pixels, growing with the member count
+const MIN_BADGE_SIZE = 26;
+const MAX_BADGE_SIZE = 48;
+
+const categoryLabel = (category: string) =>
+  category === UNCATEGORIZED
+    ? 'Other'
+    : MarkerCategoryLabels[category as keyof typeof MarkerCategoryLabels] || category;
+
+/**
+ * Badge standing in for a group of nearby POIs when zoomed out
+ * Shows the member count inside a ring split by category, and the full breakdown on hover
+ */
+const ClusterMarker: React.FC<ClusterMarkerProps> = ({ cluster, radius = 1, onSelect }) => {
+  const position = useMemo(() => latLongToVector3(cluster.lat, cluster.lng, radius), [cluster.lat, cluster.lng, radius]);
+  const badgeRef = useRef<HTMLDivElement>(null);
+
+  // Largest categories first
+  const breakdown = useMemo(
+    () => Object.entries(cluster.categories).sort(([, a], [, b]) => b - a),
+    [cluster.categories]
+  );
+
+  // Ring segments sized by each category's share of the members
+  const ring = useMemo(() => {
+    const total = cluster.members.length;
+    let start = 0;
+    const stops = breakdown.map(([category, count]) => {
+      const end = start + (count / total) * 360;
+      const stop = `${getCategoryColor(category === UNCATEGORIZED ? undefined : category)} ${start}deg ${end}deg`;
+      start = end;
+      return stop;
+    });
+    return `conic-gradient(${stops.join(', ')})`;
+  }, [breakdown, cluster.members.length]);
+
+  const size = Math.min(MAX_BADGE_SIZE, MIN_BADGE_SIZE + Math.log2(cluster.members.length) * 4);
+
+  // HTML overlays aren't hidden by the globe, so hide the badge once it passes over the horizon.
+  // Written straight to the DOM to avoid re-rendering every frame
+  useFrame(({ camera }) => {
+    if (!badgeRef.current) return;
+    const visible = camera.position.dot(position) > radius * radius;
+    badgeRef.current.style.visibility = visible ? 'visible' : 'hidden';
+  });
+
+  return (
+    <group position={position}>
+      <Html center zIndexRange={[20, 0]}>
+        <div
+          ref={badgeRef}
+          className="cluster-marker"
+          onClick={onSelect}
+          role="button"
+          aria-label={`${cluster.members.length} markers - zoom in`}
+        >
+          <div className="cluster-badge" style={{ width: size, height: size, background: ring }}>
+            <span>{cluster.members.length}</span>
+          </div>
+          <ul className="cluster-breakdown">
+            {breakdown.map(([category, count]) => (
+              <li key={category}>
+                <span
+                  className="cluster-swatch"
+                  style={{ backgroundColor: getCategoryColor(category === UNCATEGORIZED ? undefined : category) }}
+                />
+                {categoryLabel(category)}
+                <span className="cluster-count">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+export default React.memo(ClusterMarker);
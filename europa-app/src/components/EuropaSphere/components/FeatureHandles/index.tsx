@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { destinationPoint, latLongToVector3 } from '../../../../geodesy';
+import { FeatureGeometry, FeatureHandle, edgeMidpoint } from '../../../../utils/featureGeometry';
+
+export type { FeatureHandle };
+
+export interface FeatureHandlesProps {
+  feature: FeatureGeometry;
+  radius: number;
+  onHandleDown: (handle: FeatureHandle) => void;
+  onRemoveVertex?: (index: number) => void; // Called when a vertex is double-clicked
+}
+
+// Same height as the outline drawn by MeasurementPath
+const SURFACE_OFFSET = 1.003;
+
+/**
+ * Draggable handles for reshaping the selected feature.
+ * Polygons and polylines get a handle per vertex plus one at each edge midpoint for inserting
+ * vertices; circles get a centre handle and an edge handle that sets the radius.
+ */
+const FeatureHandles: React.FC<FeatureHandlesProps> = ({ feature, radius, onHandleDown, onRemoveVertex }) => {
+  const handles = useMemo(() => {
+    const toPosition = ({ lat, lng }: { lat: number; lng: number }) => latLongToVector3(lat, lng, radius * SURFACE_OFFSET);
+    const { points } = feature;
+
+    if (feature.kind === 'circle') {
+      return [
+        { handle: { type: 'center' } as FeatureHandle, position: toPosition(points[0]), major: true },
+        {
+          handle: { type: 'radius' } as FeatureHandle,
+          position: toPosition(destinationPoint(points[0], 90, feature.radiusKm || 0)),
+          major: true
+        }
+      ];
+    }
+
+    const edgeCount = feature.kind === 'polygon' ? points.length : points.length - 1;
+    return [
+      ...points.map((point, index) => ({ handle: { type: 'vertex', index } as FeatureHandle, position: toPosition(point), major: true })),
+      ...Array.from({ length: Math.max(0, edgeCount) }, (_, index) => ({
+        handle: { type: 'insert', index } as FeatureHandle,
+        position: toPosition(edgeMidpoint(feature, index)),
+        major: false
+      }))
+    ];
+  }, [feature, radius]);
+
+  return (
+    <group>
+      {handles.map(({ handle, position, major }) => (
+        <mesh
+          key={`${handle.type}-${'index' in handle ? handle.index : ''}`}
+          position={position}
+          onPointerDown={(event: ThreeEvent<PointerEvent>) => {
+            // Handles on the far side of the globe are hidden behind it
+            if (event.intersections[0]?.object !== event.object) return;
+            event.stopPropagation();
+            onHandleDown(handle);
+          }}
+          onDoubleClick={(event: ThreeEvent<MouseEvent>) => {
+            if (handle.type !== 'vertex' || !onRemoveVertex) return;
+            event.stopPropagation();
+            onRemoveVertex(handle.index);
+          }}
+        >
+          <sphereGeometry args={[major ? 0.012 : 0.008, 12, 12]} />
+          <meshBasicMaterial color={major ? '#ffffff' : '#aaaaaa'} transparent={!major} opacity={major ? 1 : 0.7} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default React.memo(FeatureHandles);
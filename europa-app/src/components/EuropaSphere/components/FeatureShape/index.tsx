@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FeatureGeometry, drapePolygon, featureRing } from '../../../../utils/featureGeometry';
+import MeasurementPath from '../MeasurementPath';
+
+export interface FeatureShapeProps {
+  feature: FeatureGeometry;
+  radius: number;
+  color: string;
+  selected?: boolean;
+  onSelect?: () => void; // Called when the filled area is clicked
+}
+
+// Keep the fill just under the outline, which sits at 1.003
+const FILL_OFFSET = 1.002;
+
+/**
+ * A map feature draped on the sphere: a translucent fill for polygons and circles,
+ * and a geodesic outline for every kind
+ */
+const FeatureShape: React.FC<FeatureShapeProps> = ({ feature, radius, color, selected = false, onSelect }) => {
+  const ring = useMemo(() => featureRing(feature), [feature]);
+  const fill = useMemo(() => (ring ? drapePolygon(ring) : null), [ring]);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    // Ignore drags that rotate the globe
+    if (!onSelect || event.delta > 2) return;
+    event.stopPropagation();
+    onSelect();
+  };
+
+  return (
+    <group>
+      {fill && (
+        // Keyed on the vertex count so the buffer is recreated when the shape changes size
+        <mesh key={fill.length} scale={radius * FILL_OFFSET} onClick={handleClick}>
+          <bufferGeometry>
+            <bufferAttribute attach="attributes-position" count={fill.length / 3} array={fill} itemSize={3} args={[fill, 3]} />
+          </bufferGeometry>
+          <meshBasicMaterial
+            color={color}
+            transparent={true}
+            opacity={selected ? 0.4 : 0.22}
+            depthWrite={false}
+            side={THREE.FrontSide}
+          />
+        </mesh>
+      )}
+      <MeasurementPath
+        points={ring || feature.points}
+        closed={ring !== null}
+        radius={radius}
+        color={selected ? '#ffffff' : color}
+        showVertices={false}
+      />
+    </group>
+  );
+};
+
+export default React.memo(FeatureShape);
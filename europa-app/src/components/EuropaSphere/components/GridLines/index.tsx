@@ -1,17 +1,5 @@
 import React, { useMemo } from 'react';
-import * as THREE from 'three';
-
-// Helper function to convert lat/long to 3D coordinates
-const latLongToVector3 = (lat: number, long: number, radius: number): THREE.Vector3 => {
-  const phi = (90 - lat) * (Math.PI / 180);
-  const theta = (long + 180) * (Math.PI / 180);
-  
-  const x = radius * Math.sin(phi) * Math.cos(theta);
-  const y = radius * Math.cos(phi);
-  const z = radius * Math.sin(phi) * Math.sin(theta);
-  
-  return new THREE.Vector3(x, y, z);
-};
+import { latLongToVector3 } from '../../../../geodesy';
 
 interface GridLinesProps {
   radius: number;
@@ -0,0 +1,137 @@
+import { shaderMaterial } from '@react-three/drei';
+import { extend, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useEffect, useMemo, useRef } from 'react';
+import { GEODESY_GLSL } from '../../../geodesy';
+import {
+  HeatSource,
+  HeatmapOptions,
+  computeHeatmap,
+  normalizeHeatmap,
+  HEATMAP_WIDTH,
+  HEATMAP_HEIGHT
+} from '../../../utils/heatmap';
+
+/**
+ * Heatmap blending shared by the surface materials - include it after GEODESY_GLSL.
+ * Declares the heatMap, heatOpacity and showHeatmap uniforms and blendHeat(), which
+ * tints a surface colour by the intensity of the heatmap at a direction.
+ */
+export const HEATMAP_GLSL = /* glsl */`
+  #ifndef HEATMAP_GLSL
+  #define HEATMAP_GLSL
+
+  uniform sampler2D heatMap;           // R = normalized density over the equirectangular grid
+  uniform float heatOpacity;
+  uniform bool showHeatmap;
+
+  // Yellow for faint heat, through orange to deep red at the hottest spots
+  vec3 heatColor(float heat) {
+    vec3 warm = mix(vec3(1.0, 0.9, 0.25), vec3(1.0, 0.45, 0.05), smoothstep(0.0, 0.5, heat));
+    return mix(warm, vec3(0.8, 0.0, 0.05), smoothstep(0.5, 1.0, heat));
+  }
+
+  vec3 blendHeat(vec3 baseColor, vec3 direction) {
+    if (!showHeatmap) return baseColor;
+    float heat = texture2D(heatMap, directionToEquirectUv(direction)).r;
+    // Fade in from zero so the kernel tails don't tint the whole surface
+    float alpha = heatOpacity * smoothstep(0.02, 0.3, heat);
+    return mix(baseColor, heatColor(heat), alpha);
+  }
+
+  #endif
+`;
+
+/**
+ * Bake the kernel density of the sources into a single-channel texture
+ */
+export const createHeatmapTexture = (sources: HeatSource[], options: HeatmapOptions) => {
+  const { width = HEATMAP_WIDTH, height = HEATMAP_HEIGHT } = options;
+  const data = normalizeHeatmap(computeHeatmap(sources, { ...options, width, height }));
+
+  // Linear filtering smooths the density; longitude wraps so filtering blends across the antimeridian,
+  // and latitude clamps so the polar rows don't bleed into each other
+  const texture = new THREE.DataTexture(data, width, height, THREE.RedFormat);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+
+  return texture;
+};
+
+// Surface material for the heatmap on its own; VoronoiMaterial blends it over the territories
+const HeatmapShaderMaterial = shaderMaterial(
+  {
+    baseTexture: null,
+    heatMap: null,
+    heatOpacity: 0.7,
+    showHeatmap: true
+  },
+  // Vertex shader
+  /* glsl */`
+    varying vec3 vPosition;
+    varying vec2 vUv;
+
+    void main() {
+      vPosition = position;
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  // Fragment shader
+  /* glsl */`
+    precision highp float;
+    uniform sampler2D baseTexture;
+
+    varying vec3 vPosition;
+    varying vec2 vUv;
+
+    ${GEODESY_GLSL}
+    ${HEATMAP_GLSL}
+
+    void main() {
+      vec4 baseColor = texture2D(baseTexture, vUv);
+      gl_FragColor = vec4(blendHeat(baseColor.rgb, normalize(vPosition)), 1.0);
+    }
+  `
+);
+
+extend({ HeatmapShaderMaterial });
+
+interface HeatmapMaterialProps {
+  baseTexture: THREE.Texture;
+  heatmap: THREE.Texture;
+  opacity?: number;
+}
+
+const HeatmapMaterial: React.FC<HeatmapMaterialProps> = ({ baseTexture, heatmap, opacity = 0.7 }) => {
+  const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const invalidate = useThree(state => state.invalidate);
+
+  const material = useMemo(() => new HeatmapShaderMaterial(), []);
+
+  useEffect(() => {
+    if (materialRef.current) {
+      materialRef.current.uniforms.baseTexture.value = baseTexture;
+      materialRef.current.uniforms.heatMap.value = heatmap;
+      materialRef.current.uniforms.heatOpacity.value = opacity;
+      materialRef.current.needsUpdate = true;
+      // Uniform changes don't go through React, so request a frame for them
+      invalidate();
+    }
+  }, [baseTexture, heatmap, opacity, invalidate]);
+
+  return (
+    <primitive
+      object={material}
+      ref={materialRef}
+      attach="material"
+      key={HeatmapShaderMaterial.key}
+    />
+  );
+};
+
+export default HeatmapMaterial;
@@ -0,0 +1,55 @@
+import React, { useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { latLongToVector3 } from '../../../../geodesy';
+import { markerScaleForDistance } from '../../utils';
+
+export interface LivePulseProps {
+  lat: number;
+  lng: number;
+  radius?: number;
+  color?: string;
+  durationSeconds?: number;
+}
+
+// RingGeometry faces +Z
+const RING_NORMAL = new THREE.Vector3(0, 0, 1);
+// The ring grows from marker size to this many times larger while fading out
+const PULSE_GROWTH = 4;
+
+/**
+ * Expanding ring drawn once where a record just arrived from another client
+ */
+const LivePulse: React.FC<LivePulseProps> = ({ lat, lng, radius = 1, color = '#4fc3f7', durationSeconds = 2.5 }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const elapsed = useRef(0);
+  const invalidate = useThree(state => state.invalidate);
+
+  const position = useMemo(() => latLongToVector3(lat, lng, radius * 1.002), [lat, lng, radius]);
+  const quaternion = useMemo(
+    () => new THREE.Quaternion().setFromUnitVectors(RING_NORMAL, position.clone().normalize()),
+    [position]
+  );
+
+  useFrame(({ camera }, delta) => {
+    if (!meshRef.current || !materialRef.current || elapsed.current >= durationSeconds) return;
+
+    elapsed.current = Math.min(durationSeconds, elapsed.current + delta);
+    const t = elapsed.current / durationSeconds;
+    meshRef.current.scale.setScalar(markerScaleForDistance(camera.position.length()) * (1 + t * (PULSE_GROWTH - 1)));
+    materialRef.current.opacity = 1 - t;
+
+    // The canvas renders on demand, so keep frames coming until the ring has faded
+    invalidate();
+  });
+
+  return (
+    <mesh ref={meshRef} position={position} quaternion={quaternion} renderOrder={2}>
+      <ringGeometry args={[0.8, 1, 32]} />
+      <meshBasicMaterial ref={materialRef} color={color} transparent depthWrite={false} side={THREE.DoubleSide} />
+    </mesh>
+  );
+};
+
+export default LivePulse;
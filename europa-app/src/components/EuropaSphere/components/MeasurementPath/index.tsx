@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import { LatLng, greatCirclePath, latLongToVector3 } from '../../../../geodesy';
+
+export interface MeasurementPathProps {
+  points: LatLng[];
+  closed?: boolean;
+  radius: number;
+  color?: string;
+  showVertices?: boolean;
+}
+
+// Lift the path slightly off the surface so it isn't hidden by the sphere
+const SURFACE_OFFSET = 1.003;
+
+/**
+ * Draws a measured path on the sphere as great-circle segments,
+ * closing it back to the first point when it is a polygon
+ */
+const MeasurementPath: React.FC<MeasurementPathProps> = ({
+  points,
+  closed = false,
+  radius,
+  color = '#ffcc00',
+  showVertices = true
+}) => {
+  const positions = useMemo(() => {
+    const path = greatCirclePath(points, closed && points.length > 2);
+    return new Float32Array(path.flatMap(({ lat, lng }) => {
+      const v = latLongToVector3(lat, lng, radius * SURFACE_OFFSET);
+      return [v.x, v.y, v.z];
+    }));
+  }, [points, closed, radius]);
+
+  const vertices = useMemo(
+    () => points.map(({ lat, lng }) => latLongToVector3(lat, lng, radius * SURFACE_OFFSET)),
+    [points, radius]
+  );
+
+  return (
+    <group>
+      {points.length > 1 && (
+        // Keyed on the vertex count so the buffer is recreated when the path grows
+        <line key={positions.length}>
+          <bufferGeometry>
+            <bufferAttribute
+              attach="attributes-position"
+              count={positions.length / 3}
+              array={positions}
+              itemSize={3}
+              args={[positions, 3]}
+            />
+          </bufferGeometry>
+          <lineBasicMaterial color={color} linewidth={2} />
+        </line>
+      )}
+      {showVertices && vertices.map((position, index) => (
+        <mesh key={index} position={position}>
+          <sphereGeometry args={[0.008, 8, 8]} />
+          <meshBasicMaterial color={color} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default React.memo(MeasurementPath);
@@ -0,0 +1,331 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { POI } from '../../../../types';
+import { MarkerShape, getCategoryColor, getCategoryShape, getMarkerGeometry, markerScaleForDistance } from '../../utils';
+
+export interface InstancedPOI {
+  poi: POI;
+  position: THREE.Vector3; // Point on the sphere surface
+  from?: THREE.Vector3; // Where the marker was last shown, to slide in from
+}
+
+export interface POIInstancesProps {
+  markers: InstancedPOI[];
+  selectedId?: string | null;
+  onSelect?: (id: string) => void; // Called when a marker is clicked
+  transitionSeconds?: number;
+  ghosted?: boolean; // Draw faded and greyed, e.g. for submissions awaiting review
+}
+
+// Growth and whitening of the hovered and selected markers
+const HIGHLIGHT_SCALE = 1.3;
+const HIGHLIGHT_TINT = 0.35;
+const PULSE_SPEED = 5;
+const PULSE_AMOUNT = 0.1;
+
+// Ghosted markers are pulled this far towards grey and drawn at this opacity
+const GHOST_DESATURATION = 0.6;
+const GHOST_OPACITY = 0.35;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// Instance buffers grow in powers of two, so adding markers rarely rebuilds the meshes
+const capacityFor = (count: number) => Math.max(16, Math.pow(2, Math.ceil(Math.log2(Math.max(1, count)))));
+
+const UP = new THREE.Vector3(0, 1, 0);
+const TORUS_NORMAL = new THREE.Vector3(0, 0, 1);
+
+interface ShapeInstancesProps {
+  shape: MarkerShape;
+  markers: InstancedPOI[];
+  selectedId: string | null;
+  hoveredId: string | null;
+  onHover: (id: string | null) => void;
+  onSelect?: (id: string) => void;
+  transitionSeconds: number;
+  ghosted: boolean;
+}
+
+/**
+ * One draw call for the rings and one for the centre shapes of every marker with the same shape.
+ * Matrices and colours are written straight into the instance buffers - only hovering changes React state.
+ */
+const ShapeInstances: React.FC<ShapeInstancesProps> = ({
+  shape,
+  markers,
+  selectedId,
+  hoveredId,
+  onHover,
+  onSelect,
+  transitionSeconds,
+  ghosted
+}) => {
+  const ringRef = useRef<THREE.InstancedMesh>(null);
+  const shapeRef = useRef<THREE.InstancedMesh>(null);
+  const invalidate = useThree(state => state.invalidate);
+
+  // Unit geometries, sized per instance
+  const ringGeometry = useMemo(() => new THREE.TorusGeometry(0.6, 0.1, 16, 32), []);
+  const shapeGeometry = useMemo(() => getMarkerGeometry(shape, 1), [shape]);
+  useEffect(() => () => {
+    ringGeometry.dispose();
+    shapeGeometry.dispose();
+  }, [ringGeometry, shapeGeometry]);
+
+  const capacity = capacityFor(markers.length);
+
+  // Whether one of this shape's markers is hovered, and so pulsing
+  const hasHovered = useMemo(() => markers.some(marker => marker.poi.id === hoveredId), [markers, hoveredId]);
+
+  // Current state of the instance buffers, read and written every frame without re-rendering
+  const state = useRef({ scale: 0, elapsed: transitionSeconds, pulsing: false });
+
+  // Surface position of a marker part way through its slide in
+  const animatedPosition = useMemo(() => {
+    const rotation = new THREE.Quaternion();
+    const step = new THREE.Quaternion();
+    return (marker: InstancedPOI, t: number, target: THREE.Vector3) => {
+      if (!marker.from || t >= 1) return target.copy(marker.position);
+      rotation.setFromUnitVectors(marker.from.clone().normalize(), marker.position.clone().normalize());
+      step.identity().slerp(rotation, t);
+      return target.copy(marker.from).applyQuaternion(step);
+    };
+  }, []);
+
+  // Write every instance's matrix for the given marker size and slide progress
+  const writeMatrices = useMemo(() => {
+    const position = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const inward = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const matrix = new THREE.Matrix4();
+
+    return (markerScale: number, t: number, pulse: number) => {
+      const ring = ringRef.current;
+      const centre = shapeRef.current;
+      if (!ring || !centre) return;
+
+      markers.forEach((marker, index) => {
+        animatedPosition(marker, t, position);
+        normal.copy(position).normalize();
+        const id = marker.poi.id;
+        const highlight = id === hoveredId ? HIGHLIGHT_SCALE * pulse : id === selectedId ? HIGHLIGHT_SCALE : 1;
+        const baseSize = markerScale * 3 * highlight;
+
+        // Ring lies flat on the surface
+        quaternion.setFromUnitVectors(TORUS_NORMAL, normal);
+        matrix.compose(position, quaternion, scale.setScalar(baseSize));
+        ring.setMatrixAt(index, matrix);
+
+        // Centre shape points at the centre of the sphere, lifted slightly off the surface
+        quaternion.setFromUnitVectors(UP, inward.copy(normal).negate());
+        position.addScaledVector(normal, markerScale * 0.5);
+        matrix.compose(position, quaternion, scale.setScalar(baseSize * 0.4));
+        centre.setMatrixAt(index, matrix);
+      });
+
+      [ring, centre].forEach(mesh => {
+        mesh.count = markers.length;
+        mesh.instanceMatrix.needsUpdate = true;
+        // Keep culling and raycasting bounds in step with the moved instances
+        mesh.computeBoundingSphere();
+      });
+    };
+  }, [markers, hoveredId, selectedId, animatedPosition]);
+
+  // Category colours, whitened for the hovered and selected markers
+  useLayoutEffect(() => {
+    const color = new THREE.Color();
+    const white = new THREE.Color('#ffffff');
+    const grey = new THREE.Color('#888888');
+    [ringRef.current, shapeRef.current].forEach(mesh => {
+      if (!mesh) return;
+      markers.forEach((marker, index) => {
+        color.set(getCategoryColor(marker.poi.category));
+        if (ghosted) color.lerp(grey, GHOST_DESATURATION);
+        if (marker.poi.id === hoveredId || marker.poi.id === selectedId) color.lerp(white, HIGHLIGHT_TINT);
+        mesh.setColorAt(index, color);
+      });
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+    invalidate();
+  }, [markers, hoveredId, selectedId, capacity, ghosted, invalidate]);
+
+  // Restart the slide whenever the markers change
+  useLayoutEffect(() => {
+    const slides = markers.some(marker => marker.from && marker.from.distanceToSquared(marker.position) > 1e-12);
+    state.current.elapsed = slides ? 0 : transitionSeconds;
+  }, [markers, transitionSeconds]);
+
+  // Redraw the instances on the next frame after the markers, highlights or meshes change
+  useLayoutEffect(() => {
+    state.current.scale = 0;
+    invalidate();
+  }, [writeMatrices, capacity, invalidate]);
+
+  useFrame(({ camera, clock }, delta) => {
+    const current = state.current;
+    const markerScale = markerScaleForDistance(camera.position.length());
+    const sliding = current.elapsed < transitionSeconds;
+    const pulsing = hasHovered;
+
+    // Only touch the buffers while something is moving
+    if (!sliding && !pulsing && !current.pulsing && markerScale === current.scale) return;
+
+    if (sliding) current.elapsed = Math.min(transitionSeconds, current.elapsed + delta);
+    const t = transitionSeconds > 0 ? easeOutCubic(current.elapsed / transitionSeconds) : 1;
+    const pulse = pulsing ? 1 + Math.sin(clock.getElapsedTime() * PULSE_SPEED) * PULSE_AMOUNT : 1;
+    writeMatrices(markerScale, t, pulse);
+    current.scale = markerScale;
+    current.pulsing = pulsing;
+
+    // The canvas renders on demand, so keep frames coming while sliding or pulsing
+    if (current.elapsed < transitionSeconds || pulsing) invalidate();
+  });
+
+  // Instance ids index into this shape's markers. Markers behind the globe are ignored,
+  // since the globe is hit first
+  const markerAt = (event: ThreeEvent<PointerEvent | MouseEvent>) => {
+    const first = event.intersections[0]?.object;
+    if (first !== ringRef.current && first !== shapeRef.current) return null;
+    return event.instanceId !== undefined ? markers[event.instanceId] : null;
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const marker = markerAt(event);
+    if (!marker) return;
+    event.stopPropagation();
+    if (marker.poi.id !== hoveredId) onHover(marker.poi.id);
+  };
+
+  const handlePointerOut = () => {
+    if (hasHovered) onHover(null);
+  };
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    const marker = markerAt(event);
+    if (!marker || !onSelect) return;
+    event.stopPropagation();
+    onSelect(marker.poi.id);
+  };
+
+  const handlers = {
+    onPointerMove: handlePointerMove,
+    onPointerOut: handlePointerOut,
+    onClick: handleClick
+  };
+
+  return (
+    <>
+      <instancedMesh
+        key={`ring-${capacity}`}
+        ref={ringRef}
+        args={[ringGeometry, undefined, capacity]}
+        {...handlers}
+      >
+        <meshBasicMaterial transparent opacity={ghosted ? GHOST_OPACITY * 0.6 : 0.6} toneMapped={false} />
+      </instancedMesh>
+      <instancedMesh
+        key={`shape-${capacity}`}
+        ref={shapeRef}
+        args={[shapeGeometry, undefined, capacity]}
+        {...handlers}
+      >
+        <meshStandardMaterial
+          metalness={0.1}
+          roughness={0.4}
+          transparent={ghosted}
+          opacity={ghosted ? GHOST_OPACITY : 1}
+          depthWrite={!ghosted}
+        />
+      </instancedMesh>
+    </>
+  );
+};
+
+/**
+ * All POI markers, drawn as instanced meshes grouped by marker shape
+ * Hovering shows the marker's label; clicking selects it
+ */
+const POIInstances: React.FC<POIInstancesProps> = ({
+  markers,
+  selectedId = null,
+  onSelect,
+  transitionSeconds = 0.4,
+  ghosted = false
+}) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const byShape = useMemo(() => {
+    const groups = new Map<MarkerShape, InstancedPOI[]>();
+    markers.forEach(marker => {
+      const shape = getCategoryShape(marker.poi.category);
+      groups.set(shape, [...(groups.get(shape) || []), marker]);
+    });
+    return Array.from(groups.entries());
+  }, [markers]);
+
+  // Forget the hovered marker once it is no longer shown
+  const hovered = useMemo(() => markers.find(marker => marker.poi.id === hoveredId), [markers, hoveredId]);
+  const activeHoverId = hovered ? hoveredId : null;
+
+  // Reset the cursor when the hovered marker goes away
+  useEffect(() => {
+    document.body.style.cursor = hovered ? 'pointer' : 'auto';
+  }, [hovered]);
+  useEffect(() => () => {
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  return (
+    <>
+      {byShape.map(([shape, shapeMarkers]) => (
+        <ShapeInstances
+          key={shape}
+          shape={shape}
+          markers={shapeMarkers}
+          selectedId={selectedId}
+          hoveredId={activeHoverId}
+          onHover={setHoveredId}
+          onSelect={onSelect}
+          transitionSeconds={transitionSeconds}
+          ghosted={ghosted}
+        />
+      ))}
+
+      {/* Label for the hovered marker */}
+      {hovered && (
+        <Html
+          position={hovered.position}
+          className="marker-label"
+          style={{
+            transform: 'translate(-50%, -120%)',
+            backgroundColor: 'rgba(0,0,0,0.8)',
+            padding: '6px 10px',
+            borderRadius: '4px',
+            color: 'white',
+            whiteSpace: 'nowrap',
+            fontSize: '12px',
+            pointerEvents: 'none',
+            userSelect: 'none'
+          }}
+        >
+          <div>
+            <h3>{hovered.poi.title}</h3>
+            {ghosted && <p><em>Pending review</em></p>}
+            {hovered.poi.description && <p>{hovered.poi.description}</p>}
+            {hovered.poi.category && <p>Type: {hovered.poi.category}</p>}
+            {hovered.poi.location
+              ? <p>Location: {hovered.poi.location}</p>
+              : <p>Coordinates: {hovered.poi.lat.toFixed(1)}°, {hovered.poi.lng.toFixed(1)}°</p>}
+          </div>
+        </Html>
+      )}
+    </>
+  );
+};
+
+export default React.memo(POIInstances);
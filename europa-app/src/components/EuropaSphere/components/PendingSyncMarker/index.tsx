@@ -0,0 +1,40 @@
+import React, { useMemo, useRef } from 'react';
+import { Html } from '@react-three/drei';
+import { useFrame } from '@react-three/fiber';
+import { latLongToVector3 } from '../../../../geodesy';
+import { POI } from '../../../../types';
+import '../../../../styles/SyncPanel.css';
+
+export interface PendingSyncMarkerProps {
+  poi: POI;
+  radius?: number;
+}
+
+/**
+ * "Pending sync" tag beside a marker whose changes haven't reached the server yet
+ */
+const PendingSyncMarker: React.FC<PendingSyncMarkerProps> = ({ poi, radius = 1 }) => {
+  const position = useMemo(() => latLongToVector3(poi.lat, poi.lng, radius), [poi.lat, poi.lng, radius]);
+  const badgeRef = useRef<HTMLDivElement>(null);
+
+  // Hidden over the horizon like the check-in badges
+  useFrame(({ camera }) => {
+    if (!badgeRef.current) return;
+    const visible = camera.position.dot(position) > radius * radius;
+    badgeRef.current.style.visibility = visible ? 'visible' : 'hidden';
+  });
+
+  return (
+    <group position={position}>
+      <Html zIndexRange={[20, 0]}>
+        <div ref={badgeRef} className="pending-sync-marker">
+          <span className="pending-sync-badge" title={`Changes to ${poi.title} haven't reached the server yet`}>
+            Pending sync
+          </span>
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+export default React.memo(PendingSyncMarker);
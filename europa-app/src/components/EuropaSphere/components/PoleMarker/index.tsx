@@ -1,8 +1,9 @@
 import React, { useRef, useMemo, useState } from 'react';
 import { Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
-import { vectorToLatLong, latLongToVector3 } from '../../utils';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { vectorToLatLong, latLongToVector3 } from '../../../../geodesy';
+import { markerScaleForDistance } from '../../utils';
 
 // Export the interface so it can be imported elsewhere
 export interface PoleMarkerProps {
@@ -17,20 +18,13 @@ export interface PoleMarkerProps {
   showCoordinates?: boolean;
   lat?: number;
   long?: number;
-  scale?: number; // Add scale prop
   radius?: number; // Optional radius for the sphere
 }
 
-// Constants for marker scaling - keeping these for fallback
-const MIN_MARKER_SIZE = 0.15;  // Min height of cylinder
-const MAX_MARKER_SIZE = 0.25;  // Max height of cylinder
-const MIN_CAMERA_DISTANCE = 1.5;  // When zoomed in close
-const MAX_CAMERA_DISTANCE = 4;    // When zoomed out far
-
 /**
  * Marker for the poles (North & South) on the sphere
  * Features a cyan cylinder with an HTML label that shows on hover
- * Scales based on camera distance
+ * Scales with camera distance, like the other markers
  * Can be positioned using either:
  * 1. A normalized direction vector (preferred)
  * 2. A position Vector3
@@ -44,7 +38,6 @@ const PoleMarker: React.FC<PoleMarkerProps> = ({
   showCoordinates = true,
   lat,
   long,
-  scale, // Add scale prop
   radius = 1 // Default radius is 1
 }) => {
   // Calculate the actual position based on available inputs
@@ -75,41 +68,17 @@ const PoleMarker: React.FC<PoleMarkerProps> = ({
   // Reference for the marker object
   const markerRef = useRef<THREE.Mesh>(null);
   
-  // Access camera for scaling calculation
-  const { camera } = useThree();
-  
   // State to track hover state
   const [hovered, setHovered] = useState(false);
   
-  // State for marker height
-  const [markerHeight, setMarkerHeight] = useState(0.2);
-  
   // State to track cursor position for optimal label placement
   const [cursorPosition, setCursorPosition] = useState<{ x: number, y: number } | null>(null);
   
-  // Update scale based on camera distance on each frame
-  useFrame(() => {
+  // Stretch the unit-height cylinder to the marker size for the camera distance,
+  // on the mesh directly so zooming doesn't re-render
+  useFrame(({ camera }) => {
     if (!markerRef.current) return;
-    
-    if (scale !== undefined) {
-      // Use the provided scale prop
-      setMarkerHeight(scale);
-      return;
-    }
-    
-    // Calculate distance between camera and marker position
-    const distanceToCamera = camera.position.distanceTo(actualPosition);
-    
-    // Calculate scale factor based on distance (direct relationship)
-    // Clamp between min and max camera distances
-    const clampedDistance = Math.max(MIN_CAMERA_DISTANCE, Math.min(MAX_CAMERA_DISTANCE, distanceToCamera));
-    
-    // Map distance to scale (closer = smaller, further = larger)
-    const normalizedDistance = (clampedDistance - MIN_CAMERA_DISTANCE) / (MAX_CAMERA_DISTANCE - MIN_CAMERA_DISTANCE);
-    const height = MIN_MARKER_SIZE + normalizedDistance * (MAX_MARKER_SIZE - MIN_MARKER_SIZE);
-    
-    // Update the marker height state (used by the geometry)
-    setMarkerHeight(height);
+    markerRef.current.scale.y = markerScaleForDistance(camera.position.length());
   });
   
   // Calculate coordinates from direction vector or position if not provided
@@ -180,7 +149,7 @@ const PoleMarker: React.FC<PoleMarkerProps> = ({
         onPointerOut={handlePointerOut}
         onPointerMove={handlePointerMove}
       >
-        <cylinderGeometry args={[0.02, 0.02, markerHeight, 8]} />
+        <cylinderGeometry args={[0.02, 0.02, 1, 8]} />
         <meshStandardMaterial 
           color={hovered ? "#60f0ff" : "cyan"} 
           emissive={hovered ? "#60f0ff" : "#20e0ff"} 
@@ -1,23 +1,38 @@
 import { shaderMaterial } from '@react-three/drei';
-import { extend } from '@react-three/fiber';
+import { extend, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useEffect, useMemo, useRef } from 'react';
-import { POI } from '../../../types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Faction, POI } from '../../../types';
+import { GEODESY_GLSL } from '../../../geodesy';
+import { HEATMAP_GLSL } from './HeatmapMaterial';
+import { TEXTURE_REBUILD_MS, useKeyedValue, useThrottledValue } from '../utils';
+import {
+  isTerritorySite,
+  sitePositions,
+  startOwnershipMap,
+  territorySignature,
+  OWNERSHIP_MAP_WIDTH,
+  OWNERSHIP_MAP_HEIGHT
+} from '../../../utils/territory';
 
 // Create a shader material for the Voronoi diagram
+// Territory ownership is precomputed on the CPU into an equirectangular texture,
+// so the number of sites is only limited by how long that precomputation takes
 // Note: Shader linter will complain about 'position' being undeclared, but it's provided by Three.js
 const VoronoiShaderMaterial = shaderMaterial(
   {
     // Define uniforms according to Three.js and drei docs
-    poiPositions: { value: new Float32Array(64 * 3) },
-    poiColors: { value: new Float32Array(64 * 3) },
-    numPOIs: 0,
+    ownershipMap: null,                  // RGB = faction colour, A = faction index + 1 (0 = unclaimed)
+    mapSize: new THREE.Vector2(OWNERSHIP_MAP_WIDTH, OWNERSHIP_MAP_HEIGHT),
     baseTexture: null,
     opacity: 0.5,
     showVoronoi: true,
     debugMode: false,                    // Toggle debug visualization
     gridDensity: 10.0,                   // Number of grid lines (for debugging)
-    borderWidth: 0.0025                  // Width of voronoi borders (0.0025 = thin lines)
+    borderTexels: 1.0,                   // Width of territory borders in ownership map texels
+    heatMap: null,                       // Conflict heatmap blended over the territories
+    heatOpacity: 0.7,
+    showHeatmap: false
   },
   // Vertex shader
   /* glsl */`
@@ -34,28 +49,20 @@ const VoronoiShaderMaterial = shaderMaterial(
   /* glsl */`
     precision highp float;
     uniform sampler2D baseTexture;
-    uniform vec3 poiPositions[64]; // Max number of POIs we can handle
-    uniform vec3 poiColors[64];
-    uniform int numPOIs;
+    uniform sampler2D ownershipMap;
+    uniform vec2 mapSize;
     uniform float opacity;
     uniform bool showVoronoi;
     uniform bool debugMode;
     uniform float gridDensity;
-    uniform float borderWidth;
+    uniform float borderTexels;
     
     varying vec3 vPosition;
     varying vec2 vUv;
     
-    // Convert from 3D position on the sphere to lat/long
-    vec2 sphereToLatLong(vec3 position) {
-      vec3 normalized = normalize(position);
-      
-      // Calculate latitude (phi) and longitude (theta)
-      float lat = acos(normalized.y) * (180.0 / 3.14159265) - 90.0; // -90 to 90
-      float lng = atan(normalized.z, normalized.x) * (180.0 / 3.14159265); // -180 to 180
-      
-      return vec2(lat, lng);
-    }
+    // Shared lat/long conversions, matching latLongToVector3 on the CPU
+    ${GEODESY_GLSL}
+    ${HEATMAP_GLSL}
     
     // Draw grid lines based on lat/long
     vec4 drawLatLongGrid(vec2 latLong, vec4 color, float gridSize) {
@@ -77,17 +84,10 @@ const VoronoiShaderMaterial = shaderMaterial(
       return color;
     }
     
-    // Draw markers for POI positions
-    bool isNearPOI(vec3 position, float threshold) {
-      for (int i = 0; i < 64; i++) {
-        if (i >= numPOIs) break;
-        
-        float dist = distance(normalize(position), poiPositions[i]);
-        if (dist < threshold) {
-          return true;
-        }
-      }
-      return false;
+    // True when the texel at offset belongs to a different faction
+    bool isOtherFaction(vec2 uv, vec2 offset, float faction) {
+      vec2 sampleUv = vec2(uv.x + offset.x, clamp(uv.y + offset.y, 0.0, 1.0));
+      return abs(texture2D(ownershipMap, sampleUv).a - faction) > 0.5 / 255.0;
     }
     
     void main() {
@@ -98,77 +98,47 @@ const VoronoiShaderMaterial = shaderMaterial(
       // Normalize position
       vec3 normalizedPos = normalize(vPosition);
       
-      // Debug mode - show lat/long grid
+      // Debug mode - show lat/long grid over the ownership map
       if (debugMode) {
         // Convert 3D position to lat/long
-        vec2 latLong = sphereToLatLong(normalizedPos);
+        vec2 latLong = directionToLatLong(normalizedPos);
         
         // Draw grid based on lat/long
-        finalColor = drawLatLongGrid(latLong, baseColor, gridDensity);
+        finalColor = drawLatLongGrid(latLong, texture2D(ownershipMap, directionToEquirectUv(normalizedPos)), gridDensity);
         
-        // Mark POI positions
-        if (isNearPOI(normalizedPos, 0.02)) {
-          finalColor = vec4(1.0, 0.0, 0.0, 1.0); // Red marker for POIs
-        }
-        
-        gl_FragColor = finalColor;
+        gl_FragColor = vec4(finalColor.rgb, 1.0);
         return;
       }
       
       // Regular Voronoi processing
-      if (showVoronoi && numPOIs > 0) {
-        // Find the closest POI
-        float minDist = 10.0; // Start with a large value
-        int closestIndex = 0;
-        
-        // Also track the second closest POI
-        float secondMinDist = 10.0;
-        
-        for (int i = 0; i < 64; i++) {
-          if (i >= numPOIs) break;
-          
-          // Calculate geodesic distance (angle) on the sphere using dot product
-          float dist = 1.0 - dot(normalizedPos, poiPositions[i]);
-          
-          if (dist < minDist) {
-            secondMinDist = minDist;
-            minDist = dist;
-            closestIndex = i;
-          } else if (dist < secondMinDist) {
-            secondMinDist = dist;
-          }
-        }
+      if (showVoronoi) {
+        vec2 mapUv = directionToEquirectUv(normalizedPos);
+        vec4 owner = texture2D(ownershipMap, mapUv);
         
-        // Get the color of the closest POI
-        vec3 cellColor = poiColors[closestIndex];
-        
-        // Cell border effect - more intelligent border detection
-        bool isBorder = false;
-        
-        // Find distances to all other POIs
-        for (int i = 0; i < 64; i++) {
-          if (i >= numPOIs || i == closestIndex) continue;
-          
-          float dist = 1.0 - dot(normalizedPos, poiPositions[i]);
-          float distDiff = dist - minDist;
-          
-          // Use a fixed width border that doesn't depend on POI proximity
-          if (distDiff < borderWidth) {
-            isBorder = true;
-            break;
-          }
-        }
+        // Cell border effect - only between cells of different factions,
+        // so cells held by the same faction merge into one territory
+        vec2 texel = borderTexels / mapSize;
+        bool isBorder =
+          isOtherFaction(mapUv, vec2(texel.x, 0.0), owner.a) ||
+          isOtherFaction(mapUv, vec2(-texel.x, 0.0), owner.a) ||
+          isOtherFaction(mapUv, vec2(0.0, texel.y), owner.a) ||
+          isOtherFaction(mapUv, vec2(0.0, -texel.y), owner.a);
         
         if (isBorder) {
           // Draw cell borders in a darker color
           gl_FragColor = vec4(mix(baseColor.rgb, vec3(0.0, 0.0, 0.0), 0.7), 1.0);
+        } else if (owner.a == 0.0) {
+          // Unclaimed territory shows the bare surface
+          gl_FragColor = baseColor;
         } else {
           // Blend the cell color with the base texture
-          gl_FragColor = vec4(mix(baseColor.rgb, cellColor, opacity), 1.0);
+          gl_FragColor = vec4(mix(baseColor.rgb, owner.rgb, opacity), 1.0);
         }
       } else {
         gl_FragColor = baseColor;
       }
+      
+      gl_FragColor.rgb = blendHeat(gl_FragColor.rgb, normalizedPos);
     }
   `
 );
@@ -179,84 +149,111 @@ extend({ VoronoiShaderMaterial });
 // Create a type-safe component to use instead of direct JSX
 interface VoronoiMaterialProps {
   pois: POI[];
+  factions: Faction[];
   baseTexture: THREE.Texture;
   opacity?: number;
   visible?: boolean;
   debug?: boolean;
   gridSize?: number;
-  borderWidth?: number;
+  borderTexels?: number;
+  mapWidth?: number; // Ownership map resolution - higher is sharper but slower to rebuild
+  mapHeight?: number;
+  heatmap?: THREE.Texture | null; // Conflict heatmap to blend over the territories
+  heatmapOpacity?: number;
 }
 
-const VoronoiMaterial: React.FC<VoronoiMaterialProps> = ({ 
-  pois, 
-  baseTexture, 
+// Time spent baking the ownership map between frames, in ms
+const BAKE_SLICE_MS = 8;
+
+/**
+ * Turn the owning site of each texel into an RGBA texture of faction colours
+ */
+const createOwnershipTexture = (owners: Int32Array, sites: POI[], factions: Faction[], width: number, height: number) => {
+  // Look up factions by id - POIs without a known faction are unclaimed
+  const factionIndexById = new Map(factions.map((faction, index) => [faction.id, index]));
+  const factionColors = factions.map(faction => new THREE.Color(faction.color));
+  
+  // Per-site RGBA, resolved once rather than per texel
+  const siteColors = sites.map(poi => {
+    const factionIndex = poi.factionId !== undefined ? factionIndexById.get(poi.factionId) : undefined;
+    if (factionIndex === undefined || factionIndex > 254) return [0, 0, 0, 0];
+    
+    const color = factionColors[factionIndex];
+    return [Math.round(color.r * 255), Math.round(color.g * 255), Math.round(color.b * 255), factionIndex + 1];
+  });
+  
+  const data = new Uint8Array(width * height * 4);
+  owners.forEach((owner, texel) => {
+    if (owner < 0) return;
+    data.set(siteColors[owner], texel * 4);
+  });
+  
+  // Nearest filtering keeps faction indices exact; longitude wraps around the antimeridian
+  const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+  
+  return texture;
+};
+
+/**
+ * Bake the ownership texture a slice at a time between frames, so a full-size map doesn't
+ * stall the page. The previous texture stays in place until the new one is complete,
+ * and the result is null until the first bake finishes.
+ */
+const useOwnershipTexture = (sites: POI[], factions: Faction[], width: number, height: number) => {
+  const [texture, setTexture] = useState<THREE.DataTexture | null>(null);
+
+  useEffect(() => {
+    const bake = startOwnershipMap(sitePositions(sites), width, height);
+    let timer: ReturnType<typeof setTimeout>;
+    const work = () => {
+      const start = performance.now();
+      let done = false;
+      while (!done && performance.now() - start < BAKE_SLICE_MS) done = bake.step(1);
+
+      if (done) setTexture(createOwnershipTexture(bake.owners, sites, factions, width, height));
+      else timer = setTimeout(work, 0);
+    };
+    timer = setTimeout(work, 0);
+    return () => clearTimeout(timer);
+  }, [sites, factions, width, height]);
+
+  // Release the previous map's GPU memory once it has been replaced
+  useEffect(() => {
+    return () => texture?.dispose();
+  }, [texture]);
+
+  return texture;
+};
+
+const VoronoiMaterial: React.FC<VoronoiMaterialProps> = ({
+  pois,
+  factions,
+  baseTexture,
   opacity = 0.3,
   visible = true,
   debug = false,
   gridSize = 10,
-  borderWidth = 0.0025
+  borderTexels = 1,
+  mapWidth = OWNERSHIP_MAP_WIDTH,
+  mapHeight = OWNERSHIP_MAP_HEIGHT,
+  heatmap = null,
+  heatmapOpacity = 0.7
 }) => {
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const invalidate = useThree(state => state.invalidate);
   
-  // Convert POIs to position and color data
-  const { positions, colors, count } = useMemo(() => {
-    // Max number of POIs we can handle in the shader
-    const MAX_POIS = 64;
-    const filteredPOIs = pois
-      .filter(poi => poi.type === 'poi' || poi.type === 'custom')
-      .slice(0, MAX_POIS);
-    
-    // Helper function to convert category to color
-    const categoryToColor = (category?: string): THREE.Color => {
-      switch(category) {
-        case 'terrain': return new THREE.Color('#7cba00');
-        case 'impact': return new THREE.Color('#f05f22');
-        case 'landmark': return new THREE.Color('#00a2ff');
-        case 'navigation': return new THREE.Color('#ffd700');
-        case 'orientation': return new THREE.Color('#e066ff');
-        case 'custom': return new THREE.Color('#ff3333');
-        case 'user': return new THREE.Color('#ff3333');
-        default: return new THREE.Color('#ffffff');
-      }
-    };
-    
-    // Create flat arrays for the shader uniforms
-    // Using Float32Array for better performance and compatibility with shaders
-    const positionArray = new Float32Array(MAX_POIS * 3);
-    const colorArray = new Float32Array(MAX_POIS * 3);
-    
-    // Fill with actual data
-    filteredPOIs.forEach((poi, index) => {
-      // Convert lat/lng to 3D position on unit sphere
-      const phi = (90 - poi.lat) * (Math.PI / 180);
-      const theta = (poi.lng + 180) * (Math.PI / 180);
-      
-      // Using coordinate conversion with inverted X and Z to match texture orientation
-      const x = -Math.sin(phi) * Math.cos(theta); // Note the negative sign
-      const y = Math.cos(phi);
-      const z = -Math.sin(phi) * Math.sin(theta); // Note the negative sign
-      
-      // Create a normalized vector
-      const vec = new THREE.Vector3(x, y, z).normalize();
-      
-      // Set position data in the flat array
-      positionArray[index * 3] = vec.x;
-      positionArray[index * 3 + 1] = vec.y;
-      positionArray[index * 3 + 2] = vec.z;
-      
-      // Convert color and set in the flat array
-      const color = categoryToColor(poi.category);
-      colorArray[index * 3] = color.r;
-      colorArray[index * 3 + 1] = color.g;
-      colorArray[index * 3 + 2] = color.b;
-    });
-    
-    return { 
-      positions: positionArray, 
-      colors: colorArray, 
-      count: filteredPOIs.length 
-    };
-  }, [pois]);
+  // Rebuild the ownership map when the sites or factions change, rather than whenever the POI array
+  // is rebuilt, and at most once per interval while they keep changing during timeline playback
+  const currentSites = useMemo(() => pois.filter(isTerritorySite), [pois]);
+  const signature = useMemo(() => territorySignature(currentSites), [currentSites]);
+  const sites = useThrottledValue(useKeyedValue(currentSites, signature), TEXTURE_REBUILD_MS);
+  const ownershipMap = useOwnershipTexture(sites, factions, mapWidth, mapHeight);
   
   // Create the material instance - following drei's documentation
   const material = useMemo(() => {
@@ -266,24 +263,26 @@ const VoronoiMaterial: React.FC<VoronoiMaterialProps> = ({
   // Update the shader uniforms when props change
   useEffect(() => {
     if (materialRef.current) {
-      // For arrays, we need to update the .value property
-      materialRef.current.uniforms.poiPositions.value = positions;
-      materialRef.current.uniforms.poiColors.value = colors;
-      materialRef.current.uniforms.numPOIs.value = count;
+      materialRef.current.uniforms.ownershipMap.value = ownershipMap;
+      materialRef.current.uniforms.mapSize.value.set(mapWidth, mapHeight);
       materialRef.current.uniforms.baseTexture.value = baseTexture;
       materialRef.current.uniforms.opacity.value = opacity;
       materialRef.current.uniforms.showVoronoi.value = visible;
       materialRef.current.uniforms.debugMode.value = debug;
       materialRef.current.uniforms.gridDensity.value = gridSize;
-      materialRef.current.uniforms.borderWidth.value = borderWidth;
+      materialRef.current.uniforms.borderTexels.value = borderTexels;
+      materialRef.current.uniforms.heatMap.value = heatmap;
+      materialRef.current.uniforms.heatOpacity.value = heatmapOpacity;
+      materialRef.current.uniforms.showHeatmap.value = heatmap !== null;
       materialRef.current.needsUpdate = true;
+      invalidate();
     }
-  }, [positions, colors, count, baseTexture, opacity, visible, debug, gridSize, borderWidth]);
+  }, [ownershipMap, mapWidth, mapHeight, baseTexture, opacity, visible, debug, gridSize, borderTexels, heatmap, heatmapOpacity, invalidate]);
   
   // Use a primitive with our material instance
   return (
-    <primitive 
-      object={material} 
+    <primitive
+      object={material}
       ref={materialRef}
       attach="material"
       key={VoronoiShaderMaterial.key} // For hot-reloading support
@@ -291,4 +290,4 @@ const VoronoiMaterial: React.FC<VoronoiMaterialProps> = ({
   );
 };
 
-export default VoronoiMaterial; 
\ No newline at end of file
+export default VoronoiMaterial;
@@ -1,8 +1,24 @@
 // Re-export all component types for easier access
 export { default as GridLines } from './GridLines';
-export { default as POIMarker } from './POIMarker';
 export { default as PoleMarker } from './PoleMarker';
+export { default as MeasurementPath } from './MeasurementPath';
+export { default as FeatureShape } from './FeatureShape';
+export { default as FeatureHandles } from './FeatureHandles';
+export { default as ClusterMarker } from './ClusterMarker';
+export { default as ClusterLayer } from './ClusterLayer';
+export { default as POIInstances } from './POIInstances';
+export { default as CheckInMarker } from './CheckInMarker';
+export { default as LivePulse } from './LivePulse';
+export { default as PendingSyncMarker } from './PendingSyncMarker';
 
 // Re-export component prop types
-export type { POIMarkerProps } from './POIMarker';
-export type { PoleMarkerProps } from './PoleMarker'; 
\ No newline at end of file
+export type { PoleMarkerProps } from './PoleMarker';
+export type { MeasurementPathProps } from './MeasurementPath';
+export type { FeatureShapeProps } from './FeatureShape';
+export type { FeatureHandle, FeatureHandlesProps } from './FeatureHandles';
+export type { ClusterMarkerProps } from './ClusterMarker';
+export type { ClusterLayerProps, ClusterView } from './ClusterLayer';
+export type { InstancedPOI, POIInstancesProps } from './POIInstances';
+export type { CheckInMarkerProps } from './CheckInMarker';
+export type { LivePulseProps } from './LivePulse';
+export type { PendingSyncMarkerProps } from './PendingSyncMarker'; 
\ No newline at end of file
@@ -1 +1,2 @@
-export { default } from './EuropaSphere'; 
\ No newline at end of file
+export { default } from './EuropaSphere';
+export type { ClusterView } from './components/ClusterLayer'; 
\ No newline at end of file
@@ -1,129 +1,7 @@
 import * as THREE from 'three';
-
-/**
- * Convert latitude and longitude to 3D Vector3 coordinates
- * 
- * @param lat Latitude in degrees (-90 to 90)
- * @param long Longitude in degrees (-180 to 180)
- * @param radius Sphere radius
- * @returns THREE.Vector3 position
- */
-export const latLongToVector3 = (lat: number, long: number, radius: number): THREE.Vector3 => {
-  /*
-   * COORDINATE CONVERSION: SPHERICAL (LAT/LONG) TO CARTESIAN (X,Y,Z)
-   * 
-   * Geographic Convention:
-   * - Latitude: -90° (South Pole) to 90° (North Pole)
-   * - Longitude: -180° to 180° (0° at Prime Meridian, positive east, negative west)
-   * 
-   * THREE.js Convention:
-   * - Y-axis points up (North)
-   * - X-axis points right (East at 0° longitude)
-   * - Z-axis points out of screen (would be at 90° East longitude)
-   * 
-   * Steps:
-   * 1. Convert lat/long from degrees to radians
-   * 2. Use standard spherical to Cartesian formulas:
-   *    x = r * cos(lat) * cos(long)
-   *    y = r * sin(lat)
-   *    z = r * cos(lat) * sin(long)
-   * 
-   * This creates a coordinate system where:
-   * - (0,0,0) is at the center of the sphere
-   * - (0,0) lat/long maps to (r,0,0) in Cartesian (on the equator at prime meridian)
-   * - (90,0) lat/long maps to (0,r,0) in Cartesian (North Pole)
-   * - (-90,0) lat/long maps to (0,-r,0) in Cartesian (South Pole)
-   * - (0,90) lat/long maps to (0,0,r) in Cartesian (equator, 90° East)
-   */
-  
-  // Convert degrees to radians
-  const latRad = (lat * Math.PI) / 180;
-  const longRad = (long * Math.PI) / 180;
-  
-  // Apply spherical to Cartesian formulas
-  const x = radius * Math.cos(latRad) * Math.cos(longRad);
-  const y = radius * Math.sin(latRad);
-  const z = radius * Math.cos(latRad) * Math.sin(longRad);
-  
-  return new THREE.Vector3(x, y, z);
-};
-
-/**
- * Convert a Vector3 position back to latitude and longitude
- * 
- * @param position Vector3 position
- * @param radius Sphere radius (not actually used since we normalize, but kept for API consistency)
- * @returns Object containing lat and long in degrees
- */
-export const vectorToLatLong = (position: THREE.Vector3, radius: number): { lat: number, long: number } => {
-  /*
-   * COORDINATE CONVERSION: CARTESIAN (X,Y,Z) TO SPHERICAL (LAT/LONG)
-   * 
-   * This is the inverse of the latLongToVector3 conversion
-   * 
-   * Steps:
-   * 1. Normalize the position vector to get a unit vector (length 1)
-   * 2. Calculate latitude:
-   *    - lat = asin(y)
-   *    - Result will be in radians, from -π/2 to π/2
-   * 
-   * 3. Calculate longitude:
-   *    - long = atan2(z, x)
-   *    - atan2 handles quadrant determination automatically
-   *    - Result will be in radians, from -π to π
-   * 
-   * 4. Convert radians to degrees
-   * 5. Ensure longitude is within -180° to 180° range
-   * 
-   * Special cases:
-   * - At poles (y = ±1), longitude becomes indeterminate
-   * - Exact center (0,0,0) is invalid as it's not on the sphere
-   */
-  
-  // Check if position is valid
-  if (!position || position.length() === 0) {
-    console.error("Cannot convert zero vector or invalid position to lat/long");
-    return { lat: 0, long: 0 };
-  }
-  
-  // Use direct calculations with high precision
-  // Get a clean copy of the position to avoid modifying the original
-  const positionCopy = position.clone();
-  
-  // Compute the distance from the origin to normalize
-  const norm = positionCopy.length();
-  
-  // Handle coordinates with direct calculations to avoid precision errors
-  // These calculations must be performed in the correct order to maintain precision
-  const normalizedX = positionCopy.x / norm;
-  const normalizedY = positionCopy.y / norm;
-  const normalizedZ = positionCopy.z / norm;
-  
-  // Calculate latitude from normalized Y coordinate (no rounding)
-  const latRad = Math.asin(Math.max(-1, Math.min(1, normalizedY)));
-  
-  // Calculate longitude using high-precision atan2
-  // Use direct Math.atan2 without any intermediate steps to prevent quantization
-  const longRad = Math.atan2(normalizedZ, normalizedX);
-  
-  // Convert to degrees with full precision
-  const lat = latRad * (180 / Math.PI);
-  let long = longRad * (180 / Math.PI);
-  
-  // Ensure longitude is within the standard -180 to 180 range
-  if (long < -180) long += 360;
-  if (long > 180) long -= 360;
-  
-  // Handle the special case of poles where longitude can be unstable
-  // At poles, we force longitude to 0 as it's mathematically indeterminate
-  if (Math.abs(Math.abs(lat) - 90) < 1e-10) {
-    long = 0;
-  }
-  
-
-  
-  return { lat, long };
-};
+import { useEffect, useRef, useState } from 'react';
+import { latLongToVector3 } from '../../geodesy';
+import { CheckInStatus, MarkerCategory } from '../../types';
 
 /**
  * Create a debug sphere at a specific lat/long for visual verification
@@ -157,4 +35,172 @@ export interface Marker {
   description: string;
   lat: number;
   long: number;
-}
\ No newline at end of file
+}
+
+// Map category to color if no color is provided
+export const getCategoryColor = (category?: string): string => {
+  if (!category) return "#ff3333"; // Default red
+  
+  const colorMap: Record<string, string> = {
+    [MarkerCategory.TERRAIN]: "#7cba00", // Green
+    [MarkerCategory.IMPACT]: "#f05f22", // Orange
+    [MarkerCategory.LANDMARK]: "#00a2ff", // Blue
+    [MarkerCategory.NAVIGATION]: "#ffd700", // Gold
+    [MarkerCategory.ORIENTATION]: "#e066ff", // Purple
+    [MarkerCategory.CUSTOM]: "#ff3333", // Red
+    [MarkerCategory.USER]: "#ff3333"  // Red
+  };
+  
+  return colorMap[category] || "#ff3333"; // Default to red if category not in map
+};
+
+// Shapes available for the centre of a POI marker
+export type MarkerShape = 'prism' | 'cube' | 'sphere' | 'cone' | 'cylinder' | 'tetrahedron' | 'octahedron' | 'dodecahedron' | 'icosahedron';
+
+// Create a custom right angle prism geometry
+export const createRightAnglePrism = (size: number) => {
+  const geometry = new THREE.BufferGeometry();
+  
+  // Define the vertices for a right angle prism (triangular prism with one 90° angle)
+  // The right angle will be at the origin (0,0,0) to point at the center of the POI
+  const vertices = new Float32Array([
+    // Front face (triangular)
+    0, 0, 0,      // right angle vertex
+    size, 0, 0,   // base right vertex
+    0, size, 0,   // base top vertex
+    
+    // Back face (triangular)
+    0, 0, size,    // right angle vertex
+    size, 0, size, // base right vertex
+    0, size, size, // base top vertex
+    
+    // Rectangle face 1 (bottom)
+    0, 0, 0,
+    size, 0, 0,
+    size, 0, size,
+    0, 0, size,
+    
+    // Rectangle face 2 (hypotenuse)
+    size, 0, 0,
+    size, 0, size,
+    0, size, size,
+    0, size, 0,
+    
+    // Rectangle face 3 (side)
+    0, 0, 0,
+    0, 0, size,
+    0, size, size,
+    0, size, 0
+  ]);
+  
+  // Define indices to create the faces
+  const indices = [
+    // Front triangular face
+    0, 1, 2,
+    
+    // Back triangular face
+    3, 5, 4,
+    
+    // Three rectangular faces
+    6, 7, 8, 6, 8, 9,     // Bottom face
+    10, 11, 12, 10, 12, 13, // Hypotenuse face
+    14, 15, 16, 14, 16, 17  // Side face
+  ];
+  
+  // Set the attributes
+  geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+  geometry.setIndex(indices);
+  
+  // Compute normals for correct lighting
+  geometry.computeVertexNormals();
+  
+  return geometry;
+};
+
+// Function to determine marker shape based on category
+export const getMarkerGeometry = (shape: string, size: number): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'cube':
+      return new THREE.BoxGeometry(size, size, size);
+    case 'sphere':
+      return new THREE.SphereGeometry(size * 0.5, 16, 16);
+    case 'cone':
+      return new THREE.ConeGeometry(size * 0.5, size, 16);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(size * 0.4, size * 0.4, size * 0.8, 16);
+    case 'tetrahedron':
+      return new THREE.TetrahedronGeometry(size * 0.6);
+    case 'octahedron':
+      return new THREE.OctahedronGeometry(size * 0.6);
+    case 'dodecahedron':
+      return new THREE.DodecahedronGeometry(size * 0.6);
+    case 'icosahedron':
+      return new THREE.IcosahedronGeometry(size * 0.6);
+    default:
+      // Default to prism
+      return createRightAnglePrism(size * 0.8);
+  }
+};
+
+// Map category to default shape if not explicitly specified
+export const getCategoryShape = (category?: string): MarkerShape => {
+  // Always return octahedron regardless of category
+  return 'octahedron';
+};
+
+// Marker sizes at the closest and furthest camera distances
+export const MIN_MARKER_SIZE = 0.005;
+export const MAX_MARKER_SIZE = 0.04;
+const MIN_CAMERA_DISTANCE = 1.5;
+const MAX_CAMERA_DISTANCE = 4;
+
+/**
+ * Marker size for a camera distance from the centre of the sphere - larger when further away,
+ * so markers keep a similar size on screen
+ */
+export const markerScaleForDistance = (distance: number): number => {
+  const clampedDistance = Math.max(MIN_CAMERA_DISTANCE, Math.min(MAX_CAMERA_DISTANCE, distance));
+  const normalizedDistance = (clampedDistance - MIN_CAMERA_DISTANCE) / (MAX_CAMERA_DISTANCE - MIN_CAMERA_DISTANCE);
+  return MIN_MARKER_SIZE + normalizedDistance * (MAX_MARKER_SIZE - MIN_MARKER_SIZE);
+};
+
+// Colour of each check-in status, matching the status badges in the side panel
+export const CHECK_IN_STATUS_COLORS: Record<CheckInStatus, string> = {
+  [CheckInStatus.OK]: "#2e7d32", // Green
+  [CheckInStatus.NEED_HELP]: "#b71c1c", // Red
+  [CheckInStatus.MOVING]: "#b8860b" // Amber
+};
+
+// Minimum time between rebuilds of the baked territory and heatmap textures
+export const TEXTURE_REBUILD_MS = 1000;
+
+/**
+ * Follow a value, updating at most once every `intervalMs`.
+ * An isolated change comes through on the next tick; while the value keeps changing (timeline
+ * playback) the latest one is taken once per interval, so expensive work keyed on it stays bounded.
+ */
+export const useThrottledValue = <T>(value: T, intervalMs: number): T => {
+  const [throttled, setThrottled] = useState(value);
+  const lastUpdateRef = useRef(0);
+
+  useEffect(() => {
+    const wait = Math.max(0, lastUpdateRef.current + intervalMs - Date.now());
+    const id = setTimeout(() => {
+      lastUpdateRef.current = Date.now();
+      setThrottled(value);
+    }, wait);
+    return () => clearTimeout(id);
+  }, [value, intervalMs]);
+
+  return throttled;
+};
+
+/**
+ * Keep returning the first value seen for a key until the key changes, so memos and effects
+ * that depend on the value only rerun when its content (as summarised by the key) does
+ */
+export const useKeyedValue = <T>(value: T, key: string): T => {
+  const keyedRef = useRef({ key, value });
+  if (keyedRef.current.key !== key) keyedRef.current = { key, value };
+  return keyedRef.current.value;
+};
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { usePOIs } from '../context/POIContext';
+import { computeFactionAreas, territorySignature, UNCLAIMED_FACTION } from '../utils/territory';
+import { EUROPA_RADIUS_KM } from '../geodesy';
+import { filterPOIsAsOf } from '../utils/timeline';
+import { isApproved } from '../utils/moderation';
+import { useKeyedValue } from './EuropaSphere/utils';
+
+interface FactionLegendProps {
+  timelineTime?: number | null; // Match the territory shown on the globe
+}
+
+const formatArea = (km2: number) => `${Math.round(km2).toLocaleString()} km²`;
+
+/**
+ * Legend for the Territory Boundaries layer
+ * Lists each faction with the surface area it currently controls
+ */
+const FactionLegend: React.FC<FactionLegendProps> = ({ timelineTime = null }) => {
+  const { pois, factions } = usePOIs();
+
+  // Recomputed when the territory sites change rather than on every timeline tick
+  const currentSites = useMemo(() => filterPOIsAsOf(pois.filter(isApproved), timelineTime), [pois, timelineTime]);
+  const signature = useMemo(() => territorySignature(currentSites), [currentSites]);
+  const sites = useKeyedValue(currentSites, signature);
+  const areas = useMemo(() => computeFactionAreas(sites), [sites]);
+
+  const totalArea = 4 * Math.PI * EUROPA_RADIUS_KM * EUROPA_RADIUS_KM;
+  const unclaimed = areas[UNCLAIMED_FACTION] || 0;
+
+  return (
+    <div className="faction-legend">
+      <h3>Factions</h3>
+      <ul>
+        {factions.map(faction => {
+          const area = areas[faction.id] || 0;
+          return (
+            <li key={faction.id}>
+              <span className="faction-swatch" style={{ backgroundColor: faction.color }}>
+                {faction.emblem}
+              </span>
+              <span className="faction-name">{faction.name}</span>
+              <span className="faction-area">
+                {formatArea(area)} ({((area / totalArea) * 100).toFixed(1)}%)
+              </span>
+            </li>
+          );
+        })}
+        {unclaimed > 0 && (
+          <li>
+            <span className="faction-swatch faction-swatch-unclaimed" />
+            <span className="faction-name">Unclaimed</span>
+            <span className="faction-area">
+              {formatArea(unclaimed)} ({((unclaimed / totalArea) * 100).toFixed(1)}%)
+            </span>
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default FactionLegend;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import '../styles/ReportPanel.css';
+import '../styles/FeaturePanel.css';
+import { DEFAULT_FEATURE_COLOR, FeatureKind, MarkerCategoryLabels } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { FeatureGeometry, measureFeature } from '../utils/featureGeometry';
+
+export interface FeatureFormValues {
+  title: string;
+  description: string;
+  category: string;
+  factionId: string;
+  color: string; // Empty = use the faction's colour
+  contested: boolean; // Polygons only
+}
+
+export const EMPTY_FEATURE_FORM: FeatureFormValues = {
+  title: '',
+  description: '',
+  category: '',
+  factionId: '',
+  color: '',
+  contested: false
+};
+
+interface FeatureFormProps {
+  kind: FeatureKind;
+  initialValues?: FeatureFormValues;
+  submitLabel: string;
+  errors?: string[];
+  onSubmit: (values: FeatureFormValues) => void;
+  onCancel: () => void;
+}
+
+const formatDistance = (km: number) =>
+  `${km < 10 ? km.toFixed(2) : km.toFixed(1)} km`;
+
+const formatArea = (km2: number) => `${Math.round(km2).toLocaleString()} km²`;
+
+/**
+ * Length (or perimeter) and enclosed area of a feature
+ */
+export const FeatureMeasurements: React.FC<{ feature: FeatureGeometry }> = ({ feature }) => {
+  const { lengthKm, areaKm2 } = measureFeature(feature);
+  return (
+    <div className="feature-measurements">
+      {feature.kind === 'circle' && <span>Radius: {formatDistance(feature.radiusKm || 0)} · </span>}
+      <span>{feature.kind === 'polyline' ? 'Length' : 'Perimeter'}: {formatDistance(lengthKm)}</span>
+      {areaKm2 !== undefined && <span> · Area: {formatArea(areaKm2)}</span>}
+    </div>
+  );
+};
+
+/**
+ * Title, description, category, faction and colour fields for a map feature,
+ * plus whether a zone is contested
+ */
+const FeatureForm: React.FC<FeatureFormProps> = ({
+  kind,
+  initialValues = EMPTY_FEATURE_FORM,
+  submitLabel,
+  errors = [],
+  onSubmit,
+  onCancel
+}) => {
+  const { factions } = usePOIs();
+  const [form, setForm] = useState<FeatureFormValues>(initialValues);
+
+  const setField = <K extends keyof FeatureFormValues>(field: K, value: FeatureFormValues[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(form);
+  };
+
+  return (
+    <form className="report-form" onSubmit={handleSubmit}>
+      <div className="form-group">
+        <label htmlFor="featureTitle">Title</label>
+        <input
+          type="text"
+          id="featureTitle"
+          value={form.title}
+          onChange={(e) => setField('title', e.target.value)}
+          required
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="featureDescription">Description</label>
+        <textarea
+          id="featureDescription"
+          value={form.description}
+          onChange={(e) => setField('description', e.target.value)}
+          rows={3}
+        ></textarea>
+      </div>
+      <div className="form-group">
+        <label htmlFor="featureCategory">Category</label>
+        <select
+          id="featureCategory"
+          value={form.category}
+          onChange={(e) => setField('category', e.target.value)}
+        >
+          <option value="">None</option>
+          {Object.entries(MarkerCategoryLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+          {form.category && !(form.category in MarkerCategoryLabels) && (
+            <option value={form.category}>{form.category}</option>
+          )}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="featureFaction">Faction</label>
+        <select
+          id="featureFaction"
+          value={form.factionId}
+          onChange={(e) => setField('factionId', e.target.value)}
+        >
+          <option value="">Unclaimed</option>
+          {factions.map(faction => (
+            <option key={faction.id} value={faction.id}>
+              {faction.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="form-group feature-color-field">
+        <label>
+          <input
+            type="checkbox"
+            checked={form.color !== ''}
+            onChange={(e) => setField('color', e.target.checked ? DEFAULT_FEATURE_COLOR : '')}
+          />
+          Custom colour
+        </label>
+        {form.color !== '' && (
+          <input
+            type="color"
+            value={form.color}
+            onChange={(e) => setField('color', e.target.value)}
+            aria-label="Feature colour"
+          />
+        )}
+      </div>
+      {kind === 'polygon' && (
+        <div className="form-group">
+          <label className="form-checkbox">
+            <input
+              type="checkbox"
+              checked={form.contested}
+              onChange={(e) => setField('contested', e.target.checked)}
+            />
+            Contested (routes to safety avoid it)
+          </label>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <ul className="form-errors">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <div className="form-buttons">
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit">{submitLabel}</button>
+      </div>
+    </form>
+  );
+};
+
+export default FeatureForm;
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { FeatureKindLabels, MapFeature, MarkerCategoryLabels } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+import { validateFeature } from '../schema';
+import FeatureForm, { FeatureFormValues, FeatureMeasurements } from './FeatureForm';
+import RecordAttribution from './RecordAttribution';
+
+interface FeatureInspectorProps {
+  featureId: string;
+  onClose: () => void;
+}
+
+const featureToForm = (feature: MapFeature): FeatureFormValues => ({
+  title: feature.title,
+  description: feature.description,
+  category: feature.category || '',
+  factionId: feature.factionId || '',
+  color: feature.color || '',
+  contested: feature.contested || false
+});
+
+/**
+ * Side panel for the selected zone, line or circle
+ * Edits its properties or deletes it - the shape itself is edited with the handles on the globe
+ */
+const FeatureInspector: React.FC<FeatureInspectorProps> = ({ featureId, onClose }) => {
+  const { getFeatureById, getFactionById, updateFeature, removeFeature } = usePOIs();
+  const { can } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const feature = getFeatureById(featureId);
+
+  // Leave the form when another feature is selected
+  useEffect(() => {
+    setIsEditing(false);
+    setErrors([]);
+  }, [featureId]);
+
+  if (!feature) return null;
+
+  const faction = getFactionById(feature.factionId);
+  const canEdit = can('edit', feature);
+  const canDelete = can('delete', feature);
+
+  const handleSubmit = (values: FeatureFormValues) => {
+    const { feature: validated, errors: validationErrors } = validateFeature({
+      ...feature,
+      ...values,
+      category: values.category || undefined,
+      factionId: values.factionId || undefined,
+      color: values.color || undefined,
+      contested: values.contested || undefined
+    });
+
+    if (!validated) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    updateFeature(feature.id, {
+      ...validated,
+      category: validated.category,
+      factionId: validated.factionId,
+      color: validated.color,
+      contested: validated.contested
+    });
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${FeatureKindLabels[feature.kind].toLowerCase()} "${feature.title}"?`)) {
+      removeFeature(feature.id);
+      onClose();
+    }
+  };
+
+  return (
+    <div className="report-panel">
+      <div className="report-panel-header">
+        <div>
+          <h2>{feature.title}</h2>
+          <div className="report-panel-location">
+            {FeatureKindLabels[feature.kind]}
+            {feature.category && ` · ${MarkerCategoryLabels[feature.category as keyof typeof MarkerCategoryLabels] || feature.category}`}
+            {faction && ` · ${faction.name}`}
+            {feature.contested && ' · Contested'}
+          </div>
+        </div>
+        <button className="report-panel-close" onClick={onClose} aria-label="Close feature">
+          ×
+        </button>
+      </div>
+
+      <FeatureMeasurements feature={feature} />
+      <RecordAttribution record={feature} />
+
+      {isEditing ? (
+        <FeatureForm
+          kind={feature.kind}
+          initialValues={featureToForm(feature)}
+          submitLabel="Save"
+          errors={errors}
+          onSubmit={handleSubmit}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          {feature.description && <p className="report-panel-description">{feature.description}</p>}
+          {canEdit && (
+            <div className="hint-text">
+              Drag the handles on the globe to reshape
+              {feature.kind !== 'circle' && ' · drag a midpoint to add a vertex · double-click a vertex to remove it'}
+            </div>
+          )}
+          <div className="report-actions">
+            {canEdit && <button onClick={() => setIsEditing(true)}>Edit</button>}
+            {canDelete && <button onClick={handleDelete}>Delete</button>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FeatureInspector;
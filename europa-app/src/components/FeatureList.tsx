@@ -0,0 +1,56 @@
+import React from 'react';
+import '../styles/FeaturePanel.css';
+import { DEFAULT_FEATURE_COLOR, FeatureKind, FeatureKindLabels } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+
+interface FeatureListProps {
+  drawKind: FeatureKind | null;
+  onDrawKindChange: (kind: FeatureKind | null) => void;
+  selectedFeatureId: string | null;
+  onFeatureSelect: (id: string) => void;
+}
+
+/**
+ * Draw buttons for zones, lines and circles (for users who may add them), and the list of features on the map
+ */
+const FeatureList: React.FC<FeatureListProps> = ({ drawKind, onDrawKindChange, selectedFeatureId, onFeatureSelect }) => {
+  const { features, getFactionById } = usePOIs();
+  const { can } = useAuth();
+
+  return (
+    <div className="feature-tools">
+      {can('create') && (
+        <div className="draw-buttons">
+          {(Object.keys(FeatureKindLabels) as FeatureKind[]).map(kind => (
+            <button
+              key={kind}
+              className={`marker-button ${drawKind === kind ? 'active' : ''}`}
+              onClick={() => onDrawKindChange(drawKind === kind ? null : kind)}
+            >
+              {drawKind === kind ? 'Cancel' : `Draw ${FeatureKindLabels[kind]}`}
+            </button>
+          ))}
+        </div>
+      )}
+      {features.length > 0 && (
+        <ul className="feature-list">
+          {features.map(feature => (
+            <li key={feature.id} className={feature.id === selectedFeatureId ? 'feature-list-selected' : undefined}>
+              <button onClick={() => onFeatureSelect(feature.id)}>
+                <span
+                  className="feature-swatch"
+                  style={{ backgroundColor: feature.color || getFactionById(feature.factionId)?.color || DEFAULT_FEATURE_COLOR }}
+                />
+                {feature.title}
+                <span className="feature-list-kind">{FeatureKindLabels[feature.kind]}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FeatureList;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { HeatmapSettings } from '../utils/heatmap';
+
+interface HeatmapControlsProps {
+  settings: HeatmapSettings;
+  onChange: (settings: HeatmapSettings) => void;
+}
+
+// Kernel radius slider range, in km along the surface
+const MIN_KERNEL_RADIUS_KM = 25;
+const MAX_KERNEL_RADIUS_KM = 600;
+
+// Half-life choices in days (null = hotspots never fade)
+const HALF_LIFE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 week', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'No fading', days: null }
+];
+
+/**
+ * Settings for the Conflict Heatmap layer
+ * The kernel radius sets how far each report spreads; the half-life sets how fast hotspots fade
+ */
+const HeatmapControls: React.FC<HeatmapControlsProps> = ({ settings, onChange }) => (
+  <div className="heatmap-controls">
+    <h3>Heatmap</h3>
+    <label className="heatmap-setting" htmlFor="heatmapRadius">
+      Spread
+      <span>{settings.kernelRadiusKm} km</span>
+    </label>
+    <input
+      type="range"
+      id="heatmapRadius"
+      className="timeline-slider"
+      min={MIN_KERNEL_RADIUS_KM}
+      max={MAX_KERNEL_RADIUS_KM}
+      step={25}
+      value={settings.kernelRadiusKm}
+      onChange={event => onChange({ ...settings, kernelRadiusKm: Number(event.target.value) })}
+    />
+    <label className="heatmap-setting" htmlFor="heatmapHalfLife">
+      Fade half-life
+    </label>
+    <select
+      id="heatmapHalfLife"
+      value={settings.halfLifeDays === null ? '' : String(settings.halfLifeDays)}
+      onChange={event => onChange({
+        ...settings,
+        halfLifeDays: event.target.value === '' ? null : Number(event.target.value)
+      })}
+    >
+      {HALF_LIFE_OPTIONS.map(({ label, days }) => (
+        <option key={label} value={days === null ? '' : String(days)}>
+          {label}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default HeatmapControls;
@@ -0,0 +1,71 @@
+import React, { useEffect } from 'react';
+import { usePOIs } from '../context/POIContext';
+
+// Don't steal undo/redo keystrokes from text fields
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Undo/redo controls and the list of recent POI changes
+ * Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes; clicking an entry jumps to that point
+ */
+const HistoryPanel: React.FC = () => {
+  const { history, historyIndex, canUndo, canRedo, undo, redo, jumpToHistory } = usePOIs();
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return (
+    <div className="history-panel">
+      <div className="data-exchange-row">
+        <button className="marker-button" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          Undo
+        </button>
+        <button className="marker-button" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </button>
+      </div>
+      {history.length > 0 && (
+        <ol className="history-list">
+          {/* Newest first; clicking an entry applies everything up to and including it */}
+          {history.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+            <li
+              key={entry.id}
+              className={index < historyIndex ? 'history-applied' : 'history-undone'}
+              onClick={() => jumpToHistory(index + 1)}
+              title={new Date(entry.timestamp).toLocaleString()}
+            >
+              {entry.label}
+            </li>
+          ))}
+          <li
+            className={historyIndex === 0 ? 'history-applied' : 'history-undone'}
+            onClick={() => jumpToHistory(0)}
+          >
+            Session start
+          </li>
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
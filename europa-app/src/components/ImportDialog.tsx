@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { FeatureKindLabels, MapFeature, POI } from '../types';
+import { ExchangeFormatLabels, ImportResult, findConflicts, findFeatureConflicts } from '../io';
+import { generateFeatureId, generatePOIId } from '../schema';
+
+type ConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+interface ImportDialogProps {
+  fileName: string;
+  result: ImportResult;
+  existingPOIs: POI[];
+  existingFeatures: MapFeature[];
+  onConfirm: (pois: POI[], features: MapFeature[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Preview of an imported file before it is merged into the map
+ * Flags records that failed validation and ids that already exist,
+ * letting the user choose how each conflict is resolved
+ */
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  fileName,
+  result,
+  existingPOIs,
+  existingFeatures,
+  onConfirm,
+  onCancel
+}) => {
+  const items = useMemo(() => findConflicts(result.pois, existingPOIs), [result.pois, existingPOIs]);
+  const featureItems = useMemo(
+    () => findFeatureConflicts(result.features, existingFeatures),
+    [result.features, existingFeatures]
+  );
+  // Keyed by `poi:<id>` or `feature:<id>` since the two id spaces can overlap.
+  // Rows are keyed by position instead, as a file may repeat an id.
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const conflictCount = [...items, ...featureItems].filter(item => item.conflict).length;
+
+  const resolutionFor = (key: string): ConflictResolution => resolutions[key] || 'skip';
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    const next: Record<string, ConflictResolution> = {};
+    items.forEach(item => {
+      if (item.conflict) next[`poi:${item.poi.id}`] = resolution;
+    });
+    featureItems.forEach(item => {
+      if (item.conflict) next[`feature:${item.feature.id}`] = resolution;
+    });
+    setResolutions(next);
+  };
+
+  // Apply the chosen resolutions to build the final batch
+  const mergedPOIs = useMemo(() => {
+    return items.flatMap(({ poi, conflict }) => {
+      if (!conflict) return [poi];
+
+      const resolution = resolutions[`poi:${poi.id}`] || 'skip';
+      if (resolution === 'overwrite') return [poi];
+      if (resolution === 'keep-both') {
+        return [{ ...poi, id: generatePOIId() }];
+      }
+      return [];
+    });
+  }, [items, resolutions]);
+
+  const mergedFeatures = useMemo(() => {
+    return featureItems.flatMap(({ feature, conflict }) => {
+      if (!conflict) return [feature];
+
+      const resolution = resolutions[`feature:${feature.id}`] || 'skip';
+      if (resolution === 'overwrite') return [feature];
+      if (resolution === 'keep-both') {
+        return [{ ...feature, id: generateFeatureId() }];
+      }
+      return [];
+    });
+  }, [featureItems, resolutions]);
+
+  const renderConflict = (key: string, id: string, conflictTitle?: string) => conflictTitle !== undefined ? (
+    <div className="import-item-status">
+      Id "{id}" already used by "{conflictTitle}"
+      <select
+        value={resolutionFor(key)}
+        onChange={(e) => setResolutions(prev => ({ ...prev, [key]: e.target.value as ConflictResolution }))}
+      >
+        <option value="skip">Skip</option>
+        <option value="overwrite">Overwrite existing</option>
+        <option value="keep-both">Keep both</option>
+      </select>
+    </div>
+  ) : (
+    <div className="import-item-status">New</div>
+  );
+
+  const validCount = result.pois.length + result.features.length;
+  const mergedCount = mergedPOIs.length + mergedFeatures.length;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal import-dialog">
+        <h2>Import {ExchangeFormatLabels[result.format]}</h2>
+        <p className="import-summary">
+          {fileName}: {validCount} valid, {result.errors.length} invalid, {conflictCount} id conflicts
+        </p>
+        {result.skippedFactions > 0 && (
+          <p className="hint-text">
+            The file lists {result.skippedFactions} faction{result.skippedFactions === 1 ? '' : 's'}, which are not imported -
+            factions come from the seed collection.
+          </p>
+        )}
+
+        {conflictCount > 0 && (
+          <div className="import-bulk-actions">
+            <span>All conflicts:</span>
+            <button type="button" onClick={() => setAllResolutions('skip')}>Skip</button>
+            <button type="button" onClick={() => setAllResolutions('overwrite')}>Overwrite</button>
+            <button type="button" onClick={() => setAllResolutions('keep-both')}>Keep both</button>
+          </div>
+        )}
+
+        <ul className="import-list">
+          {items.map(({ poi, conflict }, index) => (
+            <li key={`poi:${index}`} className={conflict ? 'import-conflict' : undefined}>
+              <div className="import-item-title">
+                {poi.title}
+                <span className="import-item-coords">
+                  {poi.lat.toFixed(2)}°, {poi.lng.toFixed(2)}°
+                </span>
+              </div>
+              {renderConflict(`poi:${poi.id}`, poi.id, conflict?.title)}
+            </li>
+          ))}
+          {featureItems.map(({ feature, conflict }, index) => (
+            <li key={`feature:${index}`} className={conflict ? 'import-conflict' : undefined}>
+              <div className="import-item-title">
+                {feature.title}
+                <span className="import-item-coords">
+                  {FeatureKindLabels[feature.kind]} · {feature.points.length} point{feature.points.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              {renderConflict(`feature:${feature.id}`, feature.id, conflict?.title)}
+            </li>
+          ))}
+        </ul>
+
+        {result.errors.length > 0 && (
+          <div className="import-errors">
+            <h3>Invalid records</h3>
+            <ul>
+              {result.errors.map(error => (
+                <li key={`${error.recordType || 'poi'}-${error.index}`}>
+                  {error.recordType === 'feature' ? 'Feature' : 'Record'} {error.index + 1}: {error.messages.join('; ')}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="form-buttons">
+          <button type="button" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" onClick={() => onConfirm(mergedPOIs, mergedFeatures)} disabled={mergedCount === 0}>
+            Import {mergedCount} {mergedFeatures.length > 0 ? 'records' : 'POIs'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { LiveStatus } from '../realtime';
+import { useLive } from '../context/LiveContext';
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Reconnecting…',
+  closed: 'Offline'
+};
+
+/**
+ * Whether changes from other open maps are arriving, and over which channel
+ */
+const LiveStatusIndicator: React.FC = () => {
+  const { channel, status } = useLive();
+
+  return (
+    <div className={`live-status live-status-${status}`} title={`Live updates from ${channel.name}`} role="status">
+      <span className="live-status-dot" />
+      {STATUS_LABELS[status]}
+      <span className="live-status-channel">{channel.name}</span>
+    </div>
+  );
+};
+
+export default LiveStatusIndicator;
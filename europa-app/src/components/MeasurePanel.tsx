@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import '../styles/MeasurePanel.css';
+import { useAnnotations } from '../context/AnnotationContext';
+import { LatLng, distanceKm, pathLengthKm, sphericalPolygonAreaKm2 } from '../geodesy';
+
+interface MeasurePanelProps {
+  points: LatLng[];
+  closed: boolean;
+  onClosedChange: (closed: boolean) => void;
+  onUndoPoint: () => void;
+  onClear: () => void;
+}
+
+const formatDistance = (km: number) =>
+  `${km < 10 ? km.toFixed(2) : km.toFixed(1)} km`;
+
+const formatArea = (km2: number) => `${Math.round(km2).toLocaleString()} km²`;
+
+/**
+ * Readout for measure mode: segment and total great-circle distances,
+ * the enclosed area once the path is closed, and saved measurements
+ */
+const MeasurePanel: React.FC<MeasurePanelProps> = ({ points, closed, onClosedChange, onUndoPoint, onClear }) => {
+  const { annotations, addAnnotation, removeAnnotation } = useAnnotations();
+  const [name, setName] = useState('');
+
+  const isPolygon = closed && points.length > 2;
+  const segments = points.slice(1).map((point, index) => distanceKm(points[index], point));
+  if (isPolygon) segments.push(distanceKm(points[points.length - 1], points[0]));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (points.length < 2) return;
+
+    addAnnotation({
+      name: name.trim() || `Measurement ${annotations.length + 1}`,
+      points,
+      closed: isPolygon
+    });
+    setName('');
+    onClear();
+  };
+
+  return (
+    <div className="measure-panel">
+      <h3>Measure</h3>
+      {points.length === 0 ? (
+        <div className="hint-text">Click on the globe to add points</div>
+      ) : (
+        <>
+          <ol className="measure-segments">
+            {segments.map((distance, index) => (
+              <li key={index}>
+                {index + 1} → {index + 2 > points.length ? 1 : index + 2}: {formatDistance(distance)}
+              </li>
+            ))}
+          </ol>
+          <div className="measure-total">
+            {isPolygon ? 'Perimeter' : 'Total'}: {formatDistance(pathLengthKm(points, isPolygon))}
+          </div>
+          {isPolygon && (
+            <div className="measure-total">Area: {formatArea(sphericalPolygonAreaKm2(points))}</div>
+          )}
+          <div className="measure-actions">
+            <button onClick={onUndoPoint}>Undo Point</button>
+            <button onClick={() => onClosedChange(!closed)} disabled={points.length < 3}>
+              {closed ? 'Open Path' : 'Close Polygon'}
+            </button>
+            <button onClick={onClear}>Clear</button>
+          </div>
+          <form className="measure-save" onSubmit={handleSave}>
+            <input
+              type="text"
+              placeholder="Annotation name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="Annotation name"
+            />
+            <button type="submit" disabled={points.length < 2}>Save</button>
+          </form>
+        </>
+      )}
+
+      {annotations.length > 0 && (
+        <>
+          <h4>Saved</h4>
+          <ul className="measure-annotations">
+            {annotations.map(annotation => (
+              <li key={annotation.id}>
+                <span className="measure-annotation-name">{annotation.name}</span>
+                <span className="measure-annotation-value">
+                  {annotation.closed
+                    ? formatArea(sphericalPolygonAreaKm2(annotation.points))
+                    : formatDistance(pathLengthKm(annotation.points))}
+                </span>
+                <button onClick={() => removeAnnotation(annotation.id)} aria-label={`Delete ${annotation.name}`}>
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MeasurePanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import '../styles/ModerationQueue.css';
+import { ModerationAction, ModerationEntry } from '../types';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  merged: 'Merged'
+};
+
+interface ModerationLogProps {
+  entries?: ModerationEntry[];
+}
+
+/**
+ * Collapsible review history of a marker or report
+ */
+const ModerationLog: React.FC<ModerationLogProps> = ({ entries }) => {
+  if (!entries || entries.length === 0) return null;
+
+  return (
+    <details className="moderation-log">
+      <summary>Review history ({entries.length})</summary>
+      <ul>
+        {entries.map((entry, index) => (
+          <li key={index}>
+            <strong>{ACTION_LABELS[entry.action]}</strong>
+            {entry.by && ` by @${entry.by}`}
+            {' · '}{new Date(entry.at).toLocaleString()}
+            {entry.mergedInto && <div>Merged into {entry.mergedInto}</div>}
+            {entry.mergedFrom && <div>Absorbed duplicate {entry.mergedFrom}</div>}
+            {entry.reason && <div className="moderation-log-reason">{entry.reason}</div>}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default ModerationLog;
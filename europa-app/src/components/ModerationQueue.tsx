@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import '../styles/ModerationQueue.css';
+import { ConflictReport, POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useReports } from '../context/ReportContext';
+import { findDuplicateCandidates, isListed, moderationQueue } from '../utils/moderation';
+
+interface ModerationQueueProps {
+  onPOIFocus: (poi: POI) => void; // Fly to a POI and open its panel
+}
+
+type QueueItem =
+  | { kind: 'poi'; record: POI }
+  | { kind: 'report'; record: ConflictReport };
+
+/**
+ * Pending markers and reports for moderators to approve, reject with a reason,
+ * or merge into an existing item they duplicate
+ */
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ onPOIFocus }) => {
+  const { pois, getPOIById, approvePOI, rejectPOI, mergePOI } = usePOIs();
+  const { reports, approveReport, rejectReport, mergeReport, moveReports } = useReports();
+
+  // Item being rejected or merged, and the reason or merge target being entered for it
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const queue = useMemo<QueueItem[]>(
+    () => moderationQueue<POI | ConflictReport>([...pois, ...reports]).map(record =>
+      'headline' in record ? { kind: 'report', record } : { kind: 'poi', record }
+    ),
+    [pois, reports]
+  );
+
+  const closeForms = () => {
+    setRejectingId(null);
+    setReason('');
+    setMergingId(null);
+    setMergeTargetId('');
+  };
+
+  // Items an entry may duplicate: nearby markers, or the other reports on the same marker
+  const mergeCandidates = (item: QueueItem): { id: string; label: string }[] => {
+    if (item.kind === 'poi') {
+      return findDuplicateCandidates(item.record, pois).map(poi => ({ id: poi.id, label: poi.title }));
+    }
+    const { record } = item;
+    return reports
+      .filter(report => report.id !== record.id && report.poiId !== undefined && report.poiId === record.poiId && isListed(report))
+      .map(report => ({ id: report.id, label: report.headline }));
+  };
+
+  const handleApprove = (item: QueueItem) => {
+    if (item.kind === 'poi') approvePOI(item.record.id);
+    else approveReport(item.record.id);
+  };
+
+  const handleReject = (e: React.FormEvent, item: QueueItem) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    if (item.kind === 'poi') rejectPOI(item.record.id, reason);
+    else rejectReport(item.record.id, reason);
+    closeForms();
+  };
+
+  const handleMerge = (e: React.FormEvent, item: QueueItem) => {
+    e.preventDefault();
+    if (!mergeTargetId) return;
+    if (item.kind === 'poi') {
+      // Reports filed on the duplicate follow it to the marker it was merged into
+      if (mergePOI(item.record.id, mergeTargetId)) moveReports(item.record.id, mergeTargetId);
+    } else {
+      mergeReport(item.record.id, mergeTargetId);
+    }
+    closeForms();
+  };
+
+  const focusTarget = (item: QueueItem) =>
+    item.kind === 'poi' ? item.record : item.record.poiId ? getPOIById(item.record.poiId) : undefined;
+
+  return (
+    <div className="moderation-queue">
+      <h3>Review Queue ({queue.length})</h3>
+      {queue.length === 0 && <div className="hint-text">Nothing waiting for review.</div>}
+      <ul className="moderation-queue-list">
+        {queue.map(item => {
+          const { record } = item;
+          const target = focusTarget(item);
+          const candidates = mergingId === record.id ? mergeCandidates(item) : [];
+
+          return (
+            <li key={record.id} className="moderation-queue-item">
+              <div className="moderation-queue-title">
+                <span className="moderation-queue-kind">{item.kind === 'poi' ? 'Marker' : 'Report'}</span>
+                {item.kind === 'poi' ? item.record.title : item.record.headline}
+              </div>
+              <div className="report-meta">
+                {record.createdBy ? `@${record.createdBy}` : 'anonymous'}
+                {record.createdAt && ` · ${new Date(record.createdAt).toLocaleString()}`}
+                {item.kind === 'report' && target && ` · on ${target.title}`}
+              </div>
+
+              {rejectingId === record.id ? (
+                <form className="moderation-queue-form" onSubmit={(e) => handleReject(e, item)}>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason for rejecting"
+                    aria-label="Reason for rejecting"
+                    autoFocus
+                    required
+                  />
+                  <div className="report-actions">
+                    <button type="submit">Reject</button>
+                    <button type="button" onClick={closeForms}>Cancel</button>
+                  </div>
+                </form>
+              ) : mergingId === record.id ? (
+                <form className="moderation-queue-form" onSubmit={(e) => handleMerge(e, item)}>
+                  {candidates.length === 0 ? (
+                    <div className="hint-text">
+                      {item.kind === 'poi' ? 'No markers nearby to merge into.' : 'No other reports on this marker.'}
+                    </div>
+                  ) : (
+                    <select
+                      value={mergeTargetId}
+                      onChange={(e) => setMergeTargetId(e.target.value)}
+                      aria-label="Merge into"
+                      required
+                    >
+                      <option value="">Merge into…</option>
+                      {candidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="report-actions">
+                    {candidates.length > 0 && <button type="submit">Merge</button>}
+                    <button type="button" onClick={closeForms}>Cancel</button>
+                  </div>
+                </form>
+              ) : (
+                <div className="report-actions">
+                  {target && <button onClick={() => onPOIFocus(target)}>Show</button>}
+                  <button onClick={() => handleApprove(item)}>Approve</button>
+                  <button onClick={() => { closeForms(); setRejectingId(record.id); }}>Reject</button>
+                  <button onClick={() => { closeForms(); setMergingId(record.id); }}>Merge</button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ModerationQueue;
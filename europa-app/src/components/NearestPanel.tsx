@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import '../styles/MeasurePanel.css';
+import '../styles/NearestPanel.css';
+import { usePOIs } from '../context/POIContext';
+import { LatLng, distanceKm } from '../geodesy';
+import { createSpatialIndex } from '../spatial';
+import { POI } from '../types';
+import { isTerritorySite } from '../utils/territory';
+import { isListed } from '../utils/moderation';
+import { DEFAULT_TRAVEL_SPEED_KMH, contestedZones, planRoute, travelHours } from '../utils/routing';
+
+interface NearestPanelProps {
+  origin: LatLng | null;
+  onRouteChange: (path: LatLng[] | null) => void;
+  onPOISelect: (poi: POI) => void;
+  onClear: () => void;
+}
+
+const NEAREST_COUNTS = [3, 5, 10];
+const DEFAULT_NEAREST_COUNT = 5;
+
+const formatDistance = (km: number) =>
+  `${km < 10 ? km.toFixed(2) : km.toFixed(1)} km`;
+
+const formatDuration = (hours: number) => {
+  if (!Number.isFinite(hours)) return '–';
+  const minutes = Math.round(hours * 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/**
+ * Readout for nearest mode: the markers closest to a clicked point, and a route
+ * from it to the closest safe zone (or a chosen marker) around contested zones
+ */
+const NearestPanel: React.FC<NearestPanelProps> = ({ origin, onRouteChange, onPOISelect, onClear }) => {
+  const { pois, features } = usePOIs();
+  const [count, setCount] = useState(DEFAULT_NEAREST_COUNT);
+  const [safeZonesOnly, setSafeZonesOnly] = useState(false);
+  const [avoidContested, setAvoidContested] = useState(true);
+  const [speedKmh, setSpeedKmh] = useState(DEFAULT_TRAVEL_SPEED_KMH);
+  // Marker to route to (null = the closest safe zone)
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  // Same markers as search: no reference geometry or rejected submissions
+  const candidates = useMemo(() => pois.filter(poi => isTerritorySite(poi) && isListed(poi)), [pois]);
+  const index = useMemo(() => createSpatialIndex(candidates), [candidates]);
+  const safeIndex = useMemo(() => createSpatialIndex(candidates.filter(poi => poi.safeZone)), [candidates]);
+  const zones = useMemo(() => contestedZones(features), [features]);
+
+  // A new point starts over with the closest safe zone
+  useEffect(() => {
+    setTargetId(null);
+  }, [origin]);
+
+  const nearest = useMemo(
+    () => (origin ? (safeZonesOnly ? safeIndex : index).queryNearest(origin.lat, origin.lng, count) : []),
+    [origin, safeZonesOnly, safeIndex, index, count]
+  );
+
+  const target = useMemo(() => {
+    if (!origin) return undefined;
+    return targetId ? candidates.find(poi => poi.id === targetId) : safeIndex.nearest(origin.lat, origin.lng);
+  }, [origin, targetId, candidates, safeIndex]);
+
+  const route = useMemo(
+    () => (origin && target ? planRoute(origin, target, avoidContested ? zones : []) : null),
+    [origin, target, avoidContested, zones]
+  );
+
+  useEffect(() => {
+    onRouteChange(route ? route.path : null);
+  }, [route, onRouteChange]);
+
+  return (
+    <div className="measure-panel nearest-panel">
+      <h3>Nearest</h3>
+      {!origin ? (
+        <div className="hint-text">Click on the globe to find the nearest markers</div>
+      ) : (
+        <>
+          <div className="nearest-origin">
+            From {origin.lat.toFixed(2)}°, {origin.lng.toFixed(2)}°
+            <button onClick={onClear}>Clear</button>
+          </div>
+          <div className="nearest-options">
+            <select value={count} onChange={(e) => setCount(Number(e.target.value))} aria-label="Number of markers">
+              {NEAREST_COUNTS.map(n => <option key={n} value={n}>{n} nearest</option>)}
+            </select>
+            <label>
+              <input type="checkbox" checked={safeZonesOnly} onChange={(e) => setSafeZonesOnly(e.target.checked)} />
+              Safe zones only
+            </label>
+          </div>
+          {nearest.length === 0 ? (
+            <div className="hint-text">No markers</div>
+          ) : (
+            <ul className="nearest-results">
+              {nearest.map(poi => (
+                <li key={poi.id} className={poi.id === target?.id ? 'active' : ''}>
+                  <span className="nearest-title" onClick={() => onPOISelect(poi)} title="Show on the globe">
+                    {poi.title}
+                    {poi.safeZone && <span className="nearest-safe"> · Safe zone</span>}
+                  </span>
+                  <span className="nearest-distance">{formatDistance(distanceKm(origin, poi))}</span>
+                  <button onClick={() => setTargetId(poi.id)} disabled={poi.id === target?.id}>Route</button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4>Route to {target ? target.title : 'safety'}</h4>
+          <div className="nearest-options">
+            <label>
+              <input type="checkbox" checked={avoidContested} onChange={(e) => setAvoidContested(e.target.checked)} />
+              Avoid contested zones
+            </label>
+            <label>
+              <input
+                type="number"
+                min={1}
+                value={speedKmh}
+                onChange={(e) => setSpeedKmh(Number(e.target.value))}
+                aria-label="Travel speed"
+              />
+              km/h
+            </label>
+          </div>
+          {!target ? (
+            <div className="hint-text">No safe zones on the map</div>
+          ) : !route ? (
+            <div className="hint-text">No route avoids the contested zones</div>
+          ) : (
+            <div className="measure-total">
+              {formatDistance(route.distanceKm)} · ETA {formatDuration(travelHours(route.distanceKm, speedKmh))}
+            </div>
+          )}
+          {targetId && (
+            <button className="nearest-reset" onClick={() => setTargetId(null)}>Route to the closest safe zone</button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NearestPanel;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { MarkerCategoryLabels, ModerationStatus, ModerationStatusLabels, POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+import { validatePOI } from '../schema';
+import RecordAttribution from './RecordAttribution';
+import ModerationLog from './ModerationLog';
+import { getModerationStatus } from '../utils/moderation';
+
+interface POIInspectorProps {
+  poi: POI;
+  isMoving: boolean;
+  onStartMove: () => void;
+  onCancelMove: () => void;
+  onDeleted: (poi: POI) => void;
+}
+
+interface InspectorFormState {
+  title: string;
+  description: string;
+  category: string;
+  factionId: string;
+  location: string;
+  lat: string;
+  lng: string;
+  safeZone: boolean;
+}
+
+const poiToForm = (poi: POI): InspectorFormState => ({
+  title: poi.title,
+  description: poi.description,
+  category: poi.category || '',
+  factionId: poi.factionId || '',
+  location: poi.location || '',
+  lat: String(poi.lat),
+  lng: String(poi.lng),
+  safeZone: poi.safeZone || false
+});
+
+/**
+ * Inspector for the selected POI
+ * Edits its properties, starts drag-to-move mode on the globe, or deletes it - as far as the user's role allows
+ */
+const POIInspector: React.FC<POIInspectorProps> = ({ poi, isMoving, onStartMove, onCancelMove, onDeleted }) => {
+  const { factions, updatePOI, removePOI, getFactionById, pendingSyncIds } = usePOIs();
+  const { can } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<InspectorFormState>(() => poiToForm(poi));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Reset the form when another POI is selected or this one changes elsewhere (e.g. moved)
+  useEffect(() => {
+    setForm(poiToForm(poi));
+    setErrors([]);
+  }, [poi]);
+
+  const setField = <K extends keyof InspectorFormState>(field: K, value: InspectorFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Run the edit through the schema validator so it is normalised like loaded data
+    const { poi: validated, errors: validationErrors } = validatePOI({
+      ...poi,
+      title: form.title,
+      description: form.description,
+      category: form.category || undefined,
+      factionId: form.factionId || undefined,
+      location: form.location || undefined,
+      lat: form.lat,
+      lng: form.lng,
+      safeZone: form.safeZone || undefined
+    });
+
+    if (!validated) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    updatePOI(poi.id, {
+      ...validated,
+      category: validated.category,
+      factionId: validated.factionId,
+      location: validated.location,
+      safeZone: validated.safeZone
+    });
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete marker "${poi.title}"?`)) {
+      removePOI(poi.id);
+      onDeleted(poi);
+    }
+  };
+
+  const faction = getFactionById(poi.factionId);
+  const canEdit = can('edit', poi);
+  const canDelete = can('delete', poi);
+  const moderationStatus = getModerationStatus(poi);
+
+  if (!isEditing || !canEdit) {
+    return (
+      <div className="poi-inspector">
+        {moderationStatus !== ModerationStatus.APPROVED && (
+          <span className={`moderation-badge moderation-${moderationStatus}`}>
+            {ModerationStatusLabels[moderationStatus]}
+          </span>
+        )}
+        {pendingSyncIds.has(poi.id) && <span className="pending-sync-badge">Pending sync</span>}
+        <div className="poi-inspector-details">
+          {poi.category && <span>{MarkerCategoryLabels[poi.category as keyof typeof MarkerCategoryLabels] || poi.category}</span>}
+          {faction && <span> · {faction.name}</span>}
+          {poi.safeZone && <span> · Safe zone</span>}
+          <span> · {poi.lat.toFixed(2)}°, {poi.lng.toFixed(2)}°</span>
+        </div>
+        <RecordAttribution record={poi} />
+        <ModerationLog entries={poi.moderationLog} />
+        {(canEdit || canDelete) && (
+          <div className="report-actions">
+            {canEdit && <button onClick={() => setIsEditing(true)}>Edit</button>}
+            {canEdit && (isMoving ? (
+              <button onClick={onCancelMove}>Cancel Move</button>
+            ) : (
+              <button onClick={onStartMove}>Move</button>
+            ))}
+            {canDelete && <button onClick={handleDelete}>Delete</button>}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form className="poi-inspector report-form" onSubmit={handleSubmit}>
+      <div className="form-group">
+        <label htmlFor="inspectorTitle">Title</label>
+        <input
+          type="text"
+          id="inspectorTitle"
+          value={form.title}
+          onChange={(e) => setField('title', e.target.value)}
+          required
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="inspectorDescription">Description</label>
+        <textarea
+          id="inspectorDescription"
+          value={form.description}
+          onChange={(e) => setField('description', e.target.value)}
+          rows={3}
+        ></textarea>
+      </div>
+      <div className="form-group">
+        <label htmlFor="inspectorCategory">Category</label>
+        <select
+          id="inspectorCategory"
+          value={form.category}
+          onChange={(e) => setField('category', e.target.value)}
+        >
+          <option value="">None</option>
+          {Object.entries(MarkerCategoryLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+          {form.category && !(form.category in MarkerCategoryLabels) && (
+            <option value={form.category}>{form.category}</option>
+          )}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="inspectorFaction">Controlling Faction</label>
+        <select
+          id="inspectorFaction"
+          value={form.factionId}
+          onChange={(e) => setField('factionId', e.target.value)}
+        >
+          <option value="">Unclaimed</option>
+          {factions.map(f => (
+            <option key={f.id} value={f.id}>
+              {f.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="inspectorLocation">Location name</label>
+        <input
+          type="text"
+          id="inspectorLocation"
+          value={form.location}
+          onChange={(e) => setField('location', e.target.value)}
+        />
+      </div>
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="inspectorLat">Latitude</label>
+          <input
+            type="number"
+            id="inspectorLat"
+            step="any"
+            value={form.lat}
+            onChange={(e) => setField('lat', e.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="inspectorLng">Longitude</label>
+          <input
+            type="number"
+            id="inspectorLng"
+            step="any"
+            value={form.lng}
+            onChange={(e) => setField('lng', e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="form-group">
+        <label className="form-checkbox">
+          <input
+            type="checkbox"
+            checked={form.safeZone}
+            onChange={(e) => setField('safeZone', e.target.checked)}
+          />
+          Safe zone (accepts check-ins)
+        </label>
+      </div>
+      {errors.length > 0 && (
+        <ul className="form-errors">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <div className="form-buttons">
+        <button type="button" onClick={() => setIsEditing(false)}>
+          Cancel
+        </button>
+        <button type="submit">Save</button>
+      </div>
+    </form>
+  );
+};
+
+export default POIInspector;
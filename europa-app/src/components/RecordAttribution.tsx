@@ -0,0 +1,25 @@
+import React from 'react';
+import { AuditFields } from '../auth';
+
+interface RecordAttributionProps {
+  record: AuditFields;
+}
+
+const formatDate = (timestamp?: string) => (timestamp ? ` ${new Date(timestamp).toLocaleDateString()}` : '');
+
+/**
+ * Who added and last edited a marker, zone or report
+ */
+const RecordAttribution: React.FC<RecordAttributionProps> = ({ record }) => {
+  if (!record.createdBy && !record.updatedBy) return null;
+
+  return (
+    <div className="report-meta">
+      {record.createdBy && <span>Added by @{record.createdBy}{formatDate(record.createdAt)}</span>}
+      {record.createdBy && record.updatedBy && ' · '}
+      {record.updatedBy && <span>Edited by @{record.updatedBy}{formatDate(record.updatedAt)}</span>}
+    </div>
+  );
+};
+
+export default RecordAttribution;
@@ -0,0 +1,304 @@
+import React, { useState, useMemo } from 'react';
+import '../styles/ReportPanel.css';
+import { ConflictReport, ModerationStatus, ModerationStatusLabels, POI, ReportSeverity, ReportSeverityLabels } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { useReports } from '../context/ReportContext';
+import { useAuth } from '../context/AuthContext';
+import POIInspector from './POIInspector';
+import CheckInPanel from './CheckInPanel';
+import ModerationLog from './ModerationLog';
+import { getModerationStatus, isListed, isPending } from '../utils/moderation';
+
+interface ReportPanelProps {
+  poiId: string;
+  onClose: () => void;
+  isMoving: boolean;
+  onStartMove: () => void;
+  onCancelMove: () => void;
+  onDeleted: (poi: POI) => void;
+}
+
+interface ReportFormState {
+  headline: string;
+  body: string;
+  severity: ReportSeverity;
+  casualties: string;
+  units: string;
+  sourceUrls: string;
+  author: string;
+}
+
+const emptyForm: ReportFormState = {
+  headline: '',
+  body: '',
+  severity: ReportSeverity.MODERATE,
+  casualties: '',
+  units: '',
+  sourceUrls: '',
+  author: ''
+};
+
+// Split a comma or newline separated field into trimmed, non-empty values
+const splitList = (value: string): string[] =>
+  value.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+
+const reportToForm = (report: ConflictReport): ReportFormState => ({
+  headline: report.headline,
+  body: report.body,
+  severity: report.severity,
+  casualties: report.casualties !== undefined ? String(report.casualties) : '',
+  units: (report.units || []).join(', '),
+  sourceUrls: report.sourceUrls.join('\n'),
+  author: report.author
+});
+
+/**
+ * Side panel for the selected POI
+ * Shows the POI inspector, check-ins when the POI is a safe zone, and the conflict reports
+ * attached to the POI, which can be filed, edited and removed from here
+ */
+const ReportPanel: React.FC<ReportPanelProps> = ({
+  poiId,
+  onClose,
+  isMoving,
+  onStartMove,
+  onCancelMove,
+  onDeleted
+}) => {
+  const { getPOIById } = usePOIs();
+  const { getReportsForPOI, addReport, updateReport, removeReport } = useReports();
+  const { user, can } = useAuth();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ReportFormState>(emptyForm);
+
+  const poi = getPOIById(poiId);
+  // Rejected reports stay out of sight except to moderators, who review them
+  const canModerate = can('moderate');
+  const reports = useMemo(
+    () => getReportsForPOI(poiId).filter(report => canModerate || isListed(report)),
+    [getReportsForPOI, poiId, canModerate]
+  );
+
+  if (!poi) return null;
+
+  const setField = <K extends keyof ReportFormState>(field: K, value: ReportFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openNewReport = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm, author: user?.handle || '' });
+    setIsFormOpen(true);
+  };
+
+  const openEditReport = (report: ConflictReport) => {
+    setEditingId(report.id);
+    setForm(reportToForm(report));
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.headline.trim()) return;
+
+    const casualties = parseInt(form.casualties, 10);
+    const reportData = {
+      headline: form.headline.trim(),
+      body: form.body.trim(),
+      severity: form.severity,
+      casualties: Number.isNaN(casualties) ? undefined : casualties,
+      units: splitList(form.units),
+      sourceUrls: splitList(form.sourceUrls),
+      author: form.author.trim() || user?.handle || 'anonymous'
+    };
+
+    if (editingId) {
+      updateReport(editingId, reportData);
+    } else {
+      addReport({
+        ...reportData,
+        reportedAt: new Date().toISOString(),
+        poiId: poi.id
+      });
+    }
+    closeForm();
+  };
+
+  const handleDelete = (report: ConflictReport) => {
+    if (window.confirm(`Delete report "${report.headline}"?`)) {
+      removeReport(report.id);
+    }
+  };
+
+  return (
+    <div className="report-panel">
+      <div className="report-panel-header">
+        <div>
+          <h2>{poi.title}</h2>
+          {poi.location && <div className="report-panel-location">{poi.location}</div>}
+        </div>
+        <button className="report-panel-close" onClick={onClose} aria-label="Close reports">
+          ×
+        </button>
+      </div>
+
+      {poi.description && <p className="report-panel-description">{poi.description}</p>}
+
+      <POIInspector
+        poi={poi}
+        isMoving={isMoving}
+        onStartMove={onStartMove}
+        onCancelMove={onCancelMove}
+        onDeleted={onDeleted}
+      />
+
+      {poi.safeZone && <CheckInPanel poi={poi} />}
+
+      <div className="report-panel-toolbar">
+        <h3>Reports ({reports.length})</h3>
+        {!isFormOpen && can('create') && (
+          <button className="marker-button" onClick={openNewReport}>
+            New Report
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <form className="report-form" onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="reportHeadline">Headline</label>
+            <input
+              type="text"
+              id="reportHeadline"
+              value={form.headline}
+              onChange={(e) => setField('headline', e.target.value)}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportBody">Report</label>
+            <textarea
+              id="reportBody"
+              value={form.body}
+              onChange={(e) => setField('body', e.target.value)}
+              rows={4}
+            ></textarea>
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportSeverity">Severity</label>
+            <select
+              id="reportSeverity"
+              value={form.severity}
+              onChange={(e) => setField('severity', e.target.value as ReportSeverity)}
+            >
+              {Object.entries(ReportSeverityLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportCasualties">Casualties</label>
+            <input
+              type="number"
+              id="reportCasualties"
+              min={0}
+              value={form.casualties}
+              onChange={(e) => setField('casualties', e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportUnits">Units involved (comma separated)</label>
+            <input
+              type="text"
+              id="reportUnits"
+              value={form.units}
+              onChange={(e) => setField('units', e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportSources">Source URLs (one per line)</label>
+            <textarea
+              id="reportSources"
+              value={form.sourceUrls}
+              onChange={(e) => setField('sourceUrls', e.target.value)}
+              rows={2}
+            ></textarea>
+          </div>
+          <div className="form-group">
+            <label htmlFor="reportAuthor">Author handle</label>
+            <input
+              type="text"
+              id="reportAuthor"
+              value={form.author}
+              onChange={(e) => setField('author', e.target.value)}
+            />
+          </div>
+          <div className="form-buttons">
+            <button type="button" onClick={closeForm}>
+              Cancel
+            </button>
+            <button type="submit">{editingId ? 'Save Report' : 'File Report'}</button>
+          </div>
+        </form>
+      )}
+
+      <ul className="report-list">
+        {reports.length === 0 && !isFormOpen && (
+          <li className="report-empty">No reports for this location yet.</li>
+        )}
+        {reports.map(report => (
+          <li key={report.id} className={`report-item ${isPending(report) ? 'moderation-pending-item' : ''}`}>
+            <div className="report-item-header">
+              <span className={`severity-badge severity-${report.severity}`}>
+                {ReportSeverityLabels[report.severity]}
+              </span>
+              {getModerationStatus(report) !== ModerationStatus.APPROVED && (
+                <span className={`moderation-badge moderation-${getModerationStatus(report)}`}>
+                  {ModerationStatusLabels[getModerationStatus(report)]}
+                </span>
+              )}
+              <h4>{report.headline}</h4>
+            </div>
+            <div className="report-meta">
+              {new Date(report.reportedAt).toLocaleString()} · @{report.author}
+              {report.updatedBy && ` · edited by @${report.updatedBy}`}
+            </div>
+            {report.body && <p>{report.body}</p>}
+            {(report.casualties !== undefined || (report.units && report.units.length > 0)) && (
+              <div className="report-meta">
+                {report.casualties !== undefined && <span>Casualties: {report.casualties}</span>}
+                {report.units && report.units.length > 0 && <span> · Units: {report.units.join(', ')}</span>}
+              </div>
+            )}
+            {report.sourceUrls.length > 0 && (
+              <ul className="report-sources">
+                {report.sourceUrls.map(url => (
+                  <li key={url}>
+                    <a href={url} target="_blank" rel="noopener noreferrer">{url}</a>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <ModerationLog entries={report.moderationLog} />
+            <div className="report-actions">
+              {can('edit', report) && <button onClick={() => openEditReport(report)}>Edit</button>}
+              {can('delete', report) && <button onClick={() => handleDelete(report)}>Delete</button>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ReportPanel;
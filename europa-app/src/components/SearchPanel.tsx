@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { MarkerCategoryLabels, POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { POIFilters, EMPTY_FILTERS, hasActiveFilters, searchPOIs } from '../utils/search';
+import { isTerritorySite, UNCLAIMED_FACTION } from '../utils/territory';
+import { isListed } from '../utils/moderation';
+import { createSpatialIndex } from '../spatial';
+
+interface SearchPanelProps {
+  filters: POIFilters;
+  onFiltersChange: (filters: POIFilters) => void;
+  onResultSelect: (poi: POI) => void;
+}
+
+// Cap the result list so a broad query doesn't render hundreds of rows
+const MAX_RESULTS = 50;
+
+// Radii offered for searching near a marker, in km
+const NEAR_RADII_KM = [50, 100, 200, 500, 1000];
+const DEFAULT_NEAR_RADIUS_KM = 200;
+
+// Option standing for a near filter centred on a point rather than a marker (e.g. from a shared link)
+const NEAR_POINT = '@point';
+
+// Add or remove a value from a filter list
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Search box with category, faction and near-a-marker filters
+ * Matching POIs are listed below; the same filters narrow the markers on the globe
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ filters, onFiltersChange, onResultSelect }) => {
+  const { pois, factions, getFactionById } = usePOIs();
+
+  // Only markers are searchable - poles and orientation points are reference geometry - and not rejected submissions
+  const searchable = useMemo(() => pois.filter(poi => isTerritorySite(poi) && isListed(poi)), [pois]);
+
+  // Offer the categories actually in use
+  const categories = useMemo(
+    () => Array.from(new Set(searchable.map(poi => poi.category).filter((c): c is string => !!c))).sort(),
+    [searchable]
+  );
+
+  const index = useMemo(() => createSpatialIndex(searchable), [searchable]);
+
+  const results = useMemo(
+    () => (hasActiveFilters(filters) ? searchPOIs(searchable, filters, index) : []),
+    [searchable, filters, index]
+  );
+
+  const { near } = filters;
+
+  const handleNearChange = (poiId: string) => {
+    const centre = searchable.find(poi => poi.id === poiId);
+    onFiltersChange({
+      ...filters,
+      near: centre
+        ? { lat: centre.lat, lng: centre.lng, radiusKm: near?.radiusKm ?? DEFAULT_NEAR_RADIUS_KM, poiId }
+        : undefined
+    });
+  };
+
+  return (
+    <div className="search-panel">
+      <h3>Search</h3>
+      <input
+        type="search"
+        className="search-input"
+        placeholder="Title, description or location"
+        value={filters.query}
+        onChange={(e) => onFiltersChange({ ...filters, query: e.target.value })}
+        aria-label="Search POIs"
+      />
+      <div className="search-facets">
+        {categories.map(category => (
+          <button
+            key={category}
+            className={`search-facet ${filters.categories.includes(category) ? 'active' : ''}`}
+            onClick={() => onFiltersChange({ ...filters, categories: toggleValue(filters.categories, category) })}
+          >
+            {MarkerCategoryLabels[category as keyof typeof MarkerCategoryLabels] || category}
+          </button>
+        ))}
+      </div>
+      {factions.length > 0 && (
+        <div className="search-facets">
+          {factions.map(faction => (
+            <button
+              key={faction.id}
+              className={`search-facet ${filters.factionIds.includes(faction.id) ? 'active' : ''}`}
+              onClick={() => onFiltersChange({ ...filters, factionIds: toggleValue(filters.factionIds, faction.id) })}
+            >
+              {faction.name}
+            </button>
+          ))}
+          <button
+            className={`search-facet ${filters.factionIds.includes(UNCLAIMED_FACTION) ? 'active' : ''}`}
+            onClick={() => onFiltersChange({ ...filters, factionIds: toggleValue(filters.factionIds, UNCLAIMED_FACTION) })}
+          >
+            Unclaimed
+          </button>
+        </div>
+      )}
+      <div className="search-near">
+        <select
+          value={near ? near.poiId || NEAR_POINT : ''}
+          onChange={(e) => handleNearChange(e.target.value)}
+          aria-label="Near marker"
+        >
+          <option value="">Anywhere</option>
+          {near && !near.poiId && (
+            <option value={NEAR_POINT}>Near {near.lat.toFixed(2)}°, {near.lng.toFixed(2)}°</option>
+          )}
+          {searchable.map(poi => (
+            <option key={poi.id} value={poi.id}>
+              Near {poi.title}
+            </option>
+          ))}
+        </select>
+        {near && (
+          <select
+            value={near.radiusKm}
+            onChange={(e) => onFiltersChange({ ...filters, near: { ...near, radiusKm: Number(e.target.value) } })}
+            aria-label="Search radius"
+          >
+            {Array.from(new Set([...NEAR_RADII_KM, near.radiusKm])).sort((a, b) => a - b).map(km => (
+              <option key={km} value={km}>
+                within {km} km
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {hasActiveFilters(filters) && (
+        <>
+          <div className="hint-text">
+            {results.length} match{results.length === 1 ? '' : 'es'}
+            <button
+              onClick={() => onFiltersChange(EMPTY_FILTERS)}
+              style={{ marginLeft: '10px', padding: '1px 6px' }}
+            >
+              Clear
+            </button>
+          </div>
+          <ul className="search-results">
+            {results.slice(0, MAX_RESULTS).map(({ poi, distanceKm }) => (
+              <li key={poi.id} onClick={() => onResultSelect(poi)}>
+                {poi.title}
+                <span className="search-result-meta">
+                  {[
+                    distanceKm !== undefined && `${Math.round(distanceKm)} km`,
+                    poi.location,
+                    getFactionById(poi.factionId)?.name
+                  ].filter(Boolean).join(' · ') || `${poi.lat.toFixed(2)}°, ${poi.lng.toFixed(2)}°`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import '../styles/SyncPanel.css';
+import { MapFeature, POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+import { PendingChange, SyncRecord, diffRecords } from '../storage';
+
+interface SyncPanelProps {
+  onPOIFocus: (poi: POI) => void; // Fly to a POI and open its panel
+}
+
+// Review history is merged by the server, so it isn't worth showing in a conflict
+const HIDDEN_FIELDS = new Set(['moderationLog']);
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+const recordTitle = (change: PendingChange, server?: SyncRecord | null) =>
+  (change.record as POI | MapFeature | undefined)?.title || (server as POI | MapFeature | null | undefined)?.title || change.id;
+
+/**
+ * Changes made while the server was unreachable that haven't reached it yet,
+ * a side-by-side choice for any that collide with edits made on the server meanwhile,
+ * and any the server refused
+ */
+const SyncPanel: React.FC<SyncPanelProps> = ({ onPOIFocus }) => {
+  const { syncState, syncNow, resolveSyncConflict, dismissSyncRejection, getPOIById } = usePOIs();
+
+  if (!syncState) return null;
+  const { isOnline, isSyncing, pending, conflicts, rejected } = syncState;
+  if (isOnline && pending.length === 0 && rejected.length === 0) return null;
+
+  const waiting = pending.length - conflicts.length;
+
+  return (
+    <div className={`sync-panel ${isOnline ? '' : 'sync-panel-offline'}`}>
+      <div className="sync-panel-header">
+        <span>
+          {isOnline ? '' : 'Offline · '}
+          {isSyncing ? 'Syncing…' : `${waiting} change${waiting === 1 ? '' : 's'} waiting to sync`}
+        </span>
+        {waiting > 0 && !isSyncing && (
+          <button onClick={() => syncNow().catch(err => console.error('Error syncing POIs:', err))}>Sync Now</button>
+        )}
+      </div>
+
+      {conflicts.map(({ change, server }) => {
+        const poi = change.collection === 'pois' ? getPOIById(change.id) : undefined;
+        const differences = diffRecords(change.record, server).filter(({ field }) => !HIDDEN_FIELDS.has(field));
+        const serverEditor = (server as POI | MapFeature | null)?.updatedBy;
+
+        return (
+          <div key={`${change.collection}:${change.id}`} className="sync-conflict">
+            <div className="sync-conflict-title">
+              <strong>{recordTitle(change, server)}</strong>
+              {!server ? ' was deleted on the server' : ` was changed on the server${serverEditor ? ` by @${serverEditor}` : ''}`}
+              {!change.record && ', and you deleted it'}
+            </div>
+            <table className="sync-conflict-diff">
+              <thead>
+                <tr>
+                  <th />
+                  <th>Yours</th>
+                  <th>Server</th>
+                </tr>
+              </thead>
+              <tbody>
+                {differences.map(({ field, local, server: serverValue }) => (
+                  <tr key={field}>
+                    <th>{field}</th>
+                    <td>{formatValue(local)}</td>
+                    <td>{formatValue(serverValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="report-actions">
+              {poi && <button onClick={() => onPOIFocus(poi)}>Show</button>}
+              <button onClick={() => resolveSyncConflict(change.collection, change.id, 'local')}>Keep Mine</button>
+              <button onClick={() => resolveSyncConflict(change.collection, change.id, 'server')}>Use Server's</button>
+            </div>
+          </div>
+        );
+      })}
+
+      {rejected.map(({ change, reason }) => (
+        <div key={`rejected:${change.collection}:${change.id}`} className="sync-conflict">
+          <div className="sync-conflict-title">
+            <strong>{recordTitle(change)}</strong>
+            {change.record ? ' could not be saved' : ' could not be deleted'}: {reason}
+          </div>
+          <div className="report-actions">
+            <button onClick={() => dismissSyncRejection(change.collection, change.id)}>Dismiss</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { usePOIs } from '../context/POIContext';
+import { getTimeRange } from '../utils/timeline';
+
+interface TimelineControlsProps {
+  time: number | null; // null means live
+  onTimeChange: (time: number | null) => void;
+}
+
+// Full replay duration and tick rate for playback
+const PLAYBACK_DURATION_MS = 20000;
+const PLAYBACK_TICK_MS = 100;
+const SLIDER_STEPS = 1000;
+
+/**
+ * Timeline scrubber for replaying how the map evolved
+ * Scrubbing or playing switches from live mode to "state as of time T"
+ */
+const TimelineControls: React.FC<TimelineControlsProps> = ({ time, onTimeChange }) => {
+  const { pois, features } = usePOIs();
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Recompute the range whenever POIs change
+  const range = useMemo(() => getTimeRange([...pois, ...features]), [pois, features]);
+
+  // Latest position and tick size, read by the replay so it only restarts when playback is toggled
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const stepRef = useRef(0);
+  stepRef.current = range ? ((range.end - range.start) * PLAYBACK_TICK_MS) / PLAYBACK_DURATION_MS : 0;
+
+  // Advance the replay while playing
+  useEffect(() => {
+    if (!isPlaying || !range) return;
+
+    const advance = (next: number) => {
+      timeRef.current = next;
+      onTimeChange(next);
+    };
+    const from = timeRef.current;
+    advance(from === null || from >= range.end ? range.start : from);
+
+    const id = setInterval(() => {
+      const next = Math.min(range.end, (timeRef.current ?? range.start) + stepRef.current);
+      advance(next);
+      if (next >= range.end) {
+        setIsPlaying(false);
+      }
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(id);
+  }, [isPlaying, range, onTimeChange]);
+
+  if (!range) return null;
+
+  const span = range.end - range.start || 1;
+  const sliderValue = time === null ? SLIDER_STEPS : Math.round(((time - range.start) / span) * SLIDER_STEPS);
+
+  const handleSliderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setIsPlaying(false);
+    const value = Number(event.target.value);
+    onTimeChange(range.start + (value / SLIDER_STEPS) * span);
+  };
+
+  const handleGoLive = () => {
+    setIsPlaying(false);
+    onTimeChange(null);
+  };
+
+  return (
+    <div className="timeline-controls">
+      <h3>Timeline</h3>
+      <input
+        type="range"
+        className="timeline-slider"
+        min={0}
+        max={SLIDER_STEPS}
+        value={sliderValue}
+        onChange={handleSliderChange}
+        aria-label="Timeline position"
+      />
+      <div className="timeline-label">
+        {time === null ? 'Live' : new Date(time).toLocaleString()}
+      </div>
+      <div className="timeline-buttons">
+        <button className="marker-button" onClick={() => setIsPlaying(prev => !prev)}>
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button className="marker-button" onClick={handleGoLive} disabled={time === null}>
+          Live
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineControls;
@@ -1,6 +1,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import '../styles/UIOverlay.css';
-import { MarkerCategory, MarkerCategoryLabels } from '../types';
+import { FeatureKind, MarkerCategory, MarkerCategoryLabels, POI } from '../types';
+import TimelineControls from './TimelineControls';
+import FactionLegend from './FactionLegend';
+import DataExchange from './DataExchange';
+import DataIssues from './DataIssues';
+import HistoryPanel from './HistoryPanel';
+import SearchPanel from './SearchPanel';
+import FeatureList from './FeatureList';
+import HeatmapControls from './HeatmapControls';
+import UserMenu from './UserMenu';
+import LiveStatusIndicator from './LiveStatusIndicator';
+import SyncPanel from './SyncPanel';
+import ModerationQueue from './ModerationQueue';
+import { usePOIs } from '../context/POIContext';
+import { useAuth } from '../context/AuthContext';
+import { POIFilters } from '../utils/search';
+import { HeatmapSettings } from '../utils/heatmap';
 
 interface UIOverlayProps {
   layerVisibility: {
@@ -9,11 +25,30 @@ interface UIOverlayProps {
     poles: boolean;
     poi: boolean;
     voronoi?: boolean;
+    heatmap?: boolean;
+    measurements?: boolean;
+    features?: boolean;
+    checkIns?: boolean;
   };
   onLayerToggle: (layer: string, visible: boolean) => void;
   onMarkerModeToggle: () => void;
   isMarkerMode: boolean;
-  onCreateMarker: (title: string, description: string, category: string) => void;
+  isMeasureMode: boolean;
+  onMeasureModeToggle: () => void;
+  isNearestMode: boolean;
+  onNearestModeToggle: () => void;
+  drawKind: FeatureKind | null;
+  onDrawKindChange: (kind: FeatureKind | null) => void;
+  selectedFeatureId: string | null;
+  onFeatureSelect: (id: string) => void;
+  onCreateMarker: (title: string, description: string, category: string, factionId?: string) => void;
+  timelineTime: number | null;
+  onTimelineChange: (time: number | null) => void;
+  heatmapSettings: HeatmapSettings;
+  onHeatmapSettingsChange: (settings: HeatmapSettings) => void;
+  poiFilters: POIFilters;
+  onFiltersChange: (filters: POIFilters) => void;
+  onSearchResultSelect: (poi: POI) => void;
 }
 
 const UIOverlay: React.FC<UIOverlayProps> = ({
@@ -21,12 +56,32 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
   onLayerToggle,
   onMarkerModeToggle,
   isMarkerMode,
-  onCreateMarker
+  isMeasureMode,
+  onMeasureModeToggle,
+  isNearestMode,
+  onNearestModeToggle,
+  drawKind,
+  onDrawKindChange,
+  selectedFeatureId,
+  onFeatureSelect,
+  onCreateMarker,
+  timelineTime,
+  onTimelineChange,
+  heatmapSettings,
+  onHeatmapSettingsChange,
+  poiFilters,
+  onFiltersChange,
+  onSearchResultSelect
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [newMarkerTitle, setNewMarkerTitle] = useState('');
   const [newMarkerDescription, setNewMarkerDescription] = useState('');
   const [newMarkerCategory, setNewMarkerCategory] = useState<string>(MarkerCategory.LANDMARK);
+  const [newMarkerFaction, setNewMarkerFaction] = useState('');
+  const { factions } = usePOIs();
+  const { can } = useAuth();
+  // Viewers and guests only get the read-only tools
+  const canCreate = can('create');
 
   // Define which categories to show in the dropdown
   const visibleCategories = useMemo(() => {
@@ -66,10 +121,11 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
   const handleMarkerSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newMarkerTitle.trim()) {
-      onCreateMarker(newMarkerTitle, newMarkerDescription, newMarkerCategory);
+      onCreateMarker(newMarkerTitle, newMarkerDescription, newMarkerCategory, newMarkerFaction || undefined);
       setNewMarkerTitle('');
       setNewMarkerDescription('');
       setNewMarkerCategory(MarkerCategory.LANDMARK);
+      setNewMarkerFaction('');
       setIsModalOpen(false);
     }
   };
@@ -82,6 +138,16 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
   return (
     <>
       <div className="ui-overlay">
+        <UserMenu />
+        <LiveStatusIndicator />
+        <DataIssues />
+        <SyncPanel onPOIFocus={onSearchResultSelect} />
+        <SearchPanel
+          filters={poiFilters}
+          onFiltersChange={onFiltersChange}
+          onResultSelect={onSearchResultSelect}
+        />
+        {can('moderate') && <ModerationQueue onPOIFocus={onSearchResultSelect} />}
         <div className="layer-controls">
           <h3>Layers</h3>
           <div className="control-item">
@@ -134,21 +200,93 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
             />
             <label htmlFor="voronoi">Territory Boundaries</label>
           </div>
+          <div className="control-item">
+            <input 
+              type="checkbox" 
+              id="heatmap"
+              name="heatmap"
+              checked={layerVisibility.heatmap || false}
+              onChange={handleLayerToggle}
+            />
+            <label htmlFor="heatmap">Conflict Heatmap</label>
+          </div>
+          <div className="control-item">
+            <input 
+              type="checkbox" 
+              id="measurements"
+              name="measurements"
+              checked={layerVisibility.measurements || false}
+              onChange={handleLayerToggle}
+            />
+            <label htmlFor="measurements">Measurements</label>
+          </div>
+          <div className="control-item">
+            <input 
+              type="checkbox" 
+              id="features"
+              name="features"
+              checked={layerVisibility.features || false}
+              onChange={handleLayerToggle}
+            />
+            <label htmlFor="features">Zones &amp; Lines</label>
+          </div>
+          <div className="control-item">
+            <input 
+              type="checkbox" 
+              id="checkIns"
+              name="checkIns"
+              checked={layerVisibility.checkIns || false}
+              onChange={handleLayerToggle}
+            />
+            <label htmlFor="checkIns">Safe Zone Check-ins</label>
+          </div>
         </div>
 
+        {layerVisibility.voronoi && <FactionLegend timelineTime={timelineTime} />}
+
+        {layerVisibility.heatmap && (
+          <HeatmapControls settings={heatmapSettings} onChange={onHeatmapSettingsChange} />
+        )}
+
+        <TimelineControls time={timelineTime} onTimeChange={onTimelineChange} />
+
         <div className="marker-tools">
           <h3>Tools</h3>
+          {canCreate && (
+            <button 
+              className={`marker-button ${isMarkerMode ? 'active' : ''}`}
+              onClick={onMarkerModeToggle}
+              style={{ marginRight: '6px' }}
+            >
+              {isMarkerMode ? 'Cancel Marker' : 'Add Marker'}
+            </button>
+          )}
           <button 
-            className={`marker-button ${isMarkerMode ? 'active' : ''}`}
-            onClick={onMarkerModeToggle}
+            className={`marker-button ${isMeasureMode ? 'active' : ''}`}
+            onClick={onMeasureModeToggle}
+            style={{ marginRight: '6px' }}
           >
-            {isMarkerMode ? 'Cancel Marker' : 'Add Marker'}
+            {isMeasureMode ? 'Stop Measuring' : 'Measure'}
+          </button>
+          <button 
+            className={`marker-button ${isNearestMode ? 'active' : ''}`}
+            onClick={onNearestModeToggle}
+          >
+            {isNearestMode ? 'Stop Nearest' : 'Nearest'}
           </button>
           {isMarkerMode && (
             <div className="hint-text">
               Click on the globe to place a marker
             </div>
           )}
+          <FeatureList
+            drawKind={drawKind}
+            onDrawKindChange={onDrawKindChange}
+            selectedFeatureId={selectedFeatureId}
+            onFeatureSelect={onFeatureSelect}
+          />
+          <DataExchange />
+          {canCreate && <HistoryPanel />}
         </div>
       </div>
 
@@ -192,6 +330,21 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
                   ))}
                 </select>
               </div>
+              <div className="form-group">
+                <label htmlFor="markerFaction">Controlling Faction</label>
+                <select
+                  id="markerFaction"
+                  value={newMarkerFaction}
+                  onChange={(e) => setNewMarkerFaction(e.target.value)}
+                >
+                  <option value="">Unclaimed</option>
+                  {factions.map(faction => (
+                    <option key={faction.id} value={faction.id}>
+                      {faction.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="form-buttons">
                 <button type="button" onClick={handleCancelMarker}>
                   Cancel
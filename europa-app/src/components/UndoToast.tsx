@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+import { POI } from '../types';
+import { usePOIs } from '../context/POIContext';
+
+interface UndoToastProps {
+  poi: POI; // The POI that was just deleted
+  onClose: () => void;
+  timeoutMs?: number;
+}
+
+/**
+ * Toast offering to restore a POI that was just deleted
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ poi, onClose, timeoutMs = 8000 }) => {
+  const { history, historyIndex, undo, restorePOI } = usePOIs();
+
+  // Dismiss automatically after a while
+  useEffect(() => {
+    const id = setTimeout(onClose, timeoutMs);
+    return () => clearTimeout(id);
+  }, [poi, onClose, timeoutMs]);
+
+  // Step back through the history when the delete is still the latest change,
+  // otherwise just put the POI back
+  const handleUndo = () => {
+    const latest = historyIndex > 0 ? history[historyIndex - 1] : undefined;
+    if (latest && latest.affectedIds.length === 1 && latest.affectedIds[0] === poi.id) {
+      undo();
+    } else {
+      restorePOI(poi);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="marker-info undo-toast">
+      Deleted "{poi.title}"
+      <button onClick={handleUndo} style={{ marginLeft: '10px', padding: '3px 8px' }}>
+        Undo
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { User, UserRole, UserRoleLabels } from '../types';
+import { useAuth } from '../context/AuthContext';
+
+// Initials shown when the user has no avatar
+const initials = (user: User) =>
+  user.displayName
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0].toUpperCase())
+    .join('') || user.handle[0].toUpperCase();
+
+/**
+ * Current user and role, with sign in and out
+ * The local development sign-in lets anyone pick a handle and role
+ */
+const UserMenu: React.FC = () => {
+  const { user, isLoading, error, signIn, signOut } = useAuth();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [handle, setHandle] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [role, setRole] = useState<UserRole>(UserRole.REPORTER);
+
+  if (isLoading) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await signIn({ handle, displayName, avatarUrl, role })) {
+      setIsFormOpen(false);
+    }
+  };
+
+  if (user) {
+    return (
+      <div className="user-menu">
+        <div className="user-menu-identity">
+          {user.avatarUrl ? (
+            <img className="user-avatar" src={user.avatarUrl} alt="" />
+          ) : (
+            <span className="user-avatar">{initials(user)}</span>
+          )}
+          <div>
+            <div className="user-menu-name">{user.displayName}</div>
+            <div className="user-menu-meta">@{user.handle} · {UserRoleLabels[user.role]}</div>
+          </div>
+        </div>
+        <button className="marker-button" onClick={signOut}>Sign Out</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="user-menu">
+      {!isFormOpen ? (
+        <>
+          <span className="user-menu-meta">Browsing as a guest</span>
+          <button className="marker-button" onClick={() => setIsFormOpen(true)}>Sign In</button>
+        </>
+      ) : (
+        <form className="user-menu-form" onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="userHandle">Handle</label>
+            <input
+              type="text"
+              id="userHandle"
+              value={handle}
+              onChange={(e) => setHandle(e.target.value)}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="userDisplayName">Display name</label>
+            <input
+              type="text"
+              id="userDisplayName"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="userAvatar">Avatar URL (optional)</label>
+            <input
+              type="url"
+              id="userAvatar"
+              value={avatarUrl}
+              onChange={(e) => setAvatarUrl(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="userRole">Role</label>
+            <select
+              id="userRole"
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+            >
+              {Object.entries(UserRoleLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {error && <div className="hint-text error-text">{error}</div>}
+          <div className="form-buttons">
+            <button type="button" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </button>
+            <button type="submit">Sign In</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,115 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { MeasurementAnnotation } from '../types';
+import { AnnotationStorageAdapter, createLocalAnnotationStorage } from '../storage';
+
+interface AnnotationContextType {
+  annotations: MeasurementAnnotation[];
+  isLoading: boolean;
+  error: string | null;
+  addAnnotation: (annotation: Omit<MeasurementAnnotation, 'id' | 'createdAt'>) => string;
+  removeAnnotation: (id: string) => boolean;
+}
+
+const AnnotationContext = createContext<AnnotationContextType | undefined>(undefined);
+
+interface AnnotationProviderProps {
+  children: React.ReactNode;
+  storage?: AnnotationStorageAdapter; // Defaults to localStorage
+}
+
+export const AnnotationProvider: React.FC<AnnotationProviderProps> = ({ children, storage: storageProp }) => {
+  const [annotations, setAnnotations] = useState<MeasurementAnnotation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const storage = useMemo(() => storageProp || createLocalAnnotationStorage(), [storageProp]);
+
+  // Mirror of the current annotations so mutations can return synchronously
+  const annotationsRef = useRef<MeasurementAnnotation[]>([]);
+
+  const commitAnnotations = useCallback((next: MeasurementAnnotation[]) => {
+    annotationsRef.current = next;
+    setAnnotations(next);
+  }, []);
+
+  const persist = useCallback((operation: Promise<void>) => {
+    operation.catch(err => {
+      console.error('Error saving annotations:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error saving annotations');
+    });
+  }, []);
+
+  // Load stored annotations
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAnnotations = async () => {
+      try {
+        setIsLoading(true);
+        const stored = await storage.load();
+        if (cancelled) return;
+
+        commitAnnotations(stored);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading annotations:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error loading annotations');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadAnnotations();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, commitAnnotations]);
+
+  // Save a measurement as an annotation
+  const addAnnotation = useCallback((annotationData: Omit<MeasurementAnnotation, 'id' | 'createdAt'>) => {
+    const id = `annotation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const newAnnotation: MeasurementAnnotation = {
+      ...annotationData,
+      createdAt: new Date().toISOString(),
+      id
+    };
+
+    commitAnnotations([...annotationsRef.current, newAnnotation]);
+    persist(storage.saveAnnotation(newAnnotation));
+    return id;
+  }, [commitAnnotations, persist, storage]);
+
+  // Remove an annotation
+  const removeAnnotation = useCallback((id: string) => {
+    if (!annotationsRef.current.some(annotation => annotation.id === id)) return false;
+
+    commitAnnotations(annotationsRef.current.filter(annotation => annotation.id !== id));
+    persist(storage.deleteAnnotation(id));
+    return true;
+  }, [commitAnnotations, persist, storage]);
+
+  const contextValue: AnnotationContextType = {
+    annotations,
+    isLoading,
+    error,
+    addAnnotation,
+    removeAnnotation
+  };
+
+  return (
+    <AnnotationContext.Provider value={contextValue}>
+      {children}
+    </AnnotationContext.Provider>
+  );
+};
+
+// Custom hook to use the annotation context
+export const useAnnotations = () => {
+  const context = useContext(AnnotationContext);
+  if (context === undefined) {
+    throw new Error('useAnnotations must be used within an AnnotationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { User } from '../types';
+import { AuthAdapter, OwnedRecord, Permission, can as canUser, createDefaultAuth } from '../auth';
+
+interface AuthContextType {
+  user: User | null; // null while signed out
+  isLoading: boolean;
+  error: string | null;
+  signIn: (profile: User) => Promise<boolean>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission, record?: OwnedRecord) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+  adapter?: AuthAdapter; // Defaults to the local development sign-in
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, adapter: adapterProp }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const adapter = useMemo(() => adapterProp || createDefaultAuth(), [adapterProp]);
+
+  // Restore the previous session
+  useEffect(() => {
+    let cancelled = false;
+
+    adapter.getCurrentUser()
+      .then(current => {
+        if (!cancelled) setUser(current);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error restoring the signed-in user:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error restoring the signed-in user');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter]);
+
+  const signIn = useCallback(async (profile: User) => {
+    try {
+      setUser(await adapter.signIn(profile));
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error signing in');
+      return false;
+    }
+  }, [adapter]);
+
+  const signOut = useCallback(async () => {
+    try {
+      await adapter.signOut();
+      setUser(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error signing out:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error signing out');
+    }
+  }, [adapter]);
+
+  const can = useCallback(
+    (permission: Permission, record?: OwnedRecord) => canUser(user, permission, record),
+    [user]
+  );
+
+  const contextValue: AuthContextType = {
+    user,
+    isLoading,
+    error,
+    signIn,
+    signOut,
+    can
+  };
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+// Custom hook to use the auth context
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { LiveChannel, LiveStatus, createDefaultLiveChannel } from '../realtime';
+
+// How long a record that just arrived from another client is marked as new
+export const LIVE_ACTIVITY_MS = 3000;
+
+// A record another client just created or changed
+export interface LiveActivity {
+  kind: 'poi' | 'report';
+  id: string;
+  at: number; // Date.now() when it arrived
+}
+
+interface LiveContextType {
+  channel: LiveChannel;
+  status: LiveStatus;
+  activity: LiveActivity[]; // Recent arrivals, oldest first
+}
+
+const LiveContext = createContext<LiveContextType | undefined>(undefined);
+
+interface LiveProviderProps {
+  children: React.ReactNode;
+  channel?: LiveChannel; // Defaults to a server stream when REACT_APP_LIVE_URL is set, otherwise other tabs
+}
+
+/**
+ * Shares one live update connection between the POI and report providers,
+ * and tracks its status and what has recently arrived over it
+ */
+export const LiveProvider: React.FC<LiveProviderProps> = ({ children, channel: channelProp }) => {
+  const [status, setStatus] = useState<LiveStatus>('closed');
+  const [activity, setActivity] = useState<LiveActivity[]>([]);
+
+  const channel = useMemo(() => channelProp || createDefaultLiveChannel(), [channelProp]);
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = channel.subscribe({
+      onStatus: setStatus,
+      onEvent: event => {
+        if (event.type !== 'poi:upsert' && event.type !== 'report:upsert') return;
+        const entry: LiveActivity = event.type === 'poi:upsert'
+          ? { kind: 'poi', id: event.poi.id, at: Date.now() }
+          : { kind: 'report', id: event.report.id, at: Date.now() };
+
+        setActivity(current => [...current.filter(item => item.id !== entry.id), entry]);
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          setActivity(current => current.filter(item => item !== entry));
+        }, LIVE_ACTIVITY_MS);
+        timers.add(timer);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+      setActivity([]);
+    };
+  }, [channel]);
+
+  const contextValue: LiveContextType = {
+    channel,
+    status,
+    activity
+  };
+
+  return (
+    <LiveContext.Provider value={contextValue}>
+      {children}
+    </LiveContext.Provider>
+  );
+};
+
+// Custom hook to use the live updates context
+export const useLive = () => {
+  const context = useContext(LiveContext);
+  if (context === undefined) {
+    throw new Error('useLive must be used within a LiveProvider');
+  }
+  return context;
+};
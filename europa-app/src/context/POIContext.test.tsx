@@ -0,0 +1,199 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ModerationStatus, POI } from '../types';
+import { CURRENT_COLLECTION_VERSION } from '../schema';
+import { POIStorageAdapter, StoredPOIState, emptyStoredState } from '../storage';
+import { LiveChannel } from '../realtime';
+import { AuthAdapter } from '../auth';
+import { AuthProvider } from './AuthContext';
+import { LiveProvider } from './LiveContext';
+import { MAX_HISTORY, POIProvider, usePOIs } from './POIContext';
+import { checkIn, poi } from '../testing/fixtures';
+
+const SEED = [poi('a'), poi('b')];
+
+// In-memory user layer, recording every write
+const createMemoryStorage = (stored: StoredPOIState) => {
+  const saved = new Map<string, POI>();
+  const deleted = new Set<string>();
+  const storage: POIStorageAdapter = {
+    name: 'memory',
+    load: async () => stored,
+    savePOI: async record => { saved.set(record.id, record); deleted.delete(record.id); },
+    deletePOI: async id => { saved.delete(id); deleted.add(id); },
+    saveFeature: async () => undefined,
+    deleteFeature: async () => undefined,
+    saveCheckIn: async () => undefined,
+    deleteCheckIn: async () => undefined
+  };
+  return { storage, saved, deleted };
+};
+
+const channel: LiveChannel = { name: 'none', subscribe: () => () => undefined, publish: () => undefined };
+const auth: AuthAdapter = {
+  name: 'none',
+  getCurrentUser: async () => null,
+  signIn: async user => user,
+  signOut: async () => undefined
+};
+
+const renderPOIs = async (stored: StoredPOIState = emptyStoredState()) => {
+  const memory = createMemoryStorage(stored);
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <AuthProvider adapter={auth}>
+      <LiveProvider channel={channel}>
+        <POIProvider storage={memory.storage}>{children}</POIProvider>
+      </LiveProvider>
+    </AuthProvider>
+  );
+  const { result } = renderHook(() => usePOIs(), { wrapper });
+  await waitFor(() => expect(result.current.isLoading).toBe(false));
+  return { result, ...memory };
+};
+
+const titles = (pois: POI[]) => pois.map(record => record.title);
+
+describe('POIProvider history', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn(async () => new Response(JSON.stringify({
+      version: CURRENT_COLLECTION_VERSION,
+      lastUpdated: '2025-01-01T00:00:00Z',
+      pois: SEED,
+      factions: []
+    }))) as jest.Mock;
+  });
+
+  it('dates the map by the stored layer when it only holds check-ins', async () => {
+    const stored = { ...emptyStoredState(), checkIns: [checkIn('c', { poiId: 'a', checkedInAt: new Date().toISOString() })], lastUpdated: '2026-02-01T00:00:00Z' };
+    const { result } = await renderPOIs(stored);
+    expect(result.current.lastUpdated).toBe('2026-02-01T00:00:00Z');
+  });
+
+  it('applies, undoes and redoes a change set, writing each direction through to storage', async () => {
+    const { result, saved, deleted } = await renderPOIs();
+
+    act(() => { result.current.updatePOI('a', { title: 'edited' }); });
+    expect(titles(result.current.pois)).toEqual(['edited', 'b']);
+    expect(saved.get('a')?.title).toBe('edited');
+    expect(result.current.history.map(entry => entry.label)).toEqual(['Edit "edited"']);
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => { expect(result.current.undo()).toBe(true); });
+    expect(titles(result.current.pois)).toEqual(['a', 'b']);
+    expect(saved.get('a')?.title).toBe('a');
+    expect(result.current).toMatchObject({ historyIndex: 0, canUndo: false, canRedo: true });
+
+    act(() => { expect(result.current.redo()).toBe(true); });
+    expect(titles(result.current.pois)).toEqual(['edited', 'b']);
+    expect(result.current).toMatchObject({ historyIndex: 1, canUndo: true, canRedo: false });
+
+    act(() => { result.current.removePOI('b'); });
+    expect(deleted.has('b')).toBe(true);
+    act(() => { result.current.undo(); });
+    expect(titles(result.current.pois)).toEqual(['edited', 'b']);
+    expect(deleted.has('b')).toBe(false);
+  });
+
+  it('does nothing when there is nothing to undo or redo', async () => {
+    const { result } = await renderPOIs();
+
+    act(() => {
+      expect(result.current.undo()).toBe(false);
+      expect(result.current.redo()).toBe(false);
+    });
+    expect(titles(result.current.pois)).toEqual(['a', 'b']);
+  });
+
+  it('clears the redo stack when a new change is made', async () => {
+    const { result } = await renderPOIs();
+
+    act(() => { result.current.updatePOI('a', { title: 'first' }); });
+    act(() => { result.current.updatePOI('a', { title: 'second' }); });
+    act(() => { result.current.undo(); });
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => { result.current.updatePOI('b', { title: 'other' }); });
+    expect(result.current.history.map(entry => entry.label)).toEqual(['Edit "first"', 'Edit "other"']);
+    expect(result.current.canRedo).toBe(false);
+    act(() => { expect(result.current.redo()).toBe(false); });
+    expect(titles(result.current.pois)).toEqual(['first', 'other']);
+  });
+
+  it(`keeps only the latest ${MAX_HISTORY} steps`, async () => {
+    const { result } = await renderPOIs();
+
+    act(() => {
+      for (let i = 0; i <= MAX_HISTORY; i++) result.current.updatePOI('a', { title: `edit ${i}` });
+    });
+    expect(result.current.history).toHaveLength(MAX_HISTORY);
+    expect(result.current.historyIndex).toBe(MAX_HISTORY);
+    expect(result.current.history[0].label).toBe('Edit "edit 1"');
+
+    // The oldest step was dropped, so undoing everything stops at its result
+    act(() => { result.current.jumpToHistory(0); });
+    expect(result.current.historyIndex).toBe(0);
+    expect(titles(result.current.pois)).toEqual(['edit 0', 'b']);
+  });
+
+  it('jumps backwards and forwards through the history', async () => {
+    const { result } = await renderPOIs();
+
+    act(() => { result.current.updatePOI('a', { title: 'one' }); });
+    act(() => { result.current.updatePOI('a', { title: 'two' }); });
+    act(() => { result.current.updatePOI('b', { title: 'three' }); });
+
+    act(() => { result.current.jumpToHistory(1); });
+    expect(result.current.historyIndex).toBe(1);
+    expect(titles(result.current.pois)).toEqual(['one', 'b']);
+
+    act(() => { result.current.jumpToHistory(0); });
+    expect(titles(result.current.pois)).toEqual(['a', 'b']);
+
+    act(() => { result.current.jumpToHistory(3); });
+    expect(result.current.historyIndex).toBe(3);
+    expect(titles(result.current.pois)).toEqual(['two', 'three']);
+    expect(result.current.history).toHaveLength(3);
+  });
+
+  it('records an import as a single step', async () => {
+    const { result } = await renderPOIs();
+
+    act(() => {
+      expect(result.current.importPOIs([poi('a', { title: 'replaced' }), poi('c'), poi('d')])).toBe(3);
+    });
+    expect(titles(result.current.pois)).toEqual(['replaced', 'b', 'c', 'd']);
+    expect(result.current.history).toHaveLength(1);
+    expect(result.current.history[0]).toMatchObject({ label: 'Import 3 POIs', affectedIds: ['a', 'c', 'd'] });
+
+    act(() => { result.current.undo(); });
+    expect(titles(result.current.pois)).toEqual(['a', 'b']);
+
+    act(() => { result.current.redo(); });
+    expect(titles(result.current.pois)).toEqual(['replaced', 'b', 'c', 'd']);
+  });
+
+  it('keeps moderation decisions out of the history', async () => {
+    const { result } = await renderPOIs();
+
+    act(() => { result.current.updatePOI('b', { title: 'edited' }); });
+    act(() => { result.current.updatePOI('a', { moderationStatus: ModerationStatus.PENDING }); });
+    act(() => { expect(result.current.approvePOI('a')).toBe(true); });
+
+    // The edit to `a` was dropped, since undoing it would roll the decision back
+    expect(result.current.history.map(entry => entry.label)).toEqual(['Edit "edited"']);
+    expect(result.current.historyIndex).toBe(1);
+
+    act(() => { result.current.jumpToHistory(0); });
+    const approved = result.current.getPOIById('a');
+    expect(approved?.moderationStatus).toBe(ModerationStatus.APPROVED);
+    expect(approved?.moderationLog?.map(entry => entry.action)).toEqual(['approved']);
+    expect(result.current.getPOIById('b')?.title).toBe('b');
+
+    act(() => {
+      expect(result.current.rejectPOI('b', 'spam')).toBe(true);
+      expect(result.current.mergePOI('b', 'a')).toBe(true);
+    });
+    expect(result.current.history).toHaveLength(0);
+    expect(result.current.getPOIById('b')?.moderationStatus).toBe(ModerationStatus.REJECTED);
+  });
+});
@@ -1,102 +1,640 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { POI, POICollection } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CheckIn, CheckInStatus, Faction, MapFeature, POI, POICollection } from '../types';
 import * as THREE from 'three';
-import { latLongToVector3 } from '../components/EuropaSphere/utils';
+import { latLongToVector3 } from '../geodesy';
+import {
+  POIStorageAdapter,
+  PendingChange,
+  StoredPOIState,
+  SyncCollection,
+  SyncState,
+  createDefaultPOIStorage,
+  isSyncingStorage,
+  mergeLayer
+} from '../storage';
+import {
+  RecordError,
+  generateCheckInId,
+  generateFeatureId,
+  loadPOICollection,
+  validateCheckIns,
+  validateFeatures,
+  validatePOIs
+} from '../schema';
+import { CheckInSummary, isCheckInExpired, summarizeCheckIns } from '../utils/checkIns';
+import { stampCreated, stampUpdated } from '../auth';
+import { approve, combinePOIs, mergeDuplicate, reject, submitForReview } from '../utils/moderation';
+import { applyLiveChange } from '../realtime';
+import { useAuth } from './AuthContext';
+import { useLive } from './LiveContext';
+
+const SEED_URL = '/resources/europa-pois.json';
+
+// Upsert or remove records in a list according to a set of id -> target entries
+const applyToList = <T extends { id: string }>(list: T[], targets: Map<string, T | undefined>): T[] => {
+  const existingIds = new Set(list.map(record => record.id));
+
+  const updated: T[] = [];
+  list.forEach(record => {
+    if (!targets.has(record.id)) {
+      updated.push(record);
+      return;
+    }
+    const target = targets.get(record.id);
+    if (target) updated.push(target);
+  });
+  targets.forEach((target, id) => {
+    if (target && !existingIds.has(id)) updated.push(target);
+  });
+
+  return updated;
+};
+
+// How often check-in counts are refreshed and expired check-ins pruned
+const CHECK_IN_REFRESH_MS = 60000;
+
+// How often queued changes are retried while the server is unreachable
+const SYNC_RETRY_MS = 30000;
+
+// Maximum number of undoable steps kept in memory
+export const MAX_HISTORY = 100;
+
+// A single record's state before and after a command (undefined = absent)
+interface RecordChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+}
+
+// Everything a command touched - POIs and map features are undone together
+interface ChangeSet {
+  pois?: RecordChange<POI>[];
+  features?: RecordChange<MapFeature>[];
+}
+
+interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: string;
+  changes: ChangeSet;
+}
+
+// Summary of an undoable step, for display
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  affectedIds: string[];
+}
 
 interface POIContextType {
   pois: POI[];
+  features: MapFeature[]; // Polygons, polylines and circles
+  factions: Faction[];
   isLoading: boolean;
   error: string | null;
+  validationErrors: RecordError[]; // Records skipped while loading
+  version: string;
+  lastUpdated: string | null;
+  storageName: string;
   addPOI: (poi: Omit<POI, 'id'>) => string;
   updatePOI: (id: string, updates: Partial<POI>) => boolean;
   removePOI: (id: string) => boolean;
+  restorePOI: (poi: POI) => boolean; // Put back a deleted POI under its original id
+  // Moderation decisions are kept out of the undo history
+  approvePOI: (id: string) => boolean;
+  rejectPOI: (id: string, reason: string) => boolean;
+  mergePOI: (duplicateId: string, targetId: string) => boolean; // Rejects the duplicate in favour of the target
+  importPOIs: (imported: POI[], importedFeatures?: MapFeature[]) => number;
+  addFeature: (feature: Omit<MapFeature, 'id'>) => string;
+  updateFeature: (id: string, updates: Partial<MapFeature>) => boolean;
+  removeFeature: (id: string) => boolean;
+  getFeatureById: (id: string) => MapFeature | undefined;
+  checkIns: CheckIn[]; // Stored check-ins, including ones since replaced by a newer check-in
+  checkInSummaries: Map<string, CheckInSummary>; // Live counts and statuses by safe zone POI id
+  checkIn: (poiId: string, status: CheckInStatus, author: string, note?: string) => string;
+  removeCheckIn: (id: string) => boolean;
+  syncState: SyncState | null; // Changes waiting for the server - null when storage is local
+  pendingSyncIds: Set<string>; // POIs and features with changes not yet on the server
+  syncNow: () => Promise<void>;
+  resolveSyncConflict: (collection: SyncCollection, id: string, keep: 'local' | 'server') => Promise<void>;
+  dismissSyncRejection: (collection: SyncCollection, id: string) => void;
+  history: HistoryEntry[]; // Oldest first
+  historyIndex: number; // Number of entries currently applied
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => boolean;
+  redo: () => boolean;
+  jumpToHistory: (index: number) => void;
   getPOIsByType: (type: POI['type']) => POI[];
   getPOIById: (id: string) => POI | undefined;
+  getFactionById: (id?: string) => Faction | undefined;
   getDirectionVector: (poi: POI, radius?: number) => THREE.Vector3;
 }
 
 const POIContext = createContext<POIContextType | undefined>(undefined);
 
-export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface POIProviderProps {
+  children: React.ReactNode;
+  storage?: POIStorageAdapter; // Defaults to localStorage, or REST when REACT_APP_POI_API_URL is set
+}
+
+export const POIProvider: React.FC<POIProviderProps> = ({ children, storage: storageProp }) => {
   const [pois, setPOIs] = useState<POI[]>([]);
+  const [features, setFeatures] = useState<MapFeature[]>([]);
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [factions, setFactions] = useState<Faction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<RecordError[]>([]);
+  const [version, setVersion] = useState('');
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  // New and edited records are stamped with the signed-in user
+  const { user } = useAuth();
+  // Changes are shared with other open maps, and theirs applied here
+  const { channel } = useLive();
+
+  // Keep a single adapter instance for the lifetime of the provider
+  const storage = useMemo(() => storageProp || createDefaultPOIStorage(), [storageProp]);
+
+  // Mirror of the current POIs so mutations can return synchronously
+  const poisRef = useRef<POI[]>([]);
+  const featuresRef = useRef<MapFeature[]>([]);
+  const checkInsRef = useRef<CheckIn[]>([]);
+  // Seed collection the stored layer is merged onto, kept for resyncing
+  const seedRef = useRef<POICollection | null>(null);
+
+  const commitPOIs = useCallback((next: POI[]) => {
+    poisRef.current = next;
+    setPOIs(next);
+  }, []);
+
+  const commitFeatures = useCallback((next: MapFeature[]) => {
+    featuresRef.current = next;
+    setFeatures(next);
+  }, []);
+
+  const commitCheckIns = useCallback((next: CheckIn[]) => {
+    checkInsRef.current = next;
+    setCheckIns(next);
+  }, []);
+
+  // Write a change through to the storage backend without blocking the UI
+  const persist = useCallback((operation: Promise<void>) => {
+    setLastUpdated(new Date().toISOString());
+    operation.catch(err => {
+      console.error('Error saving POIs:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error saving POIs');
+    });
+  }, []);
+
+  // Merge a stored user layer onto the seed, returning the stored records that failed validation
+  const applyStoredLayer = useCallback((seed: POICollection, stored: StoredPOIState): RecordError[] => {
+    const { pois: storedPOIs, errors: storedErrors } = validatePOIs(stored.pois);
+    const { features: storedFeatures, errors: storedFeatureErrors } = validateFeatures(stored.features);
+    const { checkIns: storedCheckIns, errors: storedCheckInErrors } = validateCheckIns(stored.checkIns);
+
+    commitPOIs(mergeLayer(seed.pois, storedPOIs, stored.deletedIds));
+    commitFeatures(mergeLayer(seed.features || [], storedFeatures, stored.deletedFeatureIds));
+    commitCheckIns(storedCheckIns);
+    return [...storedErrors, ...storedFeatureErrors, ...storedCheckInErrors];
+  }, [commitPOIs, commitFeatures, commitCheckIns]);
 
-  // Load POIs from JSON file
+  // Load the seed collection and merge the stored user POIs on top
   useEffect(() => {
+    let cancelled = false;
+
     const loadPOIs = async () => {
       try {
         setIsLoading(true);
-        const response = await fetch('/resources/europa-pois.json');
+        const response = await fetch(SEED_URL);
         if (!response.ok) {
           throw new Error(`Failed to load POIs: ${response.statusText}`);
         }
         
-        const data: POICollection = await response.json();
-        
-        // Validate data
-        if (!data.pois || !Array.isArray(data.pois)) {
-          throw new Error('Invalid POI data format');
-        }
-        
-        setPOIs(data.pois);
+        // Migrate older formats and drop records that fail validation
+        const { collection: data, errors: seedErrors } = loadPOICollection(await response.json());
+
+        const stored = await storage.load();
+        if (cancelled) return;
+
+        seedRef.current = data;
+        const storedErrors = applyStoredLayer(data, stored);
+        setFactions(data.factions || []);
+        setValidationErrors([
+          ...seedErrors.map(err => ({ ...err, source: SEED_URL })),
+          ...storedErrors.map(err => ({ ...err, source: `${storage.name} storage` }))
+        ]);
+        setVersion(data.version);
+        const hasUserLayer = stored.pois.length || stored.deletedIds.length || stored.features.length || stored.deletedFeatureIds.length || stored.checkIns.length;
+        setLastUpdated(hasUserLayer ? stored.lastUpdated : data.lastUpdated);
         setError(null);
       } catch (err) {
+        if (cancelled) return;
         console.error('Error loading POIs:', err);
         setError(err instanceof Error ? err.message : 'Unknown error loading POIs');
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     loadPOIs();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, applyStoredLayer]);
+
+  // Apply POI changes from other clients - they are already saved, so nothing is persisted or added to history
+  useEffect(() => {
+    if (isLoading) return;
+    let cancelled = false;
+
+    const unsubscribe = channel.subscribe({
+      onEvent: event => {
+        if (event.type === 'poi:upsert') commitPOIs(applyLiveChange(poisRef.current, event.poi.id, event.poi));
+        else if (event.type === 'poi:delete') commitPOIs(applyLiveChange(poisRef.current, event.id));
+      },
+      // Events were missed while disconnected, so reload the stored layer
+      onResync: () => {
+        storage.load()
+          .then(stored => {
+            if (!cancelled && seedRef.current) applyStoredLayer(seedRef.current, stored);
+          })
+          .catch(err => console.error('Error resyncing POIs:', err));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isLoading, channel, storage, commitPOIs, applyStoredLayer]);
+
+  // Changes made while the server was unreachable, for server-backed storage
+  const syncingStorage = isSyncingStorage(storage) ? storage : null;
+  const [syncState, setSyncState] = useState<SyncState | null>(() => syncingStorage?.getSyncState() || null);
+
+  useEffect(() => {
+    if (!syncingStorage) {
+      setSyncState(null);
+      return;
+    }
+    setSyncState(syncingStorage.getSyncState());
+    return syncingStorage.subscribe(setSyncState);
+  }, [syncingStorage]);
+
+  // Tell other clients about POI changes that just reached the server
+  const publishChanges = useCallback((changes: PendingChange[]) => {
+    changes
+      .filter(change => change.collection === 'pois')
+      .forEach(({ id, record }) => channel.publish(record ? { type: 'poi:upsert', poi: record as POI } : { type: 'poi:delete', id }));
+  }, [channel]);
+
+  // Replay queued changes, then reload so edits made on the server meanwhile show up
+  const syncNow = useCallback(async () => {
+    if (!syncingStorage || !seedRef.current) return;
+    const replayed = await syncingStorage.sync();
+    if (replayed.length === 0) return;
+
+    publishChanges(replayed);
+    applyStoredLayer(seedRef.current, await syncingStorage.load());
+  }, [syncingStorage, publishChanges, applyStoredLayer]);
+
+  // Retry when the browser comes back online, and periodically while anything is queued
+  const hasPending = (syncState?.pending.length || 0) > (syncState?.conflicts.length || 0);
+  useEffect(() => {
+    if (isLoading || !syncingStorage) return;
+
+    const retry = () => {
+      syncNow().catch(err => console.error('Error syncing POIs:', err));
+    };
+    window.addEventListener('online', retry);
+    const id = hasPending ? setInterval(retry, SYNC_RETRY_MS) : undefined;
+    if (hasPending) retry();
+
+    return () => {
+      window.removeEventListener('online', retry);
+      clearInterval(id);
+    };
+  }, [isLoading, syncingStorage, hasPending, syncNow]);
+
+  // Settle a conflicting queued change and show whichever version was kept
+  const resolveSyncConflict = useCallback(async (collection: SyncCollection, id: string, keep: 'local' | 'server') => {
+    if (!syncingStorage) return;
+    try {
+      const record = await syncingStorage.resolveConflict(collection, id, keep);
+      if (collection === 'pois') {
+        commitPOIs(applyLiveChange(poisRef.current, id, (record as POI | null) || undefined));
+        if (keep === 'server') channel.publish(record ? { type: 'poi:upsert', poi: record as POI } : { type: 'poi:delete', id });
+      } else if (collection === 'features') {
+        commitFeatures(applyLiveChange(featuresRef.current, id, (record as MapFeature | null) || undefined));
+      }
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error resolving sync conflict');
+    }
+  }, [syncingStorage, channel, commitPOIs, commitFeatures]);
+
+  // Acknowledge a change the server refused and show the record as it now stands
+  const dismissSyncRejection = useCallback((collection: SyncCollection, id: string) => {
+    if (!syncingStorage) return;
+    const record = syncingStorage.dismissRejection(collection, id);
+    if (collection === 'pois') {
+      commitPOIs(applyLiveChange(poisRef.current, id, (record as POI | null) || undefined));
+    } else if (collection === 'features') {
+      commitFeatures(applyLiveChange(featuresRef.current, id, (record as MapFeature | null) || undefined));
+    } else {
+      commitCheckIns(applyLiveChange(checkInsRef.current, id, (record as CheckIn | null) || undefined));
+    }
+  }, [syncingStorage, commitPOIs, commitFeatures, commitCheckIns]);
+
+  const pendingSyncIds = useMemo(
+    () => new Set((syncState?.pending || []).filter(change => change.collection !== 'checkIns').map(change => change.id)),
+    [syncState]
+  );
+
+  // Check-in counts are live, so re-evaluate expiry on a timer and drop expired check-ins from storage
+  const [checkInClock, setCheckInClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    const pruneCheckIns = () => {
+      const now = Date.now();
+      setCheckInClock(now);
+      const expired = checkInsRef.current.filter(checkIn => isCheckInExpired(checkIn, now));
+      if (expired.length === 0) return;
+
+      commitCheckIns(checkInsRef.current.filter(checkIn => !expired.includes(checkIn)));
+      persist(Promise.all(expired.map(checkIn => storage.deleteCheckIn(checkIn.id))).then(() => undefined));
+    };
+
+    pruneCheckIns();
+    const id = setInterval(pruneCheckIns, CHECK_IN_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [isLoading, storage, commitCheckIns, persist]);
+
+  const checkInSummaries = useMemo(() => summarizeCheckIns(checkIns, checkInClock), [checkIns, checkInClock]);
+
+  // Apply a set of changes in one direction and write them through to storage
+  const applyChanges = useCallback((changes: ChangeSet, direction: 'forward' | 'backward') => {
+    const toTargets = <T,>(list: RecordChange<T>[] = []) => new Map(list.map(change => [
+      change.id,
+      direction === 'forward' ? change.after : change.before
+    ]));
+    const poiTargets = toTargets(changes.pois);
+    const featureTargets = toTargets(changes.features);
+    const operations: Promise<void>[] = [];
+
+    if (poiTargets.size > 0) {
+      commitPOIs(applyToList(poisRef.current, poiTargets));
+      poiTargets.forEach((target, id) => {
+        operations.push(target ? storage.savePOI(target) : storage.deletePOI(id));
+        channel.publish(target ? { type: 'poi:upsert', poi: target } : { type: 'poi:delete', id });
+      });
+    }
+    if (featureTargets.size > 0) {
+      commitFeatures(applyToList(featuresRef.current, featureTargets));
+      featureTargets.forEach((target, id) => {
+        operations.push(target ? storage.saveFeature(target) : storage.deleteFeature(id));
+      });
+    }
+
+    persist(Promise.all(operations).then(() => undefined));
+  }, [commitPOIs, commitFeatures, persist, storage, channel]);
+
+  // Undo/redo history - commands live in a ref, a summary is mirrored into state for rendering
+  const historyRef = useRef<{ commands: HistoryCommand[]; index: number }>({ commands: [], index: 0 });
+  const [history, setHistory] = useState<{ entries: HistoryEntry[]; index: number }>({ entries: [], index: 0 });
+
+  const syncHistory = useCallback(() => {
+    const { commands, index } = historyRef.current;
+    setHistory({
+      entries: commands.map(({ id, label, timestamp, changes }) => ({
+        id,
+        label,
+        timestamp,
+        affectedIds: [...(changes.pois || []), ...(changes.features || [])].map(change => change.id)
+      })),
+      index
+    });
   }, []);
 
+  // Run a command and record it as a single undoable step
+  const execute = useCallback((label: string, changes: ChangeSet) => {
+    if (!changes.pois?.length && !changes.features?.length) return;
+    applyChanges(changes, 'forward');
+
+    const { commands, index } = historyRef.current;
+    const command: HistoryCommand = {
+      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      label,
+      timestamp: new Date().toISOString(),
+      changes
+    };
+    // A new command discards anything that was undone
+    const kept = [...commands.slice(0, index), command].slice(-MAX_HISTORY);
+    historyRef.current = { commands: kept, index: kept.length };
+    syncHistory();
+  }, [applyChanges, syncHistory]);
+
+  const undo = useCallback(() => {
+    const { commands, index } = historyRef.current;
+    if (index === 0) return false;
+
+    applyChanges(commands[index - 1].changes, 'backward');
+    historyRef.current = { commands, index: index - 1 };
+    syncHistory();
+    return true;
+  }, [applyChanges, syncHistory]);
+
+  const redo = useCallback(() => {
+    const { commands, index } = historyRef.current;
+    if (index >= commands.length) return false;
+
+    applyChanges(commands[index].changes, 'forward');
+    historyRef.current = { commands, index: index + 1 };
+    syncHistory();
+    return true;
+  }, [applyChanges, syncHistory]);
+
+  // Undo or redo until the history position matches `target`
+  const jumpToHistory = useCallback((target: number) => {
+    while (historyRef.current.index > target && undo());
+    while (historyRef.current.index < target && redo());
+  }, [undo, redo]);
+
+  // Apply a moderation decision outside the undo history, so the editor can't roll back the audit trail.
+  // Earlier steps touching the same POIs are dropped too, since replaying them would overwrite the decision
+  const moderate = useCallback((changes: RecordChange<POI>[]) => {
+    applyChanges({ pois: changes }, 'forward');
+
+    const moderatedIds = new Set(changes.map(change => change.id));
+    const { commands, index } = historyRef.current;
+    const isUnaffected = (command: HistoryCommand) => !(command.changes.pois || []).some(change => moderatedIds.has(change.id));
+    if (commands.every(isUnaffected)) return;
+
+    historyRef.current = {
+      commands: commands.filter(isUnaffected),
+      index: commands.slice(0, index).filter(isUnaffected).length
+    };
+    syncHistory();
+  }, [applyChanges, syncHistory]);
+
   // Add a new POI
   const addPOI = useCallback((poiData: Omit<POI, 'id'>) => {
     const id = `poi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const newPOI: POI = {
-      ...poiData,
-      id
-    };
+    // New markers wait for a moderator before they count as published
+    const newPOI: POI = submitForReview(stampCreated({ ...poiData, id }, user), user);
     
-    setPOIs(prevPOIs => [...prevPOIs, newPOI]);
+    execute(`Add "${newPOI.title}"`, { pois: [{ id, after: newPOI }] });
     return id;
-  }, []);
+  }, [execute, user]);
 
   // Update an existing POI
   const updatePOI = useCallback((id: string, updates: Partial<POI>) => {
-    let updated = false;
+    const existing = poisRef.current.find(poi => poi.id === id);
+    if (!existing) return false;
     
-    setPOIs(prevPOIs => {
-      const index = prevPOIs.findIndex(poi => poi.id === id);
-      if (index === -1) return prevPOIs;
-      
-      updated = true;
-      const updatedPOIs = [...prevPOIs];
-      updatedPOIs[index] = { ...updatedPOIs[index], ...updates };
-      return updatedPOIs;
-    });
+    const updatedPOI = stampUpdated({ ...existing, ...updates, id }, user);
+    const isMove = Object.keys(updates).every(key => key === 'lat' || key === 'lng');
     
-    return updated;
-  }, []);
+    execute(`${isMove ? 'Move' : 'Edit'} "${updatedPOI.title}"`, { pois: [{ id, before: existing, after: updatedPOI }] });
+    return true;
+  }, [execute, user]);
 
   // Remove a POI
   const removePOI = useCallback((id: string) => {
-    let removed = false;
+    const existing = poisRef.current.find(poi => poi.id === id);
+    if (!existing) return false;
     
-    setPOIs(prevPOIs => {
-      const index = prevPOIs.findIndex(poi => poi.id === id);
-      if (index === -1) return prevPOIs;
-      
-      removed = true;
-      const updatedPOIs = [...prevPOIs];
-      updatedPOIs.splice(index, 1);
-      return updatedPOIs;
+    execute(`Delete "${existing.title}"`, { pois: [{ id, before: existing }] });
+    return true;
+  }, [execute]);
+
+  // Put back a POI that was deleted, as it was before the delete
+  const restorePOI = useCallback((poi: POI) => {
+    if (poisRef.current.some(existing => existing.id === poi.id)) return false;
+
+    execute(`Restore "${poi.title}"`, { pois: [{ id: poi.id, after: poi }] });
+    return true;
+  }, [execute]);
+
+  // Publish a pending POI
+  const approvePOI = useCallback((id: string) => {
+    const existing = poisRef.current.find(poi => poi.id === id);
+    if (!existing) return false;
+
+    moderate([{ id, before: existing, after: approve(existing, user) }]);
+    return true;
+  }, [moderate, user]);
+
+  // Hide a POI from the map, keeping it and the reason for review history
+  const rejectPOI = useCallback((id: string, reason: string) => {
+    const existing = poisRef.current.find(poi => poi.id === id);
+    if (!existing) return false;
+
+    moderate([{ id, before: existing, after: reject(existing, user, reason) }]);
+    return true;
+  }, [moderate, user]);
+
+  // Fold a duplicate POI into the one it repeats
+  const mergePOI = useCallback((duplicateId: string, targetId: string) => {
+    const duplicate = poisRef.current.find(poi => poi.id === duplicateId);
+    const target = poisRef.current.find(poi => poi.id === targetId);
+    if (!duplicate || !target || duplicateId === targetId) return false;
+
+    const merged = mergeDuplicate(duplicate, target, user, combinePOIs);
+    moderate([
+      { id: duplicateId, before: duplicate, after: merged.duplicate },
+      { id: targetId, before: target, after: merged.target }
+    ]);
+    return true;
+  }, [moderate, user]);
+
+  // Insert or replace a batch of POIs and features, keeping their ids - recorded as a single undo step
+  const importPOIs = useCallback((imported: POI[], importedFeatures: MapFeature[] = []) => {
+    // Later records win when the batch repeats an id
+    const toChanges = <T extends { id: string }>(records: T[], existing: T[]): RecordChange<T>[] => {
+      const existingById = new Map(existing.map(record => [record.id, record]));
+      return Array.from(new Map(records.map(record => [record.id, record])).values())
+        .map(record => ({ id: record.id, before: existingById.get(record.id), after: record }));
+    };
+    const poiChanges = toChanges(imported, poisRef.current);
+    const featureChanges = toChanges(importedFeatures, featuresRef.current);
+
+    const parts = [
+      poiChanges.length > 0 || featureChanges.length === 0 ? `${poiChanges.length} POI${poiChanges.length === 1 ? '' : 's'}` : '',
+      featureChanges.length > 0 ? `${featureChanges.length} feature${featureChanges.length === 1 ? '' : 's'}` : ''
+    ].filter(Boolean);
+
+    execute(`Import ${parts.join(' and ')}`, { pois: poiChanges, features: featureChanges });
+    return poiChanges.length + featureChanges.length;
+  }, [execute]);
+
+  // Add a new map feature
+  const addFeature = useCallback((featureData: Omit<MapFeature, 'id'>) => {
+    const id = generateFeatureId();
+    const newFeature: MapFeature = stampCreated({ ...featureData, id }, user);
+
+    execute(`Draw "${newFeature.title}"`, { features: [{ id, after: newFeature }] });
+    return id;
+  }, [execute, user]);
+
+  // Update an existing map feature
+  const updateFeature = useCallback((id: string, updates: Partial<MapFeature>) => {
+    const existing = featuresRef.current.find(feature => feature.id === id);
+    if (!existing) return false;
+
+    const updatedFeature = stampUpdated({ ...existing, ...updates, id }, user);
+    const isReshape = Object.keys(updates).every(key => key === 'points' || key === 'radiusKm');
+
+    execute(`${isReshape ? 'Reshape' : 'Edit'} "${updatedFeature.title}"`, {
+      features: [{ id, before: existing, after: updatedFeature }]
     });
-    
-    return removed;
-  }, []);
+    return true;
+  }, [execute, user]);
+
+  // Remove a map feature
+  const removeFeature = useCallback((id: string) => {
+    const existing = featuresRef.current.find(feature => feature.id === id);
+    if (!existing) return false;
+
+    execute(`Delete "${existing.title}"`, { features: [{ id, before: existing }] });
+    return true;
+  }, [execute]);
+
+  // Post a check-in at a safe zone - not part of the undo history
+  const checkIn = useCallback((poiId: string, status: CheckInStatus, author: string, note?: string) => {
+    const newCheckIn: CheckIn = {
+      id: generateCheckInId(),
+      poiId,
+      status,
+      author,
+      checkedInAt: new Date().toISOString()
+    };
+    if (note?.trim()) newCheckIn.note = note.trim();
+
+    commitCheckIns([...checkInsRef.current, newCheckIn]);
+    setCheckInClock(Date.now());
+    persist(storage.saveCheckIn(newCheckIn));
+    return newCheckIn.id;
+  }, [commitCheckIns, persist, storage]);
+
+  // Withdraw a check-in
+  const removeCheckIn = useCallback((id: string) => {
+    if (!checkInsRef.current.some(checkIn => checkIn.id === id)) return false;
+
+    commitCheckIns(checkInsRef.current.filter(checkIn => checkIn.id !== id));
+    persist(storage.deleteCheckIn(id));
+    return true;
+  }, [commitCheckIns, persist, storage]);
+
+  // Get a map feature by ID
+  const getFeatureById = useCallback((id: string) => {
+    return features.find(feature => feature.id === id);
+  }, [features]);
 
   // Get POIs by type
   const getPOIsByType = useCallback((type: POI['type']) => {
@@ -108,6 +646,12 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return pois.find(poi => poi.id === id);
   }, [pois]);
 
+  // Get a faction by ID
+  const getFactionById = useCallback((id?: string) => {
+    if (!id) return undefined;
+    return factions.find(faction => faction.id === id);
+  }, [factions]);
+
   // Convert POI to direction vector
   const getDirectionVector = useCallback((poi: POI, radius: number = 1) => {
     // Convert lat/lng to normalized vector
@@ -116,13 +660,45 @@ export const POIProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const contextValue: POIContextType = {
     pois,
+    features,
+    factions,
     isLoading,
     error,
+    validationErrors,
+    version,
+    lastUpdated,
+    storageName: storage.name,
     addPOI,
     updatePOI,
     removePOI,
+    restorePOI,
+    approvePOI,
+    rejectPOI,
+    mergePOI,
+    importPOIs,
+    addFeature,
+    updateFeature,
+    removeFeature,
+    getFeatureById,
+    checkIns,
+    checkInSummaries,
+    checkIn,
+    removeCheckIn,
+    syncState,
+    pendingSyncIds,
+    syncNow,
+    resolveSyncConflict,
+    dismissSyncRejection,
+    history: history.entries,
+    historyIndex: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length,
+    undo,
+    redo,
+    jumpToHistory,
     getPOIsByType,
     getPOIById,
+    getFactionById,
     getDirectionVector
   };
 
@@ -0,0 +1,242 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ConflictReport } from '../types';
+import { ReportStorageAdapter, createDefaultReportStorage } from '../storage';
+import { stampCreated, stampUpdated } from '../auth';
+import { approve, combineReports, mergeDuplicate, reject, submitForReview } from '../utils/moderation';
+import { applyLiveChange } from '../realtime';
+import { useAuth } from './AuthContext';
+import { useLive } from './LiveContext';
+
+interface ReportContextType {
+  reports: ConflictReport[];
+  isLoading: boolean;
+  error: string | null;
+  addReport: (report: Omit<ConflictReport, 'id'>) => string;
+  updateReport: (id: string, updates: Partial<ConflictReport>) => boolean;
+  removeReport: (id: string) => boolean;
+  approveReport: (id: string) => boolean;
+  rejectReport: (id: string, reason: string) => boolean;
+  mergeReport: (duplicateId: string, targetId: string) => boolean; // Rejects the duplicate, pooling its sources into the target
+  moveReports: (fromPoiId: string, toPoiId: string) => number; // Re-attach a POI's reports, e.g. after merging it
+  getReportById: (id: string) => ConflictReport | undefined;
+  getReportsForPOI: (poiId: string) => ConflictReport[];
+}
+
+const ReportContext = createContext<ReportContextType | undefined>(undefined);
+
+// Newest reports first
+const byReportedAtDesc = (a: ConflictReport, b: ConflictReport) =>
+  new Date(b.reportedAt).getTime() - new Date(a.reportedAt).getTime();
+
+interface ReportProviderProps {
+  children: React.ReactNode;
+  storage?: ReportStorageAdapter; // Defaults to localStorage, or the API server when REACT_APP_POI_API_URL is set
+}
+
+export const ReportProvider: React.FC<ReportProviderProps> = ({ children, storage: storageProp }) => {
+  const [reports, setReports] = useState<ConflictReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // New and edited reports are stamped with the signed-in user
+  const { user } = useAuth();
+  // Changes are shared with other open maps, and theirs applied here
+  const { channel } = useLive();
+
+  const storage = useMemo(() => storageProp || createDefaultReportStorage(), [storageProp]);
+
+  // Mirror of the current reports so mutations can return synchronously
+  const reportsRef = useRef<ConflictReport[]>([]);
+
+  const commitReports = useCallback((next: ConflictReport[]) => {
+    reportsRef.current = next;
+    setReports(next);
+  }, []);
+
+  const persist = useCallback((operation: Promise<void>) => {
+    operation.catch(err => {
+      console.error('Error saving reports:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error saving reports');
+    });
+  }, []);
+
+  // Load stored reports
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReports = async () => {
+      try {
+        setIsLoading(true);
+        const stored = await storage.load();
+        if (cancelled) return;
+
+        commitReports(stored);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading reports:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error loading reports');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadReports();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, commitReports]);
+
+  // Apply report changes from other clients - they are already saved, so nothing is persisted
+  useEffect(() => {
+    if (isLoading) return;
+    let cancelled = false;
+
+    const unsubscribe = channel.subscribe({
+      onEvent: event => {
+        if (event.type === 'report:upsert') commitReports(applyLiveChange(reportsRef.current, event.report.id, event.report));
+        else if (event.type === 'report:delete') commitReports(applyLiveChange(reportsRef.current, event.id));
+      },
+      // Events were missed while disconnected, so reload from storage
+      onResync: () => {
+        storage.load()
+          .then(stored => {
+            if (!cancelled) commitReports(stored);
+          })
+          .catch(err => console.error('Error resyncing reports:', err));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isLoading, channel, storage, commitReports]);
+
+  // Save a report and tell other clients about it
+  const saveReport = useCallback((report: ConflictReport) => {
+    persist(storage.saveReport(report));
+    channel.publish({ type: 'report:upsert', report });
+  }, [persist, storage, channel]);
+
+  // Add a new report
+  const addReport = useCallback((reportData: Omit<ConflictReport, 'id'>) => {
+    const id = `report-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // New reports wait for a moderator before they count as published
+    const newReport: ConflictReport = submitForReview(stampCreated({ ...reportData, id }, user), user);
+
+    commitReports([...reportsRef.current, newReport]);
+    saveReport(newReport);
+    return id;
+  }, [commitReports, saveReport, user]);
+
+  // Update an existing report
+  const updateReport = useCallback((id: string, updates: Partial<ConflictReport>) => {
+    const index = reportsRef.current.findIndex(report => report.id === id);
+    if (index === -1) return false;
+
+    const updatedReport = stampUpdated({ ...reportsRef.current[index], ...updates, id }, user);
+    const updatedReports = [...reportsRef.current];
+    updatedReports[index] = updatedReport;
+
+    commitReports(updatedReports);
+    saveReport(updatedReport);
+    return true;
+  }, [commitReports, saveReport, user]);
+
+  // Remove a report
+  const removeReport = useCallback((id: string) => {
+    if (!reportsRef.current.some(report => report.id === id)) return false;
+
+    commitReports(reportsRef.current.filter(report => report.id !== id));
+    persist(storage.deleteReport(id));
+    channel.publish({ type: 'report:delete', id });
+    return true;
+  }, [commitReports, persist, storage, channel]);
+
+  // Replace reports in place and save them
+  const replaceReports = useCallback((replacements: ConflictReport[]) => {
+    const byId = new Map(replacements.map(report => [report.id, report]));
+    commitReports(reportsRef.current.map(report => byId.get(report.id) || report));
+    replacements.forEach(saveReport);
+  }, [commitReports, saveReport]);
+
+  // Publish a pending report
+  const approveReport = useCallback((id: string) => {
+    const existing = reportsRef.current.find(report => report.id === id);
+    if (!existing) return false;
+
+    replaceReports([approve(existing, user)]);
+    return true;
+  }, [replaceReports, user]);
+
+  // Hide a report, keeping it and the reason for review history
+  const rejectReport = useCallback((id: string, reason: string) => {
+    const existing = reportsRef.current.find(report => report.id === id);
+    if (!existing) return false;
+
+    replaceReports([reject(existing, user, reason)]);
+    return true;
+  }, [replaceReports, user]);
+
+  // Fold a duplicate report into the one it repeats
+  const mergeReport = useCallback((duplicateId: string, targetId: string) => {
+    const duplicate = reportsRef.current.find(report => report.id === duplicateId);
+    const target = reportsRef.current.find(report => report.id === targetId);
+    if (!duplicate || !target || duplicateId === targetId) return false;
+
+    const merged = mergeDuplicate(duplicate, target, user, combineReports);
+    replaceReports([merged.duplicate, merged.target]);
+    return true;
+  }, [replaceReports, user]);
+
+  // Re-attach every report on one POI to another
+  const moveReports = useCallback((fromPoiId: string, toPoiId: string) => {
+    const moved = reportsRef.current
+      .filter(report => report.poiId === fromPoiId)
+      .map(report => ({ ...report, poiId: toPoiId }));
+
+    replaceReports(moved);
+    return moved.length;
+  }, [replaceReports]);
+
+  // Get a report by ID
+  const getReportById = useCallback((id: string) => {
+    return reports.find(report => report.id === id);
+  }, [reports]);
+
+  // Get all reports attached to a POI, newest first
+  const getReportsForPOI = useCallback((poiId: string) => {
+    return reports.filter(report => report.poiId === poiId).sort(byReportedAtDesc);
+  }, [reports]);
+
+  const contextValue: ReportContextType = {
+    reports,
+    isLoading,
+    error,
+    addReport,
+    updateReport,
+    removeReport,
+    approveReport,
+    rejectReport,
+    mergeReport,
+    moveReports,
+    getReportById,
+    getReportsForPOI
+  };
+
+  return (
+    <ReportContext.Provider value={contextValue}>
+      {children}
+    </ReportContext.Provider>
+  );
+};
+
+// Custom hook to use the report context
+export const useReports = () => {
+  const context = useContext(ReportContext);
+  if (context === undefined) {
+    throw new Error('useReports must be used within a ReportProvider');
+  }
+  return context;
+};
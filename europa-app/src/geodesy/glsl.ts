@@ -0,0 +1,31 @@
+/**
+ * GLSL counterpart of the geodesy module - include it at the top of a shader with
+ * `${GEODESY_GLSL}`. Uses the same axis convention as latLongToVector3.
+ */
+export const GEODESY_GLSL = /* glsl */`
+  #ifndef GEODESY_GLSL
+  #define GEODESY_GLSL
+  
+  // Unit direction to (latitude, longitude) in degrees
+  vec2 directionToLatLong(vec3 direction) {
+    vec3 n = normalize(direction);
+    float lat = asin(clamp(n.y, -1.0, 1.0));
+    float lng = atan(n.z, n.x);
+    return degrees(vec2(lat, lng));
+  }
+  
+  // (latitude, longitude) in degrees to a unit direction
+  vec3 latLongToDirection(vec2 latLong) {
+    vec2 r = radians(latLong);
+    return vec3(cos(r.x) * cos(r.y), sin(r.x), cos(r.x) * sin(r.y));
+  }
+  
+  // Unit direction to equirectangular map coordinates:
+  // u runs west to east from -180°, v runs south to north from -90°
+  vec2 directionToEquirectUv(vec3 direction) {
+    vec2 latLong = directionToLatLong(direction);
+    return vec2(latLong.y / 360.0 + 0.5, latLong.x / 180.0 + 0.5);
+  }
+  
+  #endif
+`;
@@ -0,0 +1,204 @@
+import fc from 'fast-check';
+import * as THREE from 'three';
+import {
+  EUROPA_RADIUS_KM,
+  destinationPoint,
+  distanceKm,
+  greatCirclePath,
+  initialBearing,
+  latLongToVector3,
+  midpoint,
+  normalizeLongitude,
+  pathLengthKm,
+  sphericalPolygonAreaKm2,
+  sphericalPolygonContains,
+  vectorToLatLong
+} from '.';
+
+// Keep away from the poles, where longitude is indeterminate
+const latArb = fc.double({ min: -89.9, max: 89.9, noNaN: true });
+const lngArb = fc.double({ min: -180, max: 180, noNaN: true });
+const pointArb = fc.record({ lat: latArb, lng: lngArb });
+const radiusArb = fc.double({ min: 0.01, max: 1e4, noNaN: true });
+
+// Angular difference between two longitudes, accounting for the antimeridian
+const lngDelta = (a: number, b: number) => Math.abs(normalizeLongitude(a - b));
+
+describe('lat/long conversion', () => {
+  it('round-trips lat/long through a vector', () => {
+    fc.assert(fc.property(latArb, lngArb, radiusArb, (lat, lng, radius) => {
+      const result = vectorToLatLong(latLongToVector3(lat, lng, radius), radius);
+      expect(result.lat).toBeCloseTo(lat, 9);
+      expect(lngDelta(result.long, lng)).toBeLessThan(1e-9);
+    }));
+  });
+
+  it('round-trips a vector through lat/long', () => {
+    const component = fc.double({ min: -10, max: 10, noNaN: true });
+    fc.assert(fc.property(component, component, component, (x, y, z) => {
+      const vector = new THREE.Vector3(x, y, z);
+      fc.pre(vector.length() > 1e-6);
+
+      const { lat, long } = vectorToLatLong(vector);
+      const restored = latLongToVector3(lat, long, vector.length());
+      expect(restored.distanceTo(vector)).toBeLessThan(1e-9 * Math.max(1, vector.length()));
+    }));
+  });
+
+  it('places the reference points on the documented axes', () => {
+    expect(latLongToVector3(0, 0, 1).distanceTo(new THREE.Vector3(1, 0, 0))).toBeLessThan(1e-12);
+    expect(latLongToVector3(0, 90, 1).distanceTo(new THREE.Vector3(0, 0, 1))).toBeLessThan(1e-12);
+    expect(latLongToVector3(90, 0, 1).distanceTo(new THREE.Vector3(0, 1, 0))).toBeLessThan(1e-12);
+    expect(vectorToLatLong(new THREE.Vector3(0, -2, 0))).toEqual({ lat: -90, long: 0 });
+  });
+
+  it('keeps normalised longitudes in range', () => {
+    fc.assert(fc.property(fc.double({ min: -1e4, max: 1e4, noNaN: true }), lng => {
+      const normalized = normalizeLongitude(lng);
+      expect(normalized).toBeGreaterThanOrEqual(-180);
+      expect(normalized).toBeLessThanOrEqual(180);
+      expect(lngDelta(normalized, lng)).toBeLessThan(1e-9);
+    }));
+  });
+});
+
+describe('great-circle functions', () => {
+  it('measures a quarter meridian as a quarter circumference', () => {
+    expect(distanceKm({ lat: 0, lng: 0 }, { lat: 90, lng: 0 })).toBeCloseTo((Math.PI / 2) * EUROPA_RADIUS_KM, 6);
+  });
+
+  it('agrees with the chord length between scene positions', () => {
+    fc.assert(fc.property(pointArb, pointArb, (a, b) => {
+      const chord = latLongToVector3(a.lat, a.lng, 1).distanceTo(latLongToVector3(b.lat, b.lng, 1));
+      // asin is ill-conditioned near antipodes, so the reference is only trusted away from them
+      fc.pre(chord < 1.999);
+      const expected = 2 * Math.asin(Math.min(1, chord / 2)) * EUROPA_RADIUS_KM;
+      expect(Math.abs(distanceKm(a, b) - expected)).toBeLessThan(1e-6);
+    }));
+  });
+
+  it('is symmetric and satisfies the triangle inequality', () => {
+    fc.assert(fc.property(pointArb, pointArb, pointArb, (a, b, c) => {
+      expect(distanceKm(a, b)).toBeCloseTo(distanceKm(b, a), 6);
+      expect(distanceKm(a, c)).toBeLessThanOrEqual(distanceKm(a, b) + distanceKm(b, c) + 1e-6);
+    }));
+  });
+
+  it('reaches the target when travelling along the initial bearing', () => {
+    fc.assert(fc.property(pointArb, pointArb, (a, b) => {
+      const distance = distanceKm(a, b);
+      // Bearings are ill-conditioned for coincident and antipodal points
+      fc.pre(distance > 1 && distance < Math.PI * EUROPA_RADIUS_KM - 1);
+
+      const reached = destinationPoint(a, initialBearing(a, b), distance);
+      expect(distanceKm(reached, b)).toBeLessThan(1e-3);
+    }));
+  });
+
+  it('travels the requested distance', () => {
+    const bearingArb = fc.double({ min: 0, max: 360, noNaN: true });
+    const distanceArb = fc.double({ min: 0, max: 3000, noNaN: true });
+    fc.assert(fc.property(pointArb, bearingArb, distanceArb, (start, bearing, distance) => {
+      expect(distanceKm(start, destinationPoint(start, bearing, distance))).toBeCloseTo(distance, 3);
+    }));
+  });
+
+  it('measures bearings clockwise from north', () => {
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: 10, lng: 0 })).toBeCloseTo(0, 9);
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: 0, lng: 10 })).toBeCloseTo(90, 9);
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: -10, lng: 0 })).toBeCloseTo(180, 9);
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: 0, lng: -10 })).toBeCloseTo(270, 9);
+  });
+
+  it('puts the midpoint halfway along the arc', () => {
+    fc.assert(fc.property(pointArb, pointArb, (a, b) => {
+      const distance = distanceKm(a, b);
+      fc.pre(distance < Math.PI * EUROPA_RADIUS_KM - 1);
+
+      const mid = midpoint(a, b);
+      expect(distanceKm(a, mid)).toBeCloseTo(distance / 2, 3);
+      expect(distanceKm(mid, b)).toBeCloseTo(distance / 2, 3);
+    }));
+  });
+});
+
+describe('paths and areas', () => {
+  it('densifies a path without changing its length', () => {
+    fc.assert(fc.property(fc.array(pointArb, { minLength: 2, maxLength: 6 }), fc.boolean(), (points, closed) => {
+      // Antipodal segments have no unique great circle
+      fc.pre(points.every((p, i) => i === 0 || distanceKm(points[i - 1], p) < Math.PI * EUROPA_RADIUS_KM - 1));
+      fc.pre(!closed || distanceKm(points[points.length - 1], points[0]) < Math.PI * EUROPA_RADIUS_KM - 1);
+
+      const path = greatCirclePath(points, closed, 1);
+      expect(pathLengthKm(path)).toBeCloseTo(pathLengthKm(points, closed), 3);
+      path.slice(1).forEach((p, i) => expect(distanceKm(path[i], p)).toBeLessThan((Math.PI / 180) * EUROPA_RADIUS_KM + 1e-6));
+    }));
+  });
+
+  it('measures an octant as an eighth of the sphere', () => {
+    const octant = [{ lat: 0, lng: 0 }, { lat: 0, lng: 90 }, { lat: 90, lng: 0 }];
+    expect(sphericalPolygonAreaKm2(octant)).toBeCloseTo((4 * Math.PI * EUROPA_RADIUS_KM ** 2) / 8, 3);
+    expect(sphericalPolygonAreaKm2([...octant].reverse())).toBeCloseTo((4 * Math.PI * EUROPA_RADIUS_KM ** 2) / 8, 3);
+  });
+
+  it('approaches the area of a spherical cap', () => {
+    fc.assert(fc.property(pointArb, fc.double({ min: 50, max: 2000, noNaN: true }), (centre, capRadius) => {
+      const ring = Array.from({ length: 720 }, (_, i) => destinationPoint(centre, i / 2, capRadius));
+      const capArea = 2 * Math.PI * EUROPA_RADIUS_KM ** 2 * (1 - Math.cos(capRadius / EUROPA_RADIUS_KM));
+      expect(Math.abs(sphericalPolygonAreaKm2(ring) - capArea) / capArea).toBeLessThan(1e-3);
+    }), { numRuns: 30 });
+  });
+});
+
+describe('sphericalPolygonContains', () => {
+  const square = [{ lat: -10, lng: 170 }, { lat: -10, lng: -170 }, { lat: 10, lng: -170 }, { lat: 10, lng: 170 }];
+
+  it('tests points against a ring straddling the antimeridian', () => {
+    expect(sphericalPolygonContains(square, { lat: 0, lng: 180 })).toBe(true);
+    expect(sphericalPolygonContains(square, { lat: 5, lng: -175 })).toBe(true);
+    expect(sphericalPolygonContains(square, { lat: 0, lng: 160 })).toBe(false);
+    // The far side of the sphere is outside, even though it projects through the ring
+    expect(sphericalPolygonContains(square, { lat: 0, lng: 0 })).toBe(false);
+  });
+
+  it('follows great-circle edges rather than lines of latitude', () => {
+    // The edge between two points on the 60th parallel bulges towards the pole
+    const ring = [{ lat: 60, lng: -40 }, { lat: 60, lng: 40 }, { lat: 0, lng: 0 }];
+    expect(sphericalPolygonContains(ring, { lat: 62, lng: 0 })).toBe(true);
+    expect(sphericalPolygonContains(ring, { lat: 70, lng: 0 })).toBe(false);
+  });
+
+  it('contains the points of a cap drawn inside it', () => {
+    fc.assert(fc.property(pointArb, fc.double({ min: 50, max: 1500, noNaN: true }), (centre, capRadius) => {
+      const ring = Array.from({ length: 36 }, (_, i) => destinationPoint(centre, i * 10, capRadius));
+      expect(sphericalPolygonContains(ring, centre)).toBe(true);
+      expect(sphericalPolygonContains(ring, destinationPoint(centre, 45, capRadius * 0.9))).toBe(true);
+      expect(sphericalPolygonContains(ring, destinationPoint(centre, 45, capRadius * 1.1))).toBe(false);
+    }), { numRuns: 50 });
+  });
+
+  it('takes the left side of a ring balanced around the sphere as its interior', () => {
+    // Heading east along the equator, zigzagging so the vertices still sum to nothing
+    const zigzag = [0, 60, 120, 180, -120, -60].map((lng, i) => ({ lat: i % 2 === 0 ? 10 : -10, lng }));
+    [{ lat: 80, lng: 0 }, { lat: 30, lng: 150 }, { lat: 90, lng: 0 }].forEach(point => {
+      expect(sphericalPolygonContains(zigzag, point)).toBe(true);
+      expect(sphericalPolygonContains([...zigzag].reverse(), point)).toBe(false);
+    });
+    [{ lat: -80, lng: 0 }, { lat: -30, lng: -30 }, { lat: -90, lng: 0 }].forEach(point => {
+      expect(sphericalPolygonContains(zigzag, point)).toBe(false);
+      expect(sphericalPolygonContains([...zigzag].reverse(), point)).toBe(true);
+    });
+  });
+
+  it('uses the winding for rings reaching past the hemisphere around their mean', () => {
+    // Heading east around the equator with a dip to the south, which leaves one vertex on the mean's horizon
+    const ring = [{ lat: 0, lng: 0 }, { lat: 0, lng: 90 }, { lat: 0, lng: 180 }, { lat: -5, lng: -90 }];
+    expect(sphericalPolygonContains(ring, { lat: 45, lng: 45 })).toBe(true);
+    expect(sphericalPolygonContains(ring, { lat: -45, lng: 45 })).toBe(false);
+    expect(sphericalPolygonContains([...ring].reverse(), { lat: -45, lng: 45 })).toBe(true);
+  });
+
+  it('contains nothing when the ring has fewer than three vertices', () => {
+    expect(sphericalPolygonContains(square.slice(0, 2), { lat: 0, lng: 180 })).toBe(false);
+  });
+});
@@ -0,0 +1,332 @@
+import * as THREE from 'three';
+
+/*
+ * Geodesy for Europa - the single source of truth for converting between
+ * latitude/longitude and scene coordinates, plus great-circle calculations.
+ *
+ * Coordinate convention (shared with the GLSL in ./glsl.ts):
+ * - Latitude: -90° (South Pole) to 90° (North Pole)
+ * - Longitude: -180° to 180°, 0° at the prime meridian, increasing eastward
+ * - Y-axis points to the North Pole
+ * - (0°, 0°) lies on +X, (0°, 90°E) lies on +Z
+ *
+ *   x = r · cos(lat) · cos(lng)
+ *   y = r · sin(lat)
+ *   z = r · cos(lat) · sin(lng)
+ */
+
+// Mean radius of Europa in kilometres
+export const EUROPA_RADIUS_KM = 1560.8;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Wrap a longitude into the -180..180 range (e.g. 220 -> -140, -271 -> 89)
+ */
+export const normalizeLongitude = (lng: number): number => {
+  if (lng >= -180 && lng <= 180) return lng;
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+};
+
+/**
+ * Unit direction for a latitude/longitude given in radians
+ */
+export const directionFromRadians = (latRad: number, lngRad: number): Direction => {
+  const cosLat = Math.cos(latRad);
+  return [cosLat * Math.cos(lngRad), Math.sin(latRad), cosLat * Math.sin(lngRad)];
+};
+
+// A unit vector from the centre of the sphere, as [x, y, z]
+export type Direction = [number, number, number];
+
+export const cross = (a: Direction, b: Direction): Direction =>
+  [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+export const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Angle between two unit directions, in radians.
+ * Uses atan2 of the cross and dot products, which stays accurate for both tiny and
+ * nearly antipodal angles, where acos of the dot product (or haversine) loses precision.
+ */
+export const angleBetweenDirections = (a: Direction, b: Direction): number =>
+  Math.atan2(Math.hypot(...cross(a, b)), dot(a, b));
+
+/**
+ * Convert latitude and longitude (degrees) to a position on a sphere of the given radius
+ */
+export const latLongToVector3 = (lat: number, long: number, radius: number): THREE.Vector3 => {
+  const [x, y, z] = directionFromRadians(toRadians(lat), toRadians(long));
+  return new THREE.Vector3(x * radius, y * radius, z * radius);
+};
+
+/**
+ * Convert a position back to latitude and longitude in degrees.
+ * Only the direction matters, so any non-zero vector works; longitude is 0 at the poles.
+ *
+ * @param position Position relative to the sphere centre
+ * @param _radius Unused, kept so existing call sites read the same
+ */
+export const vectorToLatLong = (position: THREE.Vector3, _radius?: number): { lat: number, long: number } => {
+  const length = position ? position.length() : 0;
+  if (length === 0) {
+    console.error("Cannot convert zero vector or invalid position to lat/long");
+    return { lat: 0, long: 0 };
+  }
+
+  // atan2 keeps full precision near the poles, where asin(y / length) rounds to ±90°
+  const lat = toDegrees(Math.atan2(position.y, Math.hypot(position.x, position.z)));
+
+  // Longitude is indeterminate at the poles
+  const long = Math.abs(Math.abs(lat) - 90) < 1e-10
+    ? 0
+    : toDegrees(Math.atan2(position.z, position.x));
+
+  return { lat, long };
+};
+
+/**
+ * Central angle between two points, in radians
+ */
+export const centralAngle = (a: LatLng, b: LatLng): number =>
+  angleBetweenDirections(
+    directionFromRadians(toRadians(a.lat), toRadians(a.lng)),
+    directionFromRadians(toRadians(b.lat), toRadians(b.lng))
+  );
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export const distanceKm = (a: LatLng, b: LatLng, radius: number = EUROPA_RADIUS_KM): number =>
+  centralAngle(a, b) * radius;
+
+/**
+ * Initial bearing from `from` towards `to`, in degrees clockwise from north (0..360)
+ */
+export const initialBearing = (from: LatLng, to: LatLng): number => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+/**
+ * Point reached by travelling `distance` kilometres from `start` along a great circle
+ * with the given initial bearing (degrees clockwise from north)
+ */
+export const destinationPoint = (
+  start: LatLng,
+  bearing: number,
+  distance: number,
+  radius: number = EUROPA_RADIUS_KM
+): LatLng => {
+  const angle = distance / radius;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(start.lat);
+  const lng1 = toRadians(start.lng);
+
+  const sinLat2 = Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta);
+  const lat2 = Math.asin(Math.max(-1, Math.min(1, sinLat2)));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * sinLat2
+  );
+
+  return { lat: toDegrees(lat2), lng: normalizeLongitude(toDegrees(lng2)) };
+};
+
+/**
+ * Midpoint of the great-circle arc between two points
+ */
+export const midpoint = (a: LatLng, b: LatLng): LatLng => {
+  const [ax, ay, az] = directionFromRadians(toRadians(a.lat), toRadians(a.lng));
+  const [bx, by, bz] = directionFromRadians(toRadians(b.lat), toRadians(b.lng));
+  const { lat, long } = vectorToLatLong(new THREE.Vector3(ax + bx, ay + by, az + bz));
+  return { lat, lng: long };
+};
+
+/**
+ * Point a given fraction of the way along the great-circle arc from `a` to `b`
+ */
+export const interpolateGreatCircle = (a: LatLng, b: LatLng, fraction: number): LatLng => {
+  const angle = centralAngle(a, b);
+  if (angle < 1e-12) return { ...a };
+
+  const [ax, ay, az] = directionFromRadians(toRadians(a.lat), toRadians(a.lng));
+  const [bx, by, bz] = directionFromRadians(toRadians(b.lat), toRadians(b.lng));
+  const wa = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const wb = Math.sin(fraction * angle) / Math.sin(angle);
+  const { lat, long } = vectorToLatLong(new THREE.Vector3(wa * ax + wb * bx, wa * ay + wb * by, wa * az + wb * bz));
+  return { lat, lng: long };
+};
+
+/**
+ * Densify a path so each segment follows its great circle, with vertices at most
+ * `maxStepDegrees` of arc apart - for drawing geodesic lines as straight segments
+ */
+export const greatCirclePath = (points: LatLng[], closed: boolean = false, maxStepDegrees: number = 2): LatLng[] => {
+  if (points.length < 2) return points.slice();
+
+  // Like pathLengthKm, only rings of three or more points are closed
+  const vertices = closed && points.length > 2 ? [...points, points[0]] : points;
+  const path: LatLng[] = [vertices[0]];
+  for (let i = 1; i < vertices.length; i++) {
+    const steps = Math.max(1, Math.ceil(toDegrees(centralAngle(vertices[i - 1], vertices[i])) / maxStepDegrees));
+    for (let step = 1; step <= steps; step++) {
+      path.push(interpolateGreatCircle(vertices[i - 1], vertices[i], step / steps));
+    }
+  }
+  return path;
+};
+
+/**
+ * Total great-circle length of a path in kilometres, including the closing segment when `closed`
+ */
+export const pathLengthKm = (points: LatLng[], closed: boolean = false, radius: number = EUROPA_RADIUS_KM): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceKm(points[i - 1], points[i], radius);
+  }
+  if (closed && points.length > 2) {
+    total += distanceKm(points[points.length - 1], points[0], radius);
+  }
+  return total;
+};
+
+/**
+ * Area enclosed by a spherical polygon with great-circle edges, in km².
+ * Vertex order doesn't matter - the smaller of the two regions the ring bounds is returned.
+ */
+export const sphericalPolygonAreaKm2 = (points: LatLng[], radius: number = EUROPA_RADIUS_KM): number => {
+  if (points.length < 3) return 0;
+
+  // Sum the signed areas of the triangles each edge forms with the North Pole
+  let excess = 0;
+  for (let i = 0; i < points.length; i++) {
+    const from = points[i];
+    const to = points[(i + 1) % points.length];
+    const t = Math.tan((Math.PI / 2 - toRadians(from.lat)) / 2) * Math.tan((Math.PI / 2 - toRadians(to.lat)) / 2);
+    const dLng = toRadians(from.lng - to.lng);
+    excess += 2 * Math.atan2(t * Math.sin(dLng), 1 + t * Math.cos(dLng));
+  }
+
+  const sphereArea = 4 * Math.PI * radius * radius;
+  const area = (Math.abs(excess) * radius * radius) % sphereArea;
+  return Math.min(area, sphereArea - area);
+};
+
+// Whether the great-circle arcs a-b and c-d (each shorter than a half circle) cross at an interior point
+const arcsCross = (a: Direction, b: Direction, c: Direction, d: Direction): boolean => {
+  const ab = cross(a, b);
+  const acb = -dot(ab, c);
+  const bda = dot(ab, d);
+  if (acb * bda <= 0) return false;
+  const cd = cross(c, d);
+  return acb * -dot(cd, b) > 0 && acb * dot(cd, a) > 0;
+};
+
+/**
+ * Containment for rings that don't fit in a hemisphere, such as one balanced around the sphere,
+ * where the interior can only come from the winding: it is the side to the left of the ring as
+ * it is walked, seen from above the surface (counter-clockwise on the map). A reference point
+ * just left of the longest edge is inside, so the point is too when the arc between them crosses
+ * the ring an even number of times.
+ */
+const windingContains = (vertices: Direction[], point: Direction): boolean => {
+  let longest = 0;
+  let longestAngle = -1;
+  vertices.forEach((vertex, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    const angle = angleBetweenDirections(vertex, next);
+    if (angle > longestAngle) {
+      longest = i;
+      longestAngle = angle;
+    }
+  });
+  if (!(longestAngle > 1e-12)) return false;
+
+  // With lat/long mapped as in directionFromRadians, b × a points to the left of travel from a to b
+  const a = vertices[longest];
+  const b = vertices[(longest + 1) % vertices.length];
+  const left = cross(b, a);
+  const leftLength = Math.hypot(...left);
+  const midLength = Math.hypot(a[0] + b[0], a[1] + b[1], a[2] + b[2]);
+  if (leftLength < 1e-12 || midLength < 1e-12) return false;
+  const offset = 1e-6 * longestAngle;
+  const reference = [0, 1, 2].map(axis => (a[axis] + b[axis]) / midLength + (left[axis] / leftLength) * offset) as Direction;
+
+  // Arcs must be shorter than a half circle, so route through a midpoint when the point is far away
+  const legs: Array<[Direction, Direction]> = [];
+  if (dot(reference, point) > -0.5) {
+    legs.push([reference, point]);
+  } else {
+    const helper: Direction = Math.abs(reference[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+    const side = cross(reference, helper);
+    const sideLength = Math.hypot(...side);
+    const via = side.map(value => value / sideLength) as Direction;
+    legs.push([reference, via], [via, point]);
+  }
+
+  let crossings = 0;
+  legs.forEach(([from, to]) => {
+    vertices.forEach((vertex, i) => {
+      if (arcsCross(from, to, vertex, vertices[(i + 1) % vertices.length])) crossings++;
+    });
+  });
+  return crossings % 2 === 0;
+};
+
+/**
+ * Whether a point lies inside a spherical polygon with great-circle edges.
+ * Any area drawn on the map fits within the hemisphere centred on its vertices' mean direction;
+ * there the gnomonic projection keeps edges straight, so an even-odd ray cast in that plane gives
+ * the answer, whichever way the ring winds. Rings that don't fit, e.g. one balanced around the
+ * sphere, hold the side to the left of the ring as it is walked (counter-clockwise on the map).
+ */
+export const sphericalPolygonContains = (ring: LatLng[], point: LatLng): boolean => {
+  if (ring.length < 3) return false;
+
+  const vertices = ring.map(vertex => directionFromRadians(toRadians(vertex.lat), toRadians(vertex.lng)));
+  const direction = directionFromRadians(toRadians(point.lat), toRadians(point.lng));
+  const sum = vertices.reduce((total, v) => [total[0] + v[0], total[1] + v[1], total[2] + v[2]], [0, 0, 0]);
+  const length = Math.hypot(sum[0], sum[1], sum[2]);
+  if (length < 1e-12) return windingContains(vertices, direction);
+  const centre = new THREE.Vector3(sum[0], sum[1], sum[2]).divideScalar(length);
+
+  // Tangent-plane axes at the centre
+  const helper = Math.abs(centre.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  const east = new THREE.Vector3().crossVectors(helper, centre).normalize();
+  const north = new THREE.Vector3().crossVectors(centre, east);
+
+  const project = ([x, y, z]: Direction): [number, number] | null => {
+    const v = new THREE.Vector3(x, y, z);
+    const depth = v.dot(centre);
+    return depth > 1e-12 ? [v.dot(east) / depth, v.dot(north) / depth] : null;
+  };
+
+  const projected = vertices.map(project).filter((vertex): vertex is [number, number] => vertex !== null);
+  if (projected.length < vertices.length) return windingContains(vertices, direction);
+  const target = project(direction);
+  if (!target) return false;
+  const [px, py] = target;
+
+  let inside = false;
+  for (let i = 0, j = projected.length - 1; i < projected.length; j = i++) {
+    const [xi, yi] = projected[i];
+    const [xj, yj] = projected[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export { GEODESY_GLSL } from './glsl';
@@ -0,0 +1,129 @@
+import { POI } from '../types';
+
+// Column order used for export; imports accept any order via the header row
+export const CSV_COLUMNS: (keyof POI)[] = [
+  'id',
+  'title',
+  'description',
+  'location',
+  'lat',
+  'lng',
+  'type',
+  'category',
+  'factionId',
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'occurredAt',
+  'icon',
+  'safeZone',
+  'moderationStatus',
+  'moderationLog'
+];
+
+const NUMERIC_COLUMNS = new Set<string>(['lat', 'lng']);
+const BOOLEAN_COLUMNS = new Set<string>(['safeZone']);
+// Structured fields are written as JSON inside a single cell
+const JSON_COLUMNS = new Set<string>(['moderationLog']);
+
+// Quote a value when it contains a delimiter, quote or line break
+const escapeCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convert POIs to CSV with a header row
+ */
+export const toCSV = (pois: POI[]): string => {
+  const rows = pois.map(poi => CSV_COLUMNS.map(column => escapeCell(poi[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Split CSV text into rows of cells, handling quoted fields (RFC 4180)
+ */
+export const parseCSVRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Convert a cell back to its field's type - values that don't parse are kept as text for validation to report
+const parseCell = (column: string, value: string): unknown => {
+  if (NUMERIC_COLUMNS.has(column)) return Number(value);
+  if (BOOLEAN_COLUMNS.has(column)) {
+    const normalized = value.trim().toLowerCase();
+    return normalized === 'true' ? true : normalized === 'false' ? false : value;
+  }
+  if (JSON_COLUMNS.has(column)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+/**
+ * Read raw POI records out of CSV text. Empty cells are omitted.
+ */
+export const fromCSV = (text: string): unknown[] => {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) throw new Error('CSV file is empty');
+
+  const columns = header.map(column => column.trim());
+  if (!columns.includes('lat') || !columns.includes('lng')) {
+    throw new Error('CSV must have lat and lng columns');
+  }
+
+  return rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = cells[index];
+      if (value === undefined || value === '') return;
+      record[column] = parseCell(column, value);
+    });
+    return record;
+  });
+};
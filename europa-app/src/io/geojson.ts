@@ -0,0 +1,148 @@
+import { Faction, FeatureKind, MapFeature, POI, POICollection } from '../types';
+
+// IAU 2015 code for Europa as a sphere with planetocentric, east-positive coordinates
+export const EUROPA_CRS = 'IAU_2015:50200';
+
+type Position = [number, number]; // [lng, lat]
+
+export interface POIFeature {
+  type: 'Feature';
+  id: string;
+  geometry: {
+    type: 'Point';
+    coordinates: Position;
+  };
+  properties: Omit<POI, 'id' | 'lat' | 'lng'>;
+}
+
+// A map feature - circles are written as a Point centre plus a radiusKm property
+export interface ShapeFeature {
+  type: 'Feature';
+  id: string;
+  geometry:
+    | { type: 'Point'; coordinates: Position }
+    | { type: 'LineString'; coordinates: Position[] }
+    | { type: 'Polygon'; coordinates: Position[][] };
+  properties: Omit<MapFeature, 'id' | 'kind' | 'points'> & { featureKind: FeatureKind };
+}
+
+export interface POIFeatureCollection {
+  type: 'FeatureCollection';
+  crs: {
+    type: 'name';
+    properties: { name: string };
+  };
+  features: Array<POIFeature | ShapeFeature>;
+  factions?: Faction[];
+  version?: string;
+  lastUpdated?: string;
+}
+
+const toPosition = ({ lat, lng }: { lat: number; lng: number }): Position => [lng, lat];
+
+const shapeGeometry = (feature: MapFeature): ShapeFeature['geometry'] => {
+  if (feature.kind === 'polygon') {
+    // GeoJSON rings repeat their first position at the end
+    const ring = feature.points.map(toPosition);
+    return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+  }
+  if (feature.kind === 'polyline') {
+    return { type: 'LineString', coordinates: feature.points.map(toPosition) };
+  }
+  return { type: 'Point', coordinates: toPosition(feature.points[0]) };
+};
+
+/**
+ * Convert a POI collection to a GeoJSON FeatureCollection.
+ * POIs become Point features; map features become Polygon, LineString or (for circles) Point features
+ * tagged with a `featureKind` property.
+ */
+export const toGeoJSON = (collection: POICollection): POIFeatureCollection => ({
+  type: 'FeatureCollection',
+  crs: {
+    type: 'name',
+    properties: { name: EUROPA_CRS }
+  },
+  features: [
+    ...collection.pois.map(({ id, lat, lng, ...properties }): POIFeature => ({
+      type: 'Feature',
+      id,
+      geometry: {
+        type: 'Point',
+        coordinates: [lng, lat]
+      },
+      properties
+    })),
+    ...(collection.features || []).map((feature): ShapeFeature => {
+      const { id, kind, points, ...properties } = feature;
+      return {
+        type: 'Feature',
+        id,
+        geometry: shapeGeometry(feature),
+        properties: { ...properties, featureKind: kind }
+      };
+    })
+  ],
+  factions: collection.factions,
+  version: collection.version,
+  lastUpdated: collection.lastUpdated
+});
+
+const fromPositions = (positions: unknown): unknown[] =>
+  Array.isArray(positions)
+    ? positions.map(position => ({ lng: (position as unknown[])?.[0], lat: (position as unknown[])?.[1] }))
+    : [];
+
+/**
+ * Read raw POI and map feature records out of a GeoJSON document.
+ * Polygon and LineString geometries (and Points tagged as circles) become feature records,
+ * other Points become POI records.
+ * Records are returned unvalidated - run them through the import validator.
+ * Factions come from the seed collection, so a document's factions list is only counted.
+ */
+export const fromGeoJSON = (data: unknown): { records: unknown[]; featureRecords: unknown[]; skippedFactions: number } => {
+  const doc = data as Partial<POIFeatureCollection> | null;
+  if (!doc || doc.type !== 'FeatureCollection' || !Array.isArray(doc.features)) {
+    throw new Error('Not a GeoJSON FeatureCollection');
+  }
+
+  const crsName = doc.crs?.properties?.name;
+  if (crsName && crsName !== EUROPA_CRS) {
+    throw new Error(`Unsupported coordinate reference system: ${crsName}`);
+  }
+
+  const records: unknown[] = [];
+  const featureRecords: unknown[] = [];
+
+  doc.features.forEach(feature => {
+    const { featureKind, ...properties } = (feature?.properties || {}) as Record<string, unknown>;
+    const geometry = feature?.geometry;
+    const id = feature?.id ?? properties.id;
+
+    if (geometry?.type === 'Polygon' || geometry?.type === 'LineString') {
+      featureRecords.push({
+        ...properties,
+        id,
+        kind: featureKind ?? (geometry.type === 'Polygon' ? 'polygon' : 'polyline'),
+        // Only the outer ring of a polygon is kept
+        points: fromPositions(geometry.type === 'Polygon' ? geometry.coordinates?.[0] : geometry.coordinates)
+      });
+      return;
+    }
+
+    const coordinates = geometry?.type === 'Point' ? geometry.coordinates : undefined;
+    if (featureKind === 'circle') {
+      featureRecords.push({ ...properties, id, kind: featureKind, points: fromPositions([coordinates]) });
+      return;
+    }
+
+    records.push({
+      ...properties,
+      id,
+      lng: coordinates?.[0],
+      lat: coordinates?.[1]
+    });
+  });
+
+  return { records, featureRecords, skippedFactions: Array.isArray(doc.factions) ? doc.factions.length : 0 };
+};
@@ -0,0 +1,131 @@
+import { MapFeature, ModerationStatus, POI } from '../types';
+import { EUROPA_CRS, findConflicts, parseImport, serializeCollection, ExchangeFormat } from '.';
+
+const pois: POI[] = [
+  {
+    id: 'conamara',
+    title: 'Conamara "Chaos", north rim',
+    description: 'Line one\nline two',
+    location: 'Conamara Chaos (9°N, 146°W)',
+    lat: 9,
+    lng: -146,
+    type: 'poi',
+    category: 'terrain',
+    factionId: 'ridge-compact'
+  },
+  {
+    id: 'pwyll',
+    title: 'Pwyll <Crater> & rim',
+    description: '',
+    lat: -26,
+    lng: 89,
+    type: 'custom'
+  }
+];
+
+const features: MapFeature[] = [
+  {
+    id: 'contested-zone',
+    kind: 'polygon',
+    title: 'Contested <zone>',
+    description: 'Disputed ice shelf',
+    points: [{ lat: 10, lng: 20 }, { lat: 12, lng: 25 }, { lat: 8, lng: 27 }],
+    factionId: 'ridge-compact',
+    color: '#ff0000'
+  },
+  {
+    id: 'supply-route',
+    kind: 'polyline',
+    title: 'Supply route',
+    description: '',
+    points: [{ lat: -5, lng: 170 }, { lat: -6, lng: -175 }]
+  },
+  {
+    id: 'blast',
+    kind: 'circle',
+    title: 'Blast radius',
+    description: '',
+    points: [{ lat: 30, lng: -60 }],
+    radiusKm: 12.5,
+    occurredAt: '2025-04-20T10:00:00.000Z'
+  }
+];
+
+const collection = { pois, features, version: '1.0.0', lastUpdated: '2025-04-21' };
+
+describe('POI import/export', () => {
+  (['geojson', 'kml', 'csv'] as ExchangeFormat[]).forEach(format => {
+    it(`round-trips POIs through ${format}`, () => {
+      const { content, extension } = serializeCollection(collection, format);
+      const result = parseImport(`export.${extension}`, content);
+
+      expect(result.format).toBe(format);
+      expect(result.errors).toEqual([]);
+      expect(result.pois).toEqual(pois);
+    });
+  });
+
+  (['geojson', 'kml'] as ExchangeFormat[]).forEach(format => {
+    it(`round-trips map features through ${format}`, () => {
+      const { content, extension } = serializeCollection(collection, format);
+      expect(parseImport(`export.${extension}`, content).features).toEqual(features);
+    });
+  });
+
+  it('imports polygons from other tools without a feature kind', () => {
+    const kml = `<kml><Placemark><name>Zone</name><Polygon><outerBoundaryIs><LinearRing>
+      <coordinates>0,0,0 10,0,0 10,10,0 0,0,0</coordinates>
+    </LinearRing></outerBoundaryIs></Polygon></Placemark></kml>`;
+    const [feature] = parseImport('zones.kml', kml).features;
+
+    expect(feature.kind).toBe('polygon');
+    expect(feature.points).toEqual([{ lat: 0, lng: 0 }, { lat: 0, lng: 10 }, { lat: 10, lng: 10 }]);
+  });
+
+  it('keeps audit, safe zone and moderation fields through CSV', () => {
+    const reviewed: POI = {
+      ...pois[1],
+      createdAt: '2025-04-01T00:00:00.000Z',
+      createdBy: 'scout',
+      updatedAt: '2025-04-02T00:00:00.000Z',
+      updatedBy: 'mod',
+      safeZone: true,
+      moderationStatus: ModerationStatus.REJECTED,
+      moderationLog: [
+        { action: 'submitted', by: 'scout', at: '2025-04-01T00:00:00.000Z' },
+        { action: 'rejected', by: 'mod', at: '2025-04-02T00:00:00.000Z', reason: 'Duplicate, see "Pwyll"' }
+      ]
+    };
+    const { content } = serializeCollection({ ...collection, pois: [reviewed] }, 'csv');
+    const result = parseImport('export.csv', content);
+
+    expect(result.errors).toEqual([]);
+    expect(result.pois).toEqual([reviewed]);
+  });
+
+  it('tags GeoJSON exports with the Europa CRS', () => {
+    const { content } = serializeCollection(collection, 'geojson');
+    expect(JSON.parse(content).crs.properties.name).toBe(EUROPA_CRS);
+  });
+
+  it('counts the factions a GeoJSON file lists without importing them', () => {
+    const factions = [{ id: 'ridge-compact', name: 'Ridge Compact', color: '#3366ff' }];
+    const { content } = serializeCollection({ ...collection, factions }, 'geojson');
+    const result = parseImport('export.geojson', content);
+    expect(result.skippedFactions).toBe(1);
+    expect(result.pois).toEqual(pois);
+  });
+
+  it('reports invalid records individually', () => {
+    const csv = 'id,title,lat,lng,type\r\na,Valid,10,20,poi\r\nb,,100,20,poi\r\nc,Bad type,0,0,base\r\n';
+    const result = parseImport('import.csv', csv);
+
+    expect(result.pois.map(poi => poi.id)).toEqual(['a']);
+    expect(result.errors.map(error => error.index)).toEqual([1, 2]);
+  });
+
+  it('flags ids that already exist', () => {
+    const items = findConflicts([pois[0], { ...pois[1], id: 'new' }], pois);
+    expect(items.map(item => item.conflict?.id)).toEqual(['conamara', undefined]);
+  });
+});
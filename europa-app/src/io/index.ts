@@ -0,0 +1,131 @@
+import { MapFeature, POI, POICollection } from '../types';
+import { toGeoJSON, fromGeoJSON } from './geojson';
+import { toKML, fromKML } from './kml';
+import { toCSV, fromCSV } from './csv';
+import { RecordError, validateFeatures, validatePOIs } from '../schema';
+
+export { EUROPA_CRS } from './geojson';
+
+export type ExchangeFormat = 'geojson' | 'kml' | 'csv';
+
+export const ExchangeFormatLabels: Record<ExchangeFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  csv: 'CSV'
+};
+
+const FORMAT_FILES: Record<ExchangeFormat, { extension: string; mimeType: string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  csv: { extension: 'csv', mimeType: 'text/csv' }
+};
+
+export type ImportRecordError = RecordError;
+
+export interface ImportResult {
+  format: ExchangeFormat;
+  pois: POI[];
+  features: MapFeature[];
+  skippedFactions: number; // Factions listed in the file, which imports leave out
+  errors: ImportRecordError[];
+}
+
+// An imported POI and the existing POI it collides with, if any
+export interface ImportPreviewItem {
+  poi: POI;
+  conflict?: POI;
+}
+
+// An imported map feature and the existing feature it collides with, if any
+export interface FeaturePreviewItem {
+  feature: MapFeature;
+  conflict?: MapFeature;
+}
+
+/**
+ * Work out a file's format from its extension, falling back to sniffing the content
+ */
+export const detectFormat = (fileName: string, text: string): ExchangeFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'csv') return 'csv';
+
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (start.startsWith('<')) return 'kml';
+  return 'csv';
+};
+
+/**
+ * Parse an imported file into validated POIs and map features plus per-record errors.
+ * CSV files only carry POIs.
+ */
+export const parseImport = (fileName: string, text: string): ImportResult => {
+  const format = detectFormat(fileName, text);
+
+  let records: unknown[];
+  let featureRecords: unknown[] = [];
+  let skippedFactions = 0;
+  if (format === 'geojson') {
+    ({ records, featureRecords, skippedFactions } = fromGeoJSON(JSON.parse(text)));
+  } else if (format === 'kml') {
+    ({ records, featureRecords } = fromKML(text));
+  } else {
+    records = fromCSV(text);
+  }
+
+  const { pois, errors } = validatePOIs(records, { generateMissingId: true });
+  const { features, errors: featureErrors } = validateFeatures(featureRecords, { generateMissingId: true });
+
+  return { format, pois, features, skippedFactions, errors: [...errors, ...featureErrors] };
+};
+
+/**
+ * Pair imported POIs with any existing POIs that share their id
+ */
+export const findConflicts = (imported: POI[], existing: POI[]): ImportPreviewItem[] => {
+  const existingById = new Map(existing.map(poi => [poi.id, poi]));
+  return imported.map(poi => ({ poi, conflict: existingById.get(poi.id) }));
+};
+
+/**
+ * Pair imported map features with any existing features that share their id
+ */
+export const findFeatureConflicts = (imported: MapFeature[], existing: MapFeature[]): FeaturePreviewItem[] => {
+  const existingById = new Map(existing.map(feature => [feature.id, feature]));
+  return imported.map(feature => ({ feature, conflict: existingById.get(feature.id) }));
+};
+
+/**
+ * Serialise a collection in the requested format.
+ * CSV has no geometry column, so map features are left out of CSV exports.
+ */
+export const serializeCollection = (collection: POICollection, format: ExchangeFormat) => {
+  const { extension, mimeType } = FORMAT_FILES[format];
+
+  let content: string;
+  if (format === 'geojson') {
+    content = JSON.stringify(toGeoJSON(collection), null, 2);
+  } else if (format === 'kml') {
+    content = toKML(collection.pois, undefined, collection.features);
+  } else {
+    content = toCSV(collection.pois);
+  }
+
+  return { content, extension, mimeType };
+};
+
+/**
+ * Trigger a browser download of text content
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,144 @@
+import { MapFeature, POI } from '../types';
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+
+// POI fields carried in ExtendedData rather than dedicated KML elements
+const EXTENDED_FIELDS: (keyof POI)[] = ['id', 'location', 'type', 'category', 'factionId', 'createdAt', 'occurredAt', 'icon'];
+
+// Map feature fields carried in ExtendedData - `kind` is written as featureKind
+const FEATURE_EXTENDED_FIELDS: (keyof MapFeature)[] = ['id', 'radiusKm', 'category', 'factionId', 'color', 'createdAt', 'occurredAt'];
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const extendedData = (fields: Array<[string, unknown]>) =>
+  fields
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => `        <Data name="${field}"><value>${escapeXML(String(value))}</value></Data>`)
+    .join('\n');
+
+const placemark = (id: string, title: string, description: string, data: string, geometry: string) => [
+  `    <Placemark id="${escapeXML(id)}">`,
+  `      <name>${escapeXML(title)}</name>`,
+  `      <description>${escapeXML(description)}</description>`,
+  '      <ExtendedData>',
+  data,
+  '      </ExtendedData>',
+  `      ${geometry}`,
+  '    </Placemark>'
+].join('\n');
+
+const coordinateList = (points: MapFeature['points']) =>
+  points.map(({ lat, lng }) => `${lng},${lat},0`).join(' ');
+
+const featureGeometry = (feature: MapFeature) => {
+  if (feature.kind === 'polygon') {
+    // KML rings repeat their first coordinate at the end
+    const ring = coordinateList([...feature.points, feature.points[0]]);
+    return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${ring}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+  }
+  if (feature.kind === 'polyline') {
+    return `<LineString><coordinates>${coordinateList(feature.points)}</coordinates></LineString>`;
+  }
+  return `<Point><coordinates>${coordinateList(feature.points)}</coordinates></Point>`;
+};
+
+/**
+ * Convert POIs and map features to a KML document with one Placemark each.
+ * Polygons and polylines use KML geometry; circles are a Point centre plus a radiusKm field.
+ */
+export const toKML = (pois: POI[], name: string = 'Europa POIs', features: MapFeature[] = []): string => {
+  const placemarks = [
+    ...pois.map(poi => placemark(
+      poi.id,
+      poi.title,
+      poi.description,
+      extendedData(EXTENDED_FIELDS.map(field => [field, poi[field]])),
+      `<Point><coordinates>${poi.lng},${poi.lat},0</coordinates></Point>`
+    )),
+    ...features.map(feature => placemark(
+      feature.id,
+      feature.title,
+      feature.description,
+      extendedData([['featureKind', feature.kind], ...FEATURE_EXTENDED_FIELDS.map((field): [string, unknown] => [field, feature[field]])]),
+      featureGeometry(feature)
+    ))
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    '  <Document>',
+    `    <name>${escapeXML(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+// Parse a KML coordinate string ("lng,lat[,alt] lng,lat[,alt] ...") into lat/lng records
+const parseCoordinates = (text: string | null | undefined) =>
+  (text || '').trim().split(/\s+/).filter(Boolean).map(tuple => {
+    const [lng, lat] = tuple.split(',').map(Number);
+    return { lat, lng };
+  });
+
+/**
+ * Read raw POI and map feature records out of a KML document's placemarks.
+ * Polygon and LineString placemarks (and Points tagged as circles) become feature records.
+ */
+export const fromKML = (text: string): { records: unknown[]; featureRecords: unknown[] } => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid KML document');
+  }
+
+  const records: unknown[] = [];
+  const featureRecords: unknown[] = [];
+
+  Array.from(doc.getElementsByTagName('Placemark')).forEach(placemarkElement => {
+    const record: Record<string, unknown> = {};
+
+    Array.from(placemarkElement.getElementsByTagName('Data')).forEach(data => {
+      const field = data.getAttribute('name');
+      const value = data.getElementsByTagName('value')[0]?.textContent;
+      if (field && value !== null && value !== undefined) record[field] = value;
+    });
+
+    record.id = record.id ?? placemarkElement.getAttribute('id') ?? undefined;
+    record.title = placemarkElement.getElementsByTagName('name')[0]?.textContent ?? undefined;
+    record.description = placemarkElement.getElementsByTagName('description')[0]?.textContent ?? '';
+
+    const { featureKind, ...fields } = record;
+    const polygon = placemarkElement.getElementsByTagName('Polygon')[0];
+    const lineString = placemarkElement.getElementsByTagName('LineString')[0];
+    const coordinates = placemarkElement.getElementsByTagName('coordinates')[0]?.textContent;
+
+    if (polygon || lineString) {
+      // Only the outer boundary of a polygon is kept
+      const outer = polygon?.getElementsByTagName('outerBoundaryIs')[0] || polygon;
+      featureRecords.push({
+        ...fields,
+        kind: featureKind ?? (polygon ? 'polygon' : 'polyline'),
+        points: parseCoordinates((outer || lineString).getElementsByTagName('coordinates')[0]?.textContent)
+      });
+    } else if (featureKind === 'circle') {
+      featureRecords.push({ ...fields, kind: featureKind, points: parseCoordinates(coordinates) });
+    } else {
+      const [point] = parseCoordinates(coordinates);
+      if (point) {
+        fields.lng = point.lng;
+        fields.lat = point.lat;
+      }
+      records.push(fields);
+    }
+  });
+
+  return { records, featureRecords };
+};
@@ -0,0 +1,13 @@
+import { reconnectDelay } from './backoff';
+
+describe('reconnectDelay', () => {
+  it('doubles up to the maximum', () => {
+    const noJitter = { baseMs: 500, maxMs: 5000, jitter: 0 };
+    expect([0, 1, 2, 3, 4, 10].map(attempt => reconnectDelay(attempt, noJitter))).toEqual([500, 1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('takes up to the jitter fraction off', () => {
+    expect(reconnectDelay(2, { baseMs: 1000, jitter: 0.5 }, () => 0)).toBe(4000);
+    expect(reconnectDelay(2, { baseMs: 1000, jitter: 0.5 }, () => 1)).toBe(2000);
+  });
+});
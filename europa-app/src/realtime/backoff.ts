@@ -0,0 +1,18 @@
+export interface BackoffOptions {
+  baseMs?: number; // Delay before the first retry
+  maxMs?: number; // Upper bound on any delay
+  jitter?: number; // Fraction of the delay randomised, so clients don't reconnect in lockstep
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubling from `baseMs` up to `maxMs`,
+ * with up to `jitter` of it taken off at random
+ */
+export const reconnectDelay = (
+  attempt: number,
+  { baseMs = 1000, maxMs = 30000, jitter = 0.3 }: BackoffOptions = {},
+  random: () => number = Math.random
+): number => {
+  const delay = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt)));
+  return Math.round(delay * (1 - jitter * random()));
+};
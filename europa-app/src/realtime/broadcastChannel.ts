@@ -0,0 +1,29 @@
+import { createChannel } from './channel';
+import { LiveChannel } from './types';
+
+export const DEFAULT_BROADCAST_NAME = 'europa-map:live';
+
+/**
+ * Shares events between tabs of the same browser, for when there is no live server.
+ * Stays closed where BroadcastChannel is unavailable.
+ */
+export const createBroadcastLiveChannel = (channelName: string = DEFAULT_BROADCAST_NAME): LiveChannel => {
+  let broadcast: BroadcastChannel | null = null;
+
+  return createChannel(
+    'other tabs',
+    ({ onMessage, onStatus }) => {
+      if (typeof BroadcastChannel === 'undefined') return () => undefined;
+
+      broadcast = new BroadcastChannel(channelName);
+      broadcast.onmessage = event => onMessage(event.data);
+      onStatus('open');
+
+      return () => {
+        broadcast?.close();
+        broadcast = null;
+      };
+    },
+    message => broadcast?.postMessage(message)
+  );
+};
@@ -0,0 +1,56 @@
+import { createChannel, TransportHandlers } from './channel';
+import { LiveMessage } from './types';
+
+const setup = () => {
+  let handlers: TransportHandlers | null = null;
+  const disconnect = jest.fn();
+  const connect = jest.fn((next: TransportHandlers) => {
+    handlers = next;
+    return disconnect;
+  });
+  const sent: LiveMessage[] = [];
+  const channel = createChannel('test', connect, message => sent.push(message), 'me');
+  return { channel, connect, disconnect, sent, transport: () => handlers as unknown as TransportHandlers };
+};
+
+describe('createChannel', () => {
+  it('connects for the first listener and disconnects after the last', () => {
+    const { channel, connect, disconnect } = setup();
+    const first = channel.subscribe({});
+    const second = channel.subscribe({});
+    expect(connect).toHaveBeenCalledTimes(1);
+
+    first();
+    expect(disconnect).not.toHaveBeenCalled();
+    second();
+    expect(disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers other clients\' events and skips its own echoes', () => {
+    const { channel, sent, transport } = setup();
+    const onEvent = jest.fn();
+    channel.subscribe({ onEvent });
+
+    channel.publish({ type: 'poi:delete', id: 'a' });
+    expect(sent).toEqual([{ origin: 'me', event: { type: 'poi:delete', id: 'a' } }]);
+
+    transport().onMessage(sent[0]);
+    transport().onMessage({ origin: 'them', event: { type: 'poi:delete', id: 'b' } });
+    transport().onMessage('garbage');
+    expect(onEvent.mock.calls).toEqual([[{ type: 'poi:delete', id: 'b' }]]);
+  });
+
+  it('tells new listeners the current status and forwards status changes and resyncs', () => {
+    const { channel, transport } = setup();
+    const onStatus = jest.fn();
+    const onResync = jest.fn();
+    channel.subscribe({});
+    transport().onStatus('open');
+
+    channel.subscribe({ onStatus, onResync });
+    transport().onStatus('reconnecting');
+    transport().onResync();
+    expect(onStatus.mock.calls).toEqual([['open'], ['reconnecting']]);
+    expect(onResync).toHaveBeenCalledTimes(1);
+  });
+});
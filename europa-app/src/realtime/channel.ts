@@ -0,0 +1,65 @@
+import { parseLiveMessage } from './events';
+import { LiveChannel, LiveListener, LiveMessage, LiveStatus } from './types';
+
+// Callbacks a transport reports through
+export interface TransportHandlers {
+  onMessage: (data: unknown) => void;
+  onStatus: (status: LiveStatus) => void;
+  onResync: () => void;
+}
+
+// Opens the underlying connection and returns a function that closes it
+export type Connect = (handlers: TransportHandlers) => () => void;
+
+export const generateClientId = () => `client-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Build a LiveChannel around a transport.
+ * Fans events out to every listener, drops malformed messages and this client's own echoes,
+ * and keeps the connection open only while someone is listening.
+ */
+export const createChannel = (
+  name: string,
+  connect: Connect,
+  send: (message: LiveMessage) => void,
+  clientId: string = generateClientId()
+): LiveChannel => {
+  const listeners = new Set<LiveListener>();
+  let status: LiveStatus = 'closed';
+  let disconnect: (() => void) | null = null;
+
+  const setStatus = (next: LiveStatus) => {
+    status = next;
+    listeners.forEach(listener => listener.onStatus?.(next));
+  };
+
+  const handlers: TransportHandlers = {
+    onMessage: data => {
+      const message = parseLiveMessage(data);
+      if (!message || message.origin === clientId) return;
+      listeners.forEach(listener => listener.onEvent?.(message.event));
+    },
+    onStatus: setStatus,
+    onResync: () => listeners.forEach(listener => listener.onResync?.())
+  };
+
+  return {
+    name,
+
+    subscribe: listener => {
+      listeners.add(listener);
+      listener.onStatus?.(status);
+      if (!disconnect) disconnect = connect(handlers);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size > 0 || !disconnect) return;
+        disconnect();
+        disconnect = null;
+        status = 'closed';
+      };
+    },
+
+    publish: event => send({ origin: clientId, event })
+  };
+};
@@ -0,0 +1,57 @@
+import { BackoffOptions, reconnectDelay } from './backoff';
+import { createChannel } from './channel';
+import { LiveChannel } from './types';
+
+/**
+ * Receives events as server-sent events from `url` and publishes them with a POST to the same url.
+ * Reconnects with exponential backoff after the stream drops, and asks listeners to resync
+ * once it is back since events sent in the meantime were missed.
+ */
+export const createEventSourceChannel = (url: string, backoff: BackoffOptions = {}): LiveChannel =>
+  createChannel(
+    'server-sent events',
+    ({ onMessage, onStatus, onResync }) => {
+      let source: EventSource | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let attempt = 0;
+      let missedEvents = false;
+      let closed = false;
+
+      const open = () => {
+        onStatus(missedEvents ? 'reconnecting' : 'connecting');
+        source = new EventSource(url);
+
+        source.onopen = () => {
+          attempt = 0;
+          onStatus('open');
+          if (missedEvents) onResync();
+          missedEvents = false;
+        };
+        source.onmessage = event => onMessage(event.data);
+        // EventSource retries on its own at a fixed rate - close it and back off instead
+        source.onerror = () => {
+          source?.close();
+          source = null;
+          if (closed) return;
+          missedEvents = true;
+          onStatus('reconnecting');
+          retryTimer = setTimeout(open, reconnectDelay(attempt++, backoff));
+        };
+      };
+
+      open();
+
+      return () => {
+        closed = true;
+        clearTimeout(retryTimer);
+        source?.close();
+      };
+    },
+    message => {
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message)
+      }).catch(err => console.error('Error publishing live event:', err));
+    }
+  );
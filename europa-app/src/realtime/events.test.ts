@@ -0,0 +1,37 @@
+import { applyLiveChange, parseLiveMessage } from './events';
+
+const poi = { id: 'poi-1', title: 'Outpost', lat: 10, lng: 20, type: 'poi' };
+const report = { id: 'report-1', headline: 'Shelling', body: '', reportedAt: '2026-01-01T00:00:00Z', severity: 'low', sourceUrls: [], author: 'ann' };
+
+describe('parseLiveMessage', () => {
+  it('reads upserts and deletes, from objects or JSON', () => {
+    expect(parseLiveMessage({ origin: 'a', event: { type: 'poi:upsert', poi } })?.event).toMatchObject({ type: 'poi:upsert', poi: { id: 'poi-1' } });
+    expect(parseLiveMessage(JSON.stringify({ origin: 'a', event: { type: 'report:upsert', report } }))?.event).toEqual({ type: 'report:upsert', report });
+    expect(parseLiveMessage({ origin: 'a', event: { type: 'report:delete', id: 'report-1' } })).toEqual({
+      origin: 'a',
+      event: { type: 'report:delete', id: 'report-1' }
+    });
+  });
+
+  it('rejects malformed messages', () => {
+    expect(parseLiveMessage('not json')).toBeNull();
+    expect(parseLiveMessage({ event: { type: 'poi:delete', id: 'x' } })).toBeNull();
+    expect(parseLiveMessage({ origin: 'a', event: { type: 'poi:upsert', poi: { ...poi, lat: 200 } } })).toBeNull();
+    expect(parseLiveMessage({ origin: 'a', event: { type: 'report:upsert', report: { id: 'r' } } })).toBeNull();
+    expect(parseLiveMessage({ origin: 'a', event: { type: 'poi:rename', id: 'x' } })).toBeNull();
+  });
+});
+
+describe('applyLiveChange', () => {
+  const records = [{ id: 'a', n: 1 }, { id: 'b', n: 2 }];
+
+  it('replaces in place, appends new records and removes deleted ones', () => {
+    expect(applyLiveChange(records, 'b', { id: 'b', n: 3 })).toEqual([{ id: 'a', n: 1 }, { id: 'b', n: 3 }]);
+    expect(applyLiveChange(records, 'c', { id: 'c', n: 4 })).toHaveLength(3);
+    expect(applyLiveChange(records, 'a')).toEqual([{ id: 'b', n: 2 }]);
+  });
+
+  it('returns the same list when deleting an unknown id', () => {
+    expect(applyLiveChange(records, 'z')).toBe(records);
+  });
+});
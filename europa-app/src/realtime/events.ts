@@ -0,0 +1,61 @@
+import { ConflictReport } from '../types';
+import { validatePOI } from '../schema';
+import { LiveEvent, LiveMessage } from './types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Reports have no schema module of their own yet, so only the fields the UI relies on are checked
+const isReport = (value: unknown): value is ConflictReport =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.headline === 'string' &&
+  typeof value.reportedAt === 'string' &&
+  Array.isArray(value.sourceUrls);
+
+/**
+ * Read a message received from a live channel.
+ * Returns null for anything malformed - POIs go through the same validation as stored ones.
+ */
+export const parseLiveMessage = (data: unknown): LiveMessage | null => {
+  let raw = data;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!isObject(raw) || typeof raw.origin !== 'string' || !isObject(raw.event)) return null;
+
+  const event = raw.event;
+  let parsed: LiveEvent | null = null;
+  switch (event.type) {
+    case 'poi:upsert': {
+      const { poi } = validatePOI(event.poi);
+      parsed = poi ? { type: 'poi:upsert', poi } : null;
+      break;
+    }
+    case 'report:upsert':
+      parsed = isReport(event.report) ? { type: 'report:upsert', report: event.report } : null;
+      break;
+    case 'poi:delete':
+    case 'report:delete':
+      parsed = typeof event.id === 'string' ? { type: event.type, id: event.id } : null;
+      break;
+  }
+  return parsed && { origin: raw.origin, event: parsed };
+};
+
+/**
+ * Insert, replace or remove a record by id. Returns the same list when nothing changed.
+ */
+export const applyLiveChange = <T extends { id: string }>(records: T[], id: string, record?: T): T[] => {
+  const index = records.findIndex(existing => existing.id === id);
+  if (!record) return index === -1 ? records : records.filter(existing => existing.id !== id);
+  if (index === -1) return [...records, record];
+
+  const next = [...records];
+  next[index] = record;
+  return next;
+};
@@ -0,0 +1,22 @@
+import { createBroadcastLiveChannel } from './broadcastChannel';
+import { createEventSourceChannel } from './eventSourceChannel';
+import { LiveChannel } from './types';
+
+export { reconnectDelay } from './backoff';
+export type { BackoffOptions } from './backoff';
+export { createBroadcastLiveChannel } from './broadcastChannel';
+export { createChannel, generateClientId } from './channel';
+export type { Connect, TransportHandlers } from './channel';
+export { createEventSourceChannel } from './eventSourceChannel';
+export { applyLiveChange, parseLiveMessage } from './events';
+export type { LiveChannel, LiveEvent, LiveListener, LiveMessage, LiveStatus } from './types';
+
+/**
+ * Pick the live update transport from the environment.
+ * Set REACT_APP_LIVE_URL to stream from a server (see scripts/live-server.js),
+ * otherwise changes are only shared between tabs of this browser.
+ */
+export const createDefaultLiveChannel = (): LiveChannel => {
+  const liveUrl = process.env.REACT_APP_LIVE_URL;
+  return liveUrl ? createEventSourceChannel(liveUrl) : createBroadcastLiveChannel();
+};
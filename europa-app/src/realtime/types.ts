@@ -0,0 +1,33 @@
+import { ConflictReport, POI } from '../types';
+
+// A change made somewhere else that every open map should pick up
+export type LiveEvent =
+  | { type: 'poi:upsert'; poi: POI }
+  | { type: 'poi:delete'; id: string }
+  | { type: 'report:upsert'; report: ConflictReport }
+  | { type: 'report:delete'; id: string };
+
+// What goes over the wire - the origin lets a client skip its own echoes
+export interface LiveMessage {
+  origin: string;
+  event: LiveEvent;
+}
+
+export type LiveStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LiveListener {
+  onEvent?: (event: LiveEvent) => void;
+  onStatus?: (status: LiveStatus) => void;
+  // Called after a dropped connection comes back, since events may have been missed meanwhile
+  onResync?: () => void;
+}
+
+/**
+ * Realtime transport used by LiveProvider.
+ * Connects when the first listener subscribes and disconnects when the last one leaves.
+ */
+export interface LiveChannel {
+  readonly name: string;
+  subscribe: (listener: LiveListener) => () => void;
+  publish: (event: LiveEvent) => void;
+}
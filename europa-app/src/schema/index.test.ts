@@ -0,0 +1,143 @@
+import {
+  CURRENT_COLLECTION_VERSION,
+  loadPOICollection,
+  normalizeLongitude,
+  validateCheckIns,
+  validateFeature,
+  validatePOI,
+  validateUser
+} from '.';
+
+describe('normalizeLongitude', () => {
+  it('wraps longitudes into -180 to 180', () => {
+    expect(normalizeLongitude(-271)).toBe(89);
+    expect(normalizeLongitude(-334)).toBe(26);
+    expect(normalizeLongitude(220)).toBe(-140);
+    expect(normalizeLongitude(180)).toBe(180);
+    expect(normalizeLongitude(-45)).toBe(-45);
+  });
+});
+
+describe('validatePOI', () => {
+  it('reports every problem with a record', () => {
+    const { poi, errors } = validatePOI({ title: '', lat: 91, lng: 'east', type: 'base' });
+
+    expect(poi).toBeUndefined();
+    expect(errors).toEqual([
+      'id is required',
+      'title is required',
+      'lat 91 is outside -90 to 90',
+      'lng must be a number',
+      'unknown type "base" (expected poi, orientation, pole, custom)'
+    ]);
+  });
+
+  it('normalises valid records', () => {
+    const { poi } = validatePOI({ id: ' a ', title: ' Site ', lat: '10', lng: 350, category: '' });
+    expect(poi).toEqual({ id: 'a', title: 'Site', description: '', lat: 10, lng: -10, type: 'poi' });
+  });
+
+  it('keeps the safe zone flag only when set', () => {
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, safeZone: true }).poi?.safeZone).toBe(true);
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, safeZone: false }).poi).not.toHaveProperty('safeZone');
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, safeZone: 'yes' }).errors).toEqual(['safeZone must be true or false']);
+  });
+
+  it('checks the review state and history', () => {
+    const moderation = {
+      moderationStatus: 'rejected',
+      moderationLog: [{ action: 'rejected', by: 'mod', at: '2025-04-20T10:00:00Z', reason: 'duplicate' }]
+    };
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, ...moderation }).poi).toMatchObject(moderation);
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, moderationStatus: 'hidden', moderationLog: [{ action: 'hid' }] }).errors).toEqual([
+      'unknown moderationStatus "hidden" (expected pending, approved, rejected)',
+      'moderationLog[0] has unknown action "hid"',
+      'moderationLog[0].at is not a valid timestamp'
+    ]);
+  });
+
+  it('keeps who added and last edited a record', () => {
+    const audit = { createdBy: 'scout', createdAt: '2025-04-20T10:00:00Z', updatedBy: 'mod', updatedAt: '2025-04-21T10:00:00Z' };
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, ...audit }).poi).toMatchObject(audit);
+    expect(validatePOI({ id: 'a', title: 'Camp', lat: 0, lng: 0, updatedAt: 'later' }).errors).toEqual(['updatedAt is not a valid timestamp']);
+  });
+});
+
+describe('validateCheckIns', () => {
+  it('drops check-ins with an unknown status or timestamp', () => {
+    const valid = { id: 'c1', poiId: 'camp', status: 'need_help', author: ' scout ', checkedInAt: '2025-04-20T10:00:00Z', note: '' };
+    const { checkIns, errors } = validateCheckIns([
+      valid,
+      { ...valid, id: 'c2', status: 'lost' },
+      { ...valid, id: 'c3', checkedInAt: 'yesterday' }
+    ]);
+
+    expect(checkIns).toEqual([{ id: 'c1', poiId: 'camp', status: 'need_help', author: 'scout', checkedInAt: '2025-04-20T10:00:00Z' }]);
+    expect(errors.map(({ id, recordType, messages }) => [id, recordType, messages])).toEqual([
+      ['c2', 'checkIn', ['unknown status "lost" (expected ok, need_help, moving)']],
+      ['c3', 'checkIn', ['checkedInAt is not a valid timestamp']]
+    ]);
+  });
+});
+
+describe('validateUser', () => {
+  it('normalises the handle and falls back to it for the display name', () => {
+    expect(validateUser({ handle: ' @scout_7 ', displayName: ' ', avatarUrl: '', role: 'reporter' }).user).toEqual({
+      handle: 'scout_7',
+      displayName: 'scout_7',
+      role: 'reporter'
+    });
+  });
+
+  it('rejects unusable handles and unknown roles', () => {
+    expect(validateUser({ handle: 'a b', role: 'owner' }).errors).toEqual([
+      'handle must be 2-32 letters, digits, underscores or hyphens',
+      'unknown role "owner" (expected viewer, reporter, moderator, admin)'
+    ]);
+  });
+});
+
+describe('validateFeature', () => {
+  it('checks the vertex count for the kind of feature', () => {
+    expect(validateFeature({ id: 'z', title: 'Zone', kind: 'polygon', points: [{ lat: 0, lng: 0 }, { lat: 1, lng: 1 }] }).errors)
+      .toEqual(['a polygon needs at least 3 points']);
+    expect(validateFeature({ id: 'c', title: 'Blast', kind: 'circle', points: [{ lat: 0, lng: 0 }] }).errors)
+      .toEqual(['radiusKm must be a positive number']);
+  });
+
+  it('drops the closing vertex of a ring and wraps longitudes', () => {
+    const ring = [{ lat: 0, lng: 0 }, { lat: 0, lng: 190 }, { lat: 10, lng: 0 }, { lat: 0, lng: 0 }];
+    const { feature } = validateFeature({ id: 'z', title: 'Zone', kind: 'polygon', points: ring });
+    expect(feature?.points).toEqual([{ lat: 0, lng: 0 }, { lat: 0, lng: -170 }, { lat: 10, lng: 0 }]);
+  });
+
+  it('only marks polygons as contested', () => {
+    const ring = [{ lat: 0, lng: 0 }, { lat: 0, lng: 10 }, { lat: 10, lng: 0 }];
+    expect(validateFeature({ id: 'z', title: 'Zone', kind: 'polygon', points: ring, contested: true }).feature?.contested).toBe(true);
+    expect(validateFeature({ id: 'l', title: 'Line', kind: 'polyline', points: ring, contested: true }).feature?.contested).toBeUndefined();
+    expect(validateFeature({ id: 'z', title: 'Zone', kind: 'polygon', points: ring, contested: 'yes' }).errors)
+      .toEqual(['contested must be true or false']);
+  });
+});
+
+describe('loadPOICollection', () => {
+  it('migrates unversioned files and keeps valid records', () => {
+    const { collection, errors } = loadPOICollection({
+      pois: [
+        { id: 'cemetery', title: 'Cemetery', lat: -26, lng: -271, type: 'poi' },
+        { id: 'cemetery', title: 'Duplicate', lat: 0, lng: 0, type: 'poi' },
+        { title: 'No id', lat: 0, lng: 0, type: 'poi' }
+      ]
+    });
+
+    expect(collection.version).toBe(CURRENT_COLLECTION_VERSION);
+    expect(collection.factions).toEqual([]);
+    expect(collection.pois).toHaveLength(1);
+    expect(collection.pois[0].lng).toBe(89);
+    expect(errors.map(error => error.index)).toEqual([1, 2]);
+  });
+
+  it('rejects versions it cannot migrate', () => {
+    expect(() => loadPOICollection({ pois: [], version: '9.0.0' })).toThrow('Unsupported POI data version: 9.0.0');
+  });
+});
@@ -0,0 +1,32 @@
+import { migrateCollection } from './migrations';
+import { validatePOICollection, CollectionValidationResult } from './validate';
+
+export { CURRENT_COLLECTION_VERSION, migrateCollection } from './migrations';
+export {
+  CHECK_IN_STATUSES,
+  FEATURE_KINDS,
+  MODERATION_STATUSES,
+  POI_TYPES,
+  USER_ROLES,
+  generateCheckInId,
+  generateFeatureId,
+  generatePOIId,
+  normalizeLongitude,
+  validateCheckIn,
+  validateCheckIns,
+  validateFeature,
+  validateFeatures,
+  validatePOI,
+  validatePOIs,
+  validatePOICollection,
+  validateUser
+} from './validate';
+export type { RecordError, CollectionValidationResult } from './validate';
+
+/**
+ * Migrate raw collection data to the current version, then validate it.
+ * Invalid records are dropped and reported in `errors`.
+ */
+export const loadPOICollection = (data: unknown): CollectionValidationResult => {
+  return validatePOICollection(migrateCollection(data));
+};
@@ -0,0 +1,68 @@
+import { normalizeLongitude } from './validate';
+
+// Current version of the POICollection format
+export const CURRENT_COLLECTION_VERSION = '1.2.0';
+
+// Files written before versioning was introduced
+const DEFAULT_VERSION = '1.0.0';
+
+interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Ordered list of format migrations - add a new entry whenever the schema changes
+ * and bump CURRENT_COLLECTION_VERSION to its `to` version.
+ */
+const migrations: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add factions list; wrap longitudes written as 0-360° west into -180 to 180',
+    migrate: data => ({
+      ...data,
+      factions: Array.isArray(data.factions) ? data.factions : [],
+      pois: (data.pois || []).map((poi: Record<string, any>) =>
+        typeof poi?.lng === 'number' ? { ...poi, lng: normalizeLongitude(poi.lng) } : poi
+      )
+    })
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Add map features list (polygons, polylines and circles)',
+    migrate: data => ({
+      ...data,
+      features: Array.isArray(data.features) ? data.features : []
+    })
+  }
+];
+
+/**
+ * Bring a raw collection up to the current format version.
+ * Throws when the data is from a newer or unknown version.
+ */
+export const migrateCollection = (data: unknown): Record<string, any> => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid POI data format: expected an object');
+  }
+
+  let current = data as Record<string, any>;
+  let version: string = typeof current.version === 'string' && current.version ? current.version : DEFAULT_VERSION;
+
+  const migrationsByVersion = new Map(migrations.map(m => [m.from, m]));
+
+  while (version !== CURRENT_COLLECTION_VERSION) {
+    const migration = migrationsByVersion.get(version);
+    if (!migration) {
+      throw new Error(`Unsupported POI data version: ${version}`);
+    }
+    current = { ...migration.migrate(current), version: migration.to };
+    version = migration.to;
+  }
+
+  return current;
+};
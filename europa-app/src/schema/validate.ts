@@ -0,0 +1,445 @@
+import {
+  CheckIn,
+  CheckInStatus,
+  Faction,
+  FeatureKind,
+  MapFeature,
+  ModerationAction,
+  ModerationEntry,
+  ModerationStatus,
+  POI,
+  POICollection,
+  User,
+  UserRole
+} from '../types';
+import { normalizeLongitude } from '../geodesy';
+
+export const POI_TYPES: POI['type'][] = ['poi', 'orientation', 'pole', 'custom'];
+
+// Who added and last edited a record, and when
+const AUDIT_FIELDS = ['createdAt', 'createdBy', 'updatedAt', 'updatedBy'] as const;
+
+const OPTIONAL_STRING_FIELDS = ['location', 'category', 'icon', 'factionId', ...AUDIT_FIELDS, 'occurredAt'] as const;
+const TIMESTAMP_FIELDS = ['createdAt', 'updatedAt', 'occurredAt'] as const;
+
+export const FEATURE_KINDS: FeatureKind[] = ['polygon', 'polyline', 'circle'];
+
+const FEATURE_STRING_FIELDS = ['category', 'factionId', 'color', ...AUDIT_FIELDS, 'occurredAt'] as const;
+
+export const CHECK_IN_STATUSES = Object.values(CheckInStatus);
+
+export const USER_ROLES = Object.values(UserRole);
+
+export const MODERATION_STATUSES = Object.values(ModerationStatus);
+
+const MODERATION_ACTIONS: ModerationAction[] = ['submitted', 'approved', 'rejected', 'merged'];
+
+const MODERATION_ENTRY_FIELDS = ['by', 'reason', 'mergedInto', 'mergedFrom'] as const;
+
+// Handles are stamped on records, so keep them short and URL-safe
+const HANDLE_PATTERN = /^[a-z0-9_-]{2,32}$/i;
+
+// Fewest vertices each kind of feature needs
+const MIN_FEATURE_POINTS: Record<FeatureKind, number> = {
+  polygon: 3,
+  polyline: 2,
+  circle: 1
+};
+
+// Validation problems for a single record
+export interface RecordError {
+  index: number; // Position of the record in its source
+  source?: string; // Where the record came from, e.g. a file name
+  id?: string;
+  recordType?: 'poi' | 'feature' | 'checkIn'; // Defaults to 'poi'
+  messages: string[];
+}
+
+export interface ValidatePOIOptions {
+  // Assign a fresh id instead of rejecting records without one (used for imports)
+  generateMissingId?: boolean;
+}
+
+export interface POIValidationResult {
+  poi?: POI;
+  errors: string[];
+}
+
+export interface FeatureValidationResult {
+  feature?: MapFeature;
+  errors: string[];
+}
+
+export interface CheckInValidationResult {
+  checkIn?: CheckIn;
+  errors: string[];
+}
+
+export interface UserValidationResult {
+  user?: User;
+  errors: string[];
+}
+
+export interface CollectionValidationResult {
+  collection: POICollection;
+  errors: RecordError[];
+}
+
+// Longitude wrapping lives with the rest of the geodesy; re-exported for existing callers
+export { normalizeLongitude };
+
+// Accept numbers, and numeric strings from text formats like CSV and KML
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return undefined;
+};
+
+export const generatePOIId = () => `poi-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const generateFeatureId = () => `feature-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const generateCheckInId = () => `checkin-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Check a record's review state and history, returning the problems found
+ */
+const validateModeration = (raw: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  if (raw.moderationStatus !== undefined && !MODERATION_STATUSES.includes(raw.moderationStatus as ModerationStatus)) {
+    errors.push(`unknown moderationStatus "${String(raw.moderationStatus)}" (expected ${MODERATION_STATUSES.join(', ')})`);
+  }
+  if (raw.moderationLog === undefined) return errors;
+  if (!Array.isArray(raw.moderationLog)) return [...errors, 'moderationLog must be an array'];
+
+  raw.moderationLog.forEach((entry: Partial<Record<keyof ModerationEntry, unknown>> | null, index) => {
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`moderationLog[${index}] is not an object`);
+      return;
+    }
+    if (!MODERATION_ACTIONS.includes(entry.action as ModerationAction)) {
+      errors.push(`moderationLog[${index}] has unknown action "${String(entry.action)}"`);
+    }
+    if (typeof entry.at !== 'string' || Number.isNaN(Date.parse(entry.at))) {
+      errors.push(`moderationLog[${index}].at is not a valid timestamp`);
+    }
+    MODERATION_ENTRY_FIELDS.forEach(field => {
+      if (entry[field] !== undefined && typeof entry[field] !== 'string') errors.push(`moderationLog[${index}].${field} must be a string`);
+    });
+  });
+  return errors;
+};
+
+/**
+ * Validate and normalise a single POI record.
+ * Returns the cleaned POI, or the list of problems that prevented it from loading.
+ */
+export const validatePOI = (record: unknown, options: ValidatePOIOptions = {}): POIValidationResult => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: ['record is not an object'] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const id = typeof raw.id === 'string' ? raw.id.trim() : raw.id;
+  const title = typeof raw.title === 'string' ? raw.title.trim() : raw.title;
+  const lat = toNumber(raw.lat);
+  const lng = toNumber(raw.lng);
+  const type = raw.type === undefined ? 'poi' : raw.type;
+
+  if (id === undefined || id === '') {
+    if (!options.generateMissingId) errors.push('id is required');
+  } else if (typeof id !== 'string') {
+    errors.push('id must be a string');
+  }
+  if (typeof title !== 'string' || !title) errors.push('title is required');
+  if (raw.description !== undefined && typeof raw.description !== 'string') errors.push('description must be a string');
+  if (lat === undefined || !Number.isFinite(lat)) {
+    errors.push('lat must be a number');
+  } else if (lat < -90 || lat > 90) {
+    errors.push(`lat ${lat} is outside -90 to 90`);
+  }
+  if (lng === undefined || !Number.isFinite(lng)) errors.push('lng must be a number');
+  if (!POI_TYPES.includes(type as POI['type'])) errors.push(`unknown type "${String(type)}" (expected ${POI_TYPES.join(', ')})`);
+  OPTIONAL_STRING_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') errors.push(`${field} must be a string`);
+  });
+  TIMESTAMP_FIELDS.forEach(field => {
+    if (typeof raw[field] === 'string' && Number.isNaN(Date.parse(raw[field] as string))) {
+      errors.push(`${field} is not a valid timestamp`);
+    }
+  });
+  if (raw.safeZone !== undefined && typeof raw.safeZone !== 'boolean') errors.push('safeZone must be true or false');
+  errors.push(...validateModeration(raw));
+
+  if (errors.length > 0) return { errors };
+
+  const poi: POI = {
+    id: (id as string | undefined) || generatePOIId(),
+    title: title as string,
+    description: typeof raw.description === 'string' ? raw.description.trim() : '',
+    lat: lat as number,
+    lng: normalizeLongitude(lng as number),
+    type: type as POI['type']
+  };
+  OPTIONAL_STRING_FIELDS.forEach(field => {
+    const value = raw[field];
+    if (typeof value === 'string' && value.trim() !== '') poi[field] = value.trim();
+  });
+  if (raw.safeZone === true) poi.safeZone = true;
+  if (raw.moderationStatus !== undefined) poi.moderationStatus = raw.moderationStatus as ModerationStatus;
+  if (Array.isArray(raw.moderationLog) && raw.moderationLog.length > 0) {
+    poi.moderationLog = raw.moderationLog.map((entry: ModerationEntry) => ({ ...entry }));
+  }
+
+  return { poi, errors };
+};
+
+/**
+ * Run a record validator over a list, dropping invalid records and duplicate ids
+ */
+const validateRecords = <T extends { id: string }>(
+  records: unknown[],
+  validateOne: (record: unknown) => { value?: T; errors: string[] },
+  recordType?: RecordError['recordType']
+): { values: T[]; errors: RecordError[] } => {
+  const values: T[] = [];
+  const errors: RecordError[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const rawId = (record as { id?: unknown } | null)?.id;
+    const { value, errors: messages } = validateOne(record);
+
+    if (value && seenIds.has(value.id)) {
+      errors.push({ index, id: value.id, recordType, messages: [`duplicate id "${value.id}"`] });
+    } else if (value) {
+      seenIds.add(value.id);
+      values.push(value);
+    } else {
+      errors.push({ index, id: typeof rawId === 'string' ? rawId : undefined, recordType, messages });
+    }
+  });
+
+  return { values, errors };
+};
+
+/**
+ * Validate a list of POI records, dropping invalid ones and duplicate ids
+ */
+export const validatePOIs = (records: unknown[], options: ValidatePOIOptions = {}): { pois: POI[]; errors: RecordError[] } => {
+  const { values, errors } = validateRecords(records, record => {
+    const { poi, errors: messages } = validatePOI(record, options);
+    return { value: poi, errors: messages };
+  });
+  return { pois: values, errors };
+};
+
+/**
+ * Validate and normalise a single map feature record.
+ * Returns the cleaned feature, or the list of problems that prevented it from loading.
+ */
+export const validateFeature = (record: unknown, options: ValidatePOIOptions = {}): FeatureValidationResult => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: ['record is not an object'] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const id = typeof raw.id === 'string' ? raw.id.trim() : raw.id;
+  const title = typeof raw.title === 'string' ? raw.title.trim() : raw.title;
+  const kind = raw.kind as FeatureKind;
+  const radiusKm = toNumber(raw.radiusKm);
+
+  if (id === undefined || id === '') {
+    if (!options.generateMissingId) errors.push('id is required');
+  } else if (typeof id !== 'string') {
+    errors.push('id must be a string');
+  }
+  if (typeof title !== 'string' || !title) errors.push('title is required');
+  if (raw.description !== undefined && typeof raw.description !== 'string') errors.push('description must be a string');
+  if (!FEATURE_KINDS.includes(kind)) errors.push(`unknown kind "${String(raw.kind)}" (expected ${FEATURE_KINDS.join(', ')})`);
+
+  const points: MapFeature['points'] = [];
+  if (!Array.isArray(raw.points)) {
+    errors.push('points must be an array');
+  } else {
+    raw.points.forEach((point, index) => {
+      const lat = toNumber((point as { lat?: unknown } | null)?.lat);
+      const lng = toNumber((point as { lng?: unknown } | null)?.lng);
+      if (lat === undefined || !Number.isFinite(lat) || lat < -90 || lat > 90 || lng === undefined || !Number.isFinite(lng)) {
+        errors.push(`point ${index + 1} is not a valid lat/lng`);
+      } else {
+        points.push({ lat, lng: normalizeLongitude(lng) });
+      }
+    });
+    // Rings read from GeoJSON or KML repeat their first vertex at the end
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (kind === 'polygon' && points.length > 3 && first.lat === last.lat && first.lng === last.lng) {
+      points.pop();
+    }
+    if (FEATURE_KINDS.includes(kind) && points.length < MIN_FEATURE_POINTS[kind]) {
+      errors.push(`a ${kind} needs at least ${MIN_FEATURE_POINTS[kind]} point${MIN_FEATURE_POINTS[kind] === 1 ? '' : 's'}`);
+    }
+  }
+  if (kind === 'circle' && (radiusKm === undefined || !Number.isFinite(radiusKm) || radiusKm <= 0)) {
+    errors.push('radiusKm must be a positive number');
+  }
+  if (raw.contested !== undefined && typeof raw.contested !== 'boolean') errors.push('contested must be true or false');
+  FEATURE_STRING_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') errors.push(`${field} must be a string`);
+  });
+  TIMESTAMP_FIELDS.forEach(field => {
+    if (typeof raw[field] === 'string' && Number.isNaN(Date.parse(raw[field] as string))) {
+      errors.push(`${field} is not a valid timestamp`);
+    }
+  });
+
+  if (errors.length > 0) return { errors };
+
+  const feature: MapFeature = {
+    id: (id as string | undefined) || generateFeatureId(),
+    kind,
+    title: title as string,
+    description: typeof raw.description === 'string' ? raw.description.trim() : '',
+    // Circles only use their centre
+    points: kind === 'circle' ? points.slice(0, 1) : points
+  };
+  if (kind === 'circle') feature.radiusKm = radiusKm;
+  if (kind === 'polygon' && raw.contested === true) feature.contested = true;
+  FEATURE_STRING_FIELDS.forEach(field => {
+    const value = raw[field];
+    if (typeof value === 'string' && value.trim() !== '') feature[field] = value.trim();
+  });
+
+  return { feature, errors };
+};
+
+/**
+ * Validate a list of map feature records, dropping invalid ones and duplicate ids
+ */
+export const validateFeatures = (
+  records: unknown[],
+  options: ValidatePOIOptions = {}
+): { features: MapFeature[]; errors: RecordError[] } => {
+  const { values, errors } = validateRecords(records, record => {
+    const { feature, errors: messages } = validateFeature(record, options);
+    return { value: feature, errors: messages };
+  }, 'feature');
+  return { features: values, errors };
+};
+
+/**
+ * Validate and normalise a single check-in record
+ */
+export const validateCheckIn = (record: unknown): CheckInValidationResult => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: ['record is not an object'] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const author = typeof raw.author === 'string' ? raw.author.trim() : raw.author;
+
+  if (typeof raw.id !== 'string' || !raw.id.trim()) errors.push('id is required');
+  if (typeof raw.poiId !== 'string' || !raw.poiId.trim()) errors.push('poiId is required');
+  if (!CHECK_IN_STATUSES.includes(raw.status as CheckInStatus)) {
+    errors.push(`unknown status "${String(raw.status)}" (expected ${CHECK_IN_STATUSES.join(', ')})`);
+  }
+  if (typeof author !== 'string' || !author) errors.push('author is required');
+  if (raw.note !== undefined && typeof raw.note !== 'string') errors.push('note must be a string');
+  if (typeof raw.checkedInAt !== 'string' || Number.isNaN(Date.parse(raw.checkedInAt))) {
+    errors.push('checkedInAt is not a valid timestamp');
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const checkIn: CheckIn = {
+    id: (raw.id as string).trim(),
+    poiId: (raw.poiId as string).trim(),
+    status: raw.status as CheckInStatus,
+    author: author as string,
+    checkedInAt: raw.checkedInAt as string
+  };
+  if (typeof raw.note === 'string' && raw.note.trim() !== '') checkIn.note = raw.note.trim();
+
+  return { checkIn, errors };
+};
+
+/**
+ * Validate a list of check-in records, dropping invalid ones and duplicate ids
+ */
+export const validateCheckIns = (records: unknown[]): { checkIns: CheckIn[]; errors: RecordError[] } => {
+  const { values, errors } = validateRecords(records, record => {
+    const { checkIn, errors: messages } = validateCheckIn(record);
+    return { value: checkIn, errors: messages };
+  }, 'checkIn');
+  return { checkIns: values, errors };
+};
+
+/**
+ * Validate and normalise a user profile.
+ * Returns the cleaned user, or the list of problems with the profile.
+ */
+export const validateUser = (record: unknown): UserValidationResult => {
+  const errors: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: ['record is not an object'] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const handle = typeof raw.handle === 'string' ? raw.handle.trim().replace(/^@/, '') : raw.handle;
+  const displayName = typeof raw.displayName === 'string' ? raw.displayName.trim() : raw.displayName;
+
+  if (typeof handle !== 'string' || !HANDLE_PATTERN.test(handle)) {
+    errors.push('handle must be 2-32 letters, digits, underscores or hyphens');
+  }
+  if (displayName !== undefined && typeof displayName !== 'string') errors.push('displayName must be a string');
+  if (raw.avatarUrl !== undefined && typeof raw.avatarUrl !== 'string') errors.push('avatarUrl must be a string');
+  if (!USER_ROLES.includes(raw.role as UserRole)) {
+    errors.push(`unknown role "${String(raw.role)}" (expected ${USER_ROLES.join(', ')})`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const user: User = {
+    handle: handle as string,
+    displayName: (displayName as string | undefined) || (handle as string),
+    role: raw.role as UserRole
+  };
+  if (typeof raw.avatarUrl === 'string' && raw.avatarUrl.trim() !== '') user.avatarUrl = raw.avatarUrl.trim();
+
+  return { user, errors };
+};
+
+/**
+ * Validate a faction record
+ */
+const isFaction = (value: unknown): value is Faction => {
+  const faction = value as Faction | null;
+  return !!faction && typeof faction.id === 'string' && typeof faction.name === 'string' && typeof faction.color === 'string';
+};
+
+/**
+ * Validate a POI collection that has already been migrated to the current version
+ */
+export const validatePOICollection = (data: unknown): CollectionValidationResult => {
+  const doc = data as Partial<POICollection> | null;
+  if (!doc || typeof doc !== 'object' || !Array.isArray(doc.pois)) {
+    throw new Error('Invalid POI data format: expected an object with a pois array');
+  }
+
+  const { pois, errors } = validatePOIs(doc.pois);
+  const { features, errors: featureErrors } = validateFeatures(Array.isArray(doc.features) ? doc.features : []);
+
+  return {
+    collection: {
+      pois,
+      features,
+      factions: Array.isArray(doc.factions) ? doc.factions.filter(isFaction) : [],
+      version: typeof doc.version === 'string' ? doc.version : '',
+      lastUpdated: typeof doc.lastUpdated === 'string' ? doc.lastUpdated : ''
+    },
+    errors: [...errors, ...featureErrors]
+  };
+};
@@ -0,0 +1,22 @@
+/**
+ * Register the service worker in public/service-worker.js, which caches the app shell
+ * and textures so the globe loads offline. Only production builds register it -
+ * in development it would serve stale bundles over the dev server.
+ */
+export const register = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch(err => console.error('Error registering service worker:', err));
+  });
+};
+
+export const unregister = () => {
+  if (!('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.ready
+    .then(registration => registration.unregister())
+    .catch(err => console.error('Error unregistering service worker:', err));
+};
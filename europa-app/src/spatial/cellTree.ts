@@ -0,0 +1,191 @@
+import { Direction, angleBetweenDirections, dot } from '../geodesy';
+import { Cell, MAX_LEVEL, cellCentre, cellKeyRange, childCells, faceCells, leafKey } from './cells';
+
+/**
+ * Static index of points on the sphere, built on the cube-face cell hierarchy.
+ * Works on unit vectors and returns indices into the input.
+ */
+export interface CellTree {
+  size: number;
+  // Indices of every point within `angle` radians of the query direction, in no particular order
+  withinAngle: (x: number, y: number, z: number, angle: number) => number[];
+  // Index of the nearest point, or -1 when the tree is empty.
+  // `hint` is an index likely to be close (e.g. the previous query's result),
+  // which tightens the initial search bound.
+  nearest: (x: number, y: number, z: number, hint?: number) => number;
+}
+
+// Cells with this many points or fewer are not split further
+const LEAF_SIZE = 8;
+
+// Slack on the cell bounds so rounding never prunes a cell with a point on the boundary
+const BOUND_EPSILON = 1e-12;
+
+/**
+ * Build a cell tree over directions given as an [x, y, z, x, y, z, ...] array.
+ * The directions are normalised, so near-unit input (e.g. a Float32Array) is fine.
+ */
+export const buildCellTree = (points: ArrayLike<number>): CellTree => {
+  const size = Math.floor(points.length / 3);
+  const directions: Direction[] = [];
+  const keys = new Float64Array(size);
+  for (let index = 0; index < size; index++) {
+    const x = points[index * 3];
+    const y = points[index * 3 + 1];
+    const z = points[index * 3 + 2];
+    const length = Math.sqrt(x * x + y * y + z * z) || 1;
+    directions.push([x / length, y / length, z / length]);
+    keys[index] = leafKey(x, y, z);
+  }
+
+  const order = Int32Array.from({ length: size }, (_, index) => index).sort((a, b) => keys[a] - keys[b]);
+
+  // Squared straight-line distance, which orders points like the angle does and stays precise up close
+  const chordSq = (index: number, x: number, y: number, z: number) => {
+    const [px, py, pz] = directions[index];
+    const dx = px - x;
+    const dy = py - y;
+    const dz = pz - z;
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  // Cells with points under them, breadth first so each cell's children sit next to each other.
+  // Node 0 stands for the whole sphere, with the faces as its children.
+  const cells: Array<{ cell: Cell | null; lo: number; hi: number }> = [{ cell: null, lo: 0, hi: size }];
+  const firstChild: number[] = [];
+  const childCount: number[] = [];
+
+  // Children cover consecutive key ranges, so each takes the next run of the sorted order
+  const splitRange = (children: Cell[], lo: number, hi: number) => {
+    let start = lo;
+    children.forEach(child => {
+      const end = cellKeyRange(child)[1];
+      let stop = start;
+      while (stop < hi && keys[order[stop]] < end) stop++;
+      if (stop > start) cells.push({ cell: child, lo: start, hi: stop });
+      start = stop;
+    });
+  };
+
+  for (let node = 0; node < cells.length; node++) {
+    const { cell, lo, hi } = cells[node];
+    firstChild.push(cells.length);
+    if (!cell) splitRange(faceCells(), lo, hi);
+    else if (hi - lo > LEAF_SIZE && cell.level < MAX_LEVEL) splitRange(childCells(cell), lo, hi);
+    childCount.push(cells.length - firstChild[node]);
+  }
+
+  // Bounding cap of each cell: its centre, and the angle to the furthest point under it
+  const nodeCount = cells.length;
+  const centres: Direction[] = cells.map(() => [0, 0, 1]);
+  const radii = new Float64Array(nodeCount).fill(Math.PI);
+  const cosRadii = new Float64Array(nodeCount).fill(-1);
+  const sinRadii = new Float64Array(nodeCount);
+  cells.forEach(({ cell, lo, hi }, node) => {
+    if (!cell) return;
+    const centre = cellCentre(cell);
+    let radius = 0;
+    for (let k = lo; k < hi; k++) radius = Math.max(radius, angleBetweenDirections(directions[order[k]], centre));
+    centres[node] = centre;
+    radii[node] = radius;
+    cosRadii[node] = Math.cos(radius);
+    sinRadii[node] = Math.sin(radius);
+  });
+
+  // Every node is pushed at most once per search
+  const stack = new Int32Array(nodeCount);
+
+  const withinAngle = (x: number, y: number, z: number, angle: number) => {
+    const found: number[] = [];
+    const length = Math.sqrt(x * x + y * y + z * z) || 1;
+    const query: Direction = [x / length, y / length, z / length];
+
+    let top = 0;
+    stack[top++] = 0;
+    while (top > 0) {
+      const node = stack[--top];
+      const { lo, hi } = cells[node];
+      const d = node === 0 ? 0 : angleBetweenDirections(centres[node], query);
+      if (d - radii[node] > angle + BOUND_EPSILON) continue;
+
+      if (d + radii[node] < angle - BOUND_EPSILON) {
+        // The whole cell is inside the query cap
+        for (let k = lo; k < hi; k++) found.push(order[k]);
+      } else if (childCount[node] === 0) {
+        for (let k = lo; k < hi; k++) {
+          if (angleBetweenDirections(directions[order[k]], query) <= angle) found.push(order[k]);
+        }
+      } else {
+        for (let child = firstChild[node]; child < firstChild[node] + childCount[node]; child++) stack[top++] = child;
+      }
+    }
+    return found;
+  };
+
+  const nearest = (x: number, y: number, z: number, hint: number = -1) => {
+    if (size === 0) return -1;
+    const length = Math.sqrt(x * x + y * y + z * z) || 1;
+    const query: Direction = [x / length, y / length, z / length];
+    const [qx, qy, qz] = query;
+
+    // Compare points by chord length and only work out the angle when the best improves.
+    // A chord c subtends 2·asin(c/2), whose cosine is 1 - c²/2.
+    let best = hint >= 0 && hint < size ? hint : order[0];
+    let bestChordSq = chordSq(best, qx, qy, qz);
+    let bestAngle = 0;
+    let cosBest = 1;
+    let sinBest = 0;
+    const improve = () => {
+      const chord = Math.sqrt(bestChordSq);
+      bestAngle = 2 * Math.asin(Math.min(1, chord / 2));
+      cosBest = 1 - bestChordSq / 2;
+      sinBest = chord * Math.sqrt(Math.max(0, 1 - bestChordSq / 4));
+    };
+    improve();
+
+    let top = 0;
+    stack[top++] = 0;
+    while (top > 0) {
+      const node = stack[--top];
+
+      // Skip cells whose points are all further than the best so far: the centre lies
+      // beyond best + radius, i.e. its dot product is below cos(best + radius)
+      if (bestAngle + radii[node] < Math.PI) {
+        if (dot(centres[node], query) < cosBest * cosRadii[node] - sinBest * sinRadii[node] - BOUND_EPSILON) continue;
+      }
+
+      const count = childCount[node];
+      if (count === 0) {
+        const { lo, hi } = cells[node];
+        for (let k = lo; k < hi; k++) {
+          const distanceSq = chordSq(order[k], qx, qy, qz);
+          if (distanceSq < bestChordSq) {
+            best = order[k];
+            bestChordSq = distanceSq;
+            improve();
+          }
+        }
+        continue;
+      }
+
+      // Push the nearest child last so it is searched first
+      const first = firstChild[node];
+      let nearestChild = first;
+      let nearestDot = -Infinity;
+      for (let child = first; child < first + count; child++) {
+        const childDot = dot(centres[child], query);
+        if (childDot > nearestDot) {
+          nearestDot = childDot;
+          nearestChild = child;
+        }
+      }
+      for (let child = first; child < first + count; child++) {
+        if (child !== nearestChild) stack[top++] = child;
+      }
+      stack[top++] = nearestChild;
+    }
+    return best;
+  };
+
+  return { size, withinAngle, nearest };
+};
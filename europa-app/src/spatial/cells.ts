@@ -0,0 +1,116 @@
+/*
+ * Cube-face cell hierarchy, in the spirit of S2.
+ *
+ * The sphere is projected onto the six faces of a cube, and each face is split
+ * into a quadtree: a cell at level `l` covers 1/4^l of its face. Face coordinates
+ * go through a tangent warp so cells near a face's corners are not much smaller
+ * than those at its centre. Cell edges are great circles.
+ *
+ * Every point gets a leaf key at MAX_LEVEL - its face, then its cell's (i, j) bits
+ * interleaved in Z-order - so the points under any cell form one contiguous run
+ * of the key-sorted order.
+ */
+
+import { Direction, dot } from '../geodesy';
+
+// Deepest level of the hierarchy: cells about 75 m across on Europa
+export const MAX_LEVEL = 15;
+
+// Keys of one face span 4^MAX_LEVEL values
+const FACE_KEYS = 2 ** (2 * MAX_LEVEL);
+
+// Outward normal and the (u, v) axes of each face: +x, +y, +z, -x, -y, -z
+const FACES: Array<{ normal: Direction; u: Direction; v: Direction }> = [
+  { normal: [1, 0, 0], u: [0, 0, 1], v: [0, 1, 0] },
+  { normal: [0, 1, 0], u: [0, 0, 1], v: [-1, 0, 0] },
+  { normal: [0, 0, 1], u: [-1, 0, 0], v: [0, 1, 0] },
+  { normal: [-1, 0, 0], u: [0, 0, -1], v: [0, 1, 0] },
+  { normal: [0, -1, 0], u: [0, 0, 1], v: [1, 0, 0] },
+  { normal: [0, 0, -1], u: [1, 0, 0], v: [0, 1, 0] }
+];
+
+// Face coordinate (-1..1 on the cube) to cell coordinate (0..1 across the face), and back
+const uvToST = (u: number) => 0.5 + (2 / Math.PI) * Math.atan(u);
+const stToUV = (s: number) => Math.tan((Math.PI / 2) * (s - 0.5));
+
+/**
+ * Face a direction projects onto: the one whose normal is closest
+ */
+export const faceOf = (x: number, y: number, z: number): number => {
+  const ax = Math.abs(x);
+  const ay = Math.abs(y);
+  const az = Math.abs(z);
+  if (ax >= ay && ax >= az) return x >= 0 ? 0 : 3;
+  if (ay >= az) return y >= 0 ? 1 : 4;
+  return z >= 0 ? 2 : 5;
+};
+
+// Spread the low 16 bits of n out to the even bit positions
+const spreadBits = (n: number) => {
+  let x = n & 0xffff;
+  x = (x | (x << 8)) & 0x00ff00ff;
+  x = (x | (x << 4)) & 0x0f0f0f0f;
+  x = (x | (x << 2)) & 0x33333333;
+  x = (x | (x << 1)) & 0x55555555;
+  return x;
+};
+
+/**
+ * Leaf cell key of a direction (need not be normalised)
+ */
+export const leafKey = (x: number, y: number, z: number): number => {
+  const face = faceOf(x, y, z);
+  const { normal, u, v } = FACES[face];
+  const p = [x, y, z];
+  const depth = dot(p, normal);
+  const cells = 2 ** MAX_LEVEL;
+  const i = Math.min(cells - 1, Math.floor(uvToST(dot(p, u) / depth) * cells));
+  const j = Math.min(cells - 1, Math.floor(uvToST(dot(p, v) / depth) * cells));
+  return face * FACE_KEYS + (spreadBits(i) | (spreadBits(j) << 1));
+};
+
+/**
+ * A cell in the hierarchy, addressed by its face, level and position on that level's grid
+ */
+export interface Cell {
+  face: number;
+  level: number;
+  i: number;
+  j: number;
+}
+
+/**
+ * The four cells one level down, in key order
+ */
+export const childCells = ({ face, level, i, j }: Cell): Cell[] =>
+  [0, 1, 2, 3].map(child => ({ face, level: level + 1, i: i * 2 + (child & 1), j: j * 2 + (child >> 1) }));
+
+/**
+ * Range [first, end) of leaf keys inside a cell
+ */
+export const cellKeyRange = ({ face, level, i, j }: Cell): [number, number] => {
+  const span = 4 ** (MAX_LEVEL - level);
+  const first = face * FACE_KEYS + (spreadBits(i) | (spreadBits(j) << 1)) * span;
+  return [first, first + span];
+};
+
+/**
+ * Unit direction at the centre of a cell
+ */
+export const cellCentre = ({ face, level, i, j }: Cell): Direction => {
+  const { normal, u, v } = FACES[face];
+  const cells = 2 ** level;
+  const cu = stToUV((i + 0.5) / cells);
+  const cv = stToUV((j + 0.5) / cells);
+  const x = normal[0] + cu * u[0] + cv * v[0];
+  const y = normal[1] + cu * u[1] + cv * v[1];
+  const z = normal[2] + cu * u[2] + cv * v[2];
+  const length = Math.hypot(x, y, z);
+  return [x / length, y / length, z / length];
+};
+
+/**
+ * The six level-0 cells covering the sphere
+ */
+export const faceCells = (): Cell[] =>
+  FACES.map((_, face) => ({ face, level: 0, i: 0, j: 0 }));
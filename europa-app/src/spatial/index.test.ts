@@ -0,0 +1,103 @@
+import fc from 'fast-check';
+import { EUROPA_RADIUS_KM, destinationPoint, distanceKm, sphericalPolygonContains } from '../geodesy';
+import { buildCellTree, createSpatialIndex } from '.';
+
+const latArb = fc.double({ min: -90, max: 90, noNaN: true });
+const lngArb = fc.double({ min: -180, max: 180, noNaN: true });
+
+// Points spread over the sphere, with some piled near the poles and the antimeridian
+const pointArb = fc.oneof(
+  fc.record({ lat: latArb, lng: lngArb }),
+  fc.record({ lat: fc.double({ min: 85, max: 90, noNaN: true }), lng: lngArb }),
+  fc.record({ lat: latArb, lng: fc.double({ min: 179, max: 180, noNaN: true }) })
+);
+
+const itemsArb = fc.array(pointArb, { maxLength: 300 })
+  .map(points => points.map((point, index) => ({ ...point, id: `p${index}` })));
+
+const ids = (items: Array<{ id: string }>) => items.map(item => item.id);
+
+describe('createSpatialIndex', () => {
+  it('finds the same items within a radius as a linear scan', () => {
+    fc.assert(fc.property(itemsArb, pointArb, fc.double({ min: 0, max: 6000, noNaN: true }), (items, centre, km) => {
+      const index = createSpatialIndex(items);
+      const expected = items.filter(item => distanceKm(centre, item) <= km);
+      expect(ids(index.queryRadius(centre.lat, centre.lng, km))).toEqual(ids(expected));
+    }), { numRuns: 200 });
+  });
+
+  it('finds the same items inside a polygon as a linear scan', () => {
+    const ringArb = fc.record({
+      centre: pointArb,
+      radii: fc.array(fc.double({ min: 10, max: 2000, noNaN: true }), { minLength: 3, maxLength: 12 })
+    }).map(({ centre, radii }) =>
+      // A star-shaped ring around the centre, which may be concave
+      radii.map((km, i) => destinationPoint(centre, (i * 360) / radii.length, km))
+    );
+
+    fc.assert(fc.property(itemsArb, ringArb, (items, ring) => {
+      const index = createSpatialIndex(items);
+      const expected = items.filter(item => sphericalPolygonContains(ring, item));
+      expect(ids(index.queryPolygon(ring))).toEqual(ids(expected));
+    }), { numRuns: 200 });
+  });
+
+  it('finds the nearest item', () => {
+    fc.assert(fc.property(itemsArb, pointArb, (items, target) => {
+      fc.pre(items.length > 0);
+      const nearest = createSpatialIndex(items).nearest(target.lat, target.lng);
+      const best = Math.min(...items.map(item => distanceKm(target, item)));
+      expect(distanceKm(target, nearest!)).toBeCloseTo(best, 6);
+    }), { numRuns: 200 });
+  });
+
+  it('lists the same nearest items as sorting by distance', () => {
+    fc.assert(fc.property(itemsArb, pointArb, fc.integer({ min: 0, max: 20 }), (items, target, count) => {
+      const found = createSpatialIndex(items).queryNearest(target.lat, target.lng, count);
+      const expected = [...items]
+        .sort((a, b) => distanceKm(target, a) - distanceKm(target, b))
+        .slice(0, count);
+      expect(found).toHaveLength(expected.length);
+      // Compare distances so ties between equally distant items don't matter
+      found.forEach((item, i) => expect(distanceKm(target, item)).toBeCloseTo(distanceKm(target, expected[i]), 6));
+    }), { numRuns: 200 });
+  });
+
+  it('answers radius queries on other spheres', () => {
+    const items = [{ lat: 0, lng: 0 }, { lat: 0, lng: 1 }, { lat: 0, lng: 3 }];
+    // One degree on the unit sphere
+    expect(createSpatialIndex(items, 1).queryRadius(0, 0, Math.PI / 180 + 1e-9)).toEqual(items.slice(0, 2));
+    expect(createSpatialIndex(items).queryRadius(0, 0, EUROPA_RADIUS_KM * Math.PI / 90)).toEqual(items.slice(0, 2));
+  });
+
+  it('handles an empty index and degenerate queries', () => {
+    const index = createSpatialIndex([{ lat: 10, lng: 10 }]);
+    expect(createSpatialIndex([]).queryRadius(0, 0, 1e4)).toEqual([]);
+    expect(createSpatialIndex([]).nearest(0, 0)).toBeUndefined();
+    expect(index.queryRadius(10, 10, -1)).toEqual([]);
+    expect(index.queryRadius(10, 10, 0)).toEqual([{ lat: 10, lng: 10 }]);
+    expect(index.queryPolygon([{ lat: 0, lng: 0 }, { lat: 20, lng: 20 }])).toEqual([]);
+  });
+
+  it('scans every item for a ring balanced around the sphere', () => {
+    const items = [{ lat: 80, lng: 0 }, { lat: -80, lng: 0 }, { lat: 30, lng: 150 }, { lat: -30, lng: -30 }];
+    const zigzag = [0, 60, 120, 180, -120, -60].map((lng, i) => ({ lat: i % 2 === 0 ? 10 : -10, lng }));
+    expect(createSpatialIndex(items).queryPolygon(zigzag)).toEqual([items[0], items[2]]);
+    expect(createSpatialIndex(items).queryPolygon([...zigzag].reverse())).toEqual([items[1], items[3]]);
+  });
+});
+
+describe('buildCellTree', () => {
+  it('stays exact for thousands of coincident and clustered points', () => {
+    const points: number[] = [];
+    for (let i = 0; i < 2000; i++) points.push(0.6, 0.8, 0);
+    for (let i = 0; i < 2000; i++) points.push(Math.cos(i * 1e-7), 0, Math.sin(i * 1e-7));
+    const tree = buildCellTree(points);
+
+    expect(tree.withinAngle(0.6, 0.8, 0, 0)).toHaveLength(2000);
+    // Points 1e-7 radians apart: the first 1001 lie within 1e-4
+    expect(tree.withinAngle(1, 0, 0, 1e-4 + 5e-8)).toHaveLength(1001);
+    expect(tree.nearest(0.6, 0.8, 0.001)).toBeLessThan(2000);
+    expect(tree.nearest(1, 0, 1e-5)).toBe(2100);
+  });
+});
@@ -0,0 +1,78 @@
+import { Direction, EUROPA_RADIUS_KM, LatLng, angleBetweenDirections, directionFromRadians, sphericalPolygonContains, toRadians } from '../geodesy';
+import { buildCellTree } from './cellTree';
+
+export { buildCellTree } from './cellTree';
+export type { CellTree } from './cellTree';
+
+/**
+ * "What's near here" queries over anything with a position on the surface.
+ * Results come back in the order the items were given.
+ */
+export interface SpatialIndex<T extends LatLng> {
+  size: number;
+  // Items within `km` of a point along the surface
+  queryRadius: (lat: number, lng: number, km: number) => T[];
+  // Items inside a polygon with great-circle edges (see sphericalPolygonContains)
+  queryPolygon: (ring: LatLng[]) => T[];
+  // The item nearest a point, or undefined when the index is empty
+  nearest: (lat: number, lng: number) => T | undefined;
+  // Up to `count` items nearest a point, nearest first
+  queryNearest: (lat: number, lng: number, count: number) => T[];
+}
+
+const toDirection = ({ lat, lng }: LatLng) => directionFromRadians(toRadians(lat), toRadians(lng));
+
+/**
+ * Index items on a sphere of the given radius (Europa's by default)
+ */
+export const createSpatialIndex = <T extends LatLng>(items: T[], radius: number = EUROPA_RADIUS_KM): SpatialIndex<T> => {
+  const tree = buildCellTree(items.flatMap(toDirection));
+  const pick = (indices: number[]) => indices.sort((a, b) => a - b).map(index => items[index]);
+
+  const queryRadius = (lat: number, lng: number, km: number) =>
+    km < 0 ? [] : pick(tree.withinAngle(...toDirection({ lat, lng }), km / radius));
+
+  const queryPolygon = (ring: LatLng[]) => {
+    if (ring.length < 3) return [];
+
+    // A cap around the centre that reaches every vertex holds the whole polygon, as long as it is
+    // smaller than a hemisphere and so convex. A ring balanced around the sphere has no centre,
+    // so every item is tested
+    const vertices = ring.map(toDirection);
+    const sum = vertices.reduce((total, v) => [total[0] + v[0], total[1] + v[1], total[2] + v[2]], [0, 0, 0]);
+    const length = Math.hypot(sum[0], sum[1], sum[2]);
+    if (length < 1e-12) return items.filter(item => sphericalPolygonContains(ring, item));
+    const centre: Direction = [sum[0] / length, sum[1] / length, sum[2] / length];
+    const reach = Math.max(...vertices.map(vertex => angleBetweenDirections(centre, vertex)));
+
+    return pick(tree.withinAngle(...centre, reach < Math.PI / 2 ? reach : Math.PI)).filter(item => sphericalPolygonContains(ring, item));
+  };
+
+  const nearest = (lat: number, lng: number) => {
+    const index = tree.nearest(...toDirection({ lat, lng }));
+    return index < 0 ? undefined : items[index];
+  };
+
+  const queryNearest = (lat: number, lng: number, count: number) => {
+    const wanted = Math.min(Math.floor(count), items.length);
+    if (wanted <= 0) return [];
+    const direction = toDirection({ lat, lng });
+    const angleTo = (index: number) => angleBetweenDirections(direction, toDirection(items[index]));
+
+    // Widen a cap from the nearest item until it holds enough; everything outside it is further away
+    let angle = Math.max(1e-6, angleTo(tree.nearest(...direction)) * 2);
+    let found = tree.withinAngle(...direction, angle);
+    while (found.length < wanted && angle < Math.PI) {
+      angle = Math.min(Math.PI, angle * 2);
+      found = tree.withinAngle(...direction, angle);
+    }
+
+    return found
+      .map(index => ({ index, angle: angleTo(index) }))
+      .sort((a, b) => a.angle - b.angle || a.index - b.index)
+      .slice(0, wanted)
+      .map(({ index }) => items[index]);
+  };
+
+  return { size: items.length, queryRadius, queryPolygon, nearest, queryNearest };
+};
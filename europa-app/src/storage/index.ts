@@ -0,0 +1,48 @@
+import { createLocalPOIStorage } from './localPOIStorage';
+import { createRestPOIStorage } from './restPOIStorage';
+import { createOfflinePOIStorage } from './offlinePOIStorage';
+import { createLocalReportStorage } from './localReportStorage';
+import { createRestReportStorage } from './restReportStorage';
+import { POIStorageAdapter, ReportStorageAdapter } from './types';
+
+export { createLocalPOIStorage } from './localPOIStorage';
+export { createRestPOIStorage } from './restPOIStorage';
+export { createLocalReportStorage } from './localReportStorage';
+export { createRestReportStorage } from './restReportStorage';
+export { createLocalAnnotationStorage } from './localAnnotationStorage';
+export { createOfflinePOIStorage, isUnreachable } from './offlinePOIStorage';
+export { changeKey, diffRecords } from './syncQueue';
+export { mergeLayer } from './layer';
+export type { FieldDifference } from './syncQueue';
+export { emptyStoredState, isSyncingStorage, normalizeStoredState } from './types';
+export type {
+  AnnotationStorageAdapter,
+  PendingChange,
+  POIStorageAdapter,
+  ReportStorageAdapter,
+  StoredPOIState,
+  SyncCollection,
+  SyncConflict,
+  SyncingPOIStorage,
+  SyncRecord,
+  SyncRejection,
+  SyncState
+} from './types';
+
+/**
+ * Pick the storage backend from the environment.
+ * Set REACT_APP_POI_API_URL to use the API server (see server/), with changes queued while it is unreachable,
+ * otherwise POIs are kept in localStorage.
+ */
+export const createDefaultPOIStorage = (): POIStorageAdapter => {
+  const apiUrl = process.env.REACT_APP_POI_API_URL;
+  return apiUrl ? createOfflinePOIStorage(createRestPOIStorage(apiUrl)) : createLocalPOIStorage();
+};
+
+/**
+ * Reports live on the same API server as POIs when REACT_APP_POI_API_URL is set, otherwise in localStorage
+ */
+export const createDefaultReportStorage = (): ReportStorageAdapter => {
+  const apiUrl = process.env.REACT_APP_POI_API_URL;
+  return apiUrl ? createRestReportStorage(apiUrl) : createLocalReportStorage();
+};
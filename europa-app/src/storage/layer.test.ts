@@ -0,0 +1,36 @@
+import { mergeLayer } from './layer';
+import { poi } from '../testing/fixtures';
+
+describe('mergeLayer', () => {
+  const seed = [poi('a'), poi('b'), poi('c')];
+
+  it('returns the seed when the user layer is empty', () => {
+    expect(mergeLayer(seed, [], [])).toEqual(seed);
+  });
+
+  it('replaces seed records with user edits in place', () => {
+    const merged = mergeLayer(seed, [poi('b', { title: 'edited' })], []);
+    expect(merged.map(record => record.title)).toEqual(['a', 'edited', 'c']);
+  });
+
+  it('appends records added by users after the seed', () => {
+    const merged = mergeLayer(seed, [poi('new-2'), poi('new-1')], []);
+    expect(merged.map(record => record.id)).toEqual(['a', 'b', 'c', 'new-2', 'new-1']);
+  });
+
+  it('drops tombstoned seed and user records', () => {
+    const merged = mergeLayer(seed, [poi('new'), poi('a', { title: 'edited' })], ['a', 'new']);
+    expect(merged.map(record => record.id)).toEqual(['b', 'c']);
+  });
+
+  it('ignores tombstones for ids that are not present', () => {
+    expect(mergeLayer(seed, [], ['missing'])).toEqual(seed);
+  });
+
+  it('does not modify its inputs', () => {
+    const stored = [poi('a', { title: 'edited' }), poi('new')];
+    mergeLayer(seed, stored, ['b']);
+    expect(seed.map(record => record.title)).toEqual(['a', 'b', 'c']);
+    expect(stored).toHaveLength(2);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Apply a stored user layer (edits, additions and tombstones) on top of the seed records.
+ * Stored records replace seed records with the same id, keeping the seed order;
+ * records added by users follow in stored order.
+ */
+export const mergeLayer = <T extends { id: string }>(seed: T[], stored: T[], deletedIds: string[]): T[] => {
+  const deleted = new Set(deletedIds);
+  const overrides = new Map(stored.map(record => [record.id, record]));
+
+  const merged = seed
+    .filter(record => !deleted.has(record.id))
+    .map(record => overrides.get(record.id) || record);
+
+  const seedIds = new Set(seed.map(record => record.id));
+  stored.forEach(record => {
+    if (!seedIds.has(record.id) && !deleted.has(record.id)) {
+      merged.push(record);
+    }
+  });
+
+  return merged;
+};
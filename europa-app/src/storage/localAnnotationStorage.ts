@@ -0,0 +1,52 @@
+import { MeasurementAnnotation } from '../types';
+import { AnnotationStorageAdapter } from './types';
+
+export const DEFAULT_ANNOTATION_STORAGE_KEY = 'europa-map:annotations';
+
+/**
+ * Stores measurement annotations as a JSON array in localStorage,
+ * with an in-memory fallback when localStorage is unavailable.
+ */
+export const createLocalAnnotationStorage = (
+  storageKey: string = DEFAULT_ANNOTATION_STORAGE_KEY
+): AnnotationStorageAdapter => {
+  let memoryAnnotations: MeasurementAnnotation[] | null = null;
+
+  const read = (): MeasurementAnnotation[] => {
+    if (memoryAnnotations) return memoryAnnotations;
+
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      const parsed = raw ? JSON.parse(raw) : [];
+      memoryAnnotations = Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      console.error('Error reading stored annotations:', err);
+      memoryAnnotations = [];
+    }
+
+    return memoryAnnotations;
+  };
+
+  const write = (annotations: MeasurementAnnotation[]) => {
+    memoryAnnotations = annotations;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(annotations));
+    } catch (err) {
+      console.error('Error writing stored annotations:', err);
+    }
+  };
+
+  return {
+    name: 'localStorage',
+
+    load: async () => read(),
+
+    saveAnnotation: async (annotation: MeasurementAnnotation) => {
+      write([...read().filter(a => a.id !== annotation.id), annotation]);
+    },
+
+    deleteAnnotation: async (id: string) => {
+      write(read().filter(a => a.id !== id));
+    }
+  };
+};
@@ -0,0 +1,74 @@
+import { DEFAULT_STORAGE_KEY, createLocalPOIStorage } from './localPOIStorage';
+import { checkIn, feature, poi } from '../testing/fixtures';
+
+describe('createLocalPOIStorage', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('loads an empty layer when nothing is stored', async () => {
+    const state = await createLocalPOIStorage().load();
+    expect(state).toMatchObject({ pois: [], deletedIds: [], features: [], deletedFeatureIds: [], checkIns: [] });
+  });
+
+  it('round-trips saved records through localStorage', async () => {
+    const storage = createLocalPOIStorage();
+    await storage.savePOI(poi('a'));
+    await storage.savePOI(poi('b'));
+    await storage.savePOI(poi('a', { title: 'edited' }));
+    await storage.saveFeature(feature('f'));
+    await storage.saveCheckIn(checkIn('c'));
+
+    // A fresh adapter reads the same document back
+    const state = await createLocalPOIStorage().load();
+    expect(state.pois).toEqual([poi('b'), poi('a', { title: 'edited' })]);
+    expect(state.features).toEqual([feature('f')]);
+    expect(state.checkIns).toEqual([checkIn('c')]);
+    expect(JSON.parse(window.localStorage.getItem(DEFAULT_STORAGE_KEY) || '{}').pois).toHaveLength(2);
+  });
+
+  it('tombstones deletes and clears the tombstone when the record is saved again', async () => {
+    const storage = createLocalPOIStorage();
+    await storage.savePOI(poi('a'));
+    await storage.deletePOI('a');
+    await storage.deletePOI('a');
+    await storage.deleteFeature('f');
+    await storage.deleteCheckIn('missing');
+
+    let state = await storage.load();
+    expect(state.pois).toEqual([]);
+    expect(state.deletedIds).toEqual(['a']);
+    expect(state.deletedFeatureIds).toEqual(['f']);
+
+    await storage.savePOI(poi('a'));
+    state = await storage.load();
+    expect(state.pois).toEqual([poi('a')]);
+    expect(state.deletedIds).toEqual([]);
+  });
+
+  it('keeps separate layers under separate keys', async () => {
+    await createLocalPOIStorage('one').savePOI(poi('a'));
+    expect((await createLocalPOIStorage('two').load()).pois).toEqual([]);
+  });
+
+  it('fills in lists missing from documents written by older versions', async () => {
+    window.localStorage.setItem(DEFAULT_STORAGE_KEY, JSON.stringify({ pois: [poi('a')], deletedIds: [], version: '1.0.0' }));
+    const state = await createLocalPOIStorage().load();
+    expect(state.pois).toEqual([poi('a')]);
+    expect(state.features).toEqual([]);
+    expect(state.checkIns).toEqual([]);
+  });
+
+  it('keeps working in memory when localStorage rejects writes', async () => {
+    const storage = createLocalPOIStorage();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await storage.savePOI(poi('a'));
+      expect((await storage.load()).pois).toEqual([poi('a')]);
+    } finally {
+      setItem.mockRestore();
+      consoleError.mockRestore();
+    }
+  });
+});
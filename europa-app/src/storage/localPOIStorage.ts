@@ -0,0 +1,94 @@
+import { CheckIn, MapFeature, POI } from '../types';
+import { POIStorageAdapter, StoredPOIState, emptyStoredState, normalizeStoredState } from './types';
+
+export const DEFAULT_STORAGE_KEY = 'europa-map:pois';
+
+/**
+ * Stores the user POI layer as a single JSON document in localStorage.
+ * Falls back to an in-memory copy when localStorage is unavailable
+ * (private browsing, quota exceeded) so the session keeps working.
+ * Reads go back to localStorage each time so changes made in other tabs are not overwritten.
+ */
+export const createLocalPOIStorage = (storageKey: string = DEFAULT_STORAGE_KEY): POIStorageAdapter => {
+  let memoryState: StoredPOIState | null = null;
+  let memoryOnly = false; // Set once localStorage has failed, after which the memory copy is newer
+
+  const read = (): StoredPOIState => {
+    if (memoryOnly && memoryState) return memoryState;
+
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      if (raw) {
+        memoryState = normalizeStoredState(JSON.parse(raw) as Partial<StoredPOIState>);
+        return memoryState;
+      }
+    } catch (err) {
+      console.error('Error reading stored POIs:', err);
+    }
+
+    memoryState = memoryState || emptyStoredState();
+    return memoryState;
+  };
+
+  const write = (state: StoredPOIState) => {
+    memoryState = { ...state, lastUpdated: new Date().toISOString() };
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(memoryState));
+    } catch (err) {
+      memoryOnly = true;
+      console.error('Error writing stored POIs:', err);
+    }
+  };
+
+  return {
+    name: 'localStorage',
+
+    load: async () => read(),
+
+    savePOI: async (poi: POI) => {
+      const state = read();
+      write({
+        ...state,
+        pois: [...state.pois.filter(p => p.id !== poi.id), poi],
+        deletedIds: state.deletedIds.filter(id => id !== poi.id)
+      });
+    },
+
+    deletePOI: async (id: string) => {
+      const state = read();
+      write({
+        ...state,
+        pois: state.pois.filter(p => p.id !== id),
+        deletedIds: state.deletedIds.includes(id) ? state.deletedIds : [...state.deletedIds, id]
+      });
+    },
+
+    saveFeature: async (feature: MapFeature) => {
+      const state = read();
+      write({
+        ...state,
+        features: [...state.features.filter(f => f.id !== feature.id), feature],
+        deletedFeatureIds: state.deletedFeatureIds.filter(id => id !== feature.id)
+      });
+    },
+
+    deleteFeature: async (id: string) => {
+      const state = read();
+      write({
+        ...state,
+        features: state.features.filter(f => f.id !== id),
+        deletedFeatureIds: state.deletedFeatureIds.includes(id) ? state.deletedFeatureIds : [...state.deletedFeatureIds, id]
+      });
+    },
+
+    saveCheckIn: async (checkIn: CheckIn) => {
+      const state = read();
+      write({ ...state, checkIns: [...state.checkIns.filter(c => c.id !== checkIn.id), checkIn] });
+    },
+
+    deleteCheckIn: async (id: string) => {
+      const state = read();
+      write({ ...state, checkIns: state.checkIns.filter(c => c.id !== id) });
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { ConflictReport } from '../types';
+import { ReportStorageAdapter } from './types';
+
+export const DEFAULT_REPORT_STORAGE_KEY = 'europa-map:reports';
+
+/**
+ * Stores conflict reports as a JSON array in localStorage,
+ * with an in-memory fallback when localStorage is unavailable.
+ * Re-reads localStorage on every access so reports filed in other tabs are kept.
+ */
+export const createLocalReportStorage = (storageKey: string = DEFAULT_REPORT_STORAGE_KEY): ReportStorageAdapter => {
+  let memoryReports: ConflictReport[] | null = null;
+  let memoryOnly = false; // Set once localStorage has failed, after which the memory copy is newer
+
+  const read = (): ConflictReport[] => {
+    if (memoryOnly && memoryReports) return memoryReports;
+
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      const parsed = raw ? JSON.parse(raw) : [];
+      memoryReports = Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+      console.error('Error reading stored reports:', err);
+      memoryReports = memoryReports || [];
+    }
+
+    return memoryReports;
+  };
+
+  const write = (reports: ConflictReport[]) => {
+    memoryReports = reports;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(reports));
+    } catch (err) {
+      memoryOnly = true;
+      console.error('Error writing stored reports:', err);
+    }
+  };
+
+  return {
+    name: 'localStorage',
+
+    load: async () => read(),
+
+    saveReport: async (report: ConflictReport) => {
+      write([...read().filter(r => r.id !== report.id), report]);
+    },
+
+    deleteReport: async (id: string) => {
+      write(read().filter(r => r.id !== id));
+    }
+  };
+};
@@ -0,0 +1,146 @@
+import { POI } from '../types';
+import { ApiError } from '../api';
+import { createOfflinePOIStorage } from './offlinePOIStorage';
+import { POIStorageAdapter, StoredPOIState, emptyStoredState } from './types';
+import { poi } from '../testing/fixtures';
+
+// In-memory server that can be taken offline
+const createFakeRemote = () => {
+  let state: StoredPOIState = emptyStoredState();
+  let online = true;
+  const refused = new Set<string>();
+  const reach = () => {
+    if (!online) throw new TypeError('Failed to fetch');
+  };
+  const remote: POIStorageAdapter = {
+    name: 'fake',
+    load: async () => { reach(); return state; },
+    savePOI: async record => {
+      reach();
+      if (refused.has(record.id)) throw new ApiError(422, 'API request failed: 422 Invalid POI');
+      state = { ...state, pois: [...state.pois.filter(p => p.id !== record.id), record] };
+    },
+    deletePOI: async id => { reach(); state = { ...state, pois: state.pois.filter(p => p.id !== id), deletedIds: [...state.deletedIds, id] }; },
+    saveFeature: async () => reach(),
+    deleteFeature: async () => reach(),
+    saveCheckIn: async () => reach(),
+    deleteCheckIn: async () => reach()
+  };
+  return {
+    remote,
+    setOnline: (value: boolean) => { online = value; },
+    refuse: (id: string) => { refused.add(id); },
+    serverPOIs: () => state.pois,
+    editOnServer: (record: POI) => { state = { ...state, pois: [...state.pois.filter(p => p.id !== record.id), record] }; }
+  };
+};
+
+describe('createOfflinePOIStorage', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('writes through while online', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    await storage.savePOI(poi('a'));
+
+    expect(server.serverPOIs()).toEqual([poi('a')]);
+    expect(storage.getSyncState().pending).toHaveLength(0);
+  });
+
+  it('queues writes while unreachable, shows them on load and replays them in order', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    server.setOnline(false);
+
+    await storage.savePOI(poi('a'));
+    await storage.savePOI(poi('b'));
+    await storage.deletePOI('a');
+    expect(storage.getSyncState()).toMatchObject({ isOnline: false, pending: [{ id: 'a' }, { id: 'b' }] });
+    expect((await storage.load()).pois.map(record => record.id)).toEqual(['b']);
+
+    server.setOnline(true);
+    const replayed = await storage.sync();
+    expect(replayed.map(change => change.id)).toEqual(['a', 'b']);
+    expect(server.serverPOIs().map(record => record.id)).toEqual(['b']);
+    expect(storage.getSyncState()).toMatchObject({ isOnline: true, pending: [], conflicts: [] });
+  });
+
+  it('keeps the queue across reloads', async () => {
+    const server = createFakeRemote();
+    server.setOnline(false);
+    await createOfflinePOIStorage(server.remote).savePOI(poi('a'));
+
+    expect(createOfflinePOIStorage(server.remote).getSyncState().pending.map(change => change.id)).toEqual(['a']);
+  });
+
+  it('holds back a change the server has since edited until it is resolved', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    await storage.savePOI(poi('a', { updatedAt: 't1' }));
+
+    server.setOnline(false);
+    await storage.savePOI(poi('a', { title: 'mine', updatedAt: 't2' }));
+    server.editOnServer(poi('a', { title: 'theirs', updatedAt: 't3' }));
+    server.setOnline(true);
+
+    expect(await storage.sync()).toEqual([]);
+    expect(storage.getSyncState().conflicts).toMatchObject([{ change: { id: 'a' }, server: { title: 'theirs' } }]);
+
+    expect(await storage.resolveConflict('pois', 'a', 'local')).toMatchObject({ title: 'mine' });
+    expect(server.serverPOIs()).toMatchObject([{ title: 'mine' }]);
+    expect(storage.getSyncState()).toMatchObject({ pending: [], conflicts: [] });
+  });
+
+  it('turns a write the server rejects as stale into a conflict', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    await storage.savePOI(poi('a', { updatedAt: 't1' }));
+    server.editOnServer(poi('a', { title: 'theirs', updatedAt: 't2' }));
+
+    const savePOI = server.remote.savePOI;
+    server.remote.savePOI = async () => { throw new ApiError(412, 'Record has changed'); };
+    await storage.savePOI(poi('a', { title: 'mine', updatedAt: 't3' }));
+    server.remote.savePOI = savePOI;
+
+    expect(storage.getSyncState()).toMatchObject({
+      isOnline: true,
+      pending: [{ id: 'a' }],
+      conflicts: [{ change: { id: 'a' }, server: { title: 'theirs' } }]
+    });
+  });
+
+  it('drops the local change when the server copy is kept', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    server.setOnline(false);
+    await storage.deletePOI('a');
+    server.editOnServer(poi('a', { title: 'theirs' }));
+    server.setOnline(true);
+    await storage.sync();
+
+    expect(await storage.resolveConflict('pois', 'a', 'server')).toMatchObject({ title: 'theirs' });
+    expect(storage.getSyncState().pending).toHaveLength(0);
+    expect(server.serverPOIs()).toMatchObject([{ title: 'theirs' }]);
+  });
+
+  it('sets aside a change the server refuses and sends the rest', async () => {
+    const server = createFakeRemote();
+    const storage = createOfflinePOIStorage(server.remote);
+    server.setOnline(false);
+    await storage.savePOI(poi('a'));
+    await storage.savePOI(poi('b'));
+    server.refuse('a');
+    server.setOnline(true);
+
+    expect((await storage.sync()).map(change => change.id)).toEqual(['b']);
+    expect(server.serverPOIs().map(record => record.id)).toEqual(['b']);
+    expect(storage.getSyncState()).toMatchObject({
+      pending: [],
+      rejected: [{ change: { id: 'a' }, reason: expect.stringContaining('422') }]
+    });
+    expect(createOfflinePOIStorage(server.remote).getSyncState().rejected).toHaveLength(1);
+
+    expect(storage.dismissRejection('pois', 'a')).toBeNull();
+    expect(storage.getSyncState().rejected).toHaveLength(0);
+  });
+});
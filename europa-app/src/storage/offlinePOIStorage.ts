@@ -0,0 +1,227 @@
+import { CheckIn, MapFeature, POI } from '../types';
+import {
+  PendingChange,
+  POIStorageAdapter,
+  StoredPOIState,
+  SyncCollection,
+  SyncConflict,
+  SyncingPOIStorage,
+  SyncRecord,
+  SyncRejection,
+  SyncState,
+  emptyStoredState,
+  normalizeStoredState
+} from './types';
+import { isVersionConflict } from '../api';
+import { applyChange, applyPendingChanges, changeKey, enqueueChange, findConflicts, serverRecord } from './syncQueue';
+
+export const DEFAULT_SYNC_QUEUE_KEY = 'europa-map:sync-queue';
+export const DEFAULT_SERVER_CACHE_KEY = 'europa-map:server-cache';
+export const DEFAULT_REJECTED_KEY = 'europa-map:sync-rejected';
+
+/**
+ * Whether a failed request means the server couldn't be reached, rather than that it refused the change.
+ * fetch rejects with a TypeError when there is no response at all.
+ */
+export const isUnreachable = (err: unknown) =>
+  err instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+const readJSON = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.error(`Error reading ${key}:`, err);
+    return fallback;
+  }
+};
+
+const writeJSON = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Error writing ${key}:`, err);
+  }
+};
+
+/**
+ * Wraps a server-backed adapter so the map keeps working without a connection.
+ * Writes that can't reach the server are queued in localStorage and replayed by `sync`,
+ * and the last layer loaded from the server is cached so the map can start offline.
+ * A queued change to a record someone else has since changed on the server is held back
+ * as a conflict until it is resolved, and one the server refuses outright is set aside as
+ * rejected so the changes queued behind it can still go out.
+ */
+export const createOfflinePOIStorage = (
+  remote: POIStorageAdapter,
+  { queueKey = DEFAULT_SYNC_QUEUE_KEY, cacheKey = DEFAULT_SERVER_CACHE_KEY, rejectedKey = DEFAULT_REJECTED_KEY } = {}
+): SyncingPOIStorage => {
+  let queue = readJSON<PendingChange[]>(queueKey, []);
+  let server = normalizeStoredState(readJSON<Partial<StoredPOIState>>(cacheKey, emptyStoredState()));
+  let conflicts: SyncConflict[] = [];
+  let rejected = readJSON<SyncRejection[]>(rejectedKey, []);
+  let isOnline = true;
+  let isSyncing = false;
+  const listeners = new Set<(state: SyncState) => void>();
+
+  const getSyncState = (): SyncState => ({ isOnline, isSyncing, pending: queue, conflicts, rejected });
+
+  const notify = () => {
+    const state = getSyncState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const saveQueue = (next: PendingChange[]) => {
+    queue = next;
+    writeJSON(queueKey, queue);
+  };
+
+  const saveRejected = (next: SyncRejection[]) => {
+    rejected = next;
+    writeJSON(rejectedKey, rejected);
+  };
+
+  const updateServer = (change: Pick<PendingChange, 'collection' | 'id' | 'record'>) => {
+    server = applyChange(server, change);
+    writeJSON(cacheKey, server);
+  };
+
+  const send = ({ collection, id, record }: Pick<PendingChange, 'collection' | 'id' | 'record'>): Promise<void> => {
+    switch (collection) {
+      case 'pois':
+        return record ? remote.savePOI(record as POI) : remote.deletePOI(id);
+      case 'features':
+        return record ? remote.saveFeature(record as MapFeature) : remote.deleteFeature(id);
+      case 'checkIns':
+        return record ? remote.saveCheckIn(record as CheckIn) : remote.deleteCheckIn(id);
+    }
+  };
+
+  // Send straight away when nothing is queued ahead, otherwise queue to keep the order of changes.
+  // A change the server rejects as stale (412) is queued too, and the next sync reports it as a conflict.
+  const write = async (collection: SyncCollection, id: string, record?: SyncRecord) => {
+    let stale = false;
+    if (queue.length === 0 && isOnline) {
+      try {
+        await send({ collection, id, record });
+        updateServer({ collection, id, record });
+        return;
+      } catch (err) {
+        stale = isVersionConflict(err);
+        if (!stale && !isUnreachable(err)) throw err;
+        if (!stale) isOnline = false;
+      }
+    }
+
+    const base = serverRecord(server, collection, id);
+    saveQueue(enqueueChange(queue, { collection, id, record, base, queuedAt: new Date().toISOString() }));
+    notify();
+    if (stale) await sync();
+  };
+
+  const sync = async (): Promise<PendingChange[]> => {
+    if (isSyncing || queue.length === 0) return [];
+    isSyncing = true;
+    notify();
+
+    const replayed: PendingChange[] = [];
+    const refused: SyncRejection[] = [];
+    try {
+      server = normalizeStoredState(await remote.load());
+      writeJSON(cacheKey, server);
+      isOnline = true;
+      conflicts = findConflicts(queue, server);
+
+      const held = new Set(conflicts.map(conflict => changeKey(conflict.change)));
+      for (const change of queue.filter(queued => !held.has(changeKey(queued)))) {
+        try {
+          await send(change);
+        } catch (err) {
+          // Stop when the server drops out. A stale write stays queued for the next sync to report as a conflict.
+          if (isUnreachable(err)) throw err;
+          if (!isVersionConflict(err)) refused.push({ change, reason: err instanceof Error ? err.message : String(err) });
+          continue;
+        }
+        updateServer(change);
+        replayed.push(change);
+      }
+    } catch (err) {
+      if (!isUnreachable(err)) console.error('Error replaying queued changes:', err);
+      else isOnline = false;
+    } finally {
+      const settled = new Set([...replayed, ...refused.map(({ change }) => change)]);
+      saveQueue(queue.filter(change => !settled.has(change)));
+      if (refused.length > 0) {
+        const keys = new Set(refused.map(({ change }) => changeKey(change)));
+        saveRejected([...rejected.filter(({ change }) => !keys.has(changeKey(change))), ...refused]);
+      }
+      isSyncing = false;
+      notify();
+    }
+    return replayed;
+  };
+
+  const resolveConflict = async (collection: SyncCollection, id: string, keep: 'local' | 'server') => {
+    const key = changeKey({ collection, id });
+    const conflict = conflicts.find(candidate => changeKey(candidate.change) === key);
+    if (!conflict) throw new Error(`No conflict for ${key}`);
+
+    conflicts = conflicts.filter(candidate => candidate !== conflict);
+    if (keep === 'server') {
+      saveQueue(queue.filter(change => changeKey(change) !== key));
+      notify();
+      return conflict.server;
+    }
+
+    // Keeping the local change: rebase it on the server's copy so it goes out with the next sync
+    saveQueue(queue.map(change => (changeKey(change) === key ? { ...change, base: conflict.server } : change)));
+    notify();
+    await sync();
+    return conflict.change.record || null;
+  };
+
+  const dismissRejection = (collection: SyncCollection, id: string) => {
+    const key = changeKey({ collection, id });
+    saveRejected(rejected.filter(({ change }) => changeKey(change) !== key));
+    notify();
+
+    // A later edit to the same record may still be queued
+    const queued = queue.find(change => changeKey(change) === key);
+    return queued ? queued.record || null : serverRecord(server, collection, id);
+  };
+
+  return {
+    name: `${remote.name} (offline-capable)`,
+
+    load: async () => {
+      try {
+        server = normalizeStoredState(await remote.load());
+        writeJSON(cacheKey, server);
+        isOnline = true;
+      } catch (err) {
+        if (!isUnreachable(err)) throw err;
+        isOnline = false;
+      }
+      notify();
+      return applyPendingChanges(server, queue);
+    },
+
+    savePOI: poi => write('pois', poi.id, poi),
+    deletePOI: id => write('pois', id),
+    saveFeature: feature => write('features', feature.id, feature),
+    deleteFeature: id => write('features', id),
+    saveCheckIn: checkIn => write('checkIns', checkIn.id, checkIn),
+    deleteCheckIn: id => write('checkIns', id),
+
+    getSyncState,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    sync,
+    resolveConflict,
+    dismissRejection
+  };
+};
@@ -0,0 +1,52 @@
+import { CheckIn, MapFeature, POI } from '../types';
+import { ApiCollection, ApiRecordTypes, createApiClient } from '../api';
+import { POIStorageAdapter, normalizeStoredState } from './types';
+
+/**
+ * Stores the user POI layer on the reference API server (server/openapi.json).
+ * Remembers the ETag of every record it has read or written and sends it with changes,
+ * so overwriting someone else's newer edit fails with a 412 instead of losing it.
+ */
+export const createRestPOIStorage = (baseUrl: string): POIStorageAdapter => {
+  const api = createApiClient(baseUrl);
+  const etags = new Map<string, string>();
+  const key = (collection: ApiCollection, id: string) => `${collection}:${id}`;
+
+  const loadAll = async <C extends ApiCollection>(collection: C): Promise<ApiRecordTypes[C][]> => {
+    const items = await api.listAll(collection);
+    items.forEach(({ record, etag }) => etags.set(key(collection, record.id), etag));
+    return items.map(({ record }) => record);
+  };
+
+  const save = async <C extends ApiCollection>(collection: C, record: ApiRecordTypes[C]) => {
+    const { etag } = await api.put(collection, record, etags.get(key(collection, record.id)));
+    etags.set(key(collection, record.id), etag);
+  };
+
+  const remove = async (collection: ApiCollection, id: string) => {
+    await api.remove(collection, id, etags.get(key(collection, id)));
+    etags.delete(key(collection, id));
+  };
+
+  return {
+    name: 'rest',
+
+    load: async () => {
+      const [pois, features, checkIns, deletedIds, deletedFeatureIds] = await Promise.all([
+        loadAll('pois'),
+        loadAll('features'),
+        loadAll('checkins'),
+        api.tombstones('pois'),
+        api.tombstones('features')
+      ]);
+      return normalizeStoredState({ pois, features, checkIns, deletedIds, deletedFeatureIds, lastUpdated: new Date().toISOString() });
+    },
+
+    savePOI: (poi: POI) => save('pois', poi),
+    deletePOI: (id: string) => remove('pois', id),
+    saveFeature: (feature: MapFeature) => save('features', feature),
+    deleteFeature: (id: string) => remove('features', id),
+    saveCheckIn: (checkIn: CheckIn) => save('checkins', checkIn),
+    deleteCheckIn: (id: string) => remove('checkins', id)
+  };
+};
@@ -0,0 +1,31 @@
+import { ConflictReport } from '../types';
+import { createApiClient } from '../api';
+import { ReportStorageAdapter } from './types';
+
+/**
+ * Stores conflict reports on the reference API server, sending the last seen ETag with every change
+ */
+export const createRestReportStorage = (baseUrl: string): ReportStorageAdapter => {
+  const api = createApiClient(baseUrl);
+  const etags = new Map<string, string>();
+
+  return {
+    name: 'rest',
+
+    load: async () => {
+      const items = await api.listAll('reports');
+      items.forEach(({ record, etag }) => etags.set(record.id, etag));
+      return items.map(({ record }) => record);
+    },
+
+    saveReport: async (report: ConflictReport) => {
+      const { etag } = await api.put('reports', report, etags.get(report.id));
+      etags.set(report.id, etag);
+    },
+
+    deleteReport: async (id: string) => {
+      await api.remove('reports', id, etags.get(id));
+      etags.delete(id);
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { POI } from '../types';
+import { applyPendingChanges, diffRecords, enqueueChange, findConflicts, sameVersion } from './syncQueue';
+import { PendingChange, emptyStoredState } from './types';
+import { poi } from '../testing/fixtures';
+
+const change = (id: string, record?: POI, base: POI | null = null): PendingChange =>
+  ({ collection: 'pois', id, record, base, queuedAt: '2026-01-01T00:00:00Z' });
+
+describe('enqueueChange', () => {
+  it('keeps one entry per record with the latest state and the first base', () => {
+    const base = poi('a');
+    let queue = enqueueChange([], change('a', poi('a', { title: 'first' }), base));
+    queue = enqueueChange(queue, change('b', poi('b')));
+    queue = enqueueChange(queue, change('a', undefined, poi('a', { title: 'first' })));
+
+    expect(queue.map(queued => queued.id)).toEqual(['a', 'b']);
+    expect(queue[0].record).toBeUndefined();
+    expect(queue[0].base).toBe(base);
+  });
+});
+
+describe('applyPendingChanges', () => {
+  it('upserts saved records and tombstones deleted ones', () => {
+    const state = { ...emptyStoredState(), pois: [poi('a'), poi('b')], deletedIds: ['c'] };
+    const result = applyPendingChanges(state, [change('a', poi('a', { title: 'edited' })), change('b'), change('c', poi('c'))]);
+
+    expect(result.pois.map(record => record.title)).toEqual(['edited', 'c']);
+    expect(result.deletedIds).toEqual(['b']);
+  });
+});
+
+describe('sameVersion', () => {
+  it('compares edit times when both have one, otherwise content', () => {
+    expect(sameVersion(poi('a', { updatedAt: 't1', title: 'x' }), poi('a', { updatedAt: 't1' }))).toBe(true);
+    expect(sameVersion(poi('a', { updatedAt: 't1' }), poi('a', { updatedAt: 't2' }))).toBe(false);
+    expect(sameVersion(poi('a', { title: 'x', lat: 1 }), { description: '', type: 'poi', lng: 0, lat: 1, title: 'x', id: 'a' })).toBe(true);
+    expect(sameVersion(null, null)).toBe(true);
+    expect(sameVersion(poi('a'), null)).toBe(false);
+  });
+});
+
+describe('findConflicts', () => {
+  it('flags changes whose record changed on the server since they were queued', () => {
+    const server = { ...emptyStoredState(), pois: [poi('a', { updatedAt: 't2' }), poi('b', { updatedAt: 't1' }), poi('new')] };
+    const queue = [
+      change('a', poi('a', { title: 'mine' }), poi('a', { updatedAt: 't1' })),
+      change('b', poi('b', { title: 'mine' }), poi('b', { updatedAt: 't1' })),
+      change('new', poi('new', { title: 'mine' })),
+      { ...change('gone'), collection: 'checkIns' as const }
+    ];
+
+    expect(findConflicts(queue, server).map(conflict => [conflict.change.id, conflict.server?.id])).toEqual([
+      ['a', 'a'],
+      ['new', 'new']
+    ]);
+  });
+});
+
+describe('diffRecords', () => {
+  it('lists the fields that differ, treating a deleted copy as empty', () => {
+    expect(diffRecords(poi('a', { title: 'mine', lat: 1 }), poi('a', { title: 'theirs', lat: 1, category: 'impact' }))).toEqual([
+      { field: 'title', local: 'mine', server: 'theirs' },
+      { field: 'category', local: undefined, server: 'impact' }
+    ]);
+    expect(diffRecords(undefined, poi('a')).map(difference => difference.field)).toEqual(['title', 'description', 'lat', 'lng', 'type']);
+  });
+});
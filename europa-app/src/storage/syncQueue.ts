@@ -0,0 +1,97 @@
+import { MapFeature, POI } from '../types';
+import { PendingChange, StoredPOIState, SyncCollection, SyncConflict, SyncRecord } from './types';
+
+// Tombstone list for each collection that has one
+const DELETED_KEYS: Partial<Record<SyncCollection, 'deletedIds' | 'deletedFeatureIds'>> = {
+  pois: 'deletedIds',
+  features: 'deletedFeatureIds'
+};
+
+export const changeKey = (change: { collection: SyncCollection; id: string }) => `${change.collection}:${change.id}`;
+
+/**
+ * The server's copy of a record in a stored layer, or null when it has none
+ */
+export const serverRecord = (state: StoredPOIState, collection: SyncCollection, id: string): SyncRecord | null =>
+  (state[collection] as SyncRecord[]).find(record => record.id === id) || null;
+
+/**
+ * Add a change to the queue. A record changed again while still queued keeps a single entry,
+ * with the latest state but the base it was first queued against.
+ */
+export const enqueueChange = (queue: PendingChange[], change: PendingChange): PendingChange[] => {
+  const existing = queue.find(queued => changeKey(queued) === changeKey(change));
+  if (!existing) return [...queue, change];
+  return queue.map(queued => (queued === existing ? { ...change, base: existing.base } : queued));
+};
+
+/**
+ * Write a change into a stored layer, as the server would
+ */
+export const applyChange = (state: StoredPOIState, change: Pick<PendingChange, 'collection' | 'id' | 'record'>): StoredPOIState => {
+  const { collection, id, record } = change;
+  const records = (state[collection] as SyncRecord[]).filter(existing => existing.id !== id);
+  const deletedKey = DELETED_KEYS[collection];
+  const next = { ...state, [collection]: record ? [...records, record] : records };
+
+  if (deletedKey) {
+    const deleted = state[deletedKey].filter(deletedId => deletedId !== id);
+    next[deletedKey] = record ? deleted : [...deleted, id];
+  }
+  return next as StoredPOIState;
+};
+
+/**
+ * Show queued changes on top of the server's layer
+ */
+export const applyPendingChanges = (state: StoredPOIState, queue: PendingChange[]): StoredPOIState =>
+  queue.reduce(applyChange, state);
+
+// Stable JSON, so key order doesn't make equal records differ
+const canonical = (value: unknown): string => JSON.stringify(value, (_, nested) =>
+  nested && typeof nested === 'object' && !Array.isArray(nested)
+    ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+    : nested
+);
+
+/**
+ * Whether two copies of a record are the same version - by edit time when both have one, otherwise by content
+ */
+export const sameVersion = (a: SyncRecord | null, b: SyncRecord | null): boolean => {
+  if (!a || !b) return a === b;
+  const aUpdated = (a as POI | MapFeature).updatedAt;
+  const bUpdated = (b as POI | MapFeature).updatedAt;
+  if (aUpdated && bUpdated) return aUpdated === bUpdated;
+  return canonical(a) === canonical(b);
+};
+
+/**
+ * Queued changes to records the server has changed since they were queued.
+ * Check-ins are never edited, so only POIs and features can conflict.
+ */
+export const findConflicts = (queue: PendingChange[], server: StoredPOIState): SyncConflict[] =>
+  queue
+    .filter(change => change.collection !== 'checkIns')
+    .map(change => ({ change, server: serverRecord(server, change.collection, change.id) }))
+    .filter(({ change, server: current }) => !sameVersion(change.base, current));
+
+// One field that differs between the local and server copies of a record
+export interface FieldDifference {
+  field: string;
+  local: unknown;
+  server: unknown;
+}
+
+/**
+ * Fields that differ between two copies of a record, for showing a conflict side by side.
+ * A missing copy (deleted) differs in every field the other has.
+ */
+export const diffRecords = (local: SyncRecord | null | undefined, server: SyncRecord | null | undefined): FieldDifference[] => {
+  const localFields = (local || {}) as Record<string, unknown>;
+  const serverFields = (server || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(localFields), ...Object.keys(serverFields)])).filter(field => field !== 'id');
+
+  return fields
+    .filter(field => canonical(localFields[field]) !== canonical(serverFields[field]))
+    .map(field => ({ field, local: localFields[field], server: serverFields[field] }));
+};
@@ -0,0 +1,137 @@
+import { CheckIn, ConflictReport, MapFeature, MeasurementAnnotation, POI } from '../types';
+
+/**
+ * User-side changes layered on top of the seed collection.
+ * `pois` holds POIs created or edited by users (edits to seed POIs are stored
+ * under the seed id), `deletedIds` holds tombstones for removed POIs.
+ * Map features are layered the same way through `features` and `deletedFeatureIds`.
+ * Safe zone check-ins are kept alongside in `checkIns`.
+ */
+export interface StoredPOIState {
+  pois: POI[];
+  deletedIds: string[];
+  features: MapFeature[];
+  deletedFeatureIds: string[];
+  checkIns: CheckIn[];
+  version: string;
+  lastUpdated: string;
+}
+
+/**
+ * Storage backend used by POIProvider to persist user changes.
+ * Implementations only need to store the user layer - the seed collection
+ * is always loaded from the static JSON file.
+ */
+export interface POIStorageAdapter {
+  readonly name: string;
+  load: () => Promise<StoredPOIState>;
+  savePOI: (poi: POI) => Promise<void>;
+  deletePOI: (id: string) => Promise<void>;
+  saveFeature: (feature: MapFeature) => Promise<void>;
+  deleteFeature: (id: string) => Promise<void>;
+  saveCheckIn: (checkIn: CheckIn) => Promise<void>;
+  deleteCheckIn: (id: string) => Promise<void>;
+}
+
+/**
+ * Storage backend used by ReportProvider.
+ */
+export interface ReportStorageAdapter {
+  readonly name: string;
+  load: () => Promise<ConflictReport[]>;
+  saveReport: (report: ConflictReport) => Promise<void>;
+  deleteReport: (id: string) => Promise<void>;
+}
+
+/**
+ * Storage backend used by AnnotationProvider for saved measurements.
+ */
+export interface AnnotationStorageAdapter {
+  readonly name: string;
+  load: () => Promise<MeasurementAnnotation[]>;
+  saveAnnotation: (annotation: MeasurementAnnotation) => Promise<void>;
+  deleteAnnotation: (id: string) => Promise<void>;
+}
+
+// Format version written with the user layer
+export const STORED_POI_VERSION = '1.0.0';
+
+/**
+ * Fill in any lists missing from a stored document (e.g. written before features existed)
+ */
+export const normalizeStoredState = (data: Partial<StoredPOIState>): StoredPOIState => ({
+  ...emptyStoredState(),
+  ...data,
+  pois: Array.isArray(data.pois) ? data.pois : [],
+  deletedIds: Array.isArray(data.deletedIds) ? data.deletedIds : [],
+  features: Array.isArray(data.features) ? data.features : [],
+  deletedFeatureIds: Array.isArray(data.deletedFeatureIds) ? data.deletedFeatureIds : [],
+  checkIns: Array.isArray(data.checkIns) ? data.checkIns : []
+});
+
+export const emptyStoredState = (version: string = STORED_POI_VERSION): StoredPOIState => ({
+  pois: [],
+  deletedIds: [],
+  features: [],
+  deletedFeatureIds: [],
+  checkIns: [],
+  version,
+  lastUpdated: new Date().toISOString()
+});
+
+// Collections of the user layer that changes can be queued for
+export type SyncCollection = 'pois' | 'features' | 'checkIns';
+
+export type SyncRecord = POI | MapFeature | CheckIn;
+
+/**
+ * A write waiting to reach the server.
+ * `record` is the new state (missing for a delete); `base` is the server's copy when the
+ * change was first queued (null when the server had none), used to spot conflicting edits.
+ */
+export interface PendingChange {
+  collection: SyncCollection;
+  id: string;
+  record?: SyncRecord;
+  base: SyncRecord | null;
+  queuedAt: string;
+}
+
+// A queued change whose record was changed on the server since it was queued
+export interface SyncConflict {
+  change: PendingChange;
+  server: SyncRecord | null; // The server's current copy (null = deleted or absent)
+}
+
+// A queued change the server refused outright (e.g. failed validation), taken off the queue
+export interface SyncRejection {
+  change: PendingChange;
+  reason: string;
+}
+
+export interface SyncState {
+  isOnline: boolean; // Whether the server answered the last request
+  isSyncing: boolean;
+  pending: PendingChange[]; // Oldest first, including conflicting changes
+  conflicts: SyncConflict[];
+  rejected: SyncRejection[]; // Kept until dismissed
+}
+
+/**
+ * POI storage that keeps working while its server is unreachable,
+ * queueing writes locally until they can be replayed
+ */
+export interface SyncingPOIStorage extends POIStorageAdapter {
+  getSyncState: () => SyncState;
+  subscribe: (listener: (state: SyncState) => void) => () => void;
+  // Replay queued changes that don't conflict, returning the ones that reached the server
+  sync: () => Promise<PendingChange[]>;
+  // Settle a conflict by sending the local change anyway or dropping it for the server's copy.
+  // Resolves with the record that now stands (null = deleted)
+  resolveConflict: (collection: SyncCollection, id: string, keep: 'local' | 'server') => Promise<SyncRecord | null>;
+  // Acknowledge a rejected change, returning the record that now stands (null = deleted)
+  dismissRejection: (collection: SyncCollection, id: string) => SyncRecord | null;
+}
+
+export const isSyncingStorage = (storage: POIStorageAdapter): storage is SyncingPOIStorage =>
+  'sync' in storage && 'resolveConflict' in storage && 'dismissRejection' in storage;
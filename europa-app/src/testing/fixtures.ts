@@ -0,0 +1,15 @@
+import { CheckIn, CheckInStatus, MapFeature, POI } from '../types';
+
+/*
+ * Minimal valid records for tests. Every field a test doesn't care about gets a plain default,
+ * and the title repeats the id so failures are easy to read.
+ */
+
+export const poi = (id: string, extra: Partial<POI> = {}): POI =>
+  ({ id, title: id, description: '', lat: 0, lng: 0, type: 'poi', ...extra });
+
+export const feature = (id: string, extra: Partial<MapFeature> = {}): MapFeature =>
+  ({ id, title: id, description: '', kind: 'polyline', points: [{ lat: 0, lng: 0 }, { lat: 1, lng: 1 }], ...extra });
+
+export const checkIn = (id: string, extra: Partial<CheckIn> = {}): CheckIn =>
+  ({ id, poiId: 'zone', status: CheckInStatus.OK, author: 'a', checkedInAt: '2026-01-01T00:00:00Z', ...extra });
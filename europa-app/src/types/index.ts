@@ -9,6 +9,40 @@ export interface POI {
   type: 'poi' | 'orientation' | 'pole' | 'custom';
   category?: string; // For grouping/filtering
   icon?: string; // For custom icons
+  createdAt?: string; // ISO 8601 timestamp the POI was added to the map
+  createdBy?: string; // Handle of the user who added it
+  updatedAt?: string; // ISO 8601 timestamp of the last edit
+  updatedBy?: string; // Handle of the user who last edited it
+  occurredAt?: string; // ISO 8601 timestamp of the event the POI represents
+  factionId?: string; // Faction controlling this POI's territory
+  safeZone?: boolean; // Participants can check in here
+  moderationStatus?: ModerationStatus; // Missing means approved (seed data and records from before review)
+  moderationLog?: ModerationEntry[]; // Review decisions, oldest first
+}
+
+// Review state of user submissions - pending items are shown ghosted, rejected ones are hidden
+export enum ModerationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export const ModerationStatusLabels: Record<ModerationStatus, string> = {
+  [ModerationStatus.PENDING]: 'Pending review',
+  [ModerationStatus.APPROVED]: 'Approved',
+  [ModerationStatus.REJECTED]: 'Rejected'
+};
+
+export type ModerationAction = 'submitted' | 'approved' | 'rejected' | 'merged';
+
+// One step in an item's review history
+export interface ModerationEntry {
+  action: ModerationAction;
+  by?: string; // Handle of the user who took the action
+  at: string; // ISO 8601 timestamp
+  reason?: string; // Why it was rejected or merged
+  mergedInto?: string; // Id of the item this duplicate was merged into
+  mergedFrom?: string; // Id of the duplicate merged into this item
 }
 
 // Marker category enum - maps internal values to human-readable names
@@ -33,9 +67,147 @@ export const MarkerCategoryLabels: Record<MarkerCategory, string> = {
   [MarkerCategory.USER]: 'User Marker'
 };
 
+// Faction data model - a group that can control territory
+export interface Faction {
+  id: string;
+  name: string;
+  color: string; // CSS colour used for territory and legend
+  emblem?: string; // Short symbol or image URL
+}
+
+// Kinds of shape that can be drawn on the map
+export type FeatureKind = 'polygon' | 'polyline' | 'circle';
+
+export const FeatureKindLabels: Record<FeatureKind, string> = {
+  polygon: 'Zone',
+  polyline: 'Line',
+  circle: 'Circle'
+};
+
+// Colour of features with neither their own colour nor a faction
+export const DEFAULT_FEATURE_COLOR = '#ff7043';
+
+// Map feature data model - an area, line or radius rather than a single point
+// Polygons (e.g. contested zones) list their ring without repeating the first vertex,
+// polylines (front lines, supply routes) their vertices in order, and circles
+// (blast radius) a single centre point plus radiusKm
+export interface MapFeature {
+  id: string;
+  kind: FeatureKind;
+  title: string;
+  description: string;
+  points: Array<{ lat: number; lng: number }>;
+  radiusKm?: number; // Circles only
+  contested?: boolean; // Polygons only: routes to safety steer around it
+  category?: string;
+  factionId?: string;
+  color?: string; // CSS colour, defaults to the faction's colour
+  createdAt?: string; // ISO 8601 timestamp the feature was added to the map
+  createdBy?: string; // Handle of the user who drew it
+  updatedAt?: string; // ISO 8601 timestamp of the last edit
+  updatedBy?: string; // Handle of the user who last edited it
+  occurredAt?: string; // ISO 8601 timestamp of the event the feature represents
+}
+
 // POI collection
 export interface POICollection {
   pois: POI[];
+  features?: MapFeature[];
+  factions?: Faction[];
   version: string;
   lastUpdated: string;
-} 
\ No newline at end of file
+} 
+
+// Severity levels for conflict reports
+export enum ReportSeverity {
+  LOW = 'low',
+  MODERATE = 'moderate',
+  HIGH = 'high',
+  CRITICAL = 'critical'
+}
+
+// Human-readable labels for report severities
+export const ReportSeverityLabels: Record<ReportSeverity, string> = {
+  [ReportSeverity.LOW]: 'Low',
+  [ReportSeverity.MODERATE]: 'Moderate',
+  [ReportSeverity.HIGH]: 'High',
+  [ReportSeverity.CRITICAL]: 'Critical'
+};
+
+// Conflict report data model
+// A report references either an existing POI (poiId) or a raw position (lat/lng)
+export interface ConflictReport {
+  id: string;
+  headline: string;
+  body: string;
+  reportedAt: string; // ISO 8601 timestamp
+  severity: ReportSeverity;
+  casualties?: number;
+  units?: string[]; // Units or factions involved
+  sourceUrls: string[];
+  author: string; // Author handle
+  poiId?: string;
+  lat?: number;
+  lng?: number;
+  createdAt?: string; // ISO 8601 timestamp the report was filed
+  createdBy?: string; // Handle of the user who filed it
+  updatedAt?: string; // ISO 8601 timestamp of the last edit
+  updatedBy?: string; // Handle of the user who last edited it
+  moderationStatus?: ModerationStatus; // Missing means approved
+  moderationLog?: ModerationEntry[]; // Review decisions, oldest first
+}
+
+// Status a participant posts when checking in at a safe zone
+export enum CheckInStatus {
+  OK = 'ok',
+  NEED_HELP = 'need_help',
+  MOVING = 'moving'
+}
+
+export const CheckInStatusLabels: Record<CheckInStatus, string> = {
+  [CheckInStatus.OK]: 'OK',
+  [CheckInStatus.NEED_HELP]: 'Need help',
+  [CheckInStatus.MOVING]: 'Moving'
+};
+
+// A participant's check-in at a safe zone POI
+export interface CheckIn {
+  id: string;
+  poiId: string;
+  status: CheckInStatus;
+  note?: string;
+  author: string; // Author handle
+  checkedInAt: string; // ISO 8601 timestamp
+}
+
+// What a user may do, from least to most trusted
+export enum UserRole {
+  VIEWER = 'viewer', // Browse the map and check in at safe zones
+  REPORTER = 'reporter', // Add markers, zones and reports, and edit their own
+  MODERATOR = 'moderator', // Edit and delete anyone's markers, zones and reports
+  ADMIN = 'admin' // Everything, including bulk imports
+}
+
+export const UserRoleLabels: Record<UserRole, string> = {
+  [UserRole.VIEWER]: 'Viewer',
+  [UserRole.REPORTER]: 'Reporter',
+  [UserRole.MODERATOR]: 'Moderator',
+  [UserRole.ADMIN]: 'Admin'
+};
+
+// Signed-in user - the handle is unique and is what records are stamped with
+export interface User {
+  handle: string;
+  displayName: string;
+  avatarUrl?: string;
+  role: UserRole;
+}
+
+// Saved measurement - a great-circle path, or a polygon when closed
+export interface MeasurementAnnotation {
+  id: string;
+  name: string;
+  points: Array<{ lat: number; lng: number }>;
+  closed: boolean;
+  createdAt: string; // ISO 8601 timestamp
+}
@@ -0,0 +1,54 @@
+import { CheckIn, CheckInStatus } from '../types';
+import { currentCheckIns, isCheckInExpired, summarizeCheckIns } from './checkIns';
+
+const NOW = Date.parse('2025-04-20T12:00:00Z');
+const HOUR = 3600000;
+
+const checkIn = (id: string, author: string, poiId: string, hoursAgo: number, status = CheckInStatus.OK): CheckIn => ({
+  id,
+  poiId,
+  status,
+  author,
+  checkedInAt: new Date(NOW - hoursAgo * HOUR).toISOString()
+});
+
+describe('check-ins', () => {
+  it('expires check-ins after the time to live', () => {
+    expect(isCheckInExpired(checkIn('a', 'scout', 'camp', 11), NOW, 12)).toBe(false);
+    expect(isCheckInExpired(checkIn('a', 'scout', 'camp', 13), NOW, 12)).toBe(true);
+  });
+
+  it('counts only the newest check-in per participant', () => {
+    const current = currentCheckIns([
+      checkIn('old', 'scout', 'camp', 3),
+      checkIn('new', 'scout', 'depot', 1),
+      checkIn('other', 'medic', 'camp', 2),
+      checkIn('stale', 'pilot', 'camp', 20),
+      checkIn('future', 'medic', 'depot', -1)
+    ], NOW, 12);
+
+    expect(current.map(c => c.id)).toEqual(['new', 'other']);
+  });
+
+  it('drops participants whose newest check-in has expired', () => {
+    expect(currentCheckIns([checkIn('old', 'scout', 'camp', 1), checkIn('new', 'scout', 'camp', 0)], NOW + 13 * HOUR, 12))
+      .toEqual([]);
+  });
+
+  it('summarises counts and latest statuses per safe zone', () => {
+    const summaries = summarizeCheckIns([
+      checkIn('a', 'scout', 'camp', 3, CheckInStatus.NEED_HELP),
+      checkIn('b', 'medic', 'camp', 1, CheckInStatus.OK),
+      checkIn('c', 'pilot', 'depot', 2, CheckInStatus.MOVING)
+    ], NOW, 12);
+
+    expect(summaries.get('camp')).toEqual({
+      poiId: 'camp',
+      count: 2,
+      statusCounts: { ok: 1, need_help: 1, moving: 0 },
+      latest: [expect.objectContaining({ id: 'b' }), expect.objectContaining({ id: 'a' })]
+    });
+    expect(summaries.get('depot')?.count).toBe(1);
+    expect(summaries.has('elsewhere')).toBe(false);
+  });
+});
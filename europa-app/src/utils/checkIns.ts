@@ -0,0 +1,66 @@
+import { CheckIn, CheckInStatus } from '../types';
+
+// Check-ins older than this no longer count towards a safe zone, and are pruned from storage
+export const CHECK_IN_TTL_HOURS = 12;
+
+// Newest of a safe zone's check-ins kept for display
+const LATEST_LIMIT = 5;
+
+export interface CheckInSummary {
+  poiId: string;
+  count: number; // Participants currently checked in
+  statusCounts: Record<CheckInStatus, number>;
+  latest: CheckIn[]; // Newest first
+}
+
+const checkInTime = (checkIn: CheckIn) => Date.parse(checkIn.checkedInAt);
+
+export const isCheckInExpired = (checkIn: CheckIn, now: number, ttlHours: number = CHECK_IN_TTL_HOURS): boolean =>
+  now - checkInTime(checkIn) > ttlHours * 3600000;
+
+/**
+ * Check-ins that still count at `now`: each participant's newest check-in, as long as it hasn't expired.
+ * Checking in again - here or at another safe zone - replaces a participant's earlier check-in.
+ */
+export const currentCheckIns = (checkIns: CheckIn[], now: number, ttlHours: number = CHECK_IN_TTL_HOURS): CheckIn[] => {
+  const newestByAuthor = new Map<string, CheckIn>();
+  checkIns.forEach(checkIn => {
+    if (checkInTime(checkIn) > now) return;
+    const newest = newestByAuthor.get(checkIn.author);
+    if (!newest || checkInTime(checkIn) > checkInTime(newest)) newestByAuthor.set(checkIn.author, checkIn);
+  });
+
+  return Array.from(newestByAuthor.values())
+    .filter(checkIn => !isCheckInExpired(checkIn, now, ttlHours))
+    .sort((a, b) => checkInTime(b) - checkInTime(a));
+};
+
+/**
+ * Live counts and latest statuses per safe zone
+ */
+export const summarizeCheckIns = (
+  checkIns: CheckIn[],
+  now: number,
+  ttlHours: number = CHECK_IN_TTL_HOURS
+): Map<string, CheckInSummary> => {
+  const summaries = new Map<string, CheckInSummary>();
+
+  currentCheckIns(checkIns, now, ttlHours).forEach(checkIn => {
+    let summary = summaries.get(checkIn.poiId);
+    if (!summary) {
+      summary = {
+        poiId: checkIn.poiId,
+        count: 0,
+        statusCounts: { [CheckInStatus.OK]: 0, [CheckInStatus.NEED_HELP]: 0, [CheckInStatus.MOVING]: 0 },
+        latest: []
+      };
+      summaries.set(checkIn.poiId, summary);
+    }
+    summary.count += 1;
+    summary.statusCounts[checkIn.status] += 1;
+    // Already newest first
+    if (summary.latest.length < LATEST_LIMIT) summary.latest.push(checkIn);
+  });
+
+  return summaries;
+};
@@ -0,0 +1,76 @@
+import fc from 'fast-check';
+import { centralAngle } from '../geodesy';
+import { clusterPoints, fitDistance, screenAngle, UNCATEGORIZED } from './clustering';
+
+const pointArb = fc.record({
+  lat: fc.double({ min: -90, max: 90, noNaN: true }),
+  lng: fc.oneof(fc.double({ min: -180, max: 180, noNaN: true }), fc.double({ min: 179, max: 180, noNaN: true })),
+  category: fc.constantFrom('terrain', 'impact', undefined)
+});
+
+const pointsArb = fc.array(pointArb, { maxLength: 60 })
+  .map(points => points.map((point, index) => ({ ...point, id: `p${index}` })));
+
+describe('clustering', () => {
+  it('partitions the points into clusters whose seeds are more than the clustering angle apart', () => {
+    fc.assert(fc.property(pointsArb, fc.double({ min: 0, max: 1.5, noNaN: true }), (points, maxAngle) => {
+      const clusters = clusterPoints(points, maxAngle);
+
+      // Every point lands in exactly one cluster
+      const ids = clusters.flatMap(cluster => cluster.members.map(member => member.id));
+      expect(ids.sort()).toEqual(points.map(point => point.id).sort());
+
+      clusters.forEach(cluster => {
+        const [seed, ...rest] = cluster.members;
+        expect(cluster.id).toBe(`cluster:${seed.id}`);
+        rest.forEach(member => expect(centralAngle(seed, member)).toBeLessThanOrEqual(maxAngle + 1e-9));
+        // The spread reaches every member from the centroid
+        cluster.members.forEach(member => expect(centralAngle(cluster, member)).toBeLessThanOrEqual(cluster.spread + 1e-9));
+        expect(Object.values(cluster.categories).reduce((sum, count) => sum + count, 0)).toBe(cluster.members.length);
+      });
+
+      // A later seed would have been claimed by an earlier one had it been close enough
+      clusters.forEach((a, i) => clusters.slice(i + 1).forEach(b => {
+        expect(centralAngle(a.members[0], b.members[0])).toBeGreaterThan(maxAngle - 1e-9);
+      }));
+    }), { numRuns: 100 });
+  });
+
+  it('clusters across the antimeridian and around the poles', () => {
+    const clusters = clusterPoints([
+      { id: 'east', lat: 10, lng: 179.9 },
+      { id: 'west', lat: 10, lng: -179.9 },
+      { id: 'pole-a', lat: 89.9, lng: 0, category: 'terrain' },
+      { id: 'pole-b', lat: 89.9, lng: 180, category: 'terrain' }
+    ], 0.01);
+
+    expect(clusters.map(cluster => cluster.members.map(member => member.id))).toEqual([
+      ['east', 'west'],
+      ['pole-a', 'pole-b']
+    ]);
+    expect(Math.abs(clusters[0].lng)).toBeCloseTo(180);
+    expect(clusters[0].categories).toEqual({ [UNCATEGORIZED]: 2 });
+    expect(clusters[1].lat).toBeCloseTo(90);
+  });
+
+  it('keeps every point separate at a zero angle', () => {
+    const points = [{ id: 'a', lat: 0, lng: 0 }, { id: 'b', lat: 0, lng: 0 }];
+    expect(clusterPoints(points, 0)).toHaveLength(2);
+  });
+
+  it('shrinks the clustering angle as the camera closes in', () => {
+    const far = screenAngle(40, 4, 45, 800);
+    const near = screenAngle(40, 2, 45, 800);
+    expect(near).toBeCloseTo(far / 3);
+    expect(screenAngle(40, 1, 45, 800)).toBe(0);
+  });
+
+  it('fits wider clusters from further away', () => {
+    const tight = fitDistance(0.05, 45, 1.5);
+    const wide = fitDistance(0.5, 45, 1.5);
+    expect(wide).toBeGreaterThan(tight);
+    expect(tight).toBeGreaterThan(1);
+    // A narrow viewport needs more distance for the same cluster
+    expect(fitDistance(0.5, 45, 0.5)).toBeGreaterThan(wide);
+  });
+});
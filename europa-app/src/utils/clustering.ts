@@ -0,0 +1,99 @@
+import { Direction, angleBetweenDirections, directionFromRadians, toDegrees, toRadians } from '../geodesy';
+import { buildCellTree } from '../spatial';
+
+export interface ClusterPoint {
+  id: string;
+  lat: number;
+  lng: number;
+  category?: string;
+}
+
+export interface Cluster<T extends ClusterPoint> {
+  id: string; // Stable while the cluster keeps the same seed
+  members: T[]; // The seed comes first
+  lat: number; // Centroid of the members
+  lng: number;
+  spread: number; // Angle in radians from the centroid to the furthest member
+  categories: Record<string, number>; // Member count per category
+}
+
+// Category counted for members without one
+export const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * Greedily group points that lie within `maxAngle` radians of each other along the surface.
+ * Points are taken in order: each one not yet claimed seeds a cluster and claims every unclaimed
+ * point within `maxAngle` of it, so list the points that should stay visible first.
+ * Seeds end up more than `maxAngle` apart, and a lone point forms a cluster of one.
+ *
+ * Neighbours come from the spatial cell index, so the antimeridian and poles need no
+ * special handling and a few thousand points cluster in a few milliseconds.
+ */
+export const clusterPoints = <T extends ClusterPoint>(points: T[], maxAngle: number): Cluster<T>[] => {
+  const directions = points.map(point => directionFromRadians(toRadians(point.lat), toRadians(point.lng)));
+  const tree = buildCellTree(directions.flat());
+  const claimed = new Uint8Array(points.length);
+  const clusters: Cluster<T>[] = [];
+
+  points.forEach((seed, seedIndex) => {
+    if (claimed[seedIndex]) return;
+    claimed[seedIndex] = 1;
+
+    const memberIndices = [seedIndex];
+    if (maxAngle > 0) {
+      tree.withinAngle(...directions[seedIndex], maxAngle)
+        .filter(index => !claimed[index])
+        .sort((a, b) => a - b)
+        .forEach(index => {
+          claimed[index] = 1;
+          memberIndices.push(index);
+        });
+    }
+
+    // Centroid of the member directions, pushed back out to the surface
+    const sum = [0, 0, 0];
+    memberIndices.forEach(index => {
+      directions[index].forEach((value, axis) => { sum[axis] += value; });
+    });
+    const length = Math.hypot(sum[0], sum[1], sum[2]);
+    const centre: Direction = length > 1e-12 ? [sum[0] / length, sum[1] / length, sum[2] / length] : directions[seedIndex];
+
+    let spread = 0;
+    const categories: Record<string, number> = {};
+    memberIndices.forEach(index => {
+      spread = Math.max(spread, angleBetweenDirections(directions[index], centre));
+      const category = points[index].category || UNCATEGORIZED;
+      categories[category] = (categories[category] || 0) + 1;
+    });
+
+    clusters.push({
+      id: `cluster:${seed.id}`,
+      members: memberIndices.map(index => points[index]),
+      lat: toDegrees(Math.asin(Math.min(1, Math.max(-1, centre[1])))),
+      lng: toDegrees(Math.atan2(centre[2], centre[0])),
+      spread,
+      categories
+    });
+  });
+
+  return clusters;
+};
+
+/**
+ * Surface angle in radians covered by `pixels` on screen, at the point of the unit sphere
+ * nearest a perspective camera `distance` from its centre
+ */
+export const screenAngle = (pixels: number, distance: number, fovDegrees: number, viewportHeight: number): number => {
+  const worldPerPixel = (2 * Math.max(0, distance - 1) * Math.tan(toRadians(fovDegrees) / 2)) / Math.max(1, viewportHeight);
+  return pixels * worldPerPixel;
+};
+
+/**
+ * Camera distance from the centre of the unit sphere at which a cap of angular radius `spread`,
+ * seen face on, fills `fill` of the narrower field of view
+ */
+export const fitDistance = (spread: number, fovDegrees: number, aspect: number, fill = 0.8): number => {
+  const halfFov = Math.atan(Math.tan(toRadians(fovDegrees) / 2) * Math.min(1, aspect)) * fill;
+  const angle = Math.min(Math.PI / 2, spread);
+  return Math.cos(angle) + Math.sin(angle) / Math.tan(halfFov);
+};
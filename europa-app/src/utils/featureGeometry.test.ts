@@ -0,0 +1,78 @@
+import fc from 'fast-check';
+import * as THREE from 'three';
+import { destinationPoint, distanceKm, sphericalPolygonAreaKm2, vectorToLatLong } from '../geodesy';
+import { circleRing, dragHandle, drapePolygon, measureFeature, removeVertex } from './featureGeometry';
+
+const centerArb = fc.record({
+  lat: fc.double({ min: -80, max: 80, noNaN: true }),
+  lng: fc.double({ min: -180, max: 180, noNaN: true })
+});
+
+// Star-shaped rings around a centre: sorted bearings with random radii, so never self-intersecting
+const ringArb = fc.tuple(
+  centerArb,
+  fc.array(fc.double({ min: 50, max: 800, noNaN: true }), { minLength: 3, maxLength: 12 })
+).map(([center, radii]) => radii.map((radius, index) => destinationPoint(center, (index / radii.length) * 360, radius)));
+
+describe('feature geometry', () => {
+  it('places circle vertices at the radius from the centre', () => {
+    fc.assert(fc.property(centerArb, fc.double({ min: 1, max: 1000, noNaN: true }), (center, radiusKm) => {
+      circleRing(center, radiusKm, 16).forEach(point => {
+        expect(distanceKm(center, point)).toBeCloseTo(radiusKm, 6);
+      });
+    }));
+  });
+
+  it('measures circles as spherical caps', () => {
+    fc.assert(fc.property(centerArb, fc.double({ min: 10, max: 2000, noNaN: true }), (center, radiusKm) => {
+      const { areaKm2 } = measureFeature({ kind: 'circle', points: [center], radiusKm });
+      const ringArea = sphericalPolygonAreaKm2(circleRing(center, radiusKm, 512));
+      expect(Math.abs(areaKm2! - ringArea)).toBeLessThan(areaKm2! * 1e-3);
+    }), { numRuns: 50 });
+  });
+
+  it('drapes polygons with triangles covering the same spherical area', () => {
+    fc.assert(fc.property(ringArb, ring => {
+      const positions = drapePolygon(ring);
+      expect(positions).not.toBeNull();
+
+      let area = 0;
+      for (let i = 0; i < positions!.length; i += 9) {
+        const triangle = [0, 3, 6].map(offset => {
+          const { lat, long } = vectorToLatLong(new THREE.Vector3().fromArray(positions!, i + offset));
+          return { lat, lng: long };
+        });
+        area += sphericalPolygonAreaKm2(triangle);
+      }
+      const expected = sphericalPolygonAreaKm2(ring);
+      expect(Math.abs(area - expected)).toBeLessThan(expected * 1e-6 + 1e-3);
+    }), { numRuns: 50 });
+  });
+
+  it('faces draped triangles away from the centre of the sphere', () => {
+    const positions = drapePolygon([{ lat: 0, lng: 0 }, { lat: 0, lng: 20 }, { lat: 20, lng: 10 }])!;
+    for (let i = 0; i < positions.length; i += 9) {
+      const [a, b, c] = [0, 3, 6].map(offset => new THREE.Vector3().fromArray(positions, i + offset));
+      const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+      expect(normal.dot(a)).toBeGreaterThan(0);
+    }
+  });
+
+  it('inserts a vertex when an edge midpoint is dragged, then keeps moving it', () => {
+    const line = { kind: 'polyline' as const, points: [{ lat: 0, lng: 0 }, { lat: 0, lng: 10 }] };
+    const first = dragHandle(line, { type: 'insert', index: 0 }, { lat: 1, lng: 5 });
+    const second = dragHandle(first.geometry, first.handle, { lat: 2, lng: 5 });
+
+    expect(second.geometry.points).toEqual([{ lat: 0, lng: 0 }, { lat: 2, lng: 5 }, { lat: 0, lng: 10 }]);
+  });
+
+  it('keeps polygons at three or more vertices', () => {
+    const triangle = { kind: 'polygon' as const, points: [{ lat: 0, lng: 0 }, { lat: 0, lng: 10 }, { lat: 10, lng: 5 }] };
+    expect(removeVertex(triangle, 0)).toBeNull();
+    expect(removeVertex({ ...triangle, points: [...triangle.points, { lat: 5, lng: -5 }] }, 0)?.points).toHaveLength(3);
+  });
+
+  it('refuses rings larger than a hemisphere', () => {
+    expect(drapePolygon([{ lat: 0, lng: 0 }, { lat: 0, lng: 120 }, { lat: 0, lng: -120 }])).toBeNull();
+  });
+});
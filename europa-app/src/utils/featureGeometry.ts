@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { FeatureKind, MapFeature } from '../types';
+import {
+  EUROPA_RADIUS_KM,
+  LatLng,
+  destinationPoint,
+  distanceKm,
+  greatCirclePath,
+  interpolateGreatCircle,
+  latLongToVector3,
+  pathLengthKm,
+  sphericalPolygonAreaKm2
+} from '../geodesy';
+
+// Segments used to approximate a circle's edge
+export const CIRCLE_SEGMENTS = 64;
+
+/**
+ * Vertices of the geodesic circle of `radiusKm` around `center`, without repeating the first vertex
+ */
+export const circleRing = (center: LatLng, radiusKm: number, segments: number = CIRCLE_SEGMENTS): LatLng[] =>
+  Array.from({ length: segments }, (_, index) => destinationPoint(center, (index / segments) * 360, radiusKm));
+
+/**
+ * Boundary ring of an area feature (polygon vertices or circle edge), or null for polylines
+ */
+export const featureRing = (feature: FeatureGeometry): LatLng[] | null => {
+  if (feature.kind === 'polygon') return feature.points;
+  if (feature.kind === 'circle' && feature.points.length > 0 && feature.radiusKm) {
+    return circleRing(feature.points[0], feature.radiusKm);
+  }
+  return null;
+};
+
+/**
+ * Outline of a feature as a densified great-circle path, closed for polygons and circles
+ */
+export const featureOutline = (feature: FeatureGeometry, maxStepDegrees: number = 2): LatLng[] => {
+  const ring = featureRing(feature);
+  return ring ? greatCirclePath(ring, true, maxStepDegrees) : greatCirclePath(feature.points, false, maxStepDegrees);
+};
+
+// Shape of a feature without its descriptive fields
+export type FeatureGeometry = Pick<MapFeature, 'kind' | 'points' | 'radiusKm'>;
+
+/**
+ * Geometry of a feature being drawn from the clicked points, or null until there are enough.
+ * Circles take their centre from the first click and their radius from the second.
+ */
+export const draftGeometry = (kind: FeatureKind, points: LatLng[]): FeatureGeometry | null => {
+  if (kind === 'circle') {
+    return points.length >= 2
+      ? { kind, points: [points[0]], radiusKm: distanceKm(points[0], points[points.length - 1]) }
+      : null;
+  }
+  return points.length >= minVertices(kind) ? { kind, points } : null;
+};
+
+/**
+ * Length (perimeter for areas) and enclosed area of a feature, in km and km²
+ */
+export const measureFeature = (feature: FeatureGeometry, radius: number = EUROPA_RADIUS_KM): { lengthKm: number; areaKm2?: number } => {
+  if (feature.kind === 'circle') {
+    // Spherical cap of angular radius r/R
+    const angle = (feature.radiusKm || 0) / radius;
+    return {
+      lengthKm: 2 * Math.PI * radius * Math.sin(angle),
+      areaKm2: 2 * Math.PI * radius * radius * (1 - Math.cos(angle))
+    };
+  }
+  if (feature.kind === 'polygon') {
+    return { lengthKm: pathLengthKm(feature.points, true, radius), areaKm2: sphericalPolygonAreaKm2(feature.points, radius) };
+  }
+  return { lengthKm: pathLengthKm(feature.points, false, radius) };
+};
+
+// A grabbed edit handle: a vertex, the midpoint of the edge after vertex `index`, or a circle's centre or edge
+export type FeatureHandle =
+  | { type: 'vertex'; index: number }
+  | { type: 'insert'; index: number }
+  | { type: 'center' }
+  | { type: 'radius' };
+
+// Fewest vertices a polygon or polyline can be reduced to
+const minVertices = (kind: FeatureKind) => (kind === 'polygon' ? 3 : 2);
+
+/**
+ * Geometry after dragging `handle` to `point`.
+ * Dragging an insert handle adds a vertex at the edge midpoint - pass the returned handle
+ * for the rest of the drag so later moves update that new vertex.
+ */
+export const dragHandle = (
+  geometry: FeatureGeometry,
+  handle: FeatureHandle,
+  point: LatLng
+): { geometry: FeatureGeometry; handle: FeatureHandle } => {
+  const { points } = geometry;
+  switch (handle.type) {
+    case 'insert': {
+      const index = handle.index + 1;
+      return {
+        geometry: { ...geometry, points: [...points.slice(0, index), point, ...points.slice(index)] },
+        handle: { type: 'vertex', index }
+      };
+    }
+    case 'vertex':
+      return { geometry: { ...geometry, points: points.map((p, i) => (i === handle.index ? point : p)) }, handle };
+    case 'center':
+      return { geometry: { ...geometry, points: [point] }, handle };
+    case 'radius':
+      return { geometry: { ...geometry, radiusKm: Math.max(0.1, distanceKm(points[0], point)) }, handle };
+  }
+};
+
+/**
+ * Geometry with vertex `index` removed, or null when that would leave too few vertices
+ */
+export const removeVertex = (geometry: FeatureGeometry, index: number): FeatureGeometry | null => {
+  if (geometry.kind === 'circle' || geometry.points.length <= minVertices(geometry.kind)) return null;
+  return { ...geometry, points: geometry.points.filter((_, i) => i !== index) };
+};
+
+/**
+ * Midpoint of the edge after vertex `index`, where its insert handle sits
+ */
+export const edgeMidpoint = (geometry: FeatureGeometry, index: number): LatLng =>
+  interpolateGreatCircle(geometry.points[index], geometry.points[(index + 1) % geometry.points.length], 0.5);
+
+const toUnitVector = ({ lat, lng }: LatLng) => latLongToVector3(lat, lng, 1);
+
+// Depth limit for triangle subdivision, so degenerate input can't run away
+const MAX_SUBDIVISION_DEPTH = 8;
+
+/**
+ * Triangulate a spherical polygon into a mesh draped over the unit sphere.
+ *
+ * The ring is projected gnomonically about its centroid, where great circles become
+ * straight lines, triangulated there, then each triangle is subdivided until no edge
+ * spans more than `maxStepDegrees` so the surface follows the curvature of the sphere.
+ * Returns non-indexed, outward-facing triangle positions, or null when the ring has
+ * fewer than three vertices or does not fit within a hemisphere.
+ */
+export const drapePolygon = (ring: LatLng[], maxStepDegrees: number = 4): Float32Array | null => {
+  if (ring.length < 3) return null;
+
+  const vertices = ring.map(toUnitVector);
+  const center = vertices.reduce((sum, v) => sum.add(v), new THREE.Vector3());
+  if (center.lengthSq() < 1e-12) return null;
+  center.normalize();
+
+  // Gnomonic projection only covers the hemisphere facing the centre
+  if (vertices.some(v => v.dot(center) < 1e-3)) return null;
+
+  const up = Math.abs(center.y) > 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const east = new THREE.Vector3().crossVectors(up, center).normalize();
+  const north = new THREE.Vector3().crossVectors(center, east);
+  const projected = vertices.map(v => {
+    const p = v.clone().divideScalar(v.dot(center));
+    return new THREE.Vector2(p.dot(east), p.dot(north));
+  });
+
+  const triangles = THREE.ShapeUtils.triangulateShape(projected, []);
+  const maxStep = (maxStepDegrees * Math.PI) / 180;
+  const positions: number[] = [];
+
+  const emit = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, depth: number) => {
+    const longest = Math.max(a.angleTo(b), b.angleTo(c), c.angleTo(a));
+    if (longest > maxStep && depth < MAX_SUBDIVISION_DEPTH) {
+      const ab = a.clone().add(b).normalize();
+      const bc = b.clone().add(c).normalize();
+      const ca = c.clone().add(a).normalize();
+      emit(a, ab, ca, depth + 1);
+      emit(ab, b, bc, depth + 1);
+      emit(ca, bc, c, depth + 1);
+      emit(ab, bc, ca, depth + 1);
+      return;
+    }
+    positions.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+  };
+
+  triangles.forEach(([i, j, k]) => {
+    const [a, b, c] = [vertices[i], vertices[j], vertices[k]];
+    // Wind counter-clockwise when seen from outside the sphere
+    const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+    if (normal.dot(a) < 0) {
+      emit(a, c, b, 0);
+    } else {
+      emit(a, b, c, 0);
+    }
+  });
+
+  return new Float32Array(positions);
+};
+
@@ -0,0 +1,103 @@
+import fc from 'fast-check';
+import { ConflictReport, POI, ReportSeverity } from '../types';
+import { EUROPA_RADIUS_KM, latLongToVector3 } from '../geodesy';
+import { HeatSource, collectHeatSources, computeHeatmap, decayFactor, heatSourcesSignature } from './heatmap';
+
+const WIDTH = 48;
+const HEIGHT = 24;
+const NOW = Date.parse('2025-05-01T00:00:00Z');
+const DAY = 86400000;
+
+// Evaluate the kernel at every texel, with no culling
+const bruteForce = (sources: HeatSource[], kernelRadiusKm: number) => {
+  const bandwidth = kernelRadiusKm / EUROPA_RADIUS_KM;
+  const density = new Float32Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const texel = latLongToVector3(((y + 0.5) / HEIGHT) * 180 - 90, ((x + 0.5) / WIDTH) * 360 - 180, 1);
+      sources.forEach(source => {
+        const angle = texel.angleTo(latLongToVector3(source.lat, source.lng, 1));
+        if (angle <= 3 * bandwidth) {
+          density[y * WIDTH + x] += source.weight * Math.exp(-(angle * angle) / (2 * bandwidth * bandwidth));
+        }
+      });
+    }
+  }
+  return density;
+};
+
+const sourceArb = fc.record({
+  lat: fc.oneof(fc.double({ min: -90, max: 90, noNaN: true }), fc.constantFrom(-90, -89.5, 89.5, 90)),
+  lng: fc.oneof(fc.double({ min: -180, max: 180, noNaN: true }), fc.constantFrom(-180, 179.9, 180)),
+  weight: fc.double({ min: 0.1, max: 10, noNaN: true }),
+  time: fc.constant(null)
+});
+
+describe('heatmap', () => {
+  it('matches a brute-force kernel sum, including across the antimeridian and poles', () => {
+    fc.assert(fc.property(
+      fc.array(sourceArb, { minLength: 1, maxLength: 4 }),
+      fc.double({ min: 30, max: 1500, noNaN: true }),
+      (sources, kernelRadiusKm) => {
+        const density = computeHeatmap(sources, { kernelRadiusKm, halfLifeDays: null, now: NOW, width: WIDTH, height: HEIGHT });
+        const expected = bruteForce(sources, kernelRadiusKm);
+        expected.forEach((value, index) => {
+          expect(density[index]).toBeCloseTo(value, 4);
+        });
+      }
+    ), { numRuns: 40 });
+  });
+
+  it('spreads heat evenly either side of the antimeridian', () => {
+    const density = computeHeatmap([{ lat: 0, lng: 180, weight: 1, time: null }], {
+      kernelRadiusKm: 200, halfLifeDays: null, now: NOW, width: WIDTH, height: HEIGHT
+    });
+    const row = (HEIGHT / 2) * WIDTH;
+    expect(density[row]).toBeGreaterThan(0);
+    expect(density[row]).toBeCloseTo(density[row + WIDTH - 1], 6);
+  });
+
+  it('halves weights every half-life and ignores future sources', () => {
+    expect(decayFactor(NOW - 30 * DAY, NOW, 30)).toBeCloseTo(0.5);
+    expect(decayFactor(NOW - 60 * DAY, NOW, 30)).toBeCloseTo(0.25);
+    expect(decayFactor(NOW - 60 * DAY, NOW, null)).toBe(1);
+    expect(decayFactor(NOW + DAY, NOW, 30)).toBe(0);
+    expect(decayFactor(null, NOW, 30)).toBe(1);
+  });
+
+  it('keys sources by position, weight and time', () => {
+    const sources: HeatSource[] = [{ lat: 1, lng: 2, weight: 1, time: null }, { lat: 3, lng: 4, weight: 2, time: NOW }];
+    const signature = heatSourcesSignature(sources);
+
+    expect(heatSourcesSignature(sources.map(source => ({ ...source })))).toBe(signature);
+    expect(heatSourcesSignature([sources[0], { ...sources[1], weight: 4 }])).not.toBe(signature);
+    expect(heatSourcesSignature([sources[0], { ...sources[1], time: NOW - DAY }])).not.toBe(signature);
+    expect(heatSourcesSignature([sources[0]])).not.toBe(signature);
+  });
+
+  it('weights reports by severity at their POI or position', () => {
+    const pois: POI[] = [
+      { id: 'a', title: 'A', description: '', lat: 10, lng: 20, type: 'poi' },
+      { id: 'b', title: 'B', description: '', lat: -5, lng: 40, type: 'custom', occurredAt: '2025-04-01T00:00:00Z' }
+    ];
+    const report = (poiId: string, severity: ReportSeverity): ConflictReport => ({
+      id: `${poiId}-${severity}`,
+      headline: '',
+      body: '',
+      reportedAt: '2025-04-20T00:00:00Z',
+      severity,
+      sourceUrls: [],
+      author: 'test',
+      poiId
+    });
+
+    const located: ConflictReport = { ...report('a', ReportSeverity.HIGH), poiId: undefined, lat: 30, lng: 60 };
+
+    const sources = collectHeatSources(pois, [
+      report('a', ReportSeverity.CRITICAL),
+      report('missing', ReportSeverity.LOW),
+      located
+    ]);
+    expect(sources.map(({ lat, weight }) => [lat, weight])).toEqual([[-5, 1], [10, 8], [30, 4]]);
+  });
+});
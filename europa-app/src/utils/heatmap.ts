@@ -0,0 +1,176 @@
+import { ConflictReport, POI, ReportSeverity } from '../types';
+import { EUROPA_RADIUS_KM, directionFromRadians, toRadians } from '../geodesy';
+import { getPOITime } from './timeline';
+
+// Default resolution of the equirectangular heatmap
+export const HEATMAP_WIDTH = 512;
+export const HEATMAP_HEIGHT = 256;
+
+// Kernels are cut off at this many bandwidths, where they fall below 1.2% of their peak
+const KERNEL_CUTOFF = 3;
+
+export interface HeatSource {
+  lat: number;
+  lng: number;
+  weight: number;
+  time: number | null; // Epoch milliseconds, or null for undated sources that never fade
+}
+
+export interface HeatmapSettings {
+  kernelRadiusKm: number; // Bandwidth of the Gaussian kernel along the surface
+  halfLifeDays: number | null; // Time for a source's weight to halve (null = no fading)
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  kernelRadiusKm: 150,
+  halfLifeDays: 30
+};
+
+export interface HeatmapOptions extends HeatmapSettings {
+  now: number; // Sources are aged relative to this time, and later sources are left out
+  width?: number;
+  height?: number;
+}
+
+// Relative weight of a report by severity
+const SEVERITY_WEIGHTS: Record<ReportSeverity, number> = {
+  [ReportSeverity.LOW]: 1,
+  [ReportSeverity.MODERATE]: 2,
+  [ReportSeverity.HIGH]: 4,
+  [ReportSeverity.CRITICAL]: 8
+};
+
+/**
+ * Heat sources for the conflict intensity layer.
+ * Each report adds heat at its POI or its own position, weighted by severity; dated POIs (incidents)
+ * add a unit of heat at the time they occurred. Reports on POIs that are not in `pois` are skipped.
+ */
+export const collectHeatSources = (pois: POI[], reports: ConflictReport[]): HeatSource[] => {
+  const poiById = new Map(pois.map(poi => [poi.id, poi]));
+  const sources: HeatSource[] = [];
+
+  pois.forEach(poi => {
+    if (poi.occurredAt) sources.push({ lat: poi.lat, lng: poi.lng, weight: 1, time: getPOITime(poi) });
+  });
+
+  reports.forEach(report => {
+    const position = report.poiId !== undefined ? poiById.get(report.poiId) : report;
+    if (position?.lat === undefined || position.lng === undefined) return;
+    const time = Date.parse(report.reportedAt);
+    sources.push({
+      lat: position.lat,
+      lng: position.lng,
+      weight: SEVERITY_WEIGHTS[report.severity] || 1,
+      time: Number.isNaN(time) ? null : time
+    });
+  });
+
+  return sources;
+};
+
+/**
+ * Key identifying a set of heat sources - equal keys produce the same density at the same time
+ */
+export const heatSourcesSignature = (sources: HeatSource[]): string =>
+  sources.map(source => `${source.lat}:${source.lng}:${source.weight}:${source.time}`).join('|');
+
+/**
+ * Weight multiplier for a source of the given age - halves every `halfLifeDays`.
+ * Returns 0 for sources dated after `now`.
+ */
+export const decayFactor = (time: number | null, now: number, halfLifeDays: number | null): number => {
+  if (time === null) return 1;
+  if (time > now) return 0;
+  if (!halfLifeDays || halfLifeDays <= 0) return 1;
+  const ageDays = (now - time) / 86400000;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+};
+
+/**
+ * Spherical kernel density of the sources on an equirectangular grid.
+ * Rows run south to north from -90° and columns west to east from -180°, like the ownership map.
+ *
+ * Each source only visits the texels within the kernel cutoff: the rows of its latitude band and,
+ * per row, the longitude span the cutoff circle covers there - wrapping across the antimeridian,
+ * and taking whole rows once the circle reaches over a pole.
+ */
+export const computeHeatmap = (sources: HeatSource[], options: HeatmapOptions): Float32Array => {
+  const { kernelRadiusKm, halfLifeDays, now, width = HEATMAP_WIDTH, height = HEATMAP_HEIGHT } = options;
+  const density = new Float32Array(width * height);
+  if (kernelRadiusKm <= 0) return density;
+
+  const bandwidth = kernelRadiusKm / EUROPA_RADIUS_KM; // Radians of arc
+  const cutoff = Math.min(Math.PI, KERNEL_CUTOFF * bandwidth);
+  const cosCutoff = Math.cos(cutoff);
+  const twoBandwidthSq = 2 * bandwidth * bandwidth;
+
+  // Row and column centres in radians, shared by every source
+  const rowLat = Array.from({ length: height }, (_, y) => ((y + 0.5) / height) * Math.PI - Math.PI / 2);
+  const sinRowLat = rowLat.map(Math.sin);
+  const cosRowLat = rowLat.map(Math.cos);
+  const cosCol = new Float64Array(width);
+  const sinCol = new Float64Array(width);
+  for (let x = 0; x < width; x++) {
+    const lng = ((x + 0.5) / width) * 2 * Math.PI - Math.PI;
+    cosCol[x] = Math.cos(lng);
+    sinCol[x] = Math.sin(lng);
+  }
+
+  sources.forEach(source => {
+    const weight = source.weight * decayFactor(source.time, now, halfLifeDays);
+    if (!(weight > 0)) return;
+
+    const lat = toRadians(source.lat);
+    const lng = toRadians(source.lng);
+    const [sx, sy, sz] = directionFromRadians(lat, lng);
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+
+    const yMin = Math.max(0, Math.floor(((lat - cutoff + Math.PI / 2) / Math.PI) * height));
+    const yMax = Math.min(height - 1, Math.ceil(((lat + cutoff + Math.PI / 2) / Math.PI) * height));
+
+    for (let y = yMin; y <= yMax; y++) {
+      // Longitude half-width of the cutoff circle on this row, from the spherical law of cosines
+      const denominator = cosRowLat[y] * cosLat;
+      const cosSpan = denominator > 1e-12 ? (cosCutoff - sinRowLat[y] * sinLat) / denominator : -Infinity;
+      if (cosSpan > 1) continue;
+
+      let xStart = 0;
+      let count = width;
+      if (cosSpan >= -1) {
+        const span = Math.acos(cosSpan);
+        // One extra texel either side covers texel centres just inside the span
+        xStart = Math.floor(((lng - span + Math.PI) / (2 * Math.PI)) * width) - 1;
+        count = Math.min(width, Math.ceil((2 * span / (2 * Math.PI)) * width) + 3);
+      }
+
+      const rowOffset = y * width;
+      for (let i = 0; i < count; i++) {
+        const x = (((xStart + i) % width) + width) % width;
+        const dot = cosRowLat[y] * cosCol[x] * sx + sinRowLat[y] * sy + cosRowLat[y] * sinCol[x] * sz;
+        if (dot < cosCutoff) continue;
+        const angle = Math.acos(Math.min(1, dot));
+        density[rowOffset + x] += weight * Math.exp(-(angle * angle) / twoBandwidthSq);
+      }
+    }
+  });
+
+  return density;
+};
+
+/**
+ * Scale densities into 0-255 intensities relative to the hottest texel
+ */
+export const normalizeHeatmap = (density: Float32Array): Uint8Array => {
+  let max = 0;
+  density.forEach(value => {
+    if (value > max) max = value;
+  });
+
+  const intensities = new Uint8Array(density.length);
+  if (max === 0) return intensities;
+  density.forEach((value, index) => {
+    intensities[index] = Math.round((value / max) * 255);
+  });
+  return intensities;
+};
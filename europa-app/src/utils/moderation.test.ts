@@ -0,0 +1,108 @@
+import {
+  approve,
+  combinePOIs,
+  combineReports,
+  findDuplicateCandidates,
+  getModerationStatus,
+  mergeDuplicate,
+  moderationQueue,
+  reject,
+  submitForReview
+} from './moderation';
+import { ConflictReport, ModerationStatus, ReportSeverity, User, UserRole } from '../types';
+import { poi } from '../testing/fixtures';
+
+
+const report = (id: string, extra: Partial<ConflictReport> = {}): ConflictReport => ({
+  id,
+  headline: id,
+  body: '',
+  reportedAt: '2025-04-20T10:00:00Z',
+  severity: ReportSeverity.LOW,
+  sourceUrls: [],
+  author: 'scout',
+  ...extra
+});
+
+const scout: User = { handle: 'scout', displayName: 'Scout', role: UserRole.REPORTER };
+const mod: User = { handle: 'mod', displayName: 'Mod', role: UserRole.MODERATOR };
+const NOW = '2025-04-20T10:00:00.000Z';
+
+describe('submitForReview', () => {
+  it('holds reporters\' submissions for review', () => {
+    const submitted = submitForReview(poi('a'), scout, NOW);
+    expect(submitted.moderationStatus).toBe(ModerationStatus.PENDING);
+    expect(submitted.moderationLog).toEqual([{ action: 'submitted', by: 'scout', at: NOW }]);
+  });
+
+  it('approves moderators\' own submissions', () => {
+    const submitted = submitForReview(poi('a'), mod, NOW);
+    expect(submitted.moderationStatus).toBe(ModerationStatus.APPROVED);
+    expect(submitted.moderationLog?.map(entry => entry.action)).toEqual(['submitted', 'approved']);
+  });
+
+  it('treats records that never went through review as approved', () => {
+    expect(getModerationStatus(poi('seed'))).toBe(ModerationStatus.APPROVED);
+  });
+});
+
+describe('approve and reject', () => {
+  it('append the decision to the log', () => {
+    const pending = submitForReview(poi('a'), scout, NOW);
+    expect(approve(pending, mod, NOW).moderationLog?.[1]).toEqual({ action: 'approved', by: 'mod', at: NOW });
+
+    const rejected = reject(pending, mod, ' off-topic ', NOW);
+    expect(rejected.moderationStatus).toBe(ModerationStatus.REJECTED);
+    expect(rejected.moderationLog?.[1]).toEqual({ action: 'rejected', by: 'mod', at: NOW, reason: 'off-topic' });
+  });
+});
+
+describe('mergeDuplicate', () => {
+  it('rejects the duplicate and fills in what the target is missing', () => {
+    const target = poi('target', { description: 'Known site' });
+    const duplicate = submitForReview(poi('dup', { description: 'Same place', location: 'Rim', category: 'impact' }), scout, NOW);
+    const merged = mergeDuplicate(duplicate, target, mod, combinePOIs, NOW);
+
+    expect(merged.target).toMatchObject({ description: 'Known site', location: 'Rim', category: 'impact' });
+    expect(merged.target.moderationStatus).toBe(ModerationStatus.APPROVED);
+    expect(merged.target.moderationLog).toEqual([{ action: 'merged', by: 'mod', at: NOW, mergedFrom: 'dup' }]);
+    expect(merged.duplicate.moderationStatus).toBe(ModerationStatus.REJECTED);
+    expect(merged.duplicate.moderationLog?.[1]).toMatchObject({ action: 'merged', mergedInto: 'target' });
+  });
+
+  it('pools report sources and units', () => {
+    const combined = combineReports(
+      report('a', { sourceUrls: ['https://a'], units: ['1st'] }),
+      report('b', { sourceUrls: ['https://a', 'https://b'], units: ['2nd'], casualties: 3 })
+    );
+    expect(combined.sourceUrls).toEqual(['https://a', 'https://b']);
+    expect(combined.units).toEqual(['1st', '2nd']);
+    expect(combined.casualties).toBe(3);
+  });
+});
+
+describe('moderationQueue', () => {
+  it('lists pending records, oldest first', () => {
+    const queue = moderationQueue([
+      submitForReview(poi('late', { createdAt: '2025-04-21T00:00:00Z' }), scout),
+      poi('approved'),
+      submitForReview(poi('early', { createdAt: '2025-04-19T00:00:00Z' }), scout)
+    ]);
+    expect(queue.map(record => record.id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('findDuplicateCandidates', () => {
+  it('offers nearby listed markers, nearest first', () => {
+    const pending = poi('new', { lat: 10, lng: 10 });
+    const candidates = findDuplicateCandidates(pending, [
+      pending,
+      poi('far', { lat: 40, lng: 10 }),
+      poi('near', { lat: 10.5, lng: 10 }),
+      poi('nearest', { lat: 10.1, lng: 10 }),
+      poi('rejected', { lat: 10, lng: 10, moderationStatus: ModerationStatus.REJECTED }),
+      poi('pole', { lat: 10, lng: 10, type: 'pole' })
+    ]);
+    expect(candidates.map(candidate => candidate.id)).toEqual(['nearest', 'near']);
+  });
+});
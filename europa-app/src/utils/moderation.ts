@@ -0,0 +1,119 @@
+import { ConflictReport, ModerationEntry, ModerationStatus, POI, User, UserRole } from '../types';
+import { hasRole } from '../auth';
+import { distanceKm } from '../geodesy';
+
+// Anything that goes through review
+export interface ModeratedRecord {
+  id: string;
+  createdAt?: string;
+  moderationStatus?: ModerationStatus;
+  moderationLog?: ModerationEntry[];
+}
+
+// POIs this close to a pending one are offered as merge targets
+export const DUPLICATE_RADIUS_KM = 50;
+
+/**
+ * Review state of a record - records that never went through review count as approved
+ */
+export const getModerationStatus = (record: ModeratedRecord): ModerationStatus =>
+  record.moderationStatus || ModerationStatus.APPROVED;
+
+export const isPending = (record: ModeratedRecord) => getModerationStatus(record) === ModerationStatus.PENDING;
+
+export const isApproved = (record: ModeratedRecord) => getModerationStatus(record) === ModerationStatus.APPROVED;
+
+// Shown on the map: approved, or pending and ghosted
+export const isListed = (record: ModeratedRecord) => getModerationStatus(record) !== ModerationStatus.REJECTED;
+
+const withEntry = <T extends ModeratedRecord>(record: T, status: ModerationStatus, entry: ModerationEntry): T => ({
+  ...record,
+  moderationStatus: status,
+  moderationLog: [...(record.moderationLog || []), entry]
+});
+
+/**
+ * Put a new submission up for review. Moderators' own submissions are approved straight away.
+ */
+export const submitForReview = <T extends ModeratedRecord>(record: T, user: User | null, now: string = new Date().toISOString()): T => {
+  const by = user?.handle;
+  const submitted = withEntry(record, ModerationStatus.PENDING, { action: 'submitted', by, at: now });
+  return hasRole(user, UserRole.MODERATOR)
+    ? withEntry(submitted, ModerationStatus.APPROVED, { action: 'approved', by, at: now })
+    : submitted;
+};
+
+export const approve = <T extends ModeratedRecord>(record: T, user: User | null, now: string = new Date().toISOString()): T =>
+  withEntry(record, ModerationStatus.APPROVED, { action: 'approved', by: user?.handle, at: now });
+
+export const reject = <T extends ModeratedRecord>(
+  record: T,
+  user: User | null,
+  reason: string,
+  now: string = new Date().toISOString()
+): T => withEntry(record, ModerationStatus.REJECTED, { action: 'rejected', by: user?.handle, at: now, reason: reason.trim() || undefined });
+
+/**
+ * Fold a duplicate into the record it repeats.
+ * The target keeps its review state and gains whatever `combine` takes from the duplicate;
+ * the duplicate is rejected, pointing at the target. Both log the merge.
+ */
+export const mergeDuplicate = <T extends ModeratedRecord>(
+  duplicate: T,
+  target: T,
+  user: User | null,
+  combine: (target: T, duplicate: T) => T = kept => kept,
+  now: string = new Date().toISOString()
+): { target: T; duplicate: T } => {
+  const by = user?.handle;
+  return {
+    target: withEntry(combine(target, duplicate), getModerationStatus(target), {
+      action: 'merged', by, at: now, mergedFrom: duplicate.id
+    }),
+    duplicate: withEntry(duplicate, ModerationStatus.REJECTED, {
+      action: 'merged', by, at: now, reason: 'duplicate', mergedInto: target.id
+    })
+  };
+};
+
+/**
+ * Fill the details a POI is missing from its duplicate - the target's own values always win
+ */
+export const combinePOIs = (target: POI, duplicate: POI): POI => ({
+  ...target,
+  description: target.description || duplicate.description,
+  location: target.location || duplicate.location,
+  category: target.category || duplicate.category,
+  factionId: target.factionId || duplicate.factionId,
+  occurredAt: target.occurredAt || duplicate.occurredAt
+});
+
+/**
+ * Pool the sources and units of two reports of the same event
+ */
+export const combineReports = (target: ConflictReport, duplicate: ConflictReport): ConflictReport => ({
+  ...target,
+  body: target.body || duplicate.body,
+  casualties: target.casualties ?? duplicate.casualties,
+  units: Array.from(new Set([...(target.units || []), ...(duplicate.units || [])])),
+  sourceUrls: Array.from(new Set([...target.sourceUrls, ...duplicate.sourceUrls]))
+});
+
+/**
+ * Pending records, oldest submission first
+ */
+export const moderationQueue = <T extends ModeratedRecord>(records: T[]): T[] =>
+  records
+    .filter(isPending)
+    .sort((a, b) => (Date.parse(a.createdAt || '') || 0) - (Date.parse(b.createdAt || '') || 0));
+
+/**
+ * Listed markers within `radiusKm` of a POI that it may duplicate, nearest first
+ */
+export const findDuplicateCandidates = (poi: POI, pois: POI[], radiusKm: number = DUPLICATE_RADIUS_KM): POI[] =>
+  pois
+    .filter(other => other.id !== poi.id && (other.type === 'poi' || other.type === 'custom') && isListed(other))
+    .map(other => ({ other, distance: distanceKm(poi, other) }))
+    .filter(({ distance }) => distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ other }) => other);
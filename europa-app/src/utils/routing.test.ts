@@ -0,0 +1,101 @@
+import fc from 'fast-check';
+import { LatLng, directionFromRadians, distanceKm, greatCirclePath, sphericalPolygonContains, toRadians } from '../geodesy';
+import { MapFeature } from '../types';
+import { arcsCross, contestedZones, planRoute, travelHours } from './routing';
+
+const direction = ({ lat, lng }: LatLng) => directionFromRadians(toRadians(lat), toRadians(lng));
+
+// Axis-aligned box in degrees
+const box = (south: number, west: number, north: number, east: number): LatLng[] => [
+  { lat: south, lng: west }, { lat: south, lng: east }, { lat: north, lng: east }, { lat: north, lng: west }
+];
+
+// Whether a route, followed along its great circles, ever enters a zone
+const entersZone = (path: LatLng[], zones: LatLng[][]) =>
+  greatCirclePath(path, false, 0.05).some(point => zones.some(ring => sphericalPolygonContains(ring, point)));
+
+describe('arcsCross', () => {
+  it('detects arcs that cross', () => {
+    const [west, east, south, north] = [{ lat: 0, lng: -5 }, { lat: 0, lng: 5 }, { lat: -5, lng: 0 }, { lat: 5, lng: 0 }].map(direction);
+    expect(arcsCross(west, east, south, north)).toBe(true);
+    expect(arcsCross(west, direction({ lat: 0, lng: -1 }), south, north)).toBe(false);
+  });
+
+  it('ignores arcs whose great circles only meet on the far side of the sphere', () => {
+    const a = [{ lat: 0, lng: 170 }, { lat: 0, lng: 175 }].map(direction);
+    const b = [{ lat: -5, lng: 0 }, { lat: 5, lng: 0 }].map(direction);
+    expect(arcsCross(a[0], a[1], b[0], b[1])).toBe(false);
+  });
+});
+
+describe('planRoute', () => {
+  const from = { lat: 0, lng: -10 };
+  const to = { lat: 0, lng: 10 };
+
+  it('goes straight when nothing is in the way', () => {
+    const route = planRoute(from, to, [box(20, -5, 30, 5)])!;
+    expect(route.path).toEqual([from, to]);
+    expect(route.distanceKm).toBeCloseTo(distanceKm(from, to), 9);
+  });
+
+  it('bends around a contested zone across the straight line', () => {
+    const zone = box(-3, -2, 5, 2);
+    const route = planRoute(from, to, [zone])!;
+
+    expect(route.path.length).toBeGreaterThan(2);
+    expect(route.distanceKm).toBeGreaterThan(distanceKm(from, to));
+    expect(entersZone(route.path, [zone])).toBe(false);
+    // Around the nearer, southern end of the zone
+    expect(route.path[1].lat).toBeLessThan(-3);
+  });
+
+  it('ignores zones containing either end', () => {
+    const route = planRoute(from, to, [box(-3, -12, 3, -8), box(-3, 8, 3, 12)])!;
+    expect(route.path).toEqual([from, to]);
+  });
+
+  it('gives up when zones wall the destination off', () => {
+    const frame = [box(3, -6, 6, 6), box(-6, -6, -3, 6), box(-6, 3, 6, 6), box(-6, -6, 6, -3)];
+    expect(planRoute({ lat: 0, lng: 30 }, { lat: 0, lng: 0 }, frame)).toBeNull();
+  });
+
+  it('never enters a zone that leaves both ends outside', () => {
+    const zoneArb = fc.record({
+      lat: fc.double({ min: -40, max: 40, noNaN: true }),
+      lng: fc.double({ min: -40, max: 40, noNaN: true }),
+      size: fc.double({ min: 1, max: 10, noNaN: true })
+    }).map(({ lat, lng, size }) => box(lat - size, lng - size, lat + size, lng + size));
+    const pointArb = fc.record({
+      lat: fc.double({ min: -50, max: 50, noNaN: true }),
+      lng: fc.double({ min: -50, max: 50, noNaN: true })
+    });
+
+    fc.assert(fc.property(pointArb, pointArb, fc.array(zoneArb, { maxLength: 4 }), (start, end, zones) => {
+      const route = planRoute(start, end, zones);
+      fc.pre(route !== null);
+      const obstacles = zones.filter(ring => !sphericalPolygonContains(ring, start) && !sphericalPolygonContains(ring, end));
+      expect(entersZone(route!.path, obstacles)).toBe(false);
+      expect(route!.distanceKm).toBeGreaterThanOrEqual(distanceKm(start, end) - 1e-6);
+    }), { numRuns: 40 });
+  });
+});
+
+describe('contestedZones', () => {
+  it('keeps the rings of contested polygons', () => {
+    const feature = (id: string, extra: Partial<MapFeature>): MapFeature =>
+      ({ id, kind: 'polygon', title: id, description: '', points: box(0, 0, 1, 1), ...extra });
+    const zones = contestedZones([
+      feature('contested', { contested: true }),
+      feature('calm', {}),
+      feature('line', { kind: 'polyline', contested: true })
+    ]);
+    expect(zones).toEqual([box(0, 0, 1, 1)]);
+  });
+});
+
+describe('travelHours', () => {
+  it('divides distance by speed', () => {
+    expect(travelHours(90, 30)).toBe(3);
+    expect(travelHours(10, 0)).toBe(Infinity);
+  });
+});
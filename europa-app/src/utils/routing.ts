@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import {
+  Direction,
+  EUROPA_RADIUS_KM,
+  LatLng,
+  angleBetweenDirections,
+  cross,
+  directionFromRadians,
+  dot,
+  sphericalPolygonContains,
+  toRadians,
+  vectorToLatLong
+} from '../geodesy';
+import { MapFeature } from '../types';
+
+// Speed assumed for travel time estimates, in km/h
+export const DEFAULT_TRAVEL_SPEED_KMH = 20;
+
+// How far routes keep from the corners of contested zones, in km
+export const ZONE_CLEARANCE_KM = 2;
+
+export interface Route {
+  path: LatLng[]; // Waypoints from start to destination, joined by great-circle arcs
+  distanceKm: number;
+}
+
+const toDirection = ({ lat, lng }: LatLng): Direction => directionFromRadians(toRadians(lat), toRadians(lng));
+
+/**
+ * Whether two great-circle arcs (given by their end directions) cross.
+ * Arcs that only touch, or meet at an end point, don't count.
+ */
+export const arcsCross = (a1: Direction, a2: Direction, b1: Direction, b2: Direction): boolean => {
+  const normalA = cross(a1, a2);
+  const normalB = cross(b1, b2);
+  // Each arc must straddle the other's great circle...
+  if (dot(normalA, b1) * dot(normalA, b2) >= 0 || dot(normalB, a1) * dot(normalB, a2) >= 0) return false;
+  // ...and the circles must meet on the side of the sphere where both arcs are, not at its antipode
+  const meet = cross(normalA, normalB);
+  const sideA = dot(meet, [a1[0] + a2[0], a1[1] + a2[1], a1[2] + a2[2]]);
+  const sideB = dot(meet, [b1[0] + b2[0], b1[1] + b2[1], b1[2] + b2[2]]);
+  return sideA * sideB > 0;
+};
+
+/**
+ * Rings of the zones marked as contested
+ */
+export const contestedZones = (features: MapFeature[]): LatLng[][] =>
+  features.filter(feature => feature.kind === 'polygon' && feature.contested).map(feature => feature.points);
+
+/**
+ * Points just outside each corner of a zone, for routes to bend around
+ */
+const cornerWaypoints = (ring: LatLng[], clearanceKm: number, radius: number): LatLng[] => {
+  const angle = clearanceKm / radius;
+  const vertices = ring.map(toDirection);
+
+  return vertices.flatMap((vertex, i) => {
+    const v = new THREE.Vector3(...vertex);
+    // Directions along the surface towards the neighbouring corners
+    const tangent = (neighbour: Direction) => {
+      const n = new THREE.Vector3(...neighbour);
+      return n.sub(v.clone().multiplyScalar(n.dot(v))).normalize();
+    };
+    const toPrevious = tangent(vertices[(i + vertices.length - 1) % vertices.length]);
+    const toNext = tangent(vertices[(i + 1) % vertices.length]);
+
+    // Bisect the corner, or go square to the edge where it is straight
+    let away = toPrevious.clone().add(toNext).negate();
+    if (away.lengthSq() < 1e-12) away = new THREE.Vector3().crossVectors(v, toNext);
+    away.normalize();
+
+    const offset = (direction: THREE.Vector3) => {
+      const { lat, long } = vectorToLatLong(v.clone().multiplyScalar(Math.cos(angle)).addScaledVector(direction, Math.sin(angle)));
+      return { lat, lng: long };
+    };
+    // The bisector points into the zone at a reflex corner
+    const waypoint = offset(away);
+    return [sphericalPolygonContains(ring, waypoint) ? offset(away.negate()) : waypoint];
+  });
+};
+
+/**
+ * Shortest route between two points that stays out of the given zones, or null when they wall
+ * the destination off. Zones containing either end are ignored, since the route has to leave or
+ * enter them anyway.
+ *
+ * Searches the visibility graph of the zones' corners: a shortest path around polygons only
+ * bends at their corners, so Dijkstra over the arcs that cross no zone edge finds it.
+ */
+export const planRoute = (
+  from: LatLng,
+  to: LatLng,
+  zones: LatLng[][] = [],
+  clearanceKm: number = ZONE_CLEARANCE_KM,
+  radius: number = EUROPA_RADIUS_KM
+): Route | null => {
+  const obstacles = zones.filter(ring =>
+    ring.length >= 3 && !sphericalPolygonContains(ring, from) && !sphericalPolygonContains(ring, to)
+  );
+  const edges = obstacles.flatMap(ring => {
+    const vertices = ring.map(toDirection);
+    return vertices.map((vertex, i): [Direction, Direction] => [vertex, vertices[(i + 1) % vertices.length]]);
+  });
+
+  const waypoints = obstacles
+    .flatMap(ring => cornerWaypoints(ring, clearanceKm, radius))
+    .filter(point => !obstacles.some(ring => sphericalPolygonContains(ring, point)));
+  const nodes = [from, to, ...waypoints];
+  const directions = nodes.map(toDirection);
+  const isClear = (a: number, b: number) => !edges.some(([e1, e2]) => arcsCross(directions[a], directions[b], e1, e2));
+
+  // Dijkstra from node 0 to node 1; the graph is small enough for a linear scan per step
+  const distance = new Float64Array(nodes.length).fill(Infinity);
+  const previous = new Int32Array(nodes.length).fill(-1);
+  const done = new Uint8Array(nodes.length);
+  distance[0] = 0;
+
+  for (;;) {
+    let current = -1;
+    for (let i = 0; i < nodes.length; i++) {
+      if (!done[i] && distance[i] < Infinity && (current < 0 || distance[i] < distance[current])) current = i;
+    }
+    if (current < 0) return null;
+    if (current === 1) break;
+    done[current] = 1;
+
+    for (let next = 0; next < nodes.length; next++) {
+      if (done[next]) continue;
+      const candidate = distance[current] + angleBetweenDirections(directions[current], directions[next]) * radius;
+      if (candidate < distance[next] && isClear(current, next)) {
+        distance[next] = candidate;
+        previous[next] = current;
+      }
+    }
+  }
+
+  const path: LatLng[] = [];
+  for (let node = 1; node >= 0; node = previous[node]) path.unshift(nodes[node]);
+  return { path, distanceKm: distance[1] };
+};
+
+/**
+ * Hours needed to cover a distance at the given speed
+ */
+export const travelHours = (distanceKm: number, speedKmh: number): number =>
+  speedKmh > 0 ? distanceKm / speedKmh : Infinity;
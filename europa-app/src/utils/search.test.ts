@@ -0,0 +1,83 @@
+import { fuzzyScore, matchesFilters, searchPOIs, EMPTY_FILTERS } from './search';
+import { POI } from '../types';
+
+const poi = (id: string, title: string, extra: Partial<POI> = {}): POI => ({
+  id,
+  title,
+  description: '',
+  lat: 0,
+  lng: 0,
+  type: 'poi',
+  ...extra
+});
+
+describe('fuzzyScore', () => {
+  it('ranks prefix over substring over scattered matches', () => {
+    const prefix = fuzzyScore('pwy', 'Pwyll Crater')!;
+    const substring = fuzzyScore('crater', 'Pwyll Crater')!;
+    const scattered = fuzzyScore('pcr', 'Pwyll Crater')!;
+    expect(prefix).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(scattered);
+  });
+
+  it('rejects text missing a query character', () => {
+    expect(fuzzyScore('xyz', 'Pwyll Crater')).toBeNull();
+  });
+
+  it('ignores case and treats an empty query as a match', () => {
+    expect(fuzzyScore('PWYLL', 'pwyll')).not.toBeNull();
+    expect(fuzzyScore('  ', 'anything')).toBe(0);
+  });
+});
+
+describe('searchPOIs', () => {
+  const pois = [
+    poi('a', 'Conamara Chaos', { category: 'landmark', factionId: 'ridge' }),
+    poi('b', 'Research Outpost', { category: 'base', description: 'Near Conamara', factionId: 'macula' }),
+    poi('c', 'Thera Macula', { category: 'landmark' })
+  ];
+
+  it('prefers title matches over description matches', () => {
+    const results = searchPOIs(pois, { ...EMPTY_FILTERS, query: 'conamara' });
+    expect(results.map(r => r.poi.id)).toEqual(['a', 'b']);
+  });
+
+  it('applies category and faction filters', () => {
+    expect(searchPOIs(pois, { ...EMPTY_FILTERS, categories: ['landmark'] }).map(r => r.poi.id)).toEqual(['a', 'c']);
+    expect(searchPOIs(pois, { ...EMPTY_FILTERS, factionIds: [''] }).map(r => r.poi.id)).toEqual(['c']);
+  });
+
+  it('agrees with matchesFilters', () => {
+    const filters = { query: 'ma', categories: ['landmark'], factionIds: [] };
+    const ids = searchPOIs(pois, filters).map(r => r.poi.id).sort();
+    expect(ids).toEqual(pois.filter(p => matchesFilters(p, filters)).map(p => p.id).sort());
+  });
+
+  describe('near a point', () => {
+    const spread = [
+      poi('far', 'Pwyll Crater', { lat: 0, lng: 20 }),
+      poi('mid', 'Research Outpost', { lat: 0, lng: 5 }),
+      poi('close', 'Thera Macula', { lat: 0, lng: 1 }),
+      poi('across', 'Tyre Crater', { lat: 0, lng: -179 })
+    ];
+    // About 27 km per degree of arc on Europa
+    const near = { lat: 0, lng: 0, radiusKm: 200 };
+
+    it('keeps POIs within the radius, nearest first', () => {
+      const results = searchPOIs(spread, { ...EMPTY_FILTERS, near });
+      expect(results.map(r => r.poi.id)).toEqual(['close', 'mid']);
+      expect(results[0].distanceKm).toBeCloseTo(27.24, 1);
+    });
+
+    it('still ranks by match quality first', () => {
+      const results = searchPOIs(spread, { ...EMPTY_FILTERS, query: 'outpost', near: { ...near, radiusKm: 1000 } });
+      expect(results.map(r => r.poi.id)).toEqual(['mid']);
+    });
+
+    it('wraps around the antimeridian and agrees with matchesFilters', () => {
+      const filters = { ...EMPTY_FILTERS, near: { lat: 0, lng: 180, radiusKm: 50 } };
+      expect(searchPOIs(spread, filters).map(r => r.poi.id)).toEqual(['across']);
+      expect(spread.filter(p => matchesFilters(p, filters)).map(p => p.id)).toEqual(['across']);
+    });
+  });
+});
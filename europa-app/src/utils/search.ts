@@ -0,0 +1,128 @@
+import { POI } from '../types';
+import { distanceKm } from '../geodesy';
+import { SpatialIndex, createSpatialIndex } from '../spatial';
+
+// Limits results to a radius around a point, usually a marker
+export interface NearFilter {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  poiId?: string; // Marker the search is centred on
+}
+
+export interface POIFilters {
+  query: string;
+  categories: string[]; // Empty = every category
+  factionIds: string[]; // Empty = every faction; UNCLAIMED_FACTION matches POIs without one
+  near?: NearFilter;
+}
+
+export const EMPTY_FILTERS: POIFilters = {
+  query: '',
+  categories: [],
+  factionIds: []
+};
+
+export interface SearchResult {
+  poi: POI;
+  score: number; // Higher is a better match
+  distanceKm?: number; // From the centre of the near filter
+}
+
+// Weight of each searchable field - a title hit beats a description hit
+const FIELD_WEIGHTS: Array<[keyof POI, number]> = [
+  ['title', 3],
+  ['location', 2],
+  ['description', 1]
+];
+
+export const hasActiveFilters = (filters: POIFilters) =>
+  filters.query.trim() !== '' || filters.categories.length > 0 || filters.factionIds.length > 0 || !!filters.near;
+
+/**
+ * Score how well `query` matches `text`, or return null when it doesn't.
+ * Substring matches score highest (earlier is better); otherwise every query
+ * character must appear in order, with runs of consecutive characters rewarded.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  const index = haystack.indexOf(needle);
+  if (index >= 0) {
+    return 100 - Math.min(index, 50) + (index === 0 ? 20 : 0);
+  }
+
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const found = haystack.indexOf(char, position);
+    if (found < 0) return null;
+
+    run = found === position ? run + 1 : 1;
+    score += run;
+    position = found + 1;
+  }
+
+  // Normalise so long, scattered matches rank below tight ones
+  return (score / needle.length) * 10;
+};
+
+// Category and faction filters, ignoring the text query
+export const matchesFacets = (poi: Pick<POI, 'category' | 'factionId'>, filters: POIFilters) => {
+  if (filters.categories.length > 0 && !filters.categories.includes(poi.category || '')) return false;
+  if (filters.factionIds.length > 0 && !filters.factionIds.includes(poi.factionId || '')) return false;
+  return true;
+};
+
+/**
+ * Best weighted match of the query across a POI's searchable fields
+ */
+const scorePOI = (poi: POI, query: string): number | null => {
+  let best: number | null = null;
+  FIELD_WEIGHTS.forEach(([field, weight]) => {
+    const value = poi[field];
+    if (typeof value !== 'string' || !value) return;
+
+    const score = fuzzyScore(query, value);
+    if (score !== null && (best === null || score * weight > best)) {
+      best = score * weight;
+    }
+  });
+  return best;
+};
+
+const isNear = (poi: POI, near?: NearFilter) => !near || distanceKm(near, poi) <= near.radiusKm;
+
+/**
+ * True when a POI passes the filters, including the text query
+ */
+export const matchesFilters = (poi: POI, filters: POIFilters) =>
+  matchesFacets(poi, filters) && isNear(poi, filters.near) && scorePOI(poi, filters.query) !== null;
+
+/**
+ * Filter POIs and rank them by match quality, best first.
+ * Ties go to the nearest when searching near a point, then by title.
+ * Pass a spatial index over the same POIs to reuse it across searches.
+ */
+export const searchPOIs = (pois: POI[], filters: POIFilters, index?: SpatialIndex<POI>): SearchResult[] => {
+  const { near } = filters;
+  const candidates = near ? (index || createSpatialIndex(pois)).queryRadius(near.lat, near.lng, near.radiusKm) : pois;
+
+  const results: SearchResult[] = [];
+  candidates.forEach(poi => {
+    if (!matchesFacets(poi, filters)) return;
+
+    const score = scorePOI(poi, filters.query);
+    if (score !== null) results.push(near ? { poi, score, distanceKm: distanceKm(near, poi) } : { poi, score });
+  });
+
+  return results.sort((a, b) =>
+    b.score - a.score ||
+    (a.distanceKm ?? 0) - (b.distanceKm ?? 0) ||
+    a.poi.title.localeCompare(b.poi.title)
+  );
+};
@@ -0,0 +1,109 @@
+import { computeOwnershipMap, computeFactionAreas, startOwnershipMap, territorySignature, texelDirection } from './territory';
+import { EUROPA_RADIUS_KM } from '../geodesy';
+import { poi } from '../testing/fixtures';
+
+// Small deterministic PRNG so failures are reproducible
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const randomSites = (count: number, random: () => number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const z = random() * 2 - 1;
+    const theta = random() * 2 * Math.PI;
+    const r = Math.sqrt(1 - z * z);
+    positions.set([r * Math.cos(theta), z, r * Math.sin(theta)], i * 3);
+  }
+  return positions;
+};
+
+// CPU reference: the nearest site by angle, found by linear scan
+const bruteForceNearestDot = (positions: Float32Array, direction: [number, number, number]) => {
+  let bestDot = -Infinity;
+  for (let i = 0; i < positions.length / 3; i++) {
+    const dot = positions[i * 3] * direction[0] + positions[i * 3 + 1] * direction[1] + positions[i * 3 + 2] * direction[2];
+    if (dot > bestDot) bestDot = dot;
+  }
+  return bestDot;
+};
+
+describe('computeOwnershipMap', () => {
+  it('matches a brute-force nearest-site search for thousands of sites', () => {
+    const random = mulberry32(42);
+    const positions = randomSites(3000, random);
+    const width = 128;
+    const height = 64;
+
+    const owners = computeOwnershipMap(positions, width, height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const direction = texelDirection(x, y, width, height);
+        const owner = owners[y * width + x];
+        const ownerDot =
+          positions[owner * 3] * direction[0] +
+          positions[owner * 3 + 1] * direction[1] +
+          positions[owner * 3 + 2] * direction[2];
+
+        expect(ownerDot).toBeCloseTo(bruteForceNearestDot(positions, direction), 6);
+      }
+    }
+  });
+
+  it('marks every texel as unowned when there are no sites', () => {
+    const owners = computeOwnershipMap(new Float32Array(0), 8, 4);
+    expect(Array.from(owners).every(owner => owner === -1)).toBe(true);
+  });
+
+  it('bakes the same map a few rows at a time', () => {
+    const positions = randomSites(200, mulberry32(7));
+    const bake = startOwnershipMap(positions, 64, 32);
+
+    let steps = 1;
+    while (!bake.step(5)) steps++;
+    expect(steps).toBe(7);
+    expect(bake.owners).toEqual(computeOwnershipMap(positions, 64, 32));
+  });
+});
+
+describe('computeFactionAreas', () => {
+  it('splits the surface between factions and sums to the whole sphere', () => {
+    const areas = computeFactionAreas([
+      poi('north', { lat: 45, factionId: 'a' }),
+      poi('south', { lat: -45, factionId: 'b' })
+    ]);
+    const total = 4 * Math.PI * EUROPA_RADIUS_KM * EUROPA_RADIUS_KM;
+
+    expect(areas.a + areas.b).toBeCloseTo(total, -3);
+    expect(areas.a / total).toBeCloseTo(0.5, 2);
+  });
+
+  it('merges cells held by the same faction', () => {
+    const areas = computeFactionAreas([
+      poi('one', { factionId: 'a' }),
+      poi('two', { lng: 120, factionId: 'a' }),
+      poi('three', { lng: -120, factionId: 'a' })
+    ]);
+
+    expect(Object.keys(areas)).toEqual(['a']);
+  });
+});
+
+describe('territorySignature', () => {
+  it('only changes when a site moves, changes faction, appears or disappears', () => {
+    const pois = [poi('a', { factionId: 'x' }), poi('b'), poi('pole', { type: 'pole' })];
+    const signature = territorySignature(pois);
+
+    expect(territorySignature([...pois])).toBe(signature);
+    expect(territorySignature(pois.map(site => ({ ...site, title: 'renamed' })))).toBe(signature);
+    expect(territorySignature(pois.filter(site => site.type !== 'pole'))).toBe(signature);
+
+    expect(territorySignature([poi('a', { factionId: 'x', lat: 11 }), poi('b'), pois[2]])).not.toBe(signature);
+    expect(territorySignature([poi('a', { factionId: 'y' }), poi('b'), pois[2]])).not.toBe(signature);
+    expect(territorySignature([pois[0], pois[2]])).not.toBe(signature);
+  });
+});
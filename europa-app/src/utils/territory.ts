@@ -0,0 +1,157 @@
+import { POI } from '../types';
+import { EUROPA_RADIUS_KM, directionFromRadians, latLongToVector3 } from '../geodesy';
+import { buildCellTree } from '../spatial';
+
+// Key used for territory whose nearest site has no faction
+export const UNCLAIMED_FACTION = '';
+
+// Default resolution of the equirectangular ownership map
+export const OWNERSHIP_MAP_WIDTH = 1024;
+export const OWNERSHIP_MAP_HEIGHT = 512;
+
+// POI types that act as territory sites
+export const isTerritorySite = (poi: POI) => poi.type === 'poi' || poi.type === 'custom';
+
+/**
+ * Key identifying the territory sites among POIs and the factions holding them.
+ * Equal keys bake the same ownership map, so a rebuilt POI array (a timeline tick, a
+ * live event touching a non-site) doesn't force the texture to be recomputed.
+ */
+export const territorySignature = (pois: POI[]): string =>
+  pois
+    .filter(isTerritorySite)
+    .map(poi => `${poi.id}:${poi.lat}:${poi.lng}:${poi.factionId || UNCLAIMED_FACTION}`)
+    .join('|');
+
+/**
+ * Flatten POIs into an [x, y, z, x, y, z, ...] array of unit vectors
+ */
+export const sitePositions = (sites: POI[]): Float32Array => {
+  const positions = new Float32Array(sites.length * 3);
+  sites.forEach((poi, index) => {
+    const direction = latLongToVector3(poi.lat, poi.lng, 1);
+    positions[index * 3] = direction.x;
+    positions[index * 3 + 1] = direction.y;
+    positions[index * 3 + 2] = direction.z;
+  });
+  return positions;
+};
+
+/**
+ * Unit vector at the centre of an equirectangular texel.
+ * Columns run west to east from -180°, rows run south to north from -90°,
+ * matching the lookup done in the territory shader.
+ */
+export const texelDirection = (x: number, y: number, width: number, height: number): [number, number, number] => {
+  const lng = ((x + 0.5) / width) * 2 * Math.PI - Math.PI;
+  const lat = ((y + 0.5) / height) * Math.PI - Math.PI / 2;
+  return directionFromRadians(lat, lng);
+};
+
+/**
+ * An ownership map being filled in a few rows at a time
+ */
+export interface OwnershipBake {
+  owners: Int32Array; // Nearest site per texel, row-major; -1 where not yet baked
+  // Bake up to `rows` more rows, returning true once the whole map is done
+  step: (rows: number) => boolean;
+}
+
+/**
+ * Start computing which site owns each texel of an equirectangular map, for maps too large
+ * to bake in one go without stalling the page.
+ *
+ * Uses the spatial cell index seeded with the previous texel's owner, so the cost is close to
+ * O(texels · log sites) and scales to thousands of sites.
+ */
+export const startOwnershipMap = (
+  positions: ArrayLike<number>,
+  width: number = OWNERSHIP_MAP_WIDTH,
+  height: number = OWNERSHIP_MAP_HEIGHT
+): OwnershipBake => {
+  const owners = new Int32Array(width * height).fill(-1);
+  const tree = buildCellTree(positions);
+  if (tree.size === 0) return { owners, step: () => true };
+
+  // Longitude terms are shared by every row, so compute them once
+  const cosLng = new Float64Array(width);
+  const sinLng = new Float64Array(width);
+  for (let x = 0; x < width; x++) {
+    const lng = ((x + 0.5) / width) * 2 * Math.PI - Math.PI;
+    cosLng[x] = Math.cos(lng);
+    sinLng[x] = Math.sin(lng);
+  }
+
+  let hint = -1;
+  let nextRow = 0;
+  const step = (rows: number) => {
+    const end = Math.min(height, nextRow + rows);
+    for (; nextRow < end; nextRow++) {
+      const lat = ((nextRow + 0.5) / height) * Math.PI - Math.PI / 2;
+      const cosLat = Math.cos(lat);
+      const sinLat = Math.sin(lat);
+      for (let x = 0; x < width; x++) {
+        hint = tree.nearest(cosLat * cosLng[x], sinLat, cosLat * sinLng[x], hint);
+        owners[nextRow * width + x] = hint;
+      }
+    }
+    return nextRow >= height;
+  };
+
+  return { owners, step };
+};
+
+/**
+ * Compute which site owns each texel of an equirectangular map in one go.
+ * Returns the index of the nearest site per texel (row-major), or -1 when there are no sites.
+ */
+export const computeOwnershipMap = (
+  positions: ArrayLike<number>,
+  width: number = OWNERSHIP_MAP_WIDTH,
+  height: number = OWNERSHIP_MAP_HEIGHT
+): Int32Array => {
+  const bake = startOwnershipMap(positions, width, height);
+  bake.step(height);
+  return bake.owners;
+};
+
+/**
+ * Surface area of each row of an equirectangular map texel, in km²
+ */
+const texelAreas = (width: number, height: number): Float64Array => {
+  const areas = new Float64Array(height);
+  const r2 = EUROPA_RADIUS_KM * EUROPA_RADIUS_KM;
+  for (let y = 0; y < height; y++) {
+    const south = (y / height) * Math.PI - Math.PI / 2;
+    const north = ((y + 1) / height) * Math.PI - Math.PI / 2;
+    areas[y] = (r2 * (2 * Math.PI / width)) * (Math.sin(north) - Math.sin(south));
+  }
+  return areas;
+};
+
+/**
+ * Estimate the surface area each faction controls, in km².
+ * Every texel of the ownership map belongs to its nearest site (a spherical Voronoi cell).
+ * Territory nearest to a site without a faction is reported under UNCLAIMED_FACTION.
+ */
+export const computeFactionAreas = (
+  pois: POI[],
+  width: number = OWNERSHIP_MAP_WIDTH / 4,
+  height: number = OWNERSHIP_MAP_HEIGHT / 4
+): Record<string, number> => {
+  const sites = pois.filter(isTerritorySite);
+  const areas: Record<string, number> = {};
+  if (sites.length === 0) return areas;
+
+  const owners = computeOwnershipMap(sitePositions(sites), width, height);
+  const rowAreas = texelAreas(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const factionId = sites[owners[y * width + x]].factionId || UNCLAIMED_FACTION;
+      areas[factionId] = (areas[factionId] || 0) + rowAreas[y];
+    }
+  }
+
+  return areas;
+};
@@ -0,0 +1,66 @@
+import { filterPOIsAsOf, getPOITime, getTimeRange } from './timeline';
+import { poi } from '../testing/fixtures';
+
+const at = (iso: string) => Date.parse(iso);
+
+const JAN = '2025-01-01T00:00:00Z';
+const FEB = '2025-02-01T00:00:00Z';
+const MAR = '2025-03-01T00:00:00Z';
+
+describe('getPOITime', () => {
+  it('prefers occurredAt over createdAt', () => {
+    expect(getPOITime({ occurredAt: JAN, createdAt: FEB })).toBe(at(JAN));
+    expect(getPOITime({ createdAt: FEB })).toBe(at(FEB));
+  });
+
+  it('returns null without a usable timestamp', () => {
+    expect(getPOITime({})).toBeNull();
+    expect(getPOITime({ createdAt: 'not a date' })).toBeNull();
+  });
+});
+
+describe('filterPOIsAsOf', () => {
+  const pois = [poi('seed'), poi('jan', { createdAt: JAN }), poi('feb', { occurredAt: FEB, createdAt: MAR }), poi('mar', { createdAt: MAR })];
+
+  it('returns every POI when live', () => {
+    expect(filterPOIsAsOf(pois, null)).toBe(pois);
+  });
+
+  it('returns an empty list unchanged', () => {
+    expect(filterPOIsAsOf([], at(FEB))).toEqual([]);
+  });
+
+  it('always keeps POIs without timestamps', () => {
+    expect(filterPOIsAsOf(pois, at('2000-01-01T00:00:00Z')).map(p => p.id)).toEqual(['seed']);
+  });
+
+  it('includes a POI placed exactly at the as-of time', () => {
+    expect(filterPOIsAsOf(pois, at(FEB)).map(p => p.id)).toEqual(['seed', 'jan', 'feb']);
+    expect(filterPOIsAsOf(pois, at(FEB) - 1).map(p => p.id)).toEqual(['seed', 'jan']);
+  });
+});
+
+describe('getTimeRange', () => {
+  const now = at('2025-06-01T00:00:00Z');
+
+  it('returns null for an empty list', () => {
+    expect(getTimeRange([], now)).toBeNull();
+  });
+
+  it('returns null when no POI has a timestamp', () => {
+    expect(getTimeRange([poi('a'), poi('b', { createdAt: 'garbage' })], now)).toBeNull();
+  });
+
+  it('runs from the earliest POI to now', () => {
+    const pois = [poi('seed'), poi('mar', { createdAt: MAR }), poi('jan', { occurredAt: JAN })];
+    expect(getTimeRange(pois, now)).toEqual({ start: at(JAN), end: now });
+  });
+
+  it('covers a single POI', () => {
+    expect(getTimeRange([poi('a', { createdAt: FEB })], now)).toEqual({ start: at(FEB), end: now });
+  });
+
+  it('never ends before it starts when the POI is in the future', () => {
+    expect(getTimeRange([poi('a', { createdAt: FEB })], at(JAN))).toEqual({ start: at(FEB), end: at(FEB) });
+  });
+});
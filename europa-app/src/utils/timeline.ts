@@ -0,0 +1,52 @@
+import { POI } from '../types';
+
+// Anything placed on the map at a point in time - POIs and map features
+type Timestamped = Pick<POI, 'createdAt' | 'occurredAt'>;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the time a POI came into existence on the map, in epoch milliseconds.
+ * Uses occurredAt when known, falling back to createdAt.
+ * Returns null for POIs without timestamps (e.g. the seed reference points),
+ * which are treated as always present.
+ */
+export const getPOITime = (poi: Timestamped): number | null => {
+  const timestamp = poi.occurredAt || poi.createdAt;
+  if (!timestamp) return null;
+
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Filter POIs down to the state of the map as of a point in time.
+ * A null time means "live" and returns every POI.
+ */
+export const filterPOIsAsOf = <T extends Timestamped>(pois: T[], time: number | null): T[] => {
+  if (time === null) return pois;
+
+  return pois.filter(poi => {
+    const poiTime = getPOITime(poi);
+    return poiTime === null || poiTime <= time;
+  });
+};
+
+/**
+ * Get the range of time covered by the POIs, ending at `now`.
+ * Returns null when no POI carries a timestamp.
+ */
+export const getTimeRange = (pois: Timestamped[], now: number = Date.now()): TimeRange | null => {
+  let start = Infinity;
+
+  pois.forEach(poi => {
+    const poiTime = getPOITime(poi);
+    if (poiTime !== null && poiTime < start) start = poiTime;
+  });
+
+  if (start === Infinity) return null;
+  return { start, end: Math.max(start, now) };
+};
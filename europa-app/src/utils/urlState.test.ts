@@ -0,0 +1,47 @@
+import { decodeMapState, encodeMapState, MapViewState } from './urlState';
+
+describe('map view URL state', () => {
+  it('round-trips a full view', () => {
+    const state: MapViewState = {
+      camera: { position: [1.234, -2.5, 3], target: [0, 0, 0], zoom: 1.5 },
+      layers: { gridLines: false, poi: true, voronoi: true },
+      selectedPOIId: 'poi-1',
+      filters: { query: 'chaos, north', categories: ['landmark', 'a,b'], factionIds: ['ridge-compact', ''] }
+    };
+    expect(decodeMapState(`#${encodeMapState(state)}`)).toEqual(state);
+  });
+
+  it('round-trips a near filter', () => {
+    const state: MapViewState = {
+      filters: { query: '', categories: [], factionIds: [], near: { lat: 12.5, lng: -170.25, radiusKm: 200, poiId: 'conamara,chaos' } }
+    };
+    expect(decodeMapState(encodeMapState(state))).toEqual(state);
+    expect(decodeMapState('#near=1,2,oops')).toEqual({});
+  });
+
+  it('rounds camera coordinates', () => {
+    const hash = encodeMapState({ camera: { position: [1.23456, 0, 0], target: [0, 0, 0], zoom: 1 } });
+    expect(decodeMapState(hash).camera!.position[0]).toBe(1.235);
+  });
+
+  it('only restores what the hash mentions', () => {
+    expect(decodeMapState('')).toEqual({});
+    expect(decodeMapState('#poi=abc')).toEqual({ selectedPOIId: 'abc' });
+  });
+
+  it('ignores malformed values', () => {
+    const state = decodeMapState('#cam=1,2&target=0,0,0&zoom=-1&on=');
+    expect(state.camera).toBeUndefined();
+    expect(state.layers).toEqual({});
+  });
+
+  it('skips list entries that fail to unescape', () => {
+    const state = decodeMapState('#cat=%25E,landmark&faction=%25&near=1,2,3,%25E');
+    expect(state.filters).toEqual({
+      query: '',
+      categories: ['landmark'],
+      factionIds: [],
+      near: { lat: 1, lng: 2, radiusKm: 3 }
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { NearFilter, POIFilters } from './search';
+
+export type Vec3Tuple = [number, number, number];
+
+export interface CameraViewState {
+  position: Vec3Tuple;
+  target: Vec3Tuple;
+  zoom: number;
+}
+
+/**
+ * The parts of the map view that can be shared as a link.
+ * Everything is optional - a hash only overrides what it mentions.
+ */
+export interface MapViewState {
+  camera?: CameraViewState;
+  layers?: Record<string, boolean>;
+  selectedPOIId?: string | null;
+  filters?: POIFilters;
+}
+
+// Enough precision to restore a view without bloating the URL
+const formatNumber = (value: number) => String(Number(value.toFixed(3)));
+
+// List entries are escaped on top of URLSearchParams' own encoding so they can hold commas.
+// Entries that don't unescape (e.g. a hand-edited '%E') are dropped rather than thrown on.
+const decodeEntry = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+// Lists are only written when non-empty, so a present but empty value is a single '' entry
+// (e.g. the unclaimed faction)
+const parseList = (value: string | null): string[] =>
+  value === null ? [] : value.split(',').map(decodeEntry).filter((entry): entry is string => entry !== null);
+
+const encodeList = (values: string[]) => values.map(encodeURIComponent).join(',');
+
+const parseVector = (value: string | null): Vec3Tuple | null => {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part))) return null;
+  return [parts[0], parts[1], parts[2]];
+};
+
+// Near filter as lat,lng,radius[,marker id]
+const encodeNear = ({ lat, lng, radiusKm, poiId }: NearFilter) =>
+  [formatNumber(lat), formatNumber(lng), formatNumber(radiusKm), ...(poiId ? [encodeURIComponent(poiId)] : [])].join(',');
+
+const parseNear = (value: string | null): NearFilter | undefined => {
+  if (!value) return undefined;
+  const [lat, lng, radiusKm, poiId] = value.split(',');
+  const near: NearFilter = { lat: Number(lat), lng: Number(lng), radiusKm: Number(radiusKm) };
+  if (![near.lat, near.lng, near.radiusKm].every(Number.isFinite) || near.radiusKm < 0) return undefined;
+  const marker = poiId ? decodeEntry(poiId) : null;
+  return marker ? { ...near, poiId: marker } : near;
+};
+
+/**
+ * Serialise view state into a URL hash (without the leading '#')
+ */
+export const encodeMapState = (state: MapViewState): string => {
+  const params = new URLSearchParams();
+
+  if (state.camera) {
+    params.set('cam', state.camera.position.map(formatNumber).join(','));
+    params.set('target', state.camera.target.map(formatNumber).join(','));
+    params.set('zoom', formatNumber(state.camera.zoom));
+  }
+  if (state.layers) {
+    // Store every layer so turning a default-on layer off survives the round trip
+    params.set('on', Object.keys(state.layers).filter(layer => state.layers![layer]).join(','));
+    params.set('off', Object.keys(state.layers).filter(layer => !state.layers![layer]).join(','));
+  }
+  if (state.selectedPOIId) {
+    params.set('poi', state.selectedPOIId);
+  }
+  if (state.filters) {
+    if (state.filters.query) params.set('q', state.filters.query);
+    if (state.filters.categories.length) params.set('cat', encodeList(state.filters.categories));
+    if (state.filters.factionIds.length) params.set('faction', encodeList(state.filters.factionIds));
+    if (state.filters.near) params.set('near', encodeNear(state.filters.near));
+  }
+
+  return params.toString();
+};
+
+/**
+ * Parse a URL hash back into view state, ignoring anything malformed
+ */
+export const decodeMapState = (hash: string): MapViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: MapViewState = {};
+
+  const position = parseVector(params.get('cam'));
+  const target = parseVector(params.get('target'));
+  const zoom = Number(params.get('zoom'));
+  if (position && target) {
+    state.camera = { position, target, zoom: Number.isFinite(zoom) && zoom > 0 ? zoom : 1 };
+  }
+
+  if (params.has('on') || params.has('off')) {
+    const layers: Record<string, boolean> = {};
+    parseList(params.get('off')).filter(Boolean).forEach(layer => { layers[layer] = false; });
+    parseList(params.get('on')).filter(Boolean).forEach(layer => { layers[layer] = true; });
+    state.layers = layers;
+  }
+
+  const poi = params.get('poi');
+  if (poi) state.selectedPOIId = poi;
+
+  const near = parseNear(params.get('near'));
+  if (params.has('q') || params.has('cat') || params.has('faction') || near) {
+    state.filters = {
+      query: params.get('q') || '',
+      categories: parseList(params.get('cat')),
+      factionIds: parseList(params.get('faction')),
+      ...(near && { near })
+    };
+  }
+
+  return state;
+};
+
+/**
+ * Replace the current URL hash without adding a history entry
+ */
+export const replaceHashState = (state: MapViewState) => {
+  const hash = encodeMapState(state);
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+  window.history.replaceState(window.history.state, '', url);
+};
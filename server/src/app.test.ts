@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from './app';
+import { createStore } from './store';
+
+const poi = (id: string, extra: Record<string, unknown> = {}) =>
+  ({ id, title: id, description: '', lat: 0, lng: 0, type: 'poi', ...extra });
+
+// Serve a fresh in-memory store for the duration of `run`
+const withServer = async (run: (request: (path: string, init?: RequestInit) => Promise<Response>) => Promise<void>) => {
+  const store = createStore(':memory:');
+  const server = http.createServer(createApp(store, { openapi: '3.0.3' }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run((path, init) => fetch(`http://127.0.0.1:${port}${path}`, init));
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+    store.close();
+  }
+};
+
+// Response bodies are loosely typed - the assertions check their shape
+const body = async (response: Response): Promise<any> => response.json();
+
+const json = (method: string, body: unknown, headers: Record<string, string> = {}): RequestInit =>
+  ({ method, body: JSON.stringify(body), headers: { 'Content-Type': 'application/json', ...headers } });
+
+test('records are created, listed and read with their ETag', () => withServer(async request => {
+  const created = await request('/pois', json('POST', poi('a')));
+  assert.equal(created.status, 201);
+  assert.equal(created.headers.get('location'), '/pois/a');
+
+  const read = await request('/pois/a');
+  assert.equal(read.status, 200);
+  assert.equal(read.headers.get('etag'), created.headers.get('etag'));
+
+  const page = await body(await request('/pois?limit=10'));
+  assert.deepEqual(page.items.map((item: { record: { id: string } }) => item.record.id), ['a']);
+  assert.equal(page.nextCursor, null);
+}));
+
+test('writes over a record answer 428 without If-Match and 412 with a stale one', () => withServer(async request => {
+  const etag = (await request('/pois', json('POST', poi('a')))).headers.get('etag') as string;
+
+  assert.equal((await request('/pois/a', json('PUT', poi('a', { title: 'edit' })))).status, 428);
+  assert.equal((await request('/pois/a', json('PUT', poi('a', { title: 'edit' }), { 'If-Match': '"41"' }))).status, 412);
+
+  const updated = await request('/pois/a', json('PUT', poi('a', { title: 'edit' }), { 'If-Match': etag }));
+  assert.equal(updated.status, 200);
+
+  const stale = await request('/pois/a', { method: 'DELETE', headers: { 'If-Match': etag } });
+  assert.equal(stale.status, 412);
+  assert.equal((await body(stale)).details.etag, updated.headers.get('etag'));
+
+  assert.equal((await request('/pois/a', { method: 'DELETE' })).status, 428);
+  assert.equal((await request('/pois/a', { method: 'DELETE', headers: { 'If-Match': updated.headers.get('etag') as string } })).status, 204);
+  assert.deepEqual(await body(await request('/tombstones/pois')), { ids: ['a'] });
+  assert.equal((await request('/pois/a')).status, 404);
+}));
+
+test('bulk imports report invalid records by index', () => withServer(async request => {
+  const response = await request('/pois/import', json('POST', { items: [poi('a'), { id: 'b' }] }));
+  assert.equal(response.status, 200);
+  const result = await body(response);
+  assert.equal(result.imported, 1);
+  assert.deepEqual(result.errors.map((error: { index: number }) => error.index), [1]);
+
+  assert.equal((await request('/pois/import', json('POST', [poi('a')]))).status, 400);
+  assert.equal((await request('/pois/import')).status, 405);
+}));
+
+test('unknown routes and bad bodies are rejected', () => withServer(async request => {
+  assert.equal((await request('/nothing')).status, 404);
+  assert.equal((await request('/pois/a/b')).status, 404);
+  assert.equal((await request('/pois/%E0%A4')).status, 400);
+  assert.equal((await request('/pois', { method: 'PATCH' })).status, 405);
+  assert.equal((await request('/pois', { method: 'POST', body: '{' })).status, 400);
+  assert.equal((await request('/pois', json('POST', { id: 'x' }))).status, 422);
+  assert.equal((await request('/pois/a', json('PUT', poi('b')))).status, 400);
+}));
@@ -0,0 +1,102 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { CollectionName, isCollectionName } from './collections';
+import { HttpError, readJSON, sendEmpty, sendError, sendJSON } from './http';
+import { parseListQuery } from './query';
+import { Store } from './store';
+
+const header = (req: IncomingMessage, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+// Path segments with escapes decoded - a malformed escape is the client's mistake, not a server error
+const pathSegments = (pathname: string) =>
+  pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new HttpError(400, `Malformed path segment "${segment}"`);
+    }
+  });
+
+const handleCollection = async (
+  store: Store,
+  collection: CollectionName,
+  id: string | undefined,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL
+) => {
+  const ifMatch = header(req, 'if-match');
+
+  if (id === undefined) {
+    if (req.method === 'GET') return sendJSON(res, 200, store.list(collection, parseListQuery(url.searchParams)));
+    if (req.method === 'POST') {
+      const { record, etag } = store.create(collection, await readJSON(req));
+      return sendJSON(res, 201, record, { ETag: etag, Location: `/${collection}/${encodeURIComponent(record.id)}` });
+    }
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  if (id === 'import') {
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+    const body = await readJSON(req);
+    const items = (body as { items?: unknown } | null)?.items;
+    if (!Array.isArray(items)) throw new HttpError(400, 'Expected { items: [...] }');
+    return sendJSON(res, 200, store.importRecords(collection, items));
+  }
+
+  switch (req.method) {
+    case 'GET': {
+      const { record, etag } = store.get(collection, id);
+      return sendJSON(res, 200, record, { ETag: etag });
+    }
+    case 'PUT': {
+      const { record, etag, created } = store.put(collection, id, await readJSON(req), ifMatch);
+      return sendJSON(res, created ? 201 : 200, record, { ETag: etag });
+    }
+    case 'DELETE':
+      store.remove(collection, id, ifMatch);
+      return sendEmpty(res, 204);
+    default:
+      throw new HttpError(405, 'Method not allowed');
+  }
+};
+
+/**
+ * Request handler for the API:
+ *
+ * - GET    /{collection}              list, filtered by bbox/from/to/category, paged by cursor
+ * - POST   /{collection}              create
+ * - POST   /{collection}/import       bulk insert or replace
+ * - GET    /{collection}/{id}         read, with an ETag
+ * - PUT    /{collection}/{id}         create or replace - replacing needs If-Match
+ * - DELETE /{collection}/{id}         delete - needs If-Match when the record exists
+ * - GET    /tombstones/{collection}   ids of deleted records
+ * - GET    /openapi.json              the API description
+ *
+ * where collection is pois, features, reports or checkins.
+ */
+export const createApp = (store: Store, openApiSpec: unknown) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method === 'OPTIONS') return sendEmpty(res, 204);
+
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      const [first, second, ...rest] = pathSegments(url.pathname);
+
+      if (first === 'openapi.json' && !second) return sendJSON(res, 200, openApiSpec);
+      if (first === 'health' && !second) return sendJSON(res, 200, { ok: true });
+      if (first === 'tombstones' && second && isCollectionName(second) && rest.length === 0) {
+        if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+        return sendJSON(res, 200, { ids: store.tombstones(second) });
+      }
+      if (first && isCollectionName(first) && rest.length === 0) {
+        return await handleCollection(store, first, second, req, res, url);
+      }
+
+      throw new HttpError(404, 'Not found');
+    } catch (err) {
+      sendError(res, err);
+    }
+  };
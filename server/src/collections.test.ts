@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { COLLECTIONS } from './collections';
+
+test('POIs need a title and a position on the globe', () => {
+  assert.deepEqual(COLLECTIONS.pois.validate({ id: 'a', title: 'Outpost', lat: 10, lng: 20 }), []);
+  assert.deepEqual(COLLECTIONS.pois.validate({ id: 'a', lat: 100, lng: 20, type: 'city' }), [
+    'title is required',
+    'lat must be a number from -90 to 90',
+    'unknown type "city"'
+  ]);
+});
+
+test('records are indexed by position, event time and category', () => {
+  assert.deepEqual(COLLECTIONS.pois.index({ id: 'a', lat: 10, lng: 20, occurredAt: '2026-01-01', category: 'impact' }), {
+    minLat: 10, maxLat: 10, minLng: 20, maxLng: 20, time: '2026-01-01T00:00:00.000Z', category: 'impact'
+  });
+  assert.deepEqual(COLLECTIONS.reports.index({ id: 'r', poiId: 'a', reportedAt: '2026-01-02T00:00:00Z', severity: 'high' }), {
+    minLat: null, maxLat: null, minLng: null, maxLng: null, time: '2026-01-02T00:00:00.000Z', category: 'high'
+  });
+});
+
+test('features are indexed by the box around their points, widened by a circle\'s radius', () => {
+  const polygon = COLLECTIONS.features.index({ id: 'f', kind: 'polygon', points: [{ lat: 0, lng: 0 }, { lat: 10, lng: -5 }] });
+  assert.deepEqual([polygon.minLat, polygon.maxLat, polygon.minLng, polygon.maxLng], [0, 10, -5, 0]);
+
+  const circle = COLLECTIONS.features.index({ id: 'c', kind: 'circle', points: [{ lat: 0, lng: 0 }], radiusKm: 100 });
+  assert.ok(circle.maxLat! > 3.6 && circle.maxLat! < 3.7);
+  assert.ok(circle.minLng! < -3.6);
+});
+
+test('reports and check-ins are checked against their own fields', () => {
+  assert.deepEqual(COLLECTIONS.reports.validate({ id: 'r', headline: 'Shelling', reportedAt: '2026-01-01', severity: 'high', sourceUrls: [] }), []);
+  assert.deepEqual(COLLECTIONS.checkins.validate({ id: 'c', poiId: 'a', author: 'ann', status: 'lost', checkedInAt: 'x' }), [
+    'unknown status "lost"',
+    'checkedInAt is required'
+  ]);
+});
@@ -0,0 +1,186 @@
+/**
+ * The record types the API stores, with the checks applied before saving and
+ * the columns each is indexed by for filtering.
+ * The checks mirror the frontend's schema module (europa-app/src/schema) closely enough
+ * to keep bad records out; the frontend still validates everything it loads.
+ */
+
+export type CollectionName = 'pois' | 'features' | 'reports' | 'checkins';
+
+export const COLLECTION_NAMES: CollectionName[] = ['pois', 'features', 'reports', 'checkins'];
+
+// Columns a record is filtered by. Null when a record has no position or time
+export interface IndexFields {
+  minLat: number | null;
+  maxLat: number | null;
+  minLng: number | null;
+  maxLng: number | null;
+  time: string | null;
+  category: string | null;
+}
+
+export type StoredRecord = Record<string, unknown> & { id: string };
+
+export interface Collection {
+  name: CollectionName;
+  idPrefix: string;
+  validate: (record: unknown) => string[];
+  index: (record: StoredRecord) => IndexFields;
+}
+
+const EUROPA_RADIUS_KM = 1560.8;
+const KM_PER_DEGREE = (Math.PI / 180) * EUROPA_RADIUS_KM;
+
+const POI_TYPES = ['poi', 'orientation', 'pole', 'custom'];
+const FEATURE_KINDS = ['polygon', 'polyline', 'circle'];
+const REPORT_SEVERITIES = ['low', 'moderate', 'high', 'critical'];
+const CHECK_IN_STATUSES = ['ok', 'need_help', 'moving'];
+const MODERATION_STATUSES = ['pending', 'approved', 'rejected'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isLat = (value: unknown) => typeof value === 'number' && value >= -90 && value <= 90;
+const isLng = (value: unknown) => typeof value === 'number' && value >= -180 && value <= 180;
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const toISO = (value: unknown) => (isTimestamp(value) ? new Date(value as string).toISOString() : null);
+
+// Problems shared by every record: id, optional strings and timestamps
+const checkCommon = (raw: Record<string, unknown>, strings: string[], timestamps: string[]): string[] => {
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id.trim()) errors.push('id is required');
+  strings.forEach(field => {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') errors.push(`${field} must be a string`);
+  });
+  timestamps.forEach(field => {
+    if (raw[field] !== undefined && !isTimestamp(raw[field])) errors.push(`${field} is not a valid timestamp`);
+  });
+  if (raw.moderationStatus !== undefined && !MODERATION_STATUSES.includes(raw.moderationStatus as string)) {
+    errors.push(`unknown moderationStatus "${String(raw.moderationStatus)}"`);
+  }
+  if (raw.moderationLog !== undefined && !Array.isArray(raw.moderationLog)) errors.push('moderationLog must be an array');
+  return errors;
+};
+
+const AUDIT_STRINGS = ['createdBy', 'updatedBy'];
+const AUDIT_TIMESTAMPS = ['createdAt', 'updatedAt'];
+
+const noPosition = { minLat: null, maxLat: null, minLng: null, maxLng: null };
+
+const pointBox = (lat: unknown, lng: unknown) =>
+  typeof lat === 'number' && typeof lng === 'number' ? { minLat: lat, maxLat: lat, minLng: lng, maxLng: lng } : noPosition;
+
+const pois: Collection = {
+  name: 'pois',
+  idPrefix: 'poi',
+  validate: record => {
+    if (!isObject(record)) return ['record is not an object'];
+    const errors = checkCommon(record, ['description', 'location', 'category', 'icon', 'factionId', ...AUDIT_STRINGS], ['occurredAt', ...AUDIT_TIMESTAMPS]);
+    if (typeof record.title !== 'string' || !record.title.trim()) errors.push('title is required');
+    if (!isLat(record.lat)) errors.push('lat must be a number from -90 to 90');
+    if (!isLng(record.lng)) errors.push('lng must be a number from -180 to 180');
+    if (record.type !== undefined && !POI_TYPES.includes(record.type as string)) errors.push(`unknown type "${String(record.type)}"`);
+    if (record.safeZone !== undefined && typeof record.safeZone !== 'boolean') errors.push('safeZone must be a boolean');
+    return errors;
+  },
+  index: record => ({
+    ...pointBox(record.lat, record.lng),
+    time: toISO(record.occurredAt) || toISO(record.createdAt),
+    category: typeof record.category === 'string' ? record.category : null
+  })
+};
+
+// Box around a feature's points, widened by the radius for circles
+const featureBox = (record: StoredRecord) => {
+  const points = Array.isArray(record.points) ? (record.points as Array<{ lat: number; lng: number }>) : [];
+  if (points.length === 0) return noPosition;
+
+  const lats = points.map(point => point.lat);
+  const lngs = points.map(point => point.lng);
+  const radiusKm = record.kind === 'circle' && typeof record.radiusKm === 'number' ? record.radiusKm : 0;
+  const latPad = radiusKm / KM_PER_DEGREE;
+  const maxAbsLat = Math.min(89, Math.max(...lats.map(Math.abs)) + latPad);
+  const lngPad = radiusKm > 0 ? latPad / Math.cos((maxAbsLat * Math.PI) / 180) : 0;
+
+  return {
+    minLat: Math.max(-90, Math.min(...lats) - latPad),
+    maxLat: Math.min(90, Math.max(...lats) + latPad),
+    minLng: Math.max(-180, Math.min(...lngs) - lngPad),
+    maxLng: Math.min(180, Math.max(...lngs) + lngPad)
+  };
+};
+
+const features: Collection = {
+  name: 'features',
+  idPrefix: 'feature',
+  validate: record => {
+    if (!isObject(record)) return ['record is not an object'];
+    const errors = checkCommon(record, ['description', 'category', 'factionId', 'color', ...AUDIT_STRINGS], ['occurredAt', ...AUDIT_TIMESTAMPS]);
+    if (typeof record.title !== 'string' || !record.title.trim()) errors.push('title is required');
+    if (!FEATURE_KINDS.includes(record.kind as string)) errors.push(`unknown kind "${String(record.kind)}"`);
+    if (!Array.isArray(record.points) || record.points.length === 0) {
+      errors.push('points must be a non-empty array');
+    } else if (!record.points.every(point => isObject(point) && isLat(point.lat) && isLng(point.lng))) {
+      errors.push('every point needs a lat from -90 to 90 and a lng from -180 to 180');
+    }
+    if (record.kind === 'circle' && !(typeof record.radiusKm === 'number' && record.radiusKm > 0)) {
+      errors.push('circles need a positive radiusKm');
+    }
+    if (record.contested !== undefined && typeof record.contested !== 'boolean') errors.push('contested must be a boolean');
+    return errors;
+  },
+  index: record => ({
+    ...featureBox(record),
+    time: toISO(record.occurredAt) || toISO(record.createdAt),
+    category: typeof record.category === 'string' ? record.category : null
+  })
+};
+
+const reports: Collection = {
+  name: 'reports',
+  idPrefix: 'report',
+  validate: record => {
+    if (!isObject(record)) return ['record is not an object'];
+    const errors = checkCommon(record, ['body', 'author', 'poiId', ...AUDIT_STRINGS], ['reportedAt', ...AUDIT_TIMESTAMPS]);
+    if (typeof record.headline !== 'string' || !record.headline.trim()) errors.push('headline is required');
+    if (!isTimestamp(record.reportedAt)) errors.push('reportedAt is required');
+    if (!REPORT_SEVERITIES.includes(record.severity as string)) errors.push(`unknown severity "${String(record.severity)}"`);
+    if (!Array.isArray(record.sourceUrls) || !record.sourceUrls.every(url => typeof url === 'string')) {
+      errors.push('sourceUrls must be an array of strings');
+    }
+    if (record.lat !== undefined && !isLat(record.lat)) errors.push('lat must be a number from -90 to 90');
+    if (record.lng !== undefined && !isLng(record.lng)) errors.push('lng must be a number from -180 to 180');
+    return errors;
+  },
+  // Reports filed on a POI without their own position are left out of bbox queries
+  index: record => ({
+    ...pointBox(record.lat, record.lng),
+    time: toISO(record.reportedAt),
+    category: typeof record.severity === 'string' ? record.severity : null
+  })
+};
+
+const checkins: Collection = {
+  name: 'checkins',
+  idPrefix: 'checkin',
+  validate: record => {
+    if (!isObject(record)) return ['record is not an object'];
+    const errors = checkCommon(record, ['note'], []);
+    if (typeof record.poiId !== 'string' || !record.poiId) errors.push('poiId is required');
+    if (typeof record.author !== 'string' || !record.author) errors.push('author is required');
+    if (!CHECK_IN_STATUSES.includes(record.status as string)) errors.push(`unknown status "${String(record.status)}"`);
+    if (!isTimestamp(record.checkedInAt)) errors.push('checkedInAt is required');
+    return errors;
+  },
+  index: record => ({
+    ...noPosition,
+    time: toISO(record.checkedInAt),
+    category: typeof record.status === 'string' ? record.status : null
+  })
+};
+
+export const COLLECTIONS: Record<CollectionName, Collection> = { pois, features, reports, checkins };
+
+export const isCollectionName = (value: string): value is CollectionName =>
+  (COLLECTION_NAMES as string[]).includes(value);
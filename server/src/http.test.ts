@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesETag, toETag } from './http';
+
+test('If-Match matches the current version, a list containing it, or *', () => {
+  assert.equal(toETag(3), '"3"');
+  assert.equal(matchesETag('"3"', 3), true);
+  assert.equal(matchesETag('"1", W/"3"', 3), true);
+  assert.equal(matchesETag('*', 3), true);
+  assert.equal(matchesETag('"2"', 3), false);
+  assert.equal(matchesETag('*', null), false);
+});
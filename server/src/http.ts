@@ -0,0 +1,81 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// Largest request body accepted, so a bulk import can't exhaust memory
+export const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * An error with the HTTP status to answer with
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, If-Match',
+  'Access-Control-Expose-Headers': 'ETag, Location'
+};
+
+export const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendEmpty = (res: ServerResponse, status: number, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, ...headers });
+  res.end();
+};
+
+export const sendError = (res: ServerResponse, err: unknown) => {
+  if (err instanceof HttpError) {
+    sendJSON(res, err.status, { error: err.message, details: err.details });
+    return;
+  }
+  console.error('Unhandled error:', err);
+  sendJSON(res, 500, { error: 'Internal server error' });
+};
+
+export const readJSON = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+/**
+ * ETag for a stored record version
+ */
+export const toETag = (version: number) => `"${version}"`;
+
+/**
+ * Whether an If-Match header allows writing over `version` (missing record = null)
+ */
+export const matchesETag = (ifMatch: string, version: number | null): boolean => {
+  if (version === null) return false;
+  if (ifMatch.trim() === '*') return true;
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(toETag(version));
+};
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { createApp } from './app';
+import { createStore } from './store';
+
+/**
+ * Reference API server for the Europa awareness map.
+ *
+ *   npm install && npm run dev
+ *   REACT_APP_POI_API_URL=http://localhost:4000 npm start   (in europa-app)
+ *
+ * PORT (default 4000) and DB_PATH (default ./europa.sqlite) configure it.
+ */
+const PORT = Number(process.env.PORT) || 4000;
+const DB_PATH = process.env.DB_PATH || path.resolve(process.cwd(), 'europa.sqlite');
+
+// Served as-is from the package root, next to dist/
+const openApiSpec = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../openapi.json'), 'utf8'));
+
+const store = createStore(DB_PATH);
+const server = http.createServer(createApp(store, openApiSpec));
+
+server.listen(PORT, () => {
+  console.log(`Europa API listening on http://localhost:${PORT} (database ${DB_PATH})`);
+});
+
+const shutdown = () => {
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpError } from './http';
+import { DEFAULT_PAGE_SIZE, decodeCursor, encodeCursor, parseListQuery } from './query';
+
+const parse = (query: string) => parseListQuery(new URLSearchParams(query));
+
+test('list queries default to the first page', () => {
+  assert.deepEqual(parse(''), { bbox: undefined, from: undefined, to: undefined, category: undefined, limit: DEFAULT_PAGE_SIZE, after: undefined });
+});
+
+test('list queries read the bbox, time range, categories and cursor', () => {
+  const query = parse(`bbox=170,-10,-170,10&from=2026-01-01&to=2026-02-01T12:00:00Z&category=impact,terrain&category=user&limit=20&cursor=${encodeCursor('poi-9')}`);
+  assert.deepEqual(query, {
+    bbox: { minLng: 170, minLat: -10, maxLng: -170, maxLat: 10 },
+    from: '2026-01-01T00:00:00.000Z',
+    to: '2026-02-01T12:00:00.000Z',
+    category: ['impact', 'terrain', 'user'],
+    limit: 20,
+    after: 'poi-9'
+  });
+});
+
+test('malformed list queries are rejected with a 400', () => {
+  ['bbox=1,2,3', 'bbox=0,20,10,10', 'from=yesterday', 'limit=0', 'limit=501', 'limit=2.5', 'cursor=nope'].forEach(query => {
+    assert.throws(() => parse(query), (err: unknown) => err instanceof HttpError && err.status === 400, query);
+  });
+});
+
+test('cursors round-trip ids', () => {
+  assert.equal(decodeCursor(encodeCursor('report-1/ä')), 'report-1/ä');
+});
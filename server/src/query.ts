@@ -0,0 +1,80 @@
+import { HttpError } from './http';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+// Longitude/latitude box. minLng > maxLng means the box crosses the antimeridian
+export interface BBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+export interface ListQuery {
+  bbox?: BBox;
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, inclusive
+  category?: string[];
+  limit: number;
+  after?: string; // Id the page starts after, decoded from the cursor
+}
+
+/**
+ * Opaque cursor for the page following the record `id` - ids are listed in ascending order
+ */
+export const encodeCursor = (id: string) => Buffer.from(JSON.stringify({ after: id })).toString('base64url');
+
+export const decodeCursor = (cursor: string): string => {
+  try {
+    const { after } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof after === 'string') return after;
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Invalid cursor');
+};
+
+const parseTime = (value: string, name: string): string => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new HttpError(400, `${name} must be an ISO 8601 timestamp`);
+  return new Date(time).toISOString();
+};
+
+export const parseBBox = (value: string): BBox => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) {
+    throw new HttpError(400, 'bbox must be minLng,minLat,maxLng,maxLat');
+  }
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLat > maxLat || minLat < -90 || maxLat > 90 || Math.abs(minLng) > 180 || Math.abs(maxLng) > 180) {
+    throw new HttpError(400, 'bbox is out of range');
+  }
+  return { minLng, minLat, maxLng, maxLat };
+};
+
+/**
+ * Read the filters and page of a list request
+ */
+export const parseListQuery = (params: URLSearchParams): ListQuery => {
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const bbox = params.get('bbox');
+  const from = params.get('from');
+  const to = params.get('to');
+  const cursor = params.get('cursor');
+  const categories = params.getAll('category').flatMap(value => value.split(',')).filter(Boolean);
+
+  return {
+    bbox: bbox ? parseBBox(bbox) : undefined,
+    from: from ? parseTime(from, 'from') : undefined,
+    to: to ? parseTime(to, 'to') : undefined,
+    category: categories.length > 0 ? categories : undefined,
+    limit,
+    after: cursor ? decodeCursor(cursor) : undefined
+  };
+};
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpError } from './http';
+import { decodeCursor, parseListQuery } from './query';
+import { createStore } from './store';
+
+const poi = (id: string, lat: number, lng: number, extra: Record<string, unknown> = {}) =>
+  ({ id, title: id, description: '', lat, lng, type: 'poi', ...extra });
+
+const list = (store: ReturnType<typeof createStore>, query: string) =>
+  store.list('pois', parseListQuery(new URLSearchParams(query)));
+
+const ids = (page: ReturnType<typeof list>) => page.items.map(item => item.record.id);
+
+const rejectsWith = (status: number) => (err: unknown) => err instanceof HttpError && err.status === status;
+
+test('lists page through records in id order', () => {
+  const store = createStore(':memory:');
+  ['e', 'b', 'd', 'a', 'c'].forEach(id => store.create('pois', poi(id, 0, 0)));
+
+  const first = list(store, 'limit=2');
+  assert.deepEqual(ids(first), ['a', 'b']);
+  assert.equal(decodeCursor(first.nextCursor as string), 'b');
+
+  const second = list(store, `limit=2&cursor=${first.nextCursor}`);
+  assert.deepEqual(ids(second), ['c', 'd']);
+
+  const last = list(store, `limit=2&cursor=${second.nextCursor}`);
+  assert.deepEqual(ids(last), ['e']);
+  assert.equal(last.nextCursor, null);
+  store.close();
+});
+
+test('bbox filters match either side of the antimeridian', () => {
+  const store = createStore(':memory:');
+  store.create('pois', poi('east', 0, 175));
+  store.create('pois', poi('west', 0, -175));
+  store.create('pois', poi('prime', 0, 0));
+  store.create('pois', poi('north', 60, 178));
+  store.create('features', { id: 'line', kind: 'polyline', title: 'line', description: '', points: [{ lat: 0, lng: 100 }, { lat: 1, lng: 120 }] });
+
+  assert.deepEqual(ids(list(store, 'bbox=170,-10,-170,10')), ['east', 'west']);
+  assert.deepEqual(ids(list(store, 'bbox=-10,-10,10,10')), ['prime']);
+  assert.deepEqual(store.list('features', parseListQuery(new URLSearchParams('bbox=170,-10,-170,10'))).items, []);
+  store.close();
+});
+
+test('replacing or deleting a record needs its current ETag', () => {
+  const store = createStore(':memory:');
+  const { etag } = store.create('pois', poi('a', 0, 0));
+
+  assert.throws(() => store.put('pois', 'a', poi('a', 1, 1)), rejectsWith(428));
+  assert.throws(() => store.put('pois', 'a', poi('a', 1, 1), '"99"'), rejectsWith(412));
+  assert.throws(() => store.remove('pois', 'a'), rejectsWith(428));
+
+  const updated = store.put('pois', 'a', poi('a', 1, 1), etag);
+  assert.equal(updated.created, false);
+  assert.notEqual(updated.etag, etag);
+
+  // The ETag read before the update is now stale
+  assert.throws(() => store.remove('pois', 'a', etag), rejectsWith(412));
+  assert.throws(() => store.put('pois', 'missing', poi('missing', 0, 0), etag), rejectsWith(412));
+  assert.equal(store.put('pois', 'new', poi('new', 0, 0)).created, true);
+  store.close();
+});
+
+test('deleting leaves a tombstone and frees the id', () => {
+  const store = createStore(':memory:');
+  const { etag } = store.create('pois', poi('a', 0, 0));
+  store.create('pois', poi('b', 0, 0));
+
+  store.remove('pois', 'a', etag);
+  store.remove('pois', 'seed-only');
+  store.remove('pois', 'a');
+
+  assert.deepEqual(store.tombstones('pois'), ['a', 'seed-only']);
+  assert.deepEqual(store.tombstones('features'), []);
+  assert.throws(() => store.get('pois', 'a'), rejectsWith(404));
+  assert.deepEqual(ids(list(store, '')), ['b']);
+
+  // Recreating a deleted record clears its tombstone and carries on from its version
+  const recreated = store.create('pois', poi('a', 0, 0));
+  assert.equal(recreated.etag, '"3"');
+  assert.deepEqual(store.tombstones('pois'), ['seed-only']);
+  store.close();
+});
+
+test('imports insert or replace valid records and report invalid ones', () => {
+  const store = createStore(':memory:');
+  const { etag } = store.create('pois', poi('a', 0, 0));
+  store.remove('pois', 'gone', undefined);
+
+  const result = store.importRecords('pois', [poi('a', 5, 5), poi('gone', 1, 1), { id: 'bad', lat: 100, lng: 0 }, null]);
+
+  assert.equal(result.imported, 2);
+  assert.deepEqual(result.errors.map(error => [error.index, error.id]), [[2, 'bad'], [3, undefined]]);
+  assert.ok(result.errors[0].messages.includes('title is required'));
+
+  const replaced = store.get('pois', 'a');
+  assert.equal(replaced.record.lat, 5);
+  assert.notEqual(replaced.etag, etag);
+  assert.deepEqual(store.tombstones('pois'), []);
+  assert.deepEqual(ids(list(store, '')), ['a', 'gone']);
+  store.close();
+});
@@ -0,0 +1,231 @@
+import Database from 'better-sqlite3';
+import { COLLECTIONS, CollectionName, StoredRecord } from './collections';
+import { HttpError, matchesETag, toETag } from './http';
+import { ListQuery, encodeCursor } from './query';
+
+export interface VersionedRecord {
+  record: StoredRecord;
+  etag: string;
+}
+
+export interface ListPage {
+  items: VersionedRecord[];
+  nextCursor: string | null;
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: Array<{ index: number; id?: string; messages: string[] }>;
+}
+
+interface Row {
+  id: string;
+  data: string | null;
+  version: number;
+  deleted: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT,
+    version INTEGER NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    min_lat REAL,
+    max_lat REAL,
+    min_lng REAL,
+    max_lng REAL,
+    time TEXT,
+    category TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (collection, id)
+  );
+  CREATE INDEX IF NOT EXISTS records_position ON records (collection, deleted, min_lat, max_lat);
+  CREATE INDEX IF NOT EXISTS records_time ON records (collection, deleted, time);
+`;
+
+const toVersioned = (row: Row): VersionedRecord => ({
+  record: JSON.parse(row.data as string) as StoredRecord,
+  etag: toETag(row.version)
+});
+
+/**
+ * Records of every collection in one SQLite table, one row per id.
+ * Deleting leaves a tombstone row so clients layering edits over seed data can tell a record was removed,
+ * and each write bumps the row's version, which is served as its ETag.
+ */
+export const createStore = (filename: string) => {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const selectRow = db.prepare<[string, string], Row>(
+    'SELECT id, data, version, deleted FROM records WHERE collection = ? AND id = ?'
+  );
+  const upsertRow = db.prepare(`
+    INSERT INTO records (collection, id, data, version, deleted, min_lat, max_lat, min_lng, max_lng, time, category, updated_at)
+    VALUES (@collection, @id, @data, @version, @deleted, @minLat, @maxLat, @minLng, @maxLng, @time, @category, @updatedAt)
+    ON CONFLICT (collection, id) DO UPDATE SET
+      data = excluded.data, version = excluded.version, deleted = excluded.deleted,
+      min_lat = excluded.min_lat, max_lat = excluded.max_lat, min_lng = excluded.min_lng, max_lng = excluded.max_lng,
+      time = excluded.time, category = excluded.category, updated_at = excluded.updated_at
+  `);
+  const selectTombstones = db.prepare<[string], { id: string }>(
+    'SELECT id FROM records WHERE collection = ? AND deleted = 1 ORDER BY id'
+  );
+
+  // Write a record (or a tombstone when `record` is null) one version past `row`
+  const writeRow = (collection: CollectionName, id: string, record: StoredRecord | null, row: Row | undefined) => {
+    const version = (row?.version || 0) + 1;
+    const index = record
+      ? COLLECTIONS[collection].index(record)
+      : { minLat: null, maxLat: null, minLng: null, maxLng: null, time: null, category: null };
+    upsertRow.run({
+      collection,
+      id,
+      data: record ? JSON.stringify(record) : null,
+      version,
+      deleted: record ? 0 : 1,
+      ...index,
+      updatedAt: new Date().toISOString()
+    });
+    return toETag(version);
+  };
+
+  const liveRow = (collection: CollectionName, id: string) => {
+    const row = selectRow.get(collection, id);
+    return row && !row.deleted ? row : undefined;
+  };
+
+  // Writing over an existing record needs the version the client last saw
+  const checkPrecondition = (row: Row | undefined, ifMatch: string | undefined) => {
+    if (!row) {
+      if (ifMatch !== undefined) throw new HttpError(412, 'Record does not exist');
+      return;
+    }
+    if (ifMatch === undefined) throw new HttpError(428, 'If-Match is required to change an existing record');
+    if (!matchesETag(ifMatch, row.version)) {
+      throw new HttpError(412, 'Record has changed since it was read', { etag: toETag(row.version) });
+    }
+  };
+
+  const validate = (collection: CollectionName, record: unknown) => {
+    const errors = COLLECTIONS[collection].validate(record);
+    if (errors.length > 0) throw new HttpError(422, 'Record failed validation', { messages: errors });
+    return record as StoredRecord;
+  };
+
+  return {
+    list: (collection: CollectionName, query: ListQuery): ListPage => {
+      const clauses = ['collection = @collection', 'deleted = 0'];
+      const params: Record<string, unknown> = { collection, limit: query.limit + 1 };
+
+      if (query.after !== undefined) {
+        clauses.push('id > @after');
+        params.after = query.after;
+      }
+      if (query.bbox) {
+        const { minLng, minLat, maxLng, maxLat } = query.bbox;
+        clauses.push('max_lat >= @minLat AND min_lat <= @maxLat');
+        // A box crossing the antimeridian matches either side of it
+        clauses.push(minLng <= maxLng ? 'max_lng >= @minLng AND min_lng <= @maxLng' : '(max_lng >= @minLng OR min_lng <= @maxLng)');
+        Object.assign(params, { minLng, minLat, maxLng, maxLat });
+      }
+      // Undated records are always shown on the map, so they match any time range
+      if (query.from) {
+        clauses.push('(time IS NULL OR time >= @from)');
+        params.from = query.from;
+      }
+      if (query.to) {
+        clauses.push('(time IS NULL OR time <= @to)');
+        params.to = query.to;
+      }
+      if (query.category) {
+        clauses.push(`category IN (${query.category.map((_, i) => `@category${i}`).join(', ')})`);
+        query.category.forEach((category, i) => { params[`category${i}`] = category; });
+      }
+
+      const rows = db
+        .prepare<Record<string, unknown>, Row>(
+          `SELECT id, data, version, deleted FROM records WHERE ${clauses.join(' AND ')} ORDER BY id LIMIT @limit`
+        )
+        .all(params);
+
+      // One extra row is fetched to tell whether another page follows
+      const page = rows.slice(0, query.limit);
+      return {
+        items: page.map(toVersioned),
+        nextCursor: rows.length > query.limit ? encodeCursor(page[page.length - 1].id) : null
+      };
+    },
+
+    get: (collection: CollectionName, id: string): VersionedRecord => {
+      const row = liveRow(collection, id);
+      if (!row) throw new HttpError(404, `No ${collection} record "${id}"`);
+      return toVersioned(row);
+    },
+
+    create: (collection: CollectionName, body: unknown): VersionedRecord => {
+      const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+      const id = typeof input.id === 'string' && input.id
+        ? input.id
+        : `${COLLECTIONS[collection].idPrefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const record = validate(collection, { ...input, id });
+
+      return db.transaction(() => {
+        const row = selectRow.get(collection, id);
+        if (row && !row.deleted) throw new HttpError(409, `A ${collection} record "${id}" already exists`);
+        return { record, etag: writeRow(collection, id, record, row) };
+      })();
+    },
+
+    // Create or replace a record
+    put: (collection: CollectionName, id: string, body: unknown, ifMatch?: string): VersionedRecord & { created: boolean } => {
+      const record = validate(collection, body);
+      if (record.id !== id) throw new HttpError(400, 'Record id does not match the URL');
+
+      return db.transaction(() => {
+        const row = selectRow.get(collection, id);
+        const live = row && !row.deleted ? row : undefined;
+        checkPrecondition(live, ifMatch);
+        return { record, etag: writeRow(collection, id, record, row), created: !live };
+      })();
+    },
+
+    // Tombstone a record - also records deletions of ids the server never stored, such as seed data
+    remove: (collection: CollectionName, id: string, ifMatch?: string) => {
+      db.transaction(() => {
+        const row = selectRow.get(collection, id);
+        if (row?.deleted) return;
+        if (row) checkPrecondition(row, ifMatch);
+        writeRow(collection, id, null, row);
+      })();
+    },
+
+    // Insert or replace many records at once, skipping invalid ones. Versions are not checked
+    importRecords: (collection: CollectionName, items: unknown[]): ImportResult => {
+      const result: ImportResult = { imported: 0, errors: [] };
+      db.transaction(() => {
+        items.forEach((item, index) => {
+          const messages = COLLECTIONS[collection].validate(item);
+          const id = (item as { id?: unknown } | null)?.id;
+          if (messages.length > 0) {
+            result.errors.push({ index, id: typeof id === 'string' ? id : undefined, messages });
+            return;
+          }
+          const record = item as StoredRecord;
+          writeRow(collection, record.id, record, selectRow.get(collection, record.id));
+          result.imported++;
+        });
+      })();
+      return result;
+    },
+
+    tombstones: (collection: CollectionName): string[] => selectTombstones.all(collection).map(row => row.id),
+
+    close: () => db.close()
+  };
+};
+
+export type Store = ReturnType<typeof createStore>;